@@ -0,0 +1,145 @@
+/**
+ * MycroZine Page Artwork
+ *
+ * Turns artwork supplied for a page - a scan, a phone photo, an exported
+ * illustration - into a page image: a PNG at the zine's panel size, so it
+ * imposes like a generated page.
+ *
+ * PNG, JPEG, WebP and SVG are read by sharp. PDFs are rasterized with
+ * pdftoppm (poppler-utils), since sharp's prebuilt binaries can't read them.
+ */
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import sharp from 'sharp';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Artwork formats accepted for a page
+ */
+export const ARTWORK_FORMATS = ['png', 'jpeg', 'webp', 'pdf', 'svg'];
+
+/**
+ * How artwork with another aspect ratio than the panel is fitted:
+ * contain (whole artwork, padded with the background) or cover (fills the
+ * panel, the overflow is cropped)
+ */
+export const FIT_MODES = ['contain', 'cover'];
+
+/**
+ * Identify an artwork file from its contents
+ * @param {Buffer} data
+ * @returns {string|null} - One of ARTWORK_FORMATS, or null if unsupported
+ */
+export function detectArtworkFormat(data) {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) {
+    return 'png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (data.length >= 12 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (data.toString('latin1', 0, 1024).includes('%PDF-')) {
+    return 'pdf';
+  }
+  // SVG may start with a BOM, an XML declaration, comments or a doctype
+  if (/^\uFEFF?\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(data.toString('utf8', 0, 4096))) {
+    return 'svg';
+  }
+  return null;
+}
+
+/**
+ * Rasterize one page of a PDF to PNG with pdftoppm
+ *
+ * @param {Buffer} data - PDF contents
+ * @param {number} page - Page number (1-based)
+ * @param {number} size - Pixels on the long side
+ * @returns {Promise<Buffer>}
+ */
+async function rasterizePdf(data, page, size) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mycrozine-pdf-'));
+  try {
+    const input = path.join(dir, 'artwork.pdf');
+    await fs.writeFile(input, data);
+    await execFileAsync('pdftoppm', [
+      '-f', String(page), '-l', String(page),
+      '-scale-to', String(size),
+      '-png', '-singlefile',
+      input, path.join(dir, 'page')
+    ], { timeout: 60000 });
+    return await fs.readFile(path.join(dir, 'page.png'));
+  } catch (error) {
+    if (error.code === 'ENOENT' && error.path === 'pdftoppm') {
+      throw new Error('PDF artwork needs pdftoppm (install poppler-utils)');
+    }
+    if (error.code === 'ENOENT') {
+      throw new Error(`PDF has no page ${page}`);
+    }
+    throw new Error(`Could not read PDF artwork: ${error.stderr?.trim() || error.message}`);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Load artwork into sharp, rasterizing vector formats at a resolution that
+ * covers the panel
+ *
+ * @param {Buffer} data
+ * @param {string} format - One of ARTWORK_FORMATS
+ * @param {number} width - Panel width in pixels
+ * @param {number} height - Panel height in pixels
+ * @param {number} page - PDF page
+ * @returns {Promise<import('sharp').Sharp>}
+ */
+async function loadArtwork(data, format, width, height, page) {
+  if (format === 'pdf') {
+    return sharp(await rasterizePdf(data, page, Math.max(width, height)));
+  }
+  if (format === 'svg') {
+    // SVGs render at 72 DPI by default; scale the density so the longer fit is sharp
+    const { width: svgWidth = width, height: svgHeight = height } = await sharp(data).metadata();
+    const scale = Math.max(width / svgWidth, height / svgHeight);
+    return sharp(data, { density: Math.min(72 * scale, 2400) });
+  }
+  // Phone photos carry their orientation in EXIF
+  return sharp(data).rotate();
+}
+
+/**
+ * Normalize page artwork to a panel-sized PNG
+ *
+ * @param {Buffer} data - Artwork file (PNG, JPEG, WebP, PDF or SVG)
+ * @param {Object} options
+ * @param {number} options.width - Panel width in pixels
+ * @param {number} options.height - Panel height in pixels
+ * @param {string} [options.fit='contain'] - contain or cover (see FIT_MODES)
+ * @param {string} [options.background='#ffffff'] - Paper colour behind transparent areas and contain padding
+ * @param {number} [options.page=1] - Page of a multi-page PDF
+ * @returns {Promise<Buffer>} - PNG, width x height
+ */
+export async function normalizeArtwork(data, { width, height, fit = 'contain', background = '#ffffff', page = 1 }) {
+  if (!FIT_MODES.includes(fit)) {
+    throw new Error(`Unknown fit: ${fit}. Use one of: ${FIT_MODES.join(', ')}`);
+  }
+  const format = detectArtworkFormat(data);
+  if (!format) {
+    throw new Error(`Unsupported artwork format. Use one of: ${ARTWORK_FORMATS.join(', ')}`);
+  }
+
+  const image = await loadArtwork(data, format, width, height, page);
+  return image
+    .flatten({ background })
+    .resize(width, height, { fit, position: 'centre', background })
+    .png()
+    .toBuffer();
+}
+
+export default normalizeArtwork;
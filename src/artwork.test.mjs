@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { detectArtworkFormat, normalizeArtwork } from './artwork.mjs';
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20"><rect width="40" height="20" fill="#ff0000"/></svg>';
+
+function createImage(format, { width = 40, height = 20 } = {}) {
+  return sharp({ create: { width, height, channels: 3, background: '#ff0000' } })[format]().toBuffer();
+}
+
+test('detects artwork formats from their contents', async () => {
+  assert.equal(detectArtworkFormat(await createImage('png')), 'png');
+  assert.equal(detectArtworkFormat(await createImage('jpeg')), 'jpeg');
+  assert.equal(detectArtworkFormat(await createImage('webp')), 'webp');
+  assert.equal(detectArtworkFormat(Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')), 'pdf');
+  assert.equal(detectArtworkFormat(Buffer.from(SVG)), 'svg');
+});
+
+test('detects SVGs behind a BOM, an XML declaration, comments and a doctype', () => {
+  const svg = `\uFEFF<?xml version="1.0" encoding="UTF-8"?>
+<!-- Exported from an illustration app -->
+<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">
+${SVG}`;
+  assert.equal(detectArtworkFormat(Buffer.from(svg)), 'svg');
+});
+
+test('rejects other files', () => {
+  assert.equal(detectArtworkFormat(Buffer.from('GIF89a')), null);
+  assert.equal(detectArtworkFormat(Buffer.from('<html><body><svg></svg></body></html>')), null);
+  assert.equal(detectArtworkFormat(Buffer.from('<?xml version="1.0"?><note/>')), null);
+  assert.equal(detectArtworkFormat(Buffer.alloc(0)), null);
+});
+
+test('normalizes artwork to a panel-sized PNG', async () => {
+  for (const data of [await createImage('jpeg'), Buffer.from(SVG)]) {
+    for (const fit of ['contain', 'cover']) {
+      const png = await normalizeArtwork(data, { width: 30, height: 45, fit });
+      const { format, width, height } = await sharp(png).metadata();
+      assert.deepEqual({ format, width, height }, { format: 'png', width: 30, height: 45 });
+    }
+  }
+});
+
+test('pads contained artwork with the background and fills the panel with cover', async () => {
+  const data = await createImage('png');
+  const corner = async fit => {
+    const png = await normalizeArtwork(data, { width: 30, height: 45, fit, background: '#0000ff' });
+    const { data: pixels } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+    return Array.from(pixels.subarray(0, 3));
+  };
+
+  assert.deepEqual(await corner('contain'), [0, 0, 255]);
+  assert.deepEqual(await corner('cover'), [255, 0, 0]);
+});
+
+test('refuses unsupported files and fits', async () => {
+  await assert.rejects(normalizeArtwork(Buffer.from('GIF89a'), { width: 30, height: 45 }), /Unsupported artwork format/);
+  await assert.rejects(normalizeArtwork(await createImage('png'), { width: 30, height: 45, fit: 'stretch' }), /Unknown fit: stretch/);
+});
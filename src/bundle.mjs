@@ -0,0 +1,243 @@
+/**
+ * MycroZine Bundles
+ *
+ * A .zine bundle is a whole zine in one file, for backups and for moving
+ * zines between instances (e.g. promoting them from staging to production)
+ * or between the web app and the CLI. It's a ZIP archive of the zine
+ * directory:
+ *
+ *   zine.json          Manifest (see manifest.mjs)
+ *   prompts.json       Outline and image prompts, for reference
+ *   pages/p1.png ...   Page images
+ *   pages/history/...  Earlier versions of the pages (see pageHistory in zine.json)
+ *   pages/drafts/...   Candidate page images waiting to be picked (pageDrafts)
+ *   print.png ...      Print layouts (print-2.png, ... for further sides)
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { createZip, readZip } from './zip.mjs';
+import { MANIFEST_FILE, createZineId, parseManifest, readManifest, writeManifest } from './manifest.mjs';
+import { getContentOutlinePrompt, getImagePrompt } from './prompts.mjs';
+
+export const BUNDLE_EXTENSION = '.zine';
+export const PROMPTS_FILE = 'prompts.json';
+
+/**
+ * What to do when an imported zine's id is already taken:
+ * error (default), rename (import under a new id) or overwrite
+ */
+export const CONFLICT_MODES = ['error', 'rename', 'overwrite'];
+
+// Page images and print layouts, as the web app and the CLI name them
+const PAGE_FILE = /^p\d+\.(png|jpe?g|webp)$/;
+const PRINT_FILE = /^print(-\d+)?\.(png|tiff?)$/;
+
+/**
+ * Check a zine id is safe to use as a directory name
+ * @param {string} id
+ * @returns {boolean}
+ */
+export function isValidZineId(id) {
+  return typeof id === 'string' && /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/.test(id);
+}
+
+/**
+ * Check a bundle entry name is a plain relative path (no .., no absolute paths)
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isSafeEntryName(name) {
+  return Boolean(name) &&
+    !name.startsWith('/') &&
+    !name.includes('\\') &&
+    !/^[a-zA-Z]:/.test(name) &&
+    name.split('/').every(part => part && part !== '.' && part !== '..');
+}
+
+/**
+ * The first file path in a manifest that isn't a plain relative path in its
+ * place: page versions belong in pages/history/, drafts in pages/drafts/
+ *
+ * @param {Object} manifest
+ * @returns {string|undefined}
+ */
+function findUnsafeManifestPath(manifest) {
+  const paths = [
+    ...(manifest.pages || []).filter(Boolean).map(file => [file, '']),
+    ...(manifest.printLayout ? [[manifest.printLayout, '']] : []),
+    ...(manifest.pageHistory || []).flatMap(history => history?.versions || []).map(({ image }) => [image, 'pages/history/']),
+    ...(manifest.pageDrafts || []).flatMap(drafts => drafts || []).map(({ image }) => [image, 'pages/drafts/'])
+  ];
+  return paths.find(([file, prefix]) => !isSafeEntryName(file) || !file.startsWith(prefix))?.[0];
+}
+
+/**
+ * Outline and image prompts for a zine, as stored in prompts.json
+ * @param {Object} manifest
+ * @returns {Object}
+ */
+function getBundlePrompts(manifest) {
+  const { topic, style, tone, pageCount, outline, textOverlay } = manifest;
+  return {
+    outline: getContentOutlinePrompt({ topic, style, tone, pageCount }),
+    pages: (outline || []).map(page => ({
+      pageNumber: page.pageNumber,
+      title: page.title,
+      imagePrompt: page.imagePrompt,
+      prompt: getImagePrompt({ pageNumber: page.pageNumber, pageCount, zineTopic: topic, pageOutline: page, style, textOverlay })
+    }))
+  };
+}
+
+/**
+ * Pack a zine directory into a .zine bundle
+ *
+ * @param {string} dir - Zine directory (zine.json, or a legacy metadata.json, which is migrated)
+ * @returns {Promise<Buffer>} - Bundle contents
+ */
+export async function createBundle(dir) {
+  const { manifest } = await readManifest(dir);
+  const entries = [
+    { name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) + '\n' },
+    { name: PROMPTS_FILE, data: JSON.stringify(getBundlePrompts(manifest), null, 2) + '\n' }
+  ];
+
+  const pageFiles = await fs.readdir(path.join(dir, 'pages')).catch(() => []);
+  const rootFiles = await fs.readdir(dir);
+  const files = [
+    ...pageFiles.filter(file => PAGE_FILE.test(file)).sort().map(file => `pages/${file}`),
+    ...rootFiles.filter(file => PRINT_FILE.test(file)).sort()
+  ];
+  // Earlier versions and drafts of the pages, as the manifest lists them
+  const pageImages = [
+    ...(manifest.pageHistory || []).flatMap(history => history?.versions || []),
+    ...(manifest.pageDrafts || []).flatMap(drafts => drafts || [])
+  ];
+  for (const { image } of pageImages) {
+    if (isSafeEntryName(image) && !files.includes(image)) {
+      files.push(image);
+    }
+  }
+  // A print layout stored somewhere else in the zine (e.g. the CLI's output/)
+  if (manifest.printLayout && isSafeEntryName(manifest.printLayout) && !files.includes(manifest.printLayout)) {
+    files.push(manifest.printLayout);
+  }
+
+  for (const name of files) {
+    const filePath = path.join(dir, ...name.split('/'));
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (stat?.isFile()) {
+      entries.push({ name, data: await fs.readFile(filePath), modified: stat.mtime });
+    }
+  }
+
+  return createZip(entries);
+}
+
+/**
+ * Read a .zine bundle without writing anything
+ *
+ * @param {Buffer} data - Bundle contents
+ * @returns {{ manifest: Object, files: { name: string, data: Buffer }[] }}
+ *   manifest is migrated and validated; files are the other entries (prompts.json excluded)
+ */
+export function readBundle(data) {
+  let entries;
+  try {
+    entries = readZip(data);
+  } catch (error) {
+    throw new Error(`Invalid zine bundle: ${error.message}`);
+  }
+
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_FILE);
+  if (!manifestEntry) {
+    throw new Error(`Invalid zine bundle: no ${MANIFEST_FILE}`);
+  }
+  const unsafe = entries.find(entry => !isSafeEntryName(entry.name));
+  if (unsafe) {
+    throw new Error(`Invalid zine bundle: unsafe path ${unsafe.name}`);
+  }
+
+  let json;
+  try {
+    json = JSON.parse(manifestEntry.data.toString('utf8'));
+  } catch (error) {
+    throw new Error(`Invalid zine bundle: ${MANIFEST_FILE} is not valid JSON (${error.message})`);
+  }
+
+  const manifest = parseManifest(json);
+  const unsafePath = findUnsafeManifestPath(manifest);
+  if (unsafePath !== undefined) {
+    throw new Error(`Invalid zine bundle: unsafe path ${unsafePath} in ${MANIFEST_FILE}`);
+  }
+
+  return {
+    manifest,
+    files: entries
+      .filter(entry => entry.name !== MANIFEST_FILE && entry.name !== PROMPTS_FILE)
+      .map(({ name, data }) => ({ name, data }))
+  };
+}
+
+/**
+ * Unpack a .zine bundle into a directory of zines, one subdirectory per id
+ * (the web app's data/zines/ layout)
+ *
+ * The bundle is unpacked next to the target first and moved into place, so
+ * a failed import never leaves a half-written zine behind.
+ *
+ * @param {Buffer} data - Bundle contents
+ * @param {string} zinesDir - Directory holding the zines
+ * @param {Object} [options]
+ * @param {string} [options.id] - Import under this id (default: the bundle's)
+ * @param {string} [options.conflict='error'] - When the id is taken: error, rename or overwrite
+ * @param {() => string} [options.createId] - Id generator for rename (default: createZineId)
+ * @returns {Promise<{ id: string, dir: string, manifest: Object, renamed: boolean, replaced: boolean }>}
+ */
+export async function importBundle(data, zinesDir, { id, conflict = 'error', createId = createZineId } = {}) {
+  if (!CONFLICT_MODES.includes(conflict)) {
+    throw new Error(`Unknown conflict mode: ${conflict}. Use one of: ${CONFLICT_MODES.join(', ')}`);
+  }
+
+  const { manifest, files } = readBundle(data);
+  let targetId = id || manifest.id;
+  if (!isValidZineId(targetId)) {
+    throw new Error(`Invalid zine id: ${targetId} (letters, digits, - and _ only)`);
+  }
+
+  const exists = zineId => fs.access(path.join(zinesDir, zineId)).then(() => true, () => false);
+  const taken = await exists(targetId);
+  if (taken && conflict === 'error') {
+    throw new Error(`Zine ${targetId} already exists (import with conflict rename or overwrite)`);
+  }
+  if (taken && conflict === 'rename') {
+    do {
+      targetId = createId();
+    } while (await exists(targetId));
+  }
+
+  const dir = path.join(zinesDir, targetId);
+  const staging = path.join(zinesDir, `.import-${targetId}-${process.pid}-${Date.now()}`);
+  try {
+    for (const file of files) {
+      const filePath = path.join(staging, ...file.name.split('/'));
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.data);
+    }
+    const written = await writeManifest(staging, { ...manifest, id: targetId });
+
+    const replaced = taken && conflict === 'overwrite';
+    if (replaced) {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+    await fs.rename(staging, dir);
+
+    return { id: targetId, dir, manifest: written, renamed: targetId !== manifest.id, replaced };
+  } catch (error) {
+    await fs.rm(staging, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+export default createBundle;
@@ -0,0 +1,128 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { createZip } from './zip.mjs';
+import { createBundle, importBundle, readBundle } from './bundle.mjs';
+
+const NOW = '2026-01-01T00:00:00.000Z';
+const PNG = Buffer.from('89504e470d0a1a0a', 'hex');
+
+function createManifest(overrides = {}) {
+  return {
+    version: 1,
+    id: 'zine-1',
+    topic: 'Mycelium',
+    title: 'Mycelium',
+    style: 'punk-zine',
+    tone: 'rebellious',
+    pageCount: 8,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides
+  };
+}
+
+function listPages(first) {
+  return [first, ...Array.from({ length: 7 }, (_, i) => `pages/p${i + 2}.png`)];
+}
+
+function createTestBundle(manifest, files = []) {
+  return createZip([
+    { name: 'zine.json', data: JSON.stringify(manifest) },
+    ...files
+  ]);
+}
+
+let zinesDir;
+
+beforeEach(async () => {
+  zinesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mycrozine-bundle-'));
+});
+
+afterEach(async () => {
+  await fs.rm(zinesDir, { recursive: true, force: true });
+});
+
+test('imports a bundle under its id', async () => {
+  const data = createTestBundle(createManifest({ pages: listPages('pages/p1.png') }), [{ name: 'pages/p1.png', data: PNG }]);
+
+  const { id, dir, renamed, replaced } = await importBundle(data, zinesDir);
+
+  assert.equal(id, 'zine-1');
+  assert.equal(renamed, false);
+  assert.equal(replaced, false);
+  assert.deepEqual(await fs.readFile(path.join(dir, 'pages', 'p1.png')), PNG);
+  assert.equal(JSON.parse(await fs.readFile(path.join(dir, 'zine.json'), 'utf8')).id, 'zine-1');
+});
+
+test('round-trips a zine through createBundle', async () => {
+  const source = path.join(zinesDir, 'source');
+  await fs.mkdir(path.join(source, 'pages', 'history'), { recursive: true });
+  await fs.writeFile(path.join(source, 'pages', 'p1.png'), PNG);
+  await fs.writeFile(path.join(source, 'pages', 'history', 'p1-v1.png'), PNG);
+  await fs.writeFile(path.join(source, 'zine.json'), JSON.stringify(createManifest({
+    id: 'source',
+    pageHistory: [{ current: 1, versions: [{ version: 1, image: 'pages/history/p1-v1.png', createdAt: NOW }] }]
+  })));
+
+  const { files } = readBundle(await createBundle(source));
+
+  assert.deepEqual(files.map(file => file.name).sort(), ['pages/history/p1-v1.png', 'pages/p1.png']);
+});
+
+test('refuses, renames or overwrites a taken id', async () => {
+  const data = createTestBundle(createManifest());
+  await importBundle(data, zinesDir);
+
+  await assert.rejects(importBundle(data, zinesDir), /already exists/);
+
+  const renamed = await importBundle(data, zinesDir, { conflict: 'rename', createId: () => 'zine-2' });
+  assert.equal(renamed.id, 'zine-2');
+  assert.equal(renamed.renamed, true);
+
+  await fs.writeFile(path.join(zinesDir, 'zine-1', 'stale.png'), PNG);
+  const replaced = await importBundle(data, zinesDir, { conflict: 'overwrite' });
+  assert.equal(replaced.replaced, true);
+  await assert.rejects(fs.access(path.join(zinesDir, 'zine-1', 'stale.png')));
+
+  await assert.rejects(importBundle(data, zinesDir, { conflict: 'merge' }), /Unknown conflict mode/);
+});
+
+test('rejects entries that lead out of the zine', async () => {
+  for (const name of ['../evil.png', '/etc/evil.png', 'pages/../../evil.png', 'pages\\..\\evil.png', 'C:/evil.png']) {
+    const data = createTestBundle(createManifest(), [{ name, data: PNG }]);
+    await assert.rejects(importBundle(data, zinesDir), /unsafe path/, name);
+  }
+  assert.deepEqual(await fs.readdir(zinesDir), []);
+});
+
+test('rejects manifests that point out of the zine', async () => {
+  const hostile = [
+    { pages: listPages('../../outside.png') },
+    { pages: listPages('/etc/passwd') },
+    { printLayout: '../print.png' },
+    { printLayout: '/etc/passwd' },
+    { pageHistory: [{ current: 1, versions: [{ version: 1, image: '../../../../etc/passwd', createdAt: NOW }] }] },
+    { pageHistory: [{ current: 1, versions: [{ version: 1, image: 'zine.json', createdAt: NOW }] }] },
+    { pageDrafts: [[{ draft: 1, image: '../../other-zine/zine.json', createdAt: NOW }]] }
+  ];
+  for (const overrides of hostile) {
+    const data = createTestBundle(createManifest(overrides));
+    await assert.rejects(importBundle(data, zinesDir), /unsafe path|Invalid zine manifest/, JSON.stringify(overrides));
+  }
+  assert.deepEqual(await fs.readdir(zinesDir), []);
+});
+
+test('rejects bundles without a valid manifest', async () => {
+  assert.throws(() => readBundle(Buffer.from('not a zip')), /Invalid zine bundle/);
+  assert.throws(() => readBundle(createZip([{ name: 'pages/p1.png', data: PNG }])), /no zine.json/);
+  assert.throws(() => readBundle(createZip([{ name: 'zine.json', data: '{' }])), /not valid JSON/);
+});
+
+test('rejects unsafe zine ids', async () => {
+  const data = createTestBundle(createManifest({ id: '../escape' }));
+  await assert.rejects(importBundle(data, zinesDir), /Invalid zine id/);
+  await assert.rejects(importBundle(createTestBundle(createManifest()), zinesDir, { id: '.hidden' }), /Invalid zine id/);
+});
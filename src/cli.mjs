@@ -0,0 +1,840 @@
+#!/usr/bin/env node
+/**
+ * MycroZine CLI
+ *
+ * One entry point for scripting zine production: every subcommand works on a
+ * zine project (zine.json + pages/, see project.mjs) and prints a single JSON
+ * object to stdout. Progress messages go to stderr, so output can be piped
+ * straight into jq or the next step.
+ *
+ *   mycrozine init "mycelial networks" --style punk-zine
+ *   mycrozine outline | jq -r .prompt | llm | mycrozine outline --set -
+ *   mycrozine generate | jq -c '.pages[]'
+ *   mycrozine layout --format pdf --marks
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { createPrintLayout, createReaderPdf, parseLayoutArgs, LAYOUT_OPTIONS_HELP } from './layout.mjs';
+import { generateQRCode } from './qrcode.mjs';
+import {
+  getContentOutlinePrompt,
+  getImagePrompt,
+  getDefaultStructure,
+  getStructureTemplates,
+  ZINE_STRUCTURES
+} from './prompts.mjs';
+import {
+  BUILT_IN_STYLES,
+  BUILT_IN_TONES,
+  DEFAULT_STYLES_DIR,
+  getStyle,
+  getTone,
+  resolveStyle,
+  listStyles,
+  listTones,
+  getDefaultStyle,
+  getStyleReferencePaths,
+  loadStyles,
+  saveStyle,
+  deleteStyle,
+  saveTone,
+  deleteTone,
+  addStyleReference,
+  removeStyleReference
+} from './styles.mjs';
+import { PAGE_COUNTS, getDefaultScheme } from './imposition.mjs';
+import { parsePaperFormat } from './paper.mjs';
+import { BUNDLE_EXTENSION, CONFLICT_MODES, createBundle, importBundle } from './bundle.mjs';
+import { normalizeTransform, isDefaultTransform } from './transform.mjs';
+import { createTextLayer, normalizeTextLayer, isEmptyTextLayer } from './text.mjs';
+import { assignPageTemplates, createTemplateTextLayer, getPageTemplate, renderTemplatePage } from './templates.mjs';
+import { createStyleBible, getZineSeed, parseStyleBible, selectReferencePages } from './consistency.mjs';
+import {
+  PROJECT_FILE,
+  PAGES_DIR,
+  OUTPUT_DIR,
+  initProject,
+  loadProject,
+  saveProject,
+  getProjectPageCount,
+  getPagePath,
+  findProjectPages,
+  parseOutline,
+  validateProject
+} from './project.mjs';
+
+const HELP = `
+MycroZine CLI
+
+Usage:
+  mycrozine <command> [options]
+
+Commands:
+  init [topic]          Create a zine project (${PROJECT_FILE} + ${PAGES_DIR}/)
+    --topic <text>        Main topic (or the first argument)
+    --title <text>        Title (default: the topic in capitals)
+    --style <name>        ${Object.keys(BUILT_IN_STYLES).join(', ')} or your own (see styles; default: the house style)
+    --tone <name>         ${Object.keys(BUILT_IN_TONES).join(', ')} or your own
+    --pages <n>           Page count: ${PAGE_COUNTS.join(', ')} (default: 8)
+    --structure <name>    ${Object.keys(ZINE_STRUCTURES).join(', ')}, or page templates in order: cover,intro,...,cta
+                          (default: the tone's)
+    --paper <format>      letter, a4, ... or WxH[mm|in] (default: letter)
+    --dpi <number>        Print resolution (default: 300)
+    --source-url <url>    Reference URL (repeat for several)
+    --force               Overwrite an existing ${PROJECT_FILE}
+  outline               Print the content outline prompt and the current outline
+    --source <file>       Reference content to include in the prompt
+    --set <file|->        Save an outline (JSON array of pages, or { pages }) from a file or stdin;
+                          each page gets its structure's template and type
+    --structure <name>    Change the structure (as for init) for the prompt and the next --set
+  generate              Image prompt, target path, seed and reference pages for each page
+    --page <n>            Only this page
+    --feedback <text>     Feedback to fold into the prompts
+  bible                 The style bible (palette, characters, motifs) every page prompt gets (no options: show it)
+    --from-cover          Take the palette from ${PAGES_DIR}/p1 (replaces the palette; keeps the rest unless given)
+    --palette <hex,...>   Set the palette, e.g. #111111,#ff3300
+    --character <text>    A recurring character (repeat for several; replaces the list)
+    --motif <text>        A recurring motif (repeat for several; replaces the list)
+    --notes <text>        Anything else pages should keep, e.g. line weight
+    --clear               Remove the style bible
+  transform <page>      Fit, zoom, pan and rotate a page within its panel (stored in ${PROJECT_FILE}; no options: show it)
+    --fit <mode>          contain (default: the whole page) or cover (fill the panel, cropping)
+    --scale <n>           Zoom on top of the fit, e.g. 1.2
+    --offset-x <n>        Pan right by a fraction of the panel width (negative: left)
+    --offset-y <n>        Pan down by a fraction of the panel height (negative: up)
+    --rotate <degrees>    Rotate clockwise
+    --reset               Back to the default (whole page, centred)
+  text [page]           Title, body and caption text set over a page's art at layout time (no options: show it)
+    --set <file|->        Save a text layer ({ blocks: [...] } JSON, see text.mjs) from a file or stdin
+    --from-outline        Build it from the outline's title, key points and hashtags (no page: every page);
+                          image prompts then ask for art without lettering
+    --clear               Remove the page's text
+  render [page]         Draw page images from their outline templates, no image model needed (no page: every page
+                        without an image); the words go in text layers, ready to edit
+    --force               Redraw pages that have an image, and replace their text
+  layout                Impose ${PAGES_DIR}/p1.png ... into a print layout (in ${OUTPUT_DIR}/)
+                        Takes the layout options below; paper, DPI and style default to ${PROJECT_FILE}'s
+  qr [data...]          QR codes for URLs or text (default: the project's source URLs)
+    --output, -o <path>   Output file (one QR code only; default: ${OUTPUT_DIR}/qrcodes/)
+    --color <hex>         QR code color (default: the project style's, #000000 for punk-zine)
+    --bg <hex>            Background color (default: the project style's, #00ff00 for punk-zine)
+    --width <pixels>      Width in pixels (default: 300)
+  export                Reader-order PDF, one zine page per PDF page (in ${OUTPUT_DIR}/)
+    --output, -o <path>   Output file (a ${BUNDLE_EXTENSION} file name exports a bundle)
+    --format <name>       pdf (default) or zine: the whole project as one ${BUNDLE_EXTENSION} archive
+    --scheme <name>       Imposition scheme, sets the page size (default: the page count's)
+  import <file>         Unpack a ${BUNDLE_EXTENSION} bundle into <dir>/<id> (e.g. the web app's data/zines)
+    --id <id>             Import under this id (default: the bundle's)
+    --on-conflict <mode>  When the id is taken: ${CONFLICT_MODES.join(', ')} (default: error)
+  styles [name]         List the styles and tones, or show one. Your own live in ${DEFAULT_STYLES_DIR}/styles
+                        and /tones (set MYCROZINE_HOME to move them)
+    --tone                Work on tones instead of styles
+    --set <file|->        Save a style or tone (JSON: prompt, palette, fonts, texture, qr, see styles.mjs)
+                          from a file or stdin, named after [name] or its own name field
+    --default             Make the style the house style, which new zines get
+    --delete              Delete the style or tone
+    --add-reference <image>   Add a reference image to the style
+    --remove-reference <file> Remove one of the style's reference images
+  validate              Check ${PROJECT_FILE}, its outline and page images (exit code 1 if invalid)
+  migrate               Rewrite an older ${PROJECT_FILE} or web app metadata.json in the current format
+
+Global options:
+  --dir, -C <path>      Project directory (default: current directory)
+  --help, -h            Show this help message
+
+Layout options:
+${LAYOUT_OPTIONS_HELP}
+
+Examples:
+  mycrozine init "community mesh networks" --tone informative -C mesh-zine
+  mycrozine outline -C mesh-zine --set outline.json
+  mycrozine outline -C mesh-zine --structure cover,intro,process,process,comparison,concept,resources,cta
+  mycrozine generate -C mesh-zine --page 1
+  mycrozine bible -C mesh-zine --from-cover --character "a fox in a hi-vis vest" --motif "antenna masts"
+  mycrozine transform 3 --fit cover --scale 1.2 --offset-y -0.1 -C mesh-zine
+  mycrozine text --from-outline -C mesh-zine
+  mycrozine render -C mesh-zine
+  mycrozine layout -C mesh-zine --format pdf --marks
+  mycrozine qr https://example.org -C mesh-zine
+  mycrozine styles house --set house-style.json --default
+  mycrozine validate -C mesh-zine && mycrozine export -C mesh-zine
+  mycrozine export -C mesh-zine -o mesh.zine && mycrozine import mesh.zine -C data/zines
+`;
+
+/**
+ * Split command-line arguments into flags and positional arguments
+ *
+ * @param {string[]} args
+ * @param {Object} spec
+ * @param {string[]} [spec.values] - Flags that take a value (long names, without --)
+ * @param {string[]} [spec.repeated] - Flags that take a value and may repeat (collected into arrays)
+ * @param {string[]} [spec.switches] - Flags without a value
+ * @param {Object} [spec.aliases] - Short flags, e.g. { o: 'output' }
+ * @returns {{ flags: Object, positional: string[] }}
+ */
+function parseFlags(args, { values = [], repeated = [], switches = [], aliases = {} }) {
+  const flags = {};
+  const positional = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-') || arg === '-') {
+      positional.push(arg);
+      continue;
+    }
+
+    const name = arg.startsWith('--') ? arg.slice(2) : aliases[arg.slice(1)];
+    if (switches.includes(name)) {
+      flags[name] = true;
+    } else if (values.includes(name) || repeated.includes(name)) {
+      if (i + 1 >= args.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      const value = args[++i];
+      flags[name] = repeated.includes(name) ? [...(flags[name] || []), value] : value;
+    } else {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return { flags, positional };
+}
+
+/**
+ * Parse a whole-number flag
+ * @param {string} [value]
+ * @param {string} name - Flag name, for the error message
+ * @returns {number|undefined}
+ */
+function parseInteger(value, name) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new Error(`--${name} must be a whole number, got ${value}`);
+  }
+  return number;
+}
+
+/**
+ * File-safe version of a title, e.g. "THE UNDERNET" -> the_undernet
+ * @param {string} name
+ * @returns {string}
+ */
+function slugify(name) {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').replace(/_+/g, '_').toLowerCase().slice(0, 60) || 'mycrozine';
+}
+
+/**
+ * Parse a --structure flag: a structure name, or page templates separated by commas
+ * @param {string} [value]
+ * @returns {string|string[]|undefined}
+ */
+function parseStructure(value) {
+  if (value === undefined || !value.includes(',')) {
+    return value;
+  }
+  return value.split(',').map(name => name.trim());
+}
+
+/**
+ * Read all of stdin as text
+ * @returns {Promise<string>}
+ */
+async function readStdin() {
+  const chunks = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Load the project and check every page image is there
+ * @param {string} dir - Project directory
+ * @returns {Promise<{ project: Object, pages: string[] }>}
+ */
+async function loadCompleteProject(dir) {
+  const project = await loadProject(dir);
+  const pages = await findProjectPages(project);
+  const missing = pages.flatMap((page, i) => (page ? [] : [`p${i + 1}`]));
+  if (missing.length > 0) {
+    throw new Error(`Missing page images in ${path.join(dir, PAGES_DIR)}: ${missing.join(', ')}`);
+  }
+  return { project, pages };
+}
+
+/**
+ * Size of a project's panels, from its paper and the page count's default scheme
+ * @param {Object} config - zine.json
+ * @param {number} pageCount
+ * @returns {{ width: number, height: number }} - Inches
+ */
+function getProjectPanel(config, pageCount) {
+  const { grid, paperFormat: schemePaper } = getDefaultScheme(pageCount);
+  const { widthIn, heightIn } = parsePaperFormat(config.paperFormat || schemePaper || 'letter');
+  return { width: widthIn / grid.cols, height: heightIn / grid.rows };
+}
+
+/**
+ * Store a project's text layers, leaving out pages without text
+ * @param {Object} project
+ * @param {(Object|null)[]} layers - One per page
+ */
+function setProjectTextLayers(project, layers) {
+  const stored = layers.map(layer => (layer && !isEmptyTextLayer(layer) ? layer : null));
+  while (stored.length > 0 && !stored[stored.length - 1]) {
+    stored.pop();
+  }
+  project.config.textLayers = stored;
+}
+
+const COMMANDS = {
+  async init(dir, args) {
+    const { flags, positional } = parseFlags(args, {
+      values: ['topic', 'title', 'style', 'tone', 'pages', 'paper', 'dpi', 'structure'],
+      repeated: ['source-url'],
+      switches: ['force']
+    });
+    const topic = flags.topic || positional.join(' ');
+    if (!topic) {
+      throw new Error('A topic is required: mycrozine init "<topic>"');
+    }
+
+    const { config } = await initProject(dir, {
+      topic,
+      title: flags.title,
+      style: flags.style,
+      tone: flags.tone,
+      pageCount: parseInteger(flags.pages, 'pages'),
+      structure: parseStructure(flags.structure),
+      paperFormat: flags.paper,
+      dpi: parseInteger(flags.dpi, 'dpi'),
+      sourceUrls: flags['source-url']
+    }, { force: flags.force });
+
+    return { dir: path.resolve(dir), config };
+  },
+
+  async outline(dir, args) {
+    const { flags } = parseFlags(args, { values: ['set', 'source', 'structure'] });
+    const project = await loadProject(dir);
+    const pageCount = getProjectPageCount(project);
+
+    const { topic, style, tone } = project.config;
+    if (flags.structure) {
+      const structure = parseStructure(flags.structure);
+      getStructureTemplates(structure, pageCount);
+      project.config.structure = structure;
+      await saveProject(project);
+    }
+    const structure = project.config.structure || getDefaultStructure(tone);
+
+    if (flags.set) {
+      const text = flags.set === '-' ? await readStdin() : await fs.readFile(flags.set, 'utf8');
+      project.config.outline = assignPageTemplates(parseOutline(text, pageCount), structure);
+      project.config.structure = structure;
+      await saveProject(project);
+      return { structure, outline: project.config.outline };
+    }
+
+    const sourceContent = flags.source ? await fs.readFile(flags.source, 'utf8') : null;
+    return {
+      prompt: getContentOutlinePrompt({ topic, style, tone, sourceContent, pageCount, structure }),
+      structure,
+      outline: project.config.outline ?? null
+    };
+  },
+
+  async generate(dir, args) {
+    const { flags } = parseFlags(args, { values: ['page', 'feedback'] });
+    const project = await loadProject(dir);
+    const { outline, topic, style } = project.config;
+    const pageCount = getProjectPageCount(project);
+    if (!Array.isArray(outline) || outline.length !== pageCount) {
+      throw new Error('The project has no outline yet. Save one with: mycrozine outline --set <file>');
+    }
+
+    const only = parseInteger(flags.page, 'page');
+    if (only !== undefined && !(only >= 1 && only <= pageCount)) {
+      throw new Error(`--page must be between 1 and ${pageCount}`);
+    }
+
+    const existing = await findProjectPages(project);
+    const available = existing.flatMap((file, i) => (file ? [i + 1] : []));
+    const pages = outline
+      .filter(page => only === undefined || page.pageNumber === only)
+      .map(page => ({
+        pageNumber: page.pageNumber,
+        title: page.title,
+        path: existing[page.pageNumber - 1] || getPagePath(project, page.pageNumber),
+        exists: Boolean(existing[page.pageNumber - 1]),
+        prompt: getImagePrompt({
+          pageNumber: page.pageNumber,
+          pageCount,
+          zineTopic: topic,
+          pageOutline: page,
+          style,
+          feedback: flags.feedback,
+          textOverlay: project.config.textOverlay,
+          styleBible: project.config.styleBible
+        }),
+        // Earlier images to pass along, so the page matches the rest of the zine
+        references: selectReferencePages(page.pageNumber, available).map(number => existing[number - 1])
+      }));
+
+    return { seed: getZineSeed(project.config), pages };
+  },
+
+  async bible(dir, args) {
+    const { flags } = parseFlags(args, {
+      values: ['palette', 'notes'],
+      repeated: ['character', 'motif'],
+      switches: ['from-cover', 'clear']
+    });
+    const project = await loadProject(dir);
+    const current = project.config.styleBible;
+    const changes = Object.fromEntries(Object.entries({
+      palette: flags.palette?.split(',').map(color => color.trim()).filter(Boolean),
+      characters: flags.character,
+      motifs: flags.motif,
+      notes: flags.notes
+    }).filter(([, value]) => value !== undefined));
+
+    if (flags.clear) {
+      if (flags['from-cover'] || Object.keys(changes).length > 0) {
+        throw new Error('--clear takes no other options');
+      }
+      delete project.config.styleBible;
+      await saveProject(project);
+      return { styleBible: null, seed: getZineSeed(project.config) };
+    }
+    if (!flags['from-cover'] && Object.keys(changes).length === 0) {
+      return { styleBible: current ?? null, seed: getZineSeed(project.config) };
+    }
+
+    let bible;
+    if (flags['from-cover']) {
+      const [cover] = await findProjectPages(project);
+      if (!cover) {
+        throw new Error(`The cover has no image yet (${PAGES_DIR}/p1.png)`);
+      }
+      if (changes.palette) {
+        throw new Error('Use --from-cover or --palette, not both');
+      }
+      const { characters, motifs, notes } = { ...current, ...changes };
+      bible = await createStyleBible(await fs.readFile(cover), { characters, motifs, notes });
+    } else {
+      // Edited by hand, so it's the user's now
+      bible = parseStyleBible({ ...current, ...changes, source: 'user', createdAt: new Date().toISOString() });
+    }
+    project.config.styleBible = bible;
+    await saveProject(project);
+
+    return { styleBible: project.config.styleBible, seed: getZineSeed(project.config) };
+  },
+
+  async transform(dir, args) {
+    const { flags, positional } = parseFlags(args, {
+      values: ['fit', 'scale', 'offset-x', 'offset-y', 'rotate'],
+      switches: ['reset']
+    });
+    const project = await loadProject(dir);
+    const pageCount = getProjectPageCount(project);
+    const pageNumber = parseInteger(positional[0], 'page');
+    if (positional.length !== 1 || !(pageNumber >= 1 && pageNumber <= pageCount)) {
+      throw new Error(`Give one page number from 1 to ${pageCount}: mycrozine transform <page>`);
+    }
+
+    const transforms = [...(project.config.pageTransforms || [])];
+    const parseNumber = (name) => {
+      if (flags[name] === undefined) {
+        return undefined;
+      }
+      const number = Number(flags[name]);
+      if (!Number.isFinite(number)) {
+        throw new Error(`--${name} must be a number, got ${flags[name]}`);
+      }
+      return number;
+    };
+    const changes = Object.fromEntries(Object.entries({
+      fit: flags.fit,
+      scale: parseNumber('scale'),
+      offsetX: parseNumber('offset-x'),
+      offsetY: parseNumber('offset-y'),
+      rotation: parseNumber('rotate')
+    }).filter(([, value]) => value !== undefined));
+
+    if (!flags.reset && Object.keys(changes).length === 0) {
+      return { pageNumber, transform: normalizeTransform(transforms[pageNumber - 1]) };
+    }
+
+    const transform = flags.reset ? null : normalizeTransform({ ...transforms[pageNumber - 1], ...changes });
+    transforms[pageNumber - 1] = transform && !isDefaultTransform(transform) ? transform : null;
+    // Trailing defaults needn't be stored
+    while (transforms.length > 0 && !transforms[transforms.length - 1]) {
+      transforms.pop();
+    }
+    project.config.pageTransforms = transforms;
+    await saveProject(project);
+
+    return { pageNumber, transform: normalizeTransform(transforms[pageNumber - 1]) };
+  },
+
+  async text(dir, args) {
+    const { flags, positional } = parseFlags(args, { values: ['set'], switches: ['from-outline', 'clear'] });
+    const project = await loadProject(dir);
+    const pageCount = getProjectPageCount(project);
+    const pageNumber = parseInteger(positional[0], 'page');
+    const allPages = positional.length === 0 && flags['from-outline'];
+    if (!allPages && (positional.length !== 1 || !(pageNumber >= 1 && pageNumber <= pageCount))) {
+      throw new Error(`Give one page number from 1 to ${pageCount}: mycrozine text <page>`);
+    }
+    if ([flags.set, flags['from-outline'], flags.clear].filter(Boolean).length > 1) {
+      throw new Error('Use one of --set, --from-outline or --clear');
+    }
+
+    const layers = Array.from({ length: pageCount }, (_, i) => project.config.textLayers?.[i] ?? null);
+    const show = (page) => ({ pageNumber: page, layer: normalizeTextLayer(layers[page - 1]) });
+    if (!flags.set && !flags['from-outline'] && !flags.clear) {
+      return show(pageNumber);
+    }
+
+    if (flags['from-outline']) {
+      const { outline, style } = project.config;
+      if (!Array.isArray(outline) || outline.length !== pageCount) {
+        throw new Error('The project has no outline yet. Save one with: mycrozine outline --set <file>');
+      }
+      // Blocks are stacked for the panel the zine prints on
+      const panel = getProjectPanel(project.config, pageCount);
+      for (const page of outline) {
+        if (allPages || page.pageNumber === pageNumber) {
+          layers[page.pageNumber - 1] = createTextLayer(page, { style, panel });
+        }
+      }
+      // The text is set by MycroZine now, so the art should come without lettering
+      project.config.textOverlay = true;
+    } else if (flags.set) {
+      const text = flags.set === '-' ? await readStdin() : await fs.readFile(flags.set, 'utf8');
+      let layer;
+      try {
+        layer = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Text layer is not valid JSON: ${error.message}`);
+      }
+      layers[pageNumber - 1] = normalizeTextLayer(Array.isArray(layer) ? { blocks: layer } : layer);
+    } else {
+      layers[pageNumber - 1] = null;
+    }
+
+    setProjectTextLayers(project, layers);
+    await saveProject(project);
+
+    return allPages
+      ? { pages: layers.map((_, i) => show(i + 1)), textOverlay: true }
+      : show(pageNumber);
+  },
+
+  async render(dir, args) {
+    const { flags, positional } = parseFlags(args, { switches: ['force'] });
+    const project = await loadProject(dir);
+    const { outline, style, dpi = 300 } = project.config;
+    const pageCount = getProjectPageCount(project);
+    if (!Array.isArray(outline) || outline.length !== pageCount) {
+      throw new Error('The project has no outline yet. Save one with: mycrozine outline --set <file>');
+    }
+    const only = parseInteger(positional[0], 'page');
+    if (positional.length > 1 || (only !== undefined && !(only >= 1 && only <= pageCount))) {
+      throw new Error(`Give at most one page number from 1 to ${pageCount}: mycrozine render [page]`);
+    }
+
+    const panel = getProjectPanel(project.config, pageCount);
+    const width = Math.round(panel.width * dpi);
+    const height = Math.round(panel.height * dpi);
+    const existing = await findProjectPages(project);
+    const layers = Array.from({ length: pageCount }, (_, i) => project.config.textLayers?.[i] ?? null);
+    const pages = [];
+
+    for (const page of outline) {
+      const index = page.pageNumber - 1;
+      if ((only !== undefined && page.pageNumber !== only) || (existing[index] && !flags.force && only === undefined)) {
+        continue;
+      }
+      if (existing[index] && !flags.force) {
+        throw new Error(`Page ${page.pageNumber} already has an image (${existing[index]}); use --force to redraw it`);
+      }
+
+      const template = getPageTemplate(page);
+      const pagePath = getPagePath(project, page.pageNumber);
+      await fs.mkdir(path.dirname(pagePath), { recursive: true });
+      await fs.writeFile(pagePath, await renderTemplatePage(page, { width, height, dpi, template, style, withText: false }));
+      // An image of another type would be found first
+      if (existing[index] && existing[index] !== pagePath) {
+        await fs.rm(existing[index]);
+      }
+      // Text someone already set stays, unless the page is redrawn on purpose
+      if (flags.force || !layers[index]) {
+        layers[index] = createTemplateTextLayer(page, { template, style, panel });
+      }
+      pages.push({ pageNumber: page.pageNumber, template, path: pagePath });
+    }
+
+    setProjectTextLayers(project, layers);
+    project.config.textOverlay = true;
+    await saveProject(project);
+
+    return { pages };
+  },
+
+  async layout(dir, args) {
+    const { pages: extra, options } = parseLayoutArgs(args);
+    if (extra.length > 0) {
+      throw new Error(`layout uses the project's ${PAGES_DIR}/ images; unexpected arguments: ${extra.join(' ')}`);
+    }
+
+    const { project, pages } = await loadCompleteProject(dir);
+    const { config } = project;
+    const format = options.format || 'png';
+    const outputPath = options.outputPath ||
+      path.join(dir, OUTPUT_DIR, `${slugify(config.title || config.topic)}_print.${format}`);
+
+    const result = await createPrintLayout({
+      zineName: config.title,
+      paperFormat: config.paperFormat,
+      dpi: config.dpi,
+      style: config.style,
+      transforms: config.pageTransforms,
+      textLayers: config.textLayers,
+      ...options,
+      format,
+      pages,
+      outputPath
+    });
+
+    return { files: [].concat(result) };
+  },
+
+  async qr(dir, args) {
+    const { flags, positional } = parseFlags(args, {
+      values: ['output', 'color', 'bg', 'width'],
+      aliases: { o: 'output', c: 'color', w: 'width' }
+    });
+
+    // Colours and the default data come from the project, when there is one
+    let config = null;
+    try {
+      ({ config } = await loadProject(dir));
+    } catch (error) {
+      if (positional.length === 0) {
+        throw error;
+      }
+    }
+
+    let data = positional;
+    if (data.length === 0) {
+      data = config.sourceUrls || [];
+      if (data.length === 0) {
+        throw new Error('Give the URLs or text to encode, or add sourceUrls to the project');
+      }
+    }
+    const { qr } = resolveStyle(config?.style);
+    if (flags.output && data.length > 1) {
+      throw new Error('--output takes a single QR code; leave it out to write them all to output/qrcodes/');
+    }
+
+    const qrcodes = [];
+    for (const item of data) {
+      const outputPath = flags.output || path.join(dir, OUTPUT_DIR, 'qrcodes', `qr_${slugify(item.replace(/^https?:\/\//, ''))}.png`);
+      await generateQRCode({
+        data: item,
+        outputPath,
+        width: parseInteger(flags.width, 'width'),
+        darkColor: flags.color || qr.dark,
+        lightColor: flags.bg || qr.light
+      });
+      qrcodes.push({ data: item, path: outputPath });
+    }
+
+    return { qrcodes };
+  },
+
+  async export(dir, args) {
+    const { flags } = parseFlags(args, { values: ['output', 'format', 'scheme'], aliases: { o: 'output' } });
+    const format = flags.format || (flags.output?.endsWith(BUNDLE_EXTENSION) ? 'zine' : 'pdf');
+    if (format === 'zine') {
+      // A bundle is a backup of the project as is, so missing pages are fine
+      const { config } = await loadProject(dir);
+      const outputPath = flags.output ||
+        path.join(dir, OUTPUT_DIR, `${slugify(config.title || config.topic)}${BUNDLE_EXTENSION}`);
+      const bundle = await createBundle(dir);
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, bundle);
+      return { files: [outputPath], id: config.id };
+    }
+    if (format !== 'pdf') {
+      throw new Error(`Unknown export format: ${format}. Use pdf or zine`);
+    }
+
+    const { project, pages } = await loadCompleteProject(dir);
+    const { config } = project;
+    const outputPath = flags.output ||
+      path.join(dir, OUTPUT_DIR, `${slugify(config.title || config.topic)}_reader.pdf`);
+
+    await createReaderPdf({
+      pages,
+      outputPath,
+      paperFormat: config.paperFormat,
+      scheme: flags.scheme,
+      transforms: config.pageTransforms,
+      textLayers: config.textLayers
+    });
+
+    return { files: [outputPath] };
+  },
+
+  async import(dir, args) {
+    const { flags, positional } = parseFlags(args, { values: ['id', 'on-conflict'] });
+    if (positional.length !== 1) {
+      throw new Error(`Give one bundle to import: mycrozine import <file${BUNDLE_EXTENSION}>`);
+    }
+
+    await fs.mkdir(dir, { recursive: true });
+    const result = await importBundle(await fs.readFile(positional[0]), dir, {
+      id: flags.id,
+      conflict: flags['on-conflict']
+    });
+    return {
+      id: result.id,
+      dir: path.resolve(result.dir),
+      renamed: result.renamed,
+      replaced: result.replaced
+    };
+  },
+
+  async styles(dir, args) {
+    const { flags, positional } = parseFlags(args, {
+      values: ['set', 'add-reference', 'remove-reference'],
+      switches: ['tone', 'default', 'delete']
+    });
+    const kind = flags.tone ? 'tone' : 'style';
+    const name = positional[0];
+    if (positional.length > 1) {
+      throw new Error(`Give one ${kind} name: mycrozine styles <name>`);
+    }
+    if ([flags.set || flags.default, flags.delete, flags['add-reference'], flags['remove-reference']].filter(Boolean).length > 1) {
+      throw new Error('Use one of --set, --delete, --add-reference or --remove-reference');
+    }
+    if (flags.tone && (flags.default || flags['add-reference'] || flags['remove-reference'])) {
+      throw new Error('Only styles have a default and reference images');
+    }
+
+    if (flags.set) {
+      const text = flags.set === '-' ? await readStdin() : await fs.readFile(flags.set, 'utf8');
+      let entry;
+      try {
+        entry = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`The ${kind} is not valid JSON: ${error.message}`);
+      }
+      entry = { ...entry, ...(name ? { name } : {}), ...(flags.default ? { default: true } : {}) };
+      return { [kind]: flags.tone ? await saveTone(entry) : await saveStyle(entry) };
+    }
+
+    if (!name) {
+      if (flags.default || flags.delete || flags['add-reference'] || flags['remove-reference']) {
+        throw new Error(`Give the ${kind}'s name: mycrozine styles <name>`);
+      }
+      return { styles: listStyles(), tones: listTones(), defaultStyle: getDefaultStyle() };
+    }
+
+    if (flags.delete) {
+      await (flags.tone ? deleteTone(name) : deleteStyle(name));
+      return { deleted: name };
+    }
+    if (flags.default) {
+      const style = getStyle(name);
+      if (!style) {
+        throw new Error(`Unknown style: ${name}`);
+      }
+      return { style: await saveStyle({ ...style, default: true }) };
+    }
+    if (flags['add-reference']) {
+      return addStyleReference(name, await fs.readFile(flags['add-reference']));
+    }
+    if (flags['remove-reference']) {
+      return { style: await removeStyleReference(name, flags['remove-reference']) };
+    }
+
+    const entry = flags.tone ? getTone(name) : getStyle(name);
+    if (!entry) {
+      throw new Error(`Unknown ${kind}: ${name}`);
+    }
+    return flags.tone ? { tone: entry } : { style: entry, references: getStyleReferencePaths(name) };
+  },
+
+  async migrate(dir, args) {
+    parseFlags(args, {});
+    const project = await loadProject(dir);
+    const file = await saveProject(project);
+    return { file, migrated: project.migrated, version: project.config.version };
+  },
+
+  async validate(dir, args) {
+    parseFlags(args, {});
+    const project = await loadProject(dir, { validate: false });
+    const result = await validateProject(project);
+    if (!result.valid) {
+      process.exitCode = 1;
+    }
+    return result;
+  }
+};
+
+/**
+ * CLI entry point
+ * Usage: mycrozine <command> [--dir <project>] [options]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args.shift();
+
+  if (!command || command === '--help' || command === '-h' || args.includes('--help') || args.includes('-h')) {
+    console.log(HELP);
+    process.exit(command ? 0 : 1);
+  }
+
+  // Library progress logs would corrupt the JSON on stdout
+  const print = console.log;
+  console.log = console.error;
+
+  // --dir/-C is global and may appear anywhere after the command
+  let dir = '.';
+  const dirIndex = args.findIndex(arg => arg === '--dir' || arg === '-C');
+  if (dirIndex !== -1) {
+    dir = args[dirIndex + 1];
+    args.splice(dirIndex, 2);
+  }
+
+  try {
+    if (!Object.hasOwn(COMMANDS, command)) {
+      throw new Error(`Unknown command: ${command}. Run mycrozine --help`);
+    }
+    if (!dir) {
+      throw new Error('--dir needs a value');
+    }
+    // User-defined styles and tones, so projects can use them
+    const { errors } = await loadStyles();
+    for (const error of errors) {
+      console.error(`Skipping ${path.join(DEFAULT_STYLES_DIR, error)}`);
+    }
+    const result = await COMMANDS[command](dir, args);
+    print(JSON.stringify(result, null, 2));
+  } catch (error) {
+    print(JSON.stringify({ error: error.message }, null, 2));
+    process.exitCode = 1;
+  }
+}
+
+main();
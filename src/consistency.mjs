@@ -0,0 +1,218 @@
+/**
+ * MycroZine Consistency
+ *
+ * Keeps a zine's pages looking like one zine rather than eight. Every page
+ * prompt gets the zine's style bible - the palette, recurring characters and
+ * motifs, derived from the cover - and is generated with the zine's fixed
+ * seed where the provider takes one. The cover and the pages nearest the one
+ * being generated go along as reference images.
+ *
+ * zine.json stores the bible (styleBible) and the seed; zines without a seed
+ * get one from their id, so it never changes.
+ */
+
+import sharp from 'sharp';
+import { z } from 'zod';
+
+/**
+ * Colours taken from the cover for the style bible
+ */
+export const PALETTE_SIZE = 5;
+
+/**
+ * Other pages sent as references with a page, and their longest side in pixels
+ */
+export const MAX_PAGE_REFERENCES = 3;
+export const PAGE_REFERENCE_SIZE = 512;
+
+/**
+ * Where a style bible came from: derived from the cover, or written by the user
+ * (a user's bible isn't replaced when the cover changes)
+ */
+export const STYLE_BIBLE_SOURCES = ['cover', 'user'];
+
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i, 'Use a #rrggbb colour');
+
+/**
+ * A zine's style bible
+ */
+export const styleBibleSchema = z.object({
+  palette: z.array(hexColor).max(12).default([]),
+  characters: z.array(z.string().min(1)).default([]),
+  motifs: z.array(z.string().min(1)).default([]),
+  notes: z.string().optional(),
+  source: z.enum(STYLE_BIBLE_SOURCES).default('cover'),
+  createdAt: z.string().datetime()
+});
+
+/**
+ * Seeds are 31-bit, which every provider that takes one accepts
+ */
+const SEED_RANGE = 2 ** 31;
+
+/**
+ * A new random image seed
+ * @returns {number}
+ */
+export function createZineSeed() {
+  return Math.floor(Math.random() * SEED_RANGE);
+}
+
+/**
+ * A zine's image seed: its own, or one derived from its id (FNV-1a)
+ *
+ * @param {{ id: string, seed?: number }} zine
+ * @returns {number}
+ */
+export function getZineSeed({ id, seed }) {
+  if (Number.isInteger(seed)) {
+    return seed;
+  }
+  let hash = 0x811c9dc5;
+  for (const char of String(id)) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return (hash >>> 0) % SEED_RANGE;
+}
+
+/**
+ * The main colours of an image, most common first
+ *
+ * The image is shrunk and its pixels grouped into coarse colour buckets;
+ * each colour is the average of a bucket, and colours close to one already
+ * picked are skipped.
+ *
+ * @param {Buffer} image - Image data (any format sharp reads)
+ * @param {Object} [options]
+ * @param {number} [options.colors=PALETTE_SIZE] - Colours to return at most
+ * @returns {Promise<string[]>} - #rrggbb colours
+ */
+export async function extractPalette(image, { colors = PALETTE_SIZE } = {}) {
+  const { data, info } = await sharp(image)
+    .resize(64, 64, { fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const buckets = new Map();
+  for (let i = 0; i < data.length; i += info.channels) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) || { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  const picked = [];
+  for (const { count, r, g, b } of [...buckets.values()].sort((x, y) => y.count - x.count)) {
+    const color = [r / count, g / count, b / count].map(Math.round);
+    if (picked.some(other => Math.hypot(...other.map((value, i) => value - color[i])) < 48)) {
+      continue;
+    }
+    picked.push(color);
+    if (picked.length >= colors) {
+      break;
+    }
+  }
+  return picked.map(color => `#${color.map(value => value.toString(16).padStart(2, '0')).join('')}`);
+}
+
+/**
+ * Derive a style bible from a zine's cover
+ *
+ * The palette comes from the cover's pixels; characters, motifs and notes
+ * from whoever looked at it (e.g. an image model describing the cover).
+ *
+ * @param {Buffer} cover - Cover image data
+ * @param {Object} [details]
+ * @param {string[]} [details.characters] - Recurring characters, e.g. 'a fox in a hi-vis vest'
+ * @param {string[]} [details.motifs] - Recurring shapes and textures, e.g. 'antenna masts'
+ * @param {string} [details.notes] - Anything else to keep, e.g. line weight or lettering
+ * @returns {Promise<Object>} - Style bible (styleBibleSchema)
+ */
+export async function createStyleBible(cover, { characters = [], motifs = [], notes } = {}) {
+  return parseStyleBible({
+    palette: await extractPalette(cover),
+    characters,
+    motifs,
+    ...(notes ? { notes } : {}),
+    source: 'cover',
+    createdAt: new Date().toISOString()
+  });
+}
+
+/**
+ * Validate a style bible and fill in defaults
+ *
+ * @param {Object} bible
+ * @returns {Object}
+ */
+export function parseStyleBible(bible) {
+  const result = styleBibleSchema.safeParse({ createdAt: new Date().toISOString(), ...bible });
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+    throw new Error(`Invalid style bible: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * The style bible as prompt text, or '' when it says nothing
+ *
+ * @param {Object|null} [bible]
+ * @returns {string}
+ */
+export function describeStyleBible(bible) {
+  if (!bible) {
+    return '';
+  }
+  const lines = [
+    bible.palette?.length ? `- Palette: ${bible.palette.join(', ')}` : '',
+    bible.characters?.length ? `- Recurring characters (draw them the same way): ${bible.characters.join('; ')}` : '',
+    bible.motifs?.length ? `- Motifs: ${bible.motifs.join('; ')}` : '',
+    bible.notes ? `- Notes: ${bible.notes}` : ''
+  ].filter(Boolean);
+  return lines.length > 0
+    ? `Zine style bible - keep this page consistent with the rest of the zine:\n${lines.join('\n')}`
+    : '';
+}
+
+/**
+ * Which other pages to send as references with a page: the cover first,
+ * then the nearest pages, earlier ones before later ones
+ *
+ * @param {number} pageNumber - Page being generated
+ * @param {number[]} available - Pages that have an image
+ * @param {number} [max=MAX_PAGE_REFERENCES]
+ * @returns {number[]}
+ */
+export function selectReferencePages(pageNumber, available, max = MAX_PAGE_REFERENCES) {
+  const others = [...new Set(available)].filter(page => page !== pageNumber);
+  return others
+    .sort((a, b) => {
+      if (a === 1 || b === 1) {
+        return a === 1 ? -1 : 1;
+      }
+      return Math.abs(a - pageNumber) - Math.abs(b - pageNumber) || a - b;
+    })
+    .slice(0, max);
+}
+
+/**
+ * Shrink a page image to send as a reference
+ *
+ * @param {Buffer} image - Page image data
+ * @param {number} [size=PAGE_REFERENCE_SIZE] - Longest side in pixels
+ * @returns {Promise<Buffer>} - PNG
+ */
+export async function createPageReference(image, size = PAGE_REFERENCE_SIZE) {
+  return sharp(image)
+    .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+}
+
+export default createStyleBible;
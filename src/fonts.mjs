@@ -0,0 +1,174 @@
+/**
+ * MycroZine Fonts
+ *
+ * A small library of open-licensed fonts for text layers and placeholder
+ * pages, so lettering looks the same on every host - including slim Docker
+ * images with no fonts installed. The font files live in fonts/ next to a
+ * fontconfig file that adds them to the system's fonts; registerFonts()
+ * points the SVG rasterizer (librsvg, via sharp) at it.
+ *
+ * The files are committed with the repo; restore missing ones from Google
+ * Fonts with: npm run fonts (--force to update them all)
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Where the font files and fonts.conf live
+ */
+export const FONTS_DIR = path.join(__dirname, '..', 'fonts');
+
+const GOOGLE_FONTS = 'https://raw.githubusercontent.com/google/fonts/main';
+
+/**
+ * Font files in the library, with their license and upstream source
+ */
+export const FONT_FILES = [
+  { family: 'Courier Prime', weight: 'normal', file: 'CourierPrime-Regular.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/courierprime/CourierPrime-Regular.ttf` },
+  { family: 'Courier Prime', weight: 'bold', file: 'CourierPrime-Bold.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/courierprime/CourierPrime-Bold.ttf` },
+  { family: 'Stardos Stencil', weight: 'normal', file: 'StardosStencil-Regular.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/stardosstencil/StardosStencil-Regular.ttf` },
+  { family: 'Stardos Stencil', weight: 'bold', file: 'StardosStencil-Bold.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/stardosstencil/StardosStencil-Bold.ttf` },
+  { family: 'Crimson Text', weight: 'normal', file: 'CrimsonText-Regular.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/crimsontext/CrimsonText-Regular.ttf` },
+  { family: 'Crimson Text', weight: 'bold', file: 'CrimsonText-Bold.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/crimsontext/CrimsonText-Bold.ttf` },
+  { family: 'PT Sans', weight: 'normal', file: 'PT_Sans-Web-Regular.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/ptsans/PT_Sans-Web-Regular.ttf` },
+  { family: 'PT Sans', weight: 'bold', file: 'PT_Sans-Web-Bold.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/ptsans/PT_Sans-Web-Bold.ttf` },
+  { family: 'Permanent Marker', weight: 'normal', file: 'PermanentMarker-Regular.ttf', license: 'Apache-2.0', url: `${GOOGLE_FONTS}/apache/permanentmarker/PermanentMarker-Regular.ttf` },
+  { family: 'Bungee', weight: 'normal', file: 'Bungee-Regular.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/bungee/Bungee-Regular.ttf` },
+  { family: 'Abril Fatface', weight: 'normal', file: 'AbrilFatface-Regular.ttf', license: 'OFL-1.1', url: `${GOOGLE_FONTS}/ofl/abrilfatface/AbrilFatface-Regular.ttf` }
+];
+
+/**
+ * Fonts by name, as used by text blocks. Each is one of the library's
+ * families with system fonts as a fallback; ransom-note cuts its letters
+ * from several families in turn. glyphWidth is the average advance as a
+ * fraction of the font size, for line wrapping.
+ */
+export const FONTS = {
+  typewriter: { families: ['Courier Prime'], fallback: "'Courier New', Courier, monospace", glyphWidth: 0.6 },
+  'ransom-note': {
+    families: ['Bungee', 'Abril Fatface', 'Stardos Stencil', 'Courier Prime', 'Crimson Text'],
+    fallback: 'Impact, sans-serif',
+    glyphWidth: 0.68
+  },
+  stencil: { families: ['Stardos Stencil'], fallback: 'Impact, sans-serif', glyphWidth: 0.56 },
+  serif: { families: ['Crimson Text'], fallback: "Georgia, 'Times New Roman', serif", glyphWidth: 0.5 },
+  handwritten: { families: ['Permanent Marker'], fallback: "'Comic Sans MS', cursive", glyphWidth: 0.6 },
+  sans: { families: ['PT Sans'], fallback: 'Helvetica, Arial, sans-serif', glyphWidth: 0.52 }
+};
+
+/**
+ * Older names for library fonts, still accepted in text layers
+ */
+export const FONT_ALIASES = { mono: 'typewriter' };
+
+/**
+ * Look up a library font by name or alias
+ * @param {string} name
+ * @returns {Object|null} - Entry of FONTS, or null for other names (e.g. a font-family list)
+ */
+export function getFont(name) {
+  return FONTS[FONT_ALIASES[name] || name] || null;
+}
+
+/**
+ * CSS font-family list for a font name: the library family (or, for fonts
+ * that mix families, one of them by index) followed by its fallback.
+ * Other names are taken as a font-family list as is.
+ *
+ * @param {string} name - Library font name, alias or font-family list
+ * @param {number} [index=0] - Which of a mixed font's families
+ * @returns {string}
+ */
+export function getFontFamily(name, index = 0) {
+  const font = getFont(name);
+  if (!font) {
+    return name;
+  }
+  return `'${font.families[index % font.families.length]}', ${font.fallback}`;
+}
+
+/**
+ * Library font files not in fonts/ yet
+ * @returns {Object[]} - Entries of FONT_FILES
+ */
+export function findMissingFonts() {
+  return FONT_FILES.filter(({ file }) => !existsSync(path.join(FONTS_DIR, file)));
+}
+
+let registered = false;
+
+/**
+ * Make the library's fonts available to the SVG rasterizer
+ *
+ * Points fontconfig at fonts/fonts.conf, which adds fonts/ to the system's
+ * font directories. Must run before the first SVG with text is rendered in
+ * the process (fontconfig reads its configuration once); text.mjs calls it
+ * on import. A FONTCONFIG_FILE set by the host is left alone.
+ *
+ * @returns {boolean} - Whether the library's configuration is in use
+ */
+export function registerFonts() {
+  if (!registered) {
+    registered = true;
+    if (!process.env.FONTCONFIG_FILE) {
+      process.env.FONTCONFIG_FILE = path.join(FONTS_DIR, 'fonts.conf');
+    }
+  }
+  return process.env.FONTCONFIG_FILE === path.join(FONTS_DIR, 'fonts.conf');
+}
+
+/**
+ * Download the library's font files into fonts/
+ *
+ * @param {Object} [options]
+ * @param {boolean} [options.force=false] - Download files that are already there too
+ * @returns {Promise<{ downloaded: string[], failed: { file: string, error: string }[] }>}
+ */
+export async function downloadFonts({ force = false } = {}) {
+  const downloaded = [];
+  const failed = [];
+  await fs.mkdir(FONTS_DIR, { recursive: true });
+
+  for (const font of force ? FONT_FILES : findMissingFonts()) {
+    try {
+      const response = await fetch(font.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      await fs.writeFile(path.join(FONTS_DIR, font.file), Buffer.from(await response.arrayBuffer()));
+      downloaded.push(font.file);
+    } catch (error) {
+      failed.push({ file: font.file, error: error.message });
+    }
+  }
+
+  return { downloaded, failed };
+}
+
+/**
+ * CLI entry point
+ * Usage: node fonts.mjs [--force]
+ */
+async function main() {
+  const { downloaded, failed } = await downloadFonts({ force: process.argv.includes('--force') });
+  for (const file of downloaded) {
+    console.log(`Downloaded ${file}`);
+  }
+  for (const { file, error } of failed) {
+    console.error(`Failed to download ${file}: ${error}`);
+  }
+  console.log(`${FONT_FILES.length - findMissingFonts().length} of ${FONT_FILES.length} fonts in ${FONTS_DIR}`);
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export default registerFonts;
@@ -0,0 +1,268 @@
+/**
+ * MycroZine Imposition Schemes
+ *
+ * Declarative page maps describing where each zine page lands on the printed
+ * sheet(s). Shared by the CLI layout generator and the web print-layout route.
+ *
+ * A scheme:
+ *   pageCount  - number of zine pages it imposes
+ *   grid       - panel columns/rows per sheet side
+ *   duplex     - whether sheets are printed on both sides
+ *   flip       - duplex flip the back sides are laid out for
+ *   paperFormat - (optional) paper the scheme is designed for
+ *   creep      - (optional) default creep per nested sheet, in inches
+ *   cuts       - (optional) cut lines in grid units, [{ from: [col, row], to: [col, row] }];
+ *                every other internal panel edge is a fold
+ *   assembly   - one-line assembly instructions, printed in the legend
+ *   sheets     - [{ front: [slot], back?: [slot] }]
+ *
+ * A slot places one page (1-indexed) in a panel:
+ *   { page, col, row, rotate, spine?, creepStep? }
+ * spine is the panel edge that sits on the fold ('left' | 'right'); creep
+ * compensation shifts the page toward it by creepStep * creep.
+ */
+
+// Traditional mini-zine: one sheet, 4 x 2 panels, top row upside down
+//   Top row (rotated 180°):  1, 8, 7, 6
+//   Bottom row (normal):     2, 3, 4, 5
+// The center slit runs along the middle fold between the inner two columns.
+const MINI_CUTS = [{ from: [1, 1], to: [3, 1] }];
+
+const MINI_8_POSITIONS = [
+  { position: 1, col: 0, row: 0, rotate: 180 },
+  { position: 8, col: 1, row: 0, rotate: 180 },
+  { position: 7, col: 2, row: 0, rotate: 180 },
+  { position: 6, col: 3, row: 0, rotate: 180 },
+  { position: 2, col: 0, row: 1, rotate: 0 },
+  { position: 3, col: 1, row: 1, rotate: 0 },
+  { position: 4, col: 2, row: 1, rotate: 0 },
+  { position: 5, col: 3, row: 1, rotate: 0 }
+];
+
+/**
+ * Lay zine pages onto a mini-zine sheet
+ * @param {number[]} pages - Zine page for each folded position 1-8
+ * @returns {Object[]} - Slots
+ */
+function miniSheet(pages) {
+  return MINI_8_POSITIONS.map(({ position, col, row, rotate }) => ({
+    page: pages[position - 1],
+    col,
+    row,
+    rotate
+  }));
+}
+
+/**
+ * Build a saddle-stitched booklet: 2-up duplex sheets folded once and nested.
+ * Sheet 0 is the outermost (holds the covers); inner sheets creep outward
+ * at the fore-edge, so their pages are shifted toward the spine.
+ *
+ * @param {number} pageCount - Multiple of 4
+ * @returns {Object[]} - Sheets
+ */
+function saddleStitchSheets(pageCount) {
+  if (pageCount % 4 !== 0) {
+    throw new Error(`Saddle-stitched booklets need a multiple of 4 pages, got ${pageCount}`);
+  }
+
+  return Array.from({ length: pageCount / 4 }, (_, i) => ({
+    front: [
+      { page: pageCount - 2 * i, col: 0, row: 0, rotate: 0, spine: 'right', creepStep: i },
+      { page: 2 * i + 1, col: 1, row: 0, rotate: 0, spine: 'left', creepStep: i }
+    ],
+    back: [
+      { page: 2 * i + 2, col: 0, row: 0, rotate: 0, spine: 'right', creepStep: i },
+      { page: pageCount - 2 * i - 1, col: 1, row: 0, rotate: 0, spine: 'left', creepStep: i }
+    ]
+  }));
+}
+
+/**
+ * Available imposition schemes
+ */
+export const IMPOSITION_SCHEMES = {
+  'folded-4': {
+    name: 'folded-4',
+    description: '4-page folded sheet: one sheet printed 2-up duplex, folded in half',
+    pageCount: 4,
+    grid: { cols: 2, rows: 1 },
+    duplex: true,
+    flip: 'short-edge',
+    assembly: 'Print duplex (flip on short edge), fold in half along the dashed line',
+    sheets: saddleStitchSheets(4)
+  },
+  'mini-8': {
+    name: 'mini-8',
+    description: 'Classic 8-page mini-zine folded and cut from a single sheet',
+    pageCount: 8,
+    grid: { cols: 4, rows: 2 },
+    duplex: false,
+    cuts: MINI_CUTS,
+    assembly: 'Fold in half lengthwise, cut the solid center line, fold into a booklet (cover 1 on top)',
+    sheets: [
+      { front: miniSheet([1, 2, 3, 4, 5, 6, 7, 8]) }
+    ]
+  },
+  'mini-16': {
+    name: 'mini-16',
+    description: '16-page mini-zine from two sheets; fold both, nest sheet 2 inside the center spread of sheet 1',
+    pageCount: 16,
+    grid: { cols: 4, rows: 2 },
+    duplex: false,
+    cuts: MINI_CUTS,
+    assembly: 'Fold each sheet like a mini-zine (cut the solid line), then nest sheet 2 inside sheet 1',
+    sheets: [
+      { front: miniSheet([1, 2, 3, 4, 13, 14, 15, 16]) },
+      { front: miniSheet([5, 6, 7, 8, 9, 10, 11, 12]) }
+    ]
+  },
+  'booklet-12': {
+    name: 'booklet-12',
+    description: '12-page saddle-stitched booklet: 3 duplex sheets, 2-up, with creep compensation',
+    pageCount: 12,
+    grid: { cols: 2, rows: 1 },
+    duplex: true,
+    flip: 'short-edge',
+    creep: 0.004, // ~0.1mm per nested sheet (20lb / 80gsm paper)
+    assembly: 'Print duplex (flip on short edge), stack sheets in order, fold along the dashed line, staple',
+    sheets: saddleStitchSheets(12)
+  },
+  'booklet-24': {
+    name: 'booklet-24',
+    description: '24-page saddle-stitched booklet: 6 duplex sheets, 2-up, with creep compensation',
+    pageCount: 24,
+    grid: { cols: 2, rows: 1 },
+    duplex: true,
+    flip: 'short-edge',
+    creep: 0.004,
+    assembly: 'Print duplex (flip on short edge), stack sheets in order, fold along the dashed line, staple',
+    sheets: saddleStitchSheets(24)
+  },
+  'half-letter-8': {
+    name: 'half-letter-8',
+    description: '8-page half-letter booklet: 2 Letter sheets printed 2-up duplex, folded in half',
+    pageCount: 8,
+    grid: { cols: 2, rows: 1 },
+    duplex: true,
+    flip: 'short-edge',
+    paperFormat: 'letter',
+    assembly: 'Print duplex (flip on short edge), stack sheets in order, fold along the dashed line, staple',
+    sheets: saddleStitchSheets(8)
+  },
+  'half-letter-16': {
+    name: 'half-letter-16',
+    description: '16-page half-letter booklet: 4 Letter sheets printed 2-up duplex, folded in half',
+    pageCount: 16,
+    grid: { cols: 2, rows: 1 },
+    duplex: true,
+    flip: 'short-edge',
+    paperFormat: 'letter',
+    assembly: 'Print duplex (flip on short edge), stack sheets in order, fold along the dashed line, staple',
+    sheets: saddleStitchSheets(16)
+  }
+};
+
+export const DEFAULT_SCHEME = 'mini-8';
+
+/**
+ * Supported zine page counts and the scheme each one prints with by default
+ */
+export const PAGE_COUNTS = [4, 8, 12, 16, 24];
+
+const DEFAULT_SCHEMES = {
+  4: 'folded-4',
+  8: 'mini-8',
+  12: 'booklet-12',
+  16: 'mini-16',
+  24: 'booklet-24'
+};
+
+/**
+ * Look up an imposition scheme by name
+ *
+ * @param {string} [name='mini-8'] - Scheme name
+ * @returns {Object} - Scheme
+ */
+export function getImpositionScheme(name = DEFAULT_SCHEME) {
+  const scheme = IMPOSITION_SCHEMES[name];
+  if (!scheme) {
+    throw new Error(
+      `Unknown imposition scheme: ${name}. Available: ${Object.keys(IMPOSITION_SCHEMES).join(', ')}`
+    );
+  }
+  return scheme;
+}
+
+/**
+ * Default imposition scheme for a page count
+ *
+ * @param {number} [pageCount=8] - Zine page count
+ * @returns {Object} - Scheme
+ */
+export function getDefaultScheme(pageCount = 8) {
+  const name = DEFAULT_SCHEMES[pageCount];
+  if (!name) {
+    throw new Error(`Unsupported page count: ${pageCount}. Supported: ${PAGE_COUNTS.join(', ')}`);
+  }
+  return IMPOSITION_SCHEMES[name];
+}
+
+/**
+ * List schemes that impose a given number of pages
+ *
+ * @param {number} [pageCount] - Only schemes for this page count
+ * @returns {Object[]} - Schemes
+ */
+export function listImpositionSchemes(pageCount) {
+  return Object.values(IMPOSITION_SCHEMES)
+    .filter(scheme => pageCount === undefined || scheme.pageCount === pageCount);
+}
+
+/**
+ * Flatten a scheme into the printed sides, in print order (front, back, ...)
+ *
+ * @param {Object} scheme - Imposition scheme
+ * @returns {{ sheet: number, side: 'front' | 'back', slots: Object[] }[]}
+ */
+export function getSchemeSides(scheme) {
+  const sides = [];
+  scheme.sheets.forEach((sheet, i) => {
+    sides.push({ sheet: i + 1, side: 'front', slots: sheet.front });
+    if (sheet.back) {
+      sides.push({ sheet: i + 1, side: 'back', slots: sheet.back });
+    }
+  });
+  return sides;
+}
+
+/**
+ * Duplex flip modes, as named in printer dialogs. Sheets are landscape, so
+ * long-edge turns the sheet over top-to-bottom and short-edge turns it
+ * over left-to-right.
+ */
+export const FLIP_MODES = ['long-edge', 'short-edge'];
+
+/**
+ * Mirror a side's slots onto the reverse of the sheet, so each back slot sits
+ * directly behind the front slot it came from once printed duplex
+ *
+ * @param {Object[]} slots - Front side slots
+ * @param {{ cols: number, rows: number }} grid - Scheme grid
+ * @param {string} [flip='long-edge'] - Duplex flip mode (see FLIP_MODES)
+ * @returns {Object[]} - Back side slots (same page numbers, upright)
+ */
+export function getBackSlots(slots, grid, flip = 'long-edge') {
+  if (!FLIP_MODES.includes(flip)) {
+    throw new Error(`Invalid flip mode: ${flip}. Use ${FLIP_MODES.join(' or ')}`);
+  }
+
+  return slots.map(({ page, col, row }) => ({
+    page,
+    col: flip === 'short-edge' ? grid.cols - 1 - col : col,
+    row: flip === 'long-edge' ? grid.rows - 1 - row : row,
+    rotate: 0
+  }));
+}
+
+export default IMPOSITION_SCHEMES;
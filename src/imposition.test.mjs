@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  IMPOSITION_SCHEMES,
+  PAGE_COUNTS,
+  getBackSlots,
+  getDefaultScheme,
+  getImpositionScheme,
+  getSchemeSides,
+  listImpositionSchemes
+} from './imposition.mjs';
+
+for (const scheme of Object.values(IMPOSITION_SCHEMES)) {
+  test(`${scheme.name} places every page once, in its grid`, () => {
+    const slots = getSchemeSides(scheme).flatMap(side => side.slots);
+    const pages = slots.map(slot => slot.page).sort((a, b) => a - b);
+
+    assert.deepEqual(pages, Array.from({ length: scheme.pageCount }, (_, i) => i + 1));
+    for (const slot of slots) {
+      assert.ok(slot.col >= 0 && slot.col < scheme.grid.cols, `page ${slot.page} column`);
+      assert.ok(slot.row >= 0 && slot.row < scheme.grid.rows, `page ${slot.page} row`);
+    }
+    for (const side of getSchemeSides(scheme)) {
+      const panels = side.slots.map(slot => `${slot.col},${slot.row}`);
+      assert.equal(new Set(panels).size, panels.length, `sheet ${side.sheet} ${side.side} reuses a panel`);
+    }
+    assert.equal(scheme.sheets.every(sheet => Boolean(sheet.back)), scheme.duplex);
+  });
+}
+
+test('mini-8 puts the top row upside down: 1, 8, 7, 6 over 2, 3, 4, 5', () => {
+  const [front] = getSchemeSides(getImpositionScheme('mini-8'));
+  const row = r => front.slots.filter(slot => slot.row === r).sort((a, b) => a.col - b.col);
+
+  assert.deepEqual(row(0).map(slot => slot.page), [1, 8, 7, 6]);
+  assert.ok(row(0).every(slot => slot.rotate === 180));
+  assert.deepEqual(row(1).map(slot => slot.page), [2, 3, 4, 5]);
+  assert.ok(row(1).every(slot => slot.rotate === 0));
+});
+
+test('booklets nest their sheets: the outer sheet holds the covers, creep grows inward', () => {
+  const scheme = getImpositionScheme('booklet-12');
+  const [outer, , inner] = scheme.sheets;
+
+  assert.deepEqual(outer.front.map(slot => slot.page), [12, 1]);
+  assert.deepEqual(outer.back.map(slot => slot.page), [2, 11]);
+  assert.deepEqual(inner.front.map(slot => slot.page), [8, 5]);
+  assert.deepEqual(inner.back.map(slot => slot.page), [6, 7]);
+  assert.deepEqual(scheme.sheets.map(sheet => sheet.front[0].creepStep), [0, 1, 2]);
+});
+
+test('every supported page count has a default scheme for it', () => {
+  for (const pageCount of PAGE_COUNTS) {
+    assert.equal(getDefaultScheme(pageCount).pageCount, pageCount);
+    assert.ok(listImpositionSchemes(pageCount).includes(getDefaultScheme(pageCount)));
+  }
+  assert.throws(() => getDefaultScheme(10), /Unsupported page count: 10/);
+  assert.throws(() => getImpositionScheme('mini-9'), /Unknown imposition scheme: mini-9/);
+});
+
+test('back slots sit behind their front slots for either flip', () => {
+  const grid = { cols: 4, rows: 2 };
+  const slots = [{ page: 1, col: 0, row: 0, rotate: 180 }];
+
+  assert.deepEqual(getBackSlots(slots, grid, 'long-edge'), [{ page: 1, col: 0, row: 1, rotate: 0 }]);
+  assert.deepEqual(getBackSlots(slots, grid, 'short-edge'), [{ page: 1, col: 3, row: 0, rotate: 0 }]);
+  assert.throws(() => getBackSlots(slots, grid, 'sideways'), /Invalid flip mode/);
+});
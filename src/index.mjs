@@ -1,21 +1,188 @@
 /**
- * MycroZine - 8-page mini-zine generator utilities
+ * MycroZine - mini-zine generator utilities
  *
- * A toolkit for creating print-ready mycro-zines (8-page mini folded zines).
+ * A toolkit for creating print-ready mycro-zines (8-page mini folded zines,
+ * plus 4, 12, 16 and 24-page zines and booklets).
  *
  * @module mycro-zine
  */
 
-export { createPrintLayout } from './layout.mjs';
+export { createPrintLayout, createReaderPdf, OUTPUT_MODES } from './layout.mjs';
+export { createPdf, writePdf } from './pdf.mjs';
+export {
+  IMPOSITION_SCHEMES,
+  DEFAULT_SCHEME,
+  PAGE_COUNTS,
+  FLIP_MODES,
+  getImpositionScheme,
+  getDefaultScheme,
+  listImpositionSchemes,
+  getSchemeSides,
+  getBackSlots
+} from './imposition.mjs';
+export {
+  MARK_TYPES,
+  DEFAULT_MARGIN,
+  DEFAULT_BLEED,
+  parseMarks,
+  resolveMarkMargins,
+  createMarksSvg,
+  createRegistrationSvg
+} from './marks.mjs';
+export {
+  RISO_INKS,
+  MAX_SEPARATIONS,
+  nearestInk,
+  getStyleInks,
+  parseInks,
+  separateImage,
+  previewSeparations
+} from './separations.mjs';
+export { createZip, readZip } from './zip.mjs';
+export {
+  TRANSFORM_FITS,
+  TRANSFORM_LIMITS,
+  DEFAULT_TRANSFORM,
+  normalizeTransform,
+  isDefaultTransform,
+  applyPageTransform
+} from './transform.mjs';
+export {
+  TEXT_ROLES,
+  TEXT_ALIGNMENTS,
+  TEXT_ROLE_DEFAULTS,
+  normalizeTextBlock,
+  normalizeTextLayer,
+  isEmptyTextLayer,
+  measureTextBlock,
+  stripEmoji,
+  createTextLayer,
+  createTextSvg,
+  applyTextLayer
+} from './text.mjs';
+export {
+  TEMPLATE_LAYOUTS,
+  TEMPLATE_CONTENT,
+  getPageTemplate,
+  assignPageTemplates,
+  createTemplateTextLayer,
+  createTemplateSvg,
+  renderTemplatePage
+} from './templates.mjs';
+export {
+  FONTS,
+  FONT_FILES,
+  FONT_ALIASES,
+  FONTS_DIR,
+  getFont,
+  getFontFamily,
+  findMissingFonts,
+  registerFonts,
+  downloadFonts
+} from './fonts.mjs';
+export {
+  DEFAULT_STYLES_DIR,
+  STYLE_TEXTURES,
+  MAX_STYLE_REFERENCES,
+  BUILT_IN_STYLES,
+  BUILT_IN_TONES,
+  styleSchema,
+  toneSchema,
+  getStyle,
+  resolveStyle,
+  getTone,
+  resolveTone,
+  listStyles,
+  listTones,
+  getDefaultStyle,
+  getStyleFonts,
+  loadStyles,
+  saveStyle,
+  deleteStyle,
+  saveTone,
+  deleteTone,
+  addStyleReference,
+  removeStyleReference,
+  getStyleReferencePaths
+} from './styles.mjs';
+export {
+  ARTWORK_FORMATS,
+  FIT_MODES,
+  detectArtworkFormat,
+  normalizeArtwork
+} from './artwork.mjs';
+export {
+  EXPORT_PROFILES,
+  EXPORT_FORMATS,
+  DEFAULT_PROFILE,
+  getExportProfile,
+  getProfileFormats,
+  exportImage
+} from './profiles.mjs';
+export {
+  PALETTE_SIZE,
+  MAX_PAGE_REFERENCES,
+  PAGE_REFERENCE_SIZE,
+  STYLE_BIBLE_SOURCES,
+  styleBibleSchema,
+  createZineSeed,
+  getZineSeed,
+  extractPalette,
+  createStyleBible,
+  parseStyleBible,
+  describeStyleBible,
+  selectReferencePages,
+  createPageReference
+} from './consistency.mjs';
+export {
+  PAPER_FORMATS,
+  parsePaperFormat,
+  isValidPaperFormat,
+  resolvePaper
+} from './paper.mjs';
 export {
   STYLES,
+  STYLE_PALETTES,
   TONES,
   PAGE_TEMPLATES,
   ZINE_STRUCTURES,
+  TONE_STRUCTURES,
+  getDefaultStructure,
+  getStructureTemplates,
   getContentOutlinePrompt,
   getImagePrompt,
   getIdeationPrompt
 } from './prompts.mjs';
+export {
+  MANIFEST_VERSION,
+  MANIFEST_FILE,
+  manifestSchema,
+  pageTransformSchema,
+  createZineId,
+  migrateManifest,
+  parseManifest,
+  validateManifest,
+  readManifest,
+  writeManifest
+} from './manifest.mjs';
+export {
+  BUNDLE_EXTENSION,
+  CONFLICT_MODES,
+  isValidZineId,
+  createBundle,
+  readBundle,
+  importBundle
+} from './bundle.mjs';
+export {
+  PROJECT_FILE,
+  PAGES_DIR,
+  initProject,
+  loadProject,
+  saveProject,
+  findProjectPages,
+  parseOutline,
+  validateProject
+} from './project.mjs';
 export {
   generateQRCode,
   generateQRCodeDataURL,
@@ -23,8 +190,16 @@ export {
   generateUndernetQRCodes
 } from './qrcode.mjs';
 
+import { isValidPaperFormat, resolvePaper } from './paper.mjs';
+import { PAGE_COUNTS } from './imposition.mjs';
+import { MANIFEST_VERSION, createZineId } from './manifest.mjs';
+import { createZineSeed } from './consistency.mjs';
+import { PAGE_TEMPLATES, getStructureTemplates } from './prompts.mjs';
+import { getStyle, getTone, getDefaultStyle, listStyles, listTones } from './styles.mjs';
+
 /**
- * Zine configuration defaults
+ * Zine configuration defaults (new zines take the house style instead of
+ * punk-zine when one is set, see getDefaultStyle)
  */
 export const DEFAULTS = {
   style: 'punk-zine',
@@ -37,28 +212,16 @@ export const DEFAULTS = {
 /**
  * Page dimensions in pixels at 300 DPI
  * Paper is landscape orientation for traditional mini-zine folding
+ * (use resolvePaper() for other formats, custom sizes or DPI)
  */
 export const DIMENSIONS = {
-  letter: {
-    width: 3300,   // 11" x 300 (landscape)
-    height: 2550,  // 8.5" x 300
-    panelWidth: 825,   // ~7cm (width / 4 cols)
-    panelHeight: 1275, // ~10.8cm (height / 2 rows)
-    panelCols: 4,
-    panelRows: 2
-  },
-  a4: {
-    width: 3508,   // 297mm at 300 DPI (landscape)
-    height: 2480,  // 210mm at 300 DPI
-    panelWidth: 877,
-    panelHeight: 1240,
-    panelCols: 4,
-    panelRows: 2
-  }
+  letter: resolvePaper('letter'), // 3300 x 2550, 825 x 1275 panels (~7cm x 10.8cm)
+  a4: resolvePaper('a4')          // 3508 x 2480, 877 x 1240 panels
 };
 
 /**
- * Validate a zine configuration
+ * Validate a zine configuration (user-defined styles and tones count once
+ * loaded, see loadStyles in styles.mjs)
  *
  * @param {Object} config - Zine configuration to validate
  * @returns {{ valid: boolean, errors: string[] }}
@@ -70,20 +233,44 @@ export function validateConfig(config) {
     errors.push('Topic is required and must be a string');
   }
 
-  if (config.style && !['punk-zine', 'minimal', 'collage', 'retro', 'academic'].includes(config.style)) {
-    errors.push(`Invalid style: ${config.style}`);
+  if (config.style && !getStyle(config.style)) {
+    errors.push(`Invalid style: ${config.style}. Use one of: ${listStyles().map(({ name }) => name).join(', ')}`);
+  }
+
+  if (config.tone && !getTone(config.tone)) {
+    errors.push(`Invalid tone: ${config.tone}. Use one of: ${listTones().map(({ name }) => name).join(', ')}`);
+  }
+
+  for (const page of Array.isArray(config.outline) ? config.outline : []) {
+    if (page?.template !== undefined && !Object.hasOwn(PAGE_TEMPLATES, page.template)) {
+      errors.push(`Invalid template on page ${page.pageNumber}: ${page.template}`);
+    }
+  }
+
+  if (config.paperFormat && !isValidPaperFormat(config.paperFormat)) {
+    errors.push(`Invalid paper format: ${JSON.stringify(config.paperFormat)}`);
+  }
+
+  if (config.dpi !== undefined && !(Number.isFinite(config.dpi) && config.dpi > 0)) {
+    errors.push(`Invalid DPI: ${config.dpi}`);
   }
 
-  if (config.tone && !['rebellious', 'playful', 'informative', 'poetic'].includes(config.tone)) {
-    errors.push(`Invalid tone: ${config.tone}`);
+  const pageCount = config.pageCount ?? DEFAULTS.pageCount;
+  if (!PAGE_COUNTS.includes(pageCount)) {
+    errors.push(`Invalid page count: ${pageCount}. Supported: ${PAGE_COUNTS.join(', ')}`);
   }
 
-  if (config.paperFormat && !['letter', 'a4'].includes(config.paperFormat)) {
-    errors.push(`Invalid paper format: ${config.paperFormat}`);
+  if (config.structure !== undefined) {
+    try {
+      getStructureTemplates(config.structure, pageCount);
+    } catch (error) {
+      errors.push(`Invalid structure: ${error.message}`);
+    }
   }
 
-  if (config.pages && (!Array.isArray(config.pages) || config.pages.length !== 8)) {
-    errors.push('Pages must be an array of exactly 8 items');
+  // Drafts start with no pages; once pages are added there must be one per page
+  if (config.pages && (!Array.isArray(config.pages) || (config.pages.length > 0 && config.pages.length !== pageCount))) {
+    errors.push(`Pages must be an array of exactly ${pageCount} items`);
   }
 
   return {
@@ -98,31 +285,44 @@ export function validateConfig(config) {
  * @param {Object} options
  * @param {string} options.topic - Main topic/theme
  * @param {string} [options.title] - Zine title (generated from topic if not provided)
- * @param {string} [options.style='punk-zine'] - Visual style
+ * @param {string} [options.style] - Visual style (default: the house style, see getDefaultStyle)
  * @param {string} [options.tone='rebellious'] - Content tone
- * @param {string} [options.paperFormat='letter'] - Paper format
+ * @param {string|Object} [options.paperFormat='letter'] - Paper format ('letter', 'a4', '210x297mm', ...)
+ * @param {number} [options.dpi=300] - Print resolution
+ * @param {number} [options.pageCount=8] - Number of pages (4, 8, 12, 16 or 24)
+ * @param {string|string[]} [options.structure] - Page sequence: a ZINE_STRUCTURES key or a list of templates (default: the tone's)
  * @param {string[]} [options.sourceUrls] - Reference URLs
- * @returns {Object} Zine configuration object
+ * @returns {Object} Zine configuration object, in the zine.json manifest shape (see manifest.mjs)
  */
 export function createZineConfig(options) {
   const {
     topic,
     title = topic.toUpperCase(),
-    style = DEFAULTS.style,
+    style = getDefaultStyle(),
     tone = DEFAULTS.tone,
     paperFormat = DEFAULTS.paperFormat,
+    dpi = DEFAULTS.dpi,
+    pageCount = DEFAULTS.pageCount,
+    structure,
     sourceUrls = []
   } = options;
 
+  const now = new Date().toISOString();
   const config = {
-    id: `zine_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    version: MANIFEST_VERSION,
+    id: createZineId(),
     topic,
     title,
     style,
     tone,
     paperFormat,
+    dpi,
+    pageCount,
+    ...(structure ? { structure } : {}),
     sourceUrls,
-    createdAt: Date.now(),
+    seed: createZineSeed(),
+    createdAt: now,
+    updatedAt: now,
     pages: [],
     outline: null,
     status: 'draft'
@@ -3,233 +3,783 @@
  *
  * Creates a print-ready layout with all 8 pages on a single sheet.
  * Traditional 8-page mini-zine format for fold-and-cut assembly.
+ * 4, 12, 16 and 24-page zines and booklets use other imposition schemes
+ * (see imposition.mjs).
  *
- * Paper: Landscape 11" x 8.5" (US Letter rotated)
+ * Paper: Any landscape sheet (default 11" x 8.5", US Letter rotated; see paper.mjs)
  * Layout: 4 columns x 2 rows
- * Panel size: 7cm x 10.8cm (~2.76" x 4.25")
+ * Panel size: sheet / 4 x sheet / 2 (7cm x 10.8cm on Letter)
  *
  * Page arrangement for proper folding:
  *   Top row (upside down):    1, 8, 7, 6
  *   Bottom row (right side up): 2, 3, 4, 5
+ *
+ * Output: 300 DPI PNG or TIFF, or a PDF sized to the physical sheet, encoded
+ * with an export profile (sRGB, CMYK or 1-bit; see profiles.mjs). Written to
+ * disk, or returned as buffers or streams for servers.
  */
 
 import sharp from 'sharp';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs/promises';
+import { Readable } from 'stream';
+import { createPdf } from './pdf.mjs';
+import { resolvePaper, DEFAULT_DPI } from './paper.mjs';
+import {
+  MARK_TYPES,
+  DEFAULT_MARGIN,
+  parseMarks,
+  resolveMarkMargins,
+  createMarksSvg,
+  createRegistrationSvg
+} from './marks.mjs';
+import { RISO_INKS, parseInks, separateImage } from './separations.mjs';
+import { loadStyles } from './styles.mjs';
+import { crc32 } from './zip.mjs';
+import { applyPageTransform, normalizeTransform } from './transform.mjs';
+import { applyTextLayer, normalizeTextLayer } from './text.mjs';
+import {
+  EXPORT_PROFILES,
+  EXPORT_FORMATS,
+  DEFAULT_PROFILE,
+  getExportProfile,
+  assertProfileFormat,
+  exportImage
+} from './profiles.mjs';
+import {
+  IMPOSITION_SCHEMES,
+  getImpositionScheme,
+  getSchemeSides,
+  getDefaultScheme,
+  getBackSlots,
+  FLIP_MODES
+} from './imposition.mjs';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-// 11" x 8.5" at 300 DPI = 3300 x 2550 pixels (landscape)
-const PAGE_WIDTH = 3300;
-const PAGE_HEIGHT = 2550;
-
-// Layout configuration: 4 columns x 2 rows
-const COLS = 4;
-const ROWS = 2;
-
-// Panel size: 7cm x 10.8cm at 300 DPI
-// 7cm = 2.756" = 827 pixels, 10.8cm = 4.252" = 1275 pixels
-const PANEL_WIDTH = Math.floor(PAGE_WIDTH / COLS);   // 825 pixels (~7cm)
-const PANEL_HEIGHT = Math.floor(PAGE_HEIGHT / ROWS); // 1275 pixels (~10.8cm)
+/**
+ * Where createPrintLayout puts its output: files on disk, or in memory
+ */
+export const OUTPUT_MODES = ['file', 'buffer', 'stream'];
 
-// Page order for traditional mini-zine folding
-// Top row (rotated 180°): pages 1, 8, 7, 6 (left to right)
-// Bottom row (normal): pages 2, 3, 4, 5 (left to right)
-const TOP_ROW_PAGES = [0, 7, 6, 5];    // 0-indexed: pages 1, 8, 7, 6
-const BOTTOM_ROW_PAGES = [1, 2, 3, 4]; // 0-indexed: pages 2, 3, 4, 5
+// Sheet and panel pixel sizes come from resolvePaper() and the scheme's grid,
+// e.g. mini-8 on Letter @ 300 DPI: 3300 x 2550 sheet, 825 x 1275 panels (~7cm x 10.8cm)
 
 /**
  * Generate a timestamped filename for the print layout
  * @param {string} [zineName] - Optional zine name to include in filename
+ * @param {string} [extension] - File extension without the dot (default: 'png')
  * @returns {string} - Timestamped filename
  */
-function generatePrintFilename(zineName = 'mycrozine') {
+function generatePrintFilename(zineName = 'mycrozine', extension = 'png') {
   const timestamp = new Date().toISOString()
     .replace(/T/, '_')
     .replace(/:/g, '-')
     .replace(/\..+/, '');
   const safeName = zineName.replace(/[^a-zA-Z0-9_-]/g, '_').toLowerCase();
-  return `${safeName}_print_${timestamp}.png`;
+  return `${safeName}_print_${timestamp}.${extension}`;
+}
+
+/**
+ * Derive the reader-order PDF path that sits next to a print layout
+ * @param {string} outputPath - Print layout path
+ * @returns {string} - e.g. zine_print.pdf -> zine_print_reader.pdf
+ */
+function readerPdfPath(outputPath) {
+  const { dir, name } = path.parse(outputPath);
+  return path.join(dir, `${name}_reader.pdf`);
+}
+
+/**
+ * Derive the output path for one printed side of a multi-side layout
+ * @param {string} outputPath - Requested output path
+ * @param {{ sheet: number, side: string }} side - Printed side
+ * @returns {string} - e.g. zine_print.png -> zine_print_sheet2_back.png
+ */
+function sideOutputPath(outputPath, { sheet, side }) {
+  const { dir, name, ext } = path.parse(outputPath);
+  return path.join(dir, `${name}_sheet${sheet}_${side}${ext}`);
+}
+
+/**
+ * Derive the output path for one separation layer
+ * @param {string} outputPath - Requested output path
+ * @param {string} ink - Ink name
+ * @param {{ sheet: number, side: string }} [side] - Printed side, for multi-side PNGs
+ * @returns {string} - e.g. zine_print.png -> zine_print_sheet1_front_black.png
+ */
+function layerOutputPath(outputPath, ink, side) {
+  const sidePath = side ? sideOutputPath(outputPath, side) : outputPath;
+  const { dir, name, ext } = path.parse(sidePath);
+  return path.join(dir, `${name}_${ink}${ext}`);
+}
+
+/**
+ * Record a resolution in a PNG (pHYs chunk)
+ *
+ * sharp only writes density through withMetadata(), which also converts to
+ * sRGB; grayscale separation layers set it here instead.
+ *
+ * @param {Buffer} png - PNG file contents
+ * @param {number} dpi - Resolution
+ * @returns {Buffer}
+ */
+function setPngDensity(png, dpi) {
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = Buffer.alloc(21);
+  chunk.writeUInt32BE(9, 0);
+  chunk.write('pHYs', 4, 'ascii');
+  chunk.writeUInt32BE(pixelsPerMetre, 8);
+  chunk.writeUInt32BE(pixelsPerMetre, 12);
+  chunk.writeUInt8(1, 16); // unit: metre
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 17)), 17);
+
+  // Signature (8 bytes) + IHDR chunk (25 bytes), then pHYs
+  return Buffer.concat([png.subarray(0, 33), chunk, png.subarray(33)]);
+}
+
+/**
+ * Read an image given as a path, buffer or readable stream
+ *
+ * Streams are read into memory, since a page may be used on several sides
+ * (or several times on the back) and sharp consumes streams once.
+ *
+ * @param {string|Buffer|Readable} input
+ * @returns {Promise<string|Buffer>} - Path or buffer, as sharp accepts
+ */
+async function readImageInput(input) {
+  if (typeof input === 'string' || Buffer.isBuffer(input) || !input?.[Symbol.asyncIterator]) {
+    return input;
+  }
+  const chunks = [];
+  for await (const chunk of input) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Describe a printed side for log output, e.g. [1↺, 8↺, 7↺, 6↺] | [2, 3, 4, 5]
+ * @param {Object[]} slots - Scheme slots
+ * @returns {string}
+ */
+function describeSlots(slots) {
+  const rows = [];
+  for (const slot of slots) {
+    rows[slot.row] = rows[slot.row] || [];
+    rows[slot.row][slot.col] = `${slot.page}${slot.rotate === 180 ? '↺' : ''}`;
+  }
+  return rows.map(row => `[${row.join(', ')}]`).join(' | ');
+}
+
+/**
+ * Shift a panel toward its spine edge, cropping what falls off the other side
+ * @param {Buffer} panel - Panel image (already panel-sized)
+ * @param {Object} options
+ * @returns {Promise<Buffer>}
+ */
+async function shiftTowardSpine(panel, { width, height, spine, shift, background }) {
+  // sharp applies extract before extend within one pipeline, so use two passes
+  const extended = await sharp(panel)
+    .extend({
+      left: spine === 'right' ? shift : 0,
+      right: spine === 'left' ? shift : 0,
+      background
+    })
+    .toBuffer();
+
+  return sharp(extended)
+    .extract({ left: spine === 'left' ? shift : 0, top: 0, width, height })
+    .toBuffer();
+}
+
+/**
+ * Render every printed side of an imposition scheme
+ *
+ * @param {Object} options
+ * @param {Array<string|Buffer>} options.pages - Page images in reading order
+ * @param {Array<Object|null>} [options.transforms] - Page transforms, by page (see transform.mjs)
+ * @param {Array<Object|null>} [options.textLayers] - Text layers, by page (see text.mjs)
+ * @param {Object} options.scheme - Imposition scheme
+ * @param {Object} options.paper - Resolved paper geometry
+ * @param {string} options.background - Background color
+ * @param {number} options.creep - Creep per nested sheet, in inches
+ * @param {string[]} [options.marks] - Printer's marks to overlay (see marks.mjs)
+ * @param {number} [options.bleed=0] - Artwork bleed past the trim box, in inches
+ * @param {Object} [options.back] - Back side for single-sided schemes
+ * @param {string|Buffer} [options.back.image] - One image covering the whole back
+ * @param {Array<string|Buffer>} [options.back.panels] - One image behind each zine page
+ * @param {string} options.back.flip - Duplex flip mode the back is laid out for
+ * @returns {Promise<{ sheet: number, side: string, slots: Object[], buffer: Buffer }[]>} - PNG per side
+ */
+async function renderSides({ pages, transforms = [], textLayers = [], scheme, paper, background, creep, marks = [], bleed = 0, back }) {
+  const { panelWidth, panelHeight } = paper;
+  const margin = paper.margin || 0;
+  const bleedPx = Math.round(bleed * paper.dpi);
+
+  // Fit all pages to panel size, each with its transform (default: whole page, centred), then set its text on top
+  const resizePanels = (images, panelTransforms = [], panelText = []) => Promise.all(
+    images.map(async (image, i) => applyTextLayer(await applyPageTransform(image, {
+      width: panelWidth,
+      height: panelHeight,
+      transform: panelTransforms[i],
+      background
+    }), { width: panelWidth, height: panelHeight, dpi: paper.dpi, layer: panelText[i] }))
+  );
+  const resizedPages = await resizePanels(pages, transforms, textLayers);
+  const resizedBackPanels = back?.panels ? await resizePanels(back.panels) : null;
+
+  // A back image covers the whole trim box so it lines up with the folds
+  const backImage = back?.image
+    ? await sharp(back.image)
+      .resize(paper.trimWidth, paper.trimHeight, { fit: 'cover' })
+      .toBuffer()
+    : null;
+
+  // Each front gets its back printed right after it, mirrored for the flip mode
+  const sides = getSchemeSides(scheme).flatMap((front) => {
+    if (!back) {
+      return [front];
+    }
+    return [front, {
+      sheet: front.sheet,
+      side: 'back',
+      slots: resizedBackPanels ? getBackSlots(front.slots, scheme.grid, back.flip) : [],
+      panels: resizedBackPanels
+    }];
+  });
+
+  return Promise.all(sides.map(async ({ sheet, side, slots, panels = resizedPages }) => {
+    const compositeImages = await Promise.all(slots.map(async (slot) => {
+      let panel = panels[slot.page - 1];
+
+      // Top row pages of a mini-zine are rotated 180° so they read upright once folded
+      if (slot.rotate) {
+        panel = await sharp(panel).rotate(slot.rotate).toBuffer();
+      }
+
+      // Inner booklet sheets stick out at the fore-edge - pull their pages toward the spine
+      const shift = slot.spine ? Math.round((slot.creepStep || 0) * creep * paper.dpi) : 0;
+      if (shift > 0) {
+        panel = await shiftTowardSpine(panel, {
+          width: panelWidth,
+          height: panelHeight,
+          spine: slot.spine,
+          shift,
+          background
+        });
+      }
+
+      return {
+        input: panel,
+        left: margin + slot.col * panelWidth,
+        top: margin + slot.row * panelHeight
+      };
+    }));
+
+    if (side === 'back' && backImage) {
+      compositeImages.push({ input: backImage, left: margin, top: margin });
+    }
+
+    // Bleed: repeat the outermost artwork pixels past the trim line
+    if (bleedPx > 0) {
+      const trim = await sharp({
+        create: { width: paper.trimWidth, height: paper.trimHeight, channels: 3, background }
+      })
+        .composite(compositeImages.map(image => ({
+          ...image,
+          left: image.left - margin,
+          top: image.top - margin
+        })))
+        .png()
+        .toBuffer();
+
+      compositeImages.splice(0, compositeImages.length, {
+        input: await sharp(trim)
+          .extend({ top: bleedPx, bottom: bleedPx, left: bleedPx, right: bleedPx, extendWith: 'copy' })
+          .toBuffer(),
+        left: margin - bleedPx,
+        top: margin - bleedPx
+      });
+    }
+
+    const marksSvg = createMarksSvg({ scheme, paper, side: { sheet, side }, marks, bleed });
+    if (marksSvg) {
+      compositeImages.push({ input: marksSvg, left: 0, top: 0 });
+    }
+
+    // Create the final composite image (PNG carries the DPI so it prints at true size)
+    const buffer = await sharp({
+      create: {
+        width: paper.width,
+        height: paper.height,
+        channels: 3,
+        background
+      }
+    })
+      .composite(compositeImages)
+      .withMetadata({ density: paper.dpi })
+      .png()
+      .toBuffer();
+
+    return { sheet, side, slots, buffer };
+  }));
+}
+
+/**
+ * Separate rendered sides into spot-colour layers
+ *
+ * Every layer gets registration targets and its ink name; printer's marks
+ * go on the first (key) layer only, so guides don't print in colour.
+ *
+ * @param {Object} options
+ * @param {Object[]} options.sides - Rendered sides without marks (see renderSides)
+ * @param {{ name: string, color: string }[]} options.inks - Separation inks
+ * @param {Object} options.scheme - Imposition scheme
+ * @param {Object} options.paper - Resolved paper geometry
+ * @param {string[]} options.marks - Enabled mark types
+ * @param {number} options.bleed - Bleed in inches
+ * @param {string} options.format - 'png' (one file per layer and side) or 'pdf' (one file per layer)
+ * @param {string} options.outputPath - Requested output path, names the layer files
+ * @returns {Promise<{ path: string, data: Buffer }[]>} - Layer files
+ */
+async function separateSides({ sides, inks, scheme, paper, marks, bleed, format, outputPath }) {
+  const layersBySide = await Promise.all(sides.map(async (side) => {
+    const separated = await separateImage(side.buffer, inks);
+    return Promise.all(separated.map(async ({ ink, data, width, height }, i) => {
+      const overlays = [
+        i === 0 && createMarksSvg({ scheme, paper, side, marks, bleed }),
+        createRegistrationSvg({ paper, bleed, label: `${ink.name} · layer ${i + 1} of ${inks.length}` })
+      ].filter(Boolean);
+
+      const png = await sharp(data, { raw: { width, height, channels: 1 } })
+        .composite(overlays.map(input => ({ input, left: 0, top: 0 })))
+        .flatten({ background: '#ffffff' })
+        .toColourspace('b-w')
+        .removeAlpha()
+        .png()
+        .toBuffer();
+      return setPngDensity(png, paper.dpi);
+    }));
+  }));
+
+  if (format === 'pdf') {
+    return Promise.all(inks.map(async (ink, i) => ({
+      path: layerOutputPath(outputPath, ink.name),
+      data: await createPdf({
+        pages: layersBySide.map(layers => ({
+          image: layers[i],
+          widthIn: paper.widthIn,
+          heightIn: paper.heightIn
+        }))
+      })
+    })));
+  }
+
+  return layersBySide.flatMap((layers, s) => layers.map((data, i) => ({
+    path: layerOutputPath(outputPath, inks[i].name, sides.length > 1 ? sides[s] : undefined),
+    data
+  })));
+}
+
+/**
+ * Create a reader-order PDF: one zine page per PDF page, at folded panel size
+ *
+ * Useful for on-screen reading and for print shops that do their own imposition.
+ *
+ * @param {Object} options
+ * @param {Array<string|Buffer|Readable>} options.pages - Page images in reading order
+ * @param {string} [options.outputPath] - Output PDF path (returns a Buffer if omitted)
+ * @param {string|Object} [options.paperFormat] - Sheet the zine is printed on (default: scheme's, else 'letter')
+ * @param {string} [options.scheme] - Imposition scheme, determines panel size (default: the page count's)
+ * @param {Array<Object|null>} [options.transforms] - Page transforms, by page (see transform.mjs)
+ * @param {Array<Object|null>} [options.textLayers] - Text layers, by page (see text.mjs)
+ * @param {string} [options.background] - Background color (default: '#ffffff')
+ * @returns {Promise<string|Buffer>} - File path if outputPath provided, otherwise Buffer
+ */
+export async function createReaderPdf({ pages, outputPath, paperFormat, scheme, transforms = [], textLayers = [], background = '#ffffff' }) {
+  const { grid, paperFormat: schemePaper } = scheme
+    ? getImpositionScheme(scheme)
+    : getDefaultScheme(pages.length);
+  const paper = resolvePaper(paperFormat || schemePaper || 'letter', grid);
+
+  // Pages are fitted to the panel and lettered as on the print layout
+  const images = await Promise.all(pages.map(async (page, i) => applyTextLayer(await applyPageTransform(await readImageInput(page), {
+    width: paper.panelWidth,
+    height: paper.panelHeight,
+    transform: transforms[i],
+    background
+  }), { width: paper.panelWidth, height: paper.panelHeight, dpi: paper.dpi, layer: textLayers[i] })));
+
+  return createPdf({
+    pages: images.map((image) => ({
+      image,
+      widthIn: paper.widthIn / grid.cols,
+      heightIn: paper.heightIn / grid.rows
+    })),
+    outputPath
+  });
 }
 
 /**
- * Create a print-ready zine layout from 8 page images
+ * Create a print-ready zine layout from page images
+ *
+ * Single-sided schemes with one sheet (like the classic mini-8) produce one
+ * image. Multi-sheet or duplex schemes - including single-sided schemes given
+ * back artwork - produce one PDF page per printed side, or one PNG per side
+ * (suffixed _sheetN_front / _sheetN_back).
+ *
+ * With output 'buffer' or 'stream' nothing touches the filesystem (and
+ * nothing is logged): the result has the same shape as the file paths would,
+ * with a Buffer or Readable in place of each path.
  *
  * @param {Object} options - Layout options
- * @param {string[]} options.pages - Array of 8 page image paths (in order: 1-8)
+ * @param {Array<string|Buffer|Readable>} options.pages - Page images in reading order (as many as the scheme needs): paths, buffers or readable streams
+ * @param {Array<Object|null>} [options.transforms] - Per-page fit, zoom, pan and rotation, by page (see transform.mjs; default: whole page, centred)
+ * @param {Array<Object|null>} [options.textLayers] - Per-page title, body and caption text set over the artwork, by page (see text.mjs; default: none)
+ * @param {string} [options.output] - 'file' (default), 'buffer' or 'stream'
  * @param {string} [options.outputPath] - Output file path (auto-generated with timestamp if not provided)
  * @param {string} [options.zineName] - Zine name for generated filename (default: 'mycrozine')
  * @param {string} [options.background] - Background color (default: '#ffffff')
- * @returns {Promise<string>} - Path to generated print layout
+ * @param {string} [options.format] - Output format: 'png', 'pdf' or 'tiff' (default: 'png')
+ * @param {string} [options.profile] - Export profile: 'screen', 'home-print', 'offset-cmyk' or 'xerox-1bit' (default: 'home-print')
+ * @param {boolean} [options.readerOrder] - Also write a reader-order PDF next to the output
+ * @param {string} [options.scheme] - Imposition scheme, see IMPOSITION_SCHEMES (default: the page count's, e.g. mini-8 for 8 pages)
+ * @param {string|Object} [options.paperFormat] - 'letter', 'a4', '210x297mm', { width, height, unit } (default: scheme's, else 'letter')
+ * @param {number} [options.dpi] - Output resolution (default: 300)
+ * @param {number} [options.creep] - Creep per nested sheet in inches (default: scheme's, else 0)
+ * @param {boolean|string|string[]} [options.marks] - Printer's marks: true for all, or any of 'fold', 'cut', 'crop', 'legend' (default: none)
+ * @param {number} [options.margin] - Sheet margin around the panels in inches (default: 0.25 with marks, else 0)
+ * @param {number} [options.bleed] - Artwork bleed into the margin in inches (default: 0.0625 with a margin, else 0)
+ * @param {string|Buffer|Readable} [options.backImage] - Single-sided schemes only: artwork for the whole back of each sheet (poster, fold-out map)
+ * @param {Array<string|Buffer|Readable>} [options.backPanels] - Single-sided schemes only: one image per zine page, printed directly behind it
+ * @param {string} [options.flip] - Duplex flip mode the back is laid out for: 'long-edge' or 'short-edge' (default: 'long-edge')
+ * @param {boolean|string|string[]} [options.separations] - Risograph separations: true for the style's inks, or 1-3 ink names / #rrggbb colours.
+ *   Writes one grayscale layer per ink (PNG or PDF) with registration marks instead of the colour layout.
+ * @param {string} [options.style] - Zine style whose palette picks the default separation inks (default: 'punk-zine')
+ * @returns {Promise<string|string[]|Buffer|Buffer[]|Readable|Readable[]>} - Path to generated print layout (one per side for multi-side PNGs, one per layer for separations), or its contents for output 'buffer' / 'stream'
  */
 export async function createPrintLayout(options) {
   const {
     pages,
     zineName = 'mycrozine',
-    background = '#ffffff'
+    background = '#ffffff',
+    format = 'png',
+    output = 'file',
+    readerOrder = false,
+    dpi = DEFAULT_DPI,
+    backImage,
+    backPanels,
+    flip = 'long-edge'
   } = options;
 
-  // Use provided outputPath or generate timestamped filename
+  const scheme = options.scheme
+    ? getImpositionScheme(options.scheme)
+    : getDefaultScheme(pages?.length);
+  const paperFormat = options.paperFormat || scheme.paperFormat || 'letter';
+  const creep = options.creep ?? scheme.creep ?? 0;
+  const { cols, rows } = scheme.grid;
+  const marks = parseMarks(options.marks);
+  const inks = options.separations ? parseInks(options.separations, { style: options.style }) : null;
+
+  // Separations always get a margin to hold the registration marks
+  const { margin, bleed } = resolveMarkMargins(marks, {
+    margin: options.margin ?? (inks ? DEFAULT_MARGIN : undefined),
+    bleed: options.bleed
+  });
+
+  const paper = resolvePaper(paperFormat, { dpi, cols, rows, margin });
+  const { panelWidth, panelHeight } = paper;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Invalid format: ${format}. Use ${EXPORT_FORMATS.map(f => `'${f}'`).join(', ')}`);
+  }
+  const profile = getExportProfile(options.profile || DEFAULT_PROFILE);
+  assertProfileFormat(profile, format);
+  if (inks && (format === 'tiff' || options.profile)) {
+    throw new Error('Separations are written as grayscale PNG or PDF layers; export profiles and TIFF don\'t apply');
+  }
+
+  if (!OUTPUT_MODES.includes(output)) {
+    throw new Error(`Invalid output: ${output}. Use ${OUTPUT_MODES.map(o => `'${o}'`).join(', ')}`);
+  }
+  if (readerOrder && output !== 'file') {
+    throw new Error('readerOrder writes a file next to the layout; use createReaderPdf() for a buffer');
+  }
+
+  // Use provided outputPath or generate timestamped filename (also names in-memory outputs)
   const outputPath = options.outputPath || path.join(
-    __dirname, '..', 'output', generatePrintFilename(zineName)
+    __dirname, '..', 'output', generatePrintFilename(zineName, format)
   );
 
-  if (!pages || pages.length !== 8) {
-    throw new Error('Exactly 8 page images are required');
+  if (!pages || pages.length !== scheme.pageCount) {
+    throw new Error(`Exactly ${scheme.pageCount} page images are required for ${scheme.name}`);
   }
 
-  // Ensure output directory exists
-  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  const transforms = options.transforms || [];
+  if (!Array.isArray(transforms) || transforms.length > scheme.pageCount) {
+    throw new Error(`transforms must be a list of at most ${scheme.pageCount} page transforms`);
+  }
+  transforms.forEach(normalizeTransform);
 
-  // Load and resize all pages to panel size (7cm x 10.8cm)
-  const resizedPages = await Promise.all(
-    pages.map(async (pagePath) => {
-      return sharp(pagePath)
-        .resize(PANEL_WIDTH, PANEL_HEIGHT, {
-          fit: 'contain',
-          background
-        })
-        .toBuffer();
-    })
-  );
+  const textLayers = options.textLayers || [];
+  if (!Array.isArray(textLayers) || textLayers.length > scheme.pageCount) {
+    throw new Error(`textLayers must be a list of at most ${scheme.pageCount} text layers`);
+  }
+  textLayers.forEach(normalizeTextLayer);
 
-  // Rotate top row pages 180 degrees (they need to be upside down)
-  const rotatedTopPages = await Promise.all(
-    TOP_ROW_PAGES.map(async (pageIndex) => {
-      return sharp(resizedPages[pageIndex])
-        .rotate(180)
-        .toBuffer();
-    })
-  );
+  // Back sides turn a single-sided scheme into a duplex print
+  let back;
+  if (backImage || backPanels) {
+    if (scheme.duplex) {
+      throw new Error(`${scheme.name} is already printed duplex; back artwork is for single-sided schemes`);
+    }
+    if (backImage && backPanels) {
+      throw new Error('Provide either backImage or backPanels, not both');
+    }
+    if (backPanels && backPanels.length !== scheme.pageCount) {
+      throw new Error(`Exactly ${scheme.pageCount} back panels are required for ${scheme.name}`);
+    }
+    if (!FLIP_MODES.includes(flip)) {
+      throw new Error(`Invalid flip mode: ${flip}. Use ${FLIP_MODES.join(' or ')}`);
+    }
+    back = { image: backImage, panels: backPanels, flip };
+  }
 
-  // Build composite array with proper page arrangement
-  const compositeImages = [];
+  const images = await Promise.all(pages.map(readImageInput));
+  if (back) {
+    back.image = back.image && await readImageInput(back.image);
+    back.panels = back.panels && await Promise.all(back.panels.map(readImageInput));
+  }
 
-  // Top row: pages 1, 8, 7, 6 (rotated 180°)
-  for (let col = 0; col < COLS; col++) {
-    compositeImages.push({
-      input: rotatedTopPages[col],
-      left: col * PANEL_WIDTH,
-      top: 0
-    });
+  // Separations add marks per layer, after splitting the artwork
+  const sides = await renderSides({ pages: images, transforms, textLayers, scheme, paper, background, creep, marks: inks ? [] : marks, bleed, back });
+
+  let files;
+  if (inks) {
+    files = await separateSides({ sides, inks, scheme, paper, marks, bleed, format, outputPath });
+  } else if (format === 'pdf') {
+    files = [{
+      path: outputPath,
+      data: await createPdf({
+        pages: sides.map(({ buffer }) => ({
+          image: buffer,
+          widthIn: paper.widthIn,
+          heightIn: paper.heightIn
+        })),
+        profile
+      })
+    }];
+  } else {
+    files = await Promise.all(sides.map(async (side) => ({
+      path: sides.length === 1 ? outputPath : sideOutputPath(outputPath, side),
+      data: await exportImage(side.buffer, { profile, format, dpi: paper.dpi })
+    })));
   }
 
-  // Bottom row: pages 2, 3, 4, 5 (normal orientation)
-  for (let col = 0; col < COLS; col++) {
-    const pageIndex = BOTTOM_ROW_PAGES[col];
-    compositeImages.push({
-      input: resizedPages[pageIndex],
-      left: col * PANEL_WIDTH,
-      top: PANEL_HEIGHT
-    });
+  // Separations always return a list, other layouts only for several sides
+  const unwrap = (list) => (inks || list.length > 1 ? list : list[0]);
+
+  if (output === 'buffer') {
+    return unwrap(files.map(({ data }) => data));
+  }
+  if (output === 'stream') {
+    return unwrap(files.map(({ data }) => Readable.from([data])));
+  }
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  for (const file of files) {
+    await fs.writeFile(file.path, file.data);
+  }
+  const result = unwrap(files.map(file => file.path));
+
+  console.log(`Created print layout: ${[].concat(result).join(', ')}`);
+  console.log(`  Scheme: ${scheme.name} - ${scheme.description}`);
+  console.log(`  Dimensions: ${paper.width}x${paper.height} pixels (${paper.name} landscape @ ${paper.dpi} DPI)`);
+  console.log(`  Panel size: ${panelWidth}x${panelHeight} pixels (${(panelWidth / paper.dpi * 2.54).toFixed(1)}cm x ${(panelHeight / paper.dpi * 2.54).toFixed(1)}cm)`);
+  if (inks) {
+    console.log(`  Separations: ${inks.map(ink => `${ink.name} (${ink.color})`).join(', ')}`);
+  } else {
+    console.log(`  Profile: ${profile.name} (${profile.colorspace}, ${profile.bitDepth}-bit, ${profile.compression[format]})`);
+  }
+  if (marks.length > 0 || margin > 0) {
+    console.log(`  Marks: ${marks.join(', ') || 'none'} (margin ${margin}", bleed ${bleed}")`);
+  }
+  for (const side of sides) {
+    console.log(`  Sheet ${side.sheet} ${side.side}: ${side.slots.length ? describeSlots(side.slots) : '[back image]'}`);
+  }
+  if (scheme.duplex || back) {
+    console.log(`  Print duplex, flip on ${back ? back.flip : scheme.flip || 'short-edge'}`);
   }
 
-  // Create the final composite image
-  await sharp({
-    create: {
-      width: PAGE_WIDTH,
-      height: PAGE_HEIGHT,
-      channels: 3,
+  if (readerOrder) {
+    const readerPath = await createReaderPdf({
+      pages: images,
+      outputPath: readerPdfPath(outputPath),
+      paperFormat,
+      scheme: scheme.name,
+      transforms,
+      textLayers,
       background
-    }
-  })
-    .composite(compositeImages)
-    .png()
-    .toFile(outputPath);
+    });
+    console.log(`Created reader-order PDF: ${readerPath}`);
+  }
+
+  return result;
+}
+
+/**
+ * Layout options for --help output (shared with the mycrozine CLI)
+ */
+export const LAYOUT_OPTIONS_HELP = `  --output, -o <path>   Output file path (default: auto-generated with timestamp)
+  --name, -n <name>     Zine name for auto-generated filename (default: mycrozine)
+  --format, -f <fmt>    Output format: png, pdf or tiff (default: png)
+  --profile <name>      Export profile (default: ${DEFAULT_PROFILE}):
+${Object.values(EXPORT_PROFILES).map(p => `                          ${p.name.padEnd(15)} ${p.description}`).join('\n')}
+  --reader              Also write a reader-order PDF (one page per zine page)
+  --paper, -p <format>  letter, a4, legal, tabloid, a3, a5 or WxH[mm|in] (default: letter)
+  --dpi <number>        Output resolution (default: 300)
+  --scheme, -s <name>   Imposition scheme (default: mini-8 for 8 pages, ...):
+${Object.values(IMPOSITION_SCHEMES).map(s => `                          ${s.name.padEnd(15)} ${s.pageCount} pages`).join('\n')}
+  --creep <inches>      Creep per nested booklet sheet (default: scheme's)
+  --marks [types]       Printer's marks: all (default) or any of ${MARK_TYPES.join(', ')}
+  --margin <inches>     Sheet margin around the panels (default: 0.25 with marks)
+  --bleed <inches>      Artwork bleed into the margin (default: 0.0625 with a margin)
+  --back <image>        Single-sided schemes: print an image across the back of the sheet
+  --back-panel <image>  Single-sided schemes: image behind each page, in page order (repeat)
+  --flip <mode>         Duplex flip the back is laid out for: long-edge or short-edge
+                        (default: long-edge)
+  --separations [inks]  Risograph layers, 1-3 of: ${Object.keys(RISO_INKS).join(', ')}
+                        or #rrggbb (default: the style's inks)
+  --style <name>        Zine style, picks the default separation inks (default: punk-zine)`;
+
+/**
+ * Parse layout command-line arguments
+ *
+ * @param {string[]} args - Arguments after the command
+ * @returns {{ pages: string[], options: Object }} - Page paths (positional arguments)
+ *   and createPrintLayout options for the flags that were given
+ */
+export function parseLayoutArgs(args) {
+  const pages = [];
+  const options = {};
 
-  console.log(`Created print layout: ${outputPath}`);
-  console.log(`  Dimensions: ${PAGE_WIDTH}x${PAGE_HEIGHT} pixels (11"x8.5" landscape @ 300 DPI)`);
-  console.log(`  Panel size: ${PANEL_WIDTH}x${PANEL_HEIGHT} pixels (7cm x 10.8cm)`);
-  console.log(`  Layout: Top row [1↺, 8↺, 7↺, 6↺] | Bottom row [2, 3, 4, 5]`);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--output' || args[i] === '-o') {
+      options.outputPath = args[++i];
+    } else if (args[i] === '--name' || args[i] === '-n') {
+      options.zineName = args[++i];
+    } else if (args[i] === '--format' || args[i] === '-f') {
+      options.format = args[++i];
+    } else if (args[i] === '--profile') {
+      options.profile = args[++i];
+    } else if (args[i] === '--reader') {
+      options.readerOrder = true;
+    } else if (args[i] === '--paper' || args[i] === '-p') {
+      options.paperFormat = args[++i];
+    } else if (args[i] === '--dpi') {
+      options.dpi = parseInt(args[++i], 10);
+    } else if (args[i] === '--scheme' || args[i] === '-s') {
+      options.scheme = args[++i];
+    } else if (args[i] === '--creep') {
+      options.creep = parseFloat(args[++i]);
+    } else if (args[i] === '--marks') {
+      // Optional value: a mark list like "fold,cut"; bare --marks enables all
+      const next = args[i + 1];
+      const isMarkList = next && next.split(',').every(name => ['all', 'none', ...MARK_TYPES].includes(name));
+      options.marks = isMarkList ? args[++i] : true;
+    } else if (args[i] === '--margin') {
+      options.margin = parseFloat(args[++i]);
+    } else if (args[i] === '--bleed') {
+      options.bleed = parseFloat(args[++i]);
+    } else if (args[i] === '--back') {
+      options.backImage = args[++i];
+    } else if (args[i] === '--back-panel') {
+      options.backPanels = [...(options.backPanels || []), args[++i]];
+    } else if (args[i] === '--flip') {
+      options.flip = args[++i];
+    } else if (args[i] === '--separations') {
+      // Optional value: an ink list like "black,blue"; bare --separations uses the style's inks
+      const next = args[i + 1];
+      const isInkList = next && next.split(',').every(ink => RISO_INKS[ink] || /^#?[0-9a-f]{6}$/i.test(ink));
+      options.separations = isInkList ? args[++i] : true;
+    } else if (args[i] === '--style') {
+      options.style = args[++i];
+    } else if (!args[i].startsWith('-')) {
+      pages.push(args[i]);
+    }
+  }
 
-  return outputPath;
+  return { pages, options };
 }
 
 /**
  * CLI entry point
- * Usage: node layout.mjs <page1> <page2> ... <page8> [--output <path>] [--name <zineName>]
+ * Usage: node layout.mjs <page1> <page2> ... <pageN> [--output <path>] [--name <zineName>]
+ * (the mycrozine CLI runs the same layout on a zine project: mycrozine layout)
  */
 async function main() {
   const args = process.argv.slice(2);
 
   // Show help
-  if (args.includes('--help') || args.includes('-h')) {
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
     console.log(`
 MycroZine Layout Generator
-Creates a print-ready layout with all 8 pages on a single 11"x8.5" sheet.
+Creates a print-ready layout with all 8 pages on a single landscape sheet,
+or imposes longer zines and booklets with --scheme.
 
 Usage:
-  node layout.mjs page1.png page2.png ... page8.png [options]
+  node layout.mjs page1.png page2.png ... pageN.png [options]
+  mycrozine layout [options]    (in a zine project, see mycrozine --help)
+
+  4, 8, 12, 16 or 24 pages; the page count picks a default scheme.
 
 Options:
-  --output, -o <path>   Output file path (default: auto-generated with timestamp)
-  --name, -n <name>     Zine name for auto-generated filename (default: mycrozine)
+${LAYOUT_OPTIONS_HELP}
   --help, -h            Show this help message
 
 Examples:
   node layout.mjs p1.png p2.png p3.png p4.png p5.png p6.png p7.png p8.png
   node layout.mjs p*.png --name "undernet"
   node layout.mjs p*.png --output my_zine_print.png
+  node layout.mjs p*.png --format pdf --reader
+  node layout.mjs p*.png --paper a4
+  node layout.mjs p*.png --paper 240x170mm --dpi 600
+  node layout.mjs p01.png ... p16.png --scheme mini-16
+  node layout.mjs p01.png ... p12.png --scheme booklet-12 --format pdf
+  node layout.mjs p*.png --marks
+  node layout.mjs p*.png --marks fold,cut --margin 0.3 --bleed 0
+  node layout.mjs p*.png --back poster.png --format pdf
+  node layout.mjs p*.png --profile offset-cmyk --format tiff
+  node layout.mjs p*.png --profile xerox-1bit --format pdf
+  node layout.mjs p*.png --separations
+  node layout.mjs p*.png --separations black,fluorescent-pink,blue --format pdf
+  node layout.mjs p*.png --back-panel b1.png ... --back-panel b8.png --flip short-edge
 `);
-    process.exit(0);
+    process.exit(args.length === 0 ? 1 : 0);
   }
 
-  // Parse arguments
-  let pages = [];
-  let outputPath = null;
-  let zineName = 'mycrozine';
-
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === '--output' || args[i] === '-o') {
-      outputPath = args[++i];
-    } else if (args[i] === '--name' || args[i] === '-n') {
-      zineName = args[++i];
-    } else if (!args[i].startsWith('-')) {
-      pages.push(args[i]);
-    }
-  }
+  const { pages, options } = parseLayoutArgs(args);
 
-  if (pages.length === 0) {
-    // Default: look for undernet_zine_p*.png in examples
-    const exampleDir = path.join(__dirname, '..', 'examples', 'undernet');
-    try {
-      const files = await fs.readdir(exampleDir);
-      pages = files
-        .filter(f => f.match(/undernet_zine_p\d\.png/))
-        .sort()
-        .map(f => path.join(exampleDir, f));
-
-      if (pages.length === 0) {
-        console.log('No page images found. Usage:');
-        console.log('  node layout.mjs page1.png page2.png ... page8.png [--output path]');
-        console.log('  Or place 8 pages named undernet_zine_p1.png through p8.png in examples/undernet/');
-        process.exit(1);
-      }
-
-      // Use 'undernet' as default zine name when using example files
-      if (zineName === 'mycrozine') {
-        zineName = 'undernet';
-      }
-    } catch (e) {
-      console.log('Usage: node layout.mjs page1.png page2.png ... page8.png [--output path]');
-      process.exit(1);
-    }
-  }
-
-  if (pages.length !== 8) {
-    console.error(`Error: Expected 8 pages, got ${pages.length}`);
+  let scheme;
+  try {
+    scheme = options.scheme ? getImpositionScheme(options.scheme) : getDefaultScheme(pages.length);
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
     process.exit(1);
   }
 
-  const options = { pages, zineName };
-  if (outputPath) {
-    options.outputPath = outputPath;
+  if (pages.length !== scheme.pageCount) {
+    console.error(`Error: Expected ${scheme.pageCount} pages for ${scheme.name}, got ${pages.length}`);
+    process.exit(1);
   }
 
   try {
-    const result = await createPrintLayout(options);
-    console.log(`\nPrint file saved to: ${result}`);
+    // --style may name a user-defined style
+    await loadStyles();
+    const result = await createPrintLayout({ ...options, pages, scheme: scheme.name });
+    console.log(`\nPrint file saved to: ${[].concat(result).join(', ')}`);
   } catch (error) {
     console.error('Error creating layout:', error.message);
     process.exit(1);
@@ -0,0 +1,492 @@
+/**
+ * MycroZine Manifest
+ *
+ * zine.json is the one on-disk description of a zine, shared by the library,
+ * the mycrozine CLI and the web app: a zine directory holds zine.json, a
+ * pages/ folder (p1.png ... pN.png) and any print layouts, and can be moved
+ * between them as is. Earlier versions of a page's image are kept in
+ * pages/history/, candidates not picked yet in pages/drafts/.
+ *
+ * The manifest is versioned and validated with zod. Older files - unversioned
+ * createZineConfig() output and the web app's metadata.json - are migrated
+ * when read.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { PAGE_COUNTS } from './imposition.mjs';
+import { isValidPaperFormat } from './paper.mjs';
+import { TRANSFORM_FITS, TRANSFORM_LIMITS } from './transform.mjs';
+import { TEXT_ALIGNMENTS, TEXT_ROLES } from './text.mjs';
+import { styleBibleSchema } from './consistency.mjs';
+
+export const MANIFEST_VERSION = 1;
+export const MANIFEST_FILE = 'zine.json';
+
+// The web app stored zines as metadata.json before zine.json existed
+export const LEGACY_MANIFEST_FILE = 'metadata.json';
+
+/**
+ * Page image extensions in pages/, in the order they're looked for
+ */
+export const PAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
+
+/**
+ * Generate a zine id, e.g. zine_1736000000000_k3j9x2m1q
+ * @returns {string}
+ */
+export function createZineId() {
+  return `zine_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * One page of a content outline
+ */
+export const pageOutlineSchema = z.object({
+  pageNumber: z.number().int().positive(),
+  type: z.string().default('content'),
+  title: z.string(),
+  subtitle: z.string().optional(),
+  keyPoints: z.array(z.string()).default([]),
+  hashtags: z.array(z.string()).optional(),
+  imagePrompt: z.string().default(''),
+  template: z.string().optional()
+}).passthrough();
+
+const limited = key => z.number().min(TRANSFORM_LIMITS[key][0]).max(TRANSFORM_LIMITS[key][1]);
+
+/**
+ * How a page image sits in its panel (see transform.mjs)
+ */
+export const pageTransformSchema = z.object({
+  fit: z.enum(TRANSFORM_FITS).default('contain'),
+  scale: limited('scale').default(1),
+  offsetX: limited('offsetX').default(0),
+  offsetY: limited('offsetY').default(0),
+  rotation: limited('rotation').default(0)
+});
+
+const fraction = z.number().min(0).max(1);
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i, 'Use a #rrggbb colour');
+
+/**
+ * A block of text set over a page (see text.mjs); omitted fields take the role's defaults
+ */
+export const textBlockSchema = z.object({
+  role: z.enum(TEXT_ROLES).default('body'),
+  text: z.string(),
+  font: z.string().optional(),
+  size: z.number().min(4).max(144).optional(),
+  weight: z.enum(['normal', 'bold']).optional(),
+  color: hexColor.optional(),
+  background: hexColor.optional(),
+  x: fraction,
+  y: fraction,
+  width: z.number().min(0.05).max(1).optional(),
+  align: z.enum(TEXT_ALIGNMENTS).optional(),
+  lineHeight: z.number().min(0.8).max(3).optional()
+});
+
+/**
+ * A page's text layer: the blocks typeset over its artwork, in drawing order
+ */
+export const textLayerSchema = z.object({
+  blocks: z.array(textBlockSchema)
+});
+
+/**
+ * One version of a page: its image (relative to the zine, e.g.
+ * pages/history/p3-v2.png) and what made it
+ */
+export const pageVersionSchema = z.object({
+  version: z.number().int().positive(),
+  image: z.string().regex(/^pages\/history\/p\d+-v\d+\.png$/, 'Use pages/history/p<page>-v<version>.png'),
+  outline: pageOutlineSchema.optional(),
+  feedback: z.string().optional(),
+  provider: z.string().optional(),
+  createdAt: z.string().datetime()
+});
+
+/**
+ * A page's versions, oldest first, and which one the page shows
+ */
+export const pageHistorySchema = z.object({
+  current: z.number().int().positive(),
+  versions: z.array(pageVersionSchema).min(1)
+}).refine(history => history.versions.some(version => version.version === history.current), {
+  path: ['current'],
+  message: 'Current version must be one of the versions'
+});
+
+/**
+ * A candidate image for a page, waiting to be picked (e.g.
+ * pages/drafts/p3-d2.png); picking one makes it the page's next version
+ */
+export const pageDraftSchema = z.object({
+  draft: z.number().int().positive(),
+  image: z.string().regex(/^pages\/drafts\/p\d+-d\d+\.png$/, 'Use pages/drafts/p<page>-d<draft>.png'),
+  outline: pageOutlineSchema.optional(),
+  feedback: z.string().optional(),
+  provider: z.string().optional(),
+  fallback: z.boolean().optional(),
+  createdAt: z.string().datetime()
+});
+
+const paperFormatSchema = z.union([
+  z.string(),
+  z.object({
+    width: z.number().positive(),
+    height: z.number().positive(),
+    unit: z.enum(['mm', 'in']).optional()
+  })
+]).refine(isValidPaperFormat, { message: 'Invalid paper format' });
+
+/**
+ * zine.json, version 1
+ *
+ * Paths (pages, printLayout) are relative to the zine's directory.
+ * pageTransforms holds each page's fit, zoom, pan and rotation (null for the
+ * default), textLayers its title, body and caption text (null for none),
+ * pageHistory its earlier images (null for none kept) and pageDrafts its
+ * candidates waiting to be picked (null for none). With textOverlay set,
+ * page art is generated without lettering. styleBible and seed keep the
+ * pages looking alike (see consistency.mjs). structure is the page sequence
+ * the outline follows (a ZINE_STRUCTURES key, or a custom list of templates,
+ * one per page); each outline page names its template. Unknown keys are
+ * kept, so tools can store extra data alongside.
+ */
+export const manifestSchema = z.object({
+  version: z.literal(MANIFEST_VERSION),
+  id: z.string().min(1),
+  topic: z.string().min(1),
+  title: z.string().min(1),
+  style: z.string().min(1),
+  tone: z.string().min(1),
+  pageCount: z.number().int().refine(count => PAGE_COUNTS.includes(count), {
+    message: `Page count must be one of ${PAGE_COUNTS.join(', ')}`
+  }),
+  paperFormat: paperFormatSchema.default('letter'),
+  dpi: z.number().positive().default(300),
+  sourceUrls: z.array(z.string()).default([]),
+  status: z.string().default('draft'),
+  structure: z.union([z.string(), z.array(z.string())]).optional(),
+  outline: z.array(pageOutlineSchema).nullable().default(null),
+  pages: z.array(z.string()).default([]),
+  pageTransforms: z.array(pageTransformSchema.nullable()).optional(),
+  textLayers: z.array(textLayerSchema.nullable()).optional(),
+  textOverlay: z.boolean().optional(),
+  pageHistory: z.array(pageHistorySchema.nullable()).optional(),
+  pageDrafts: z.array(z.array(pageDraftSchema).nullable()).optional(),
+  styleBible: styleBibleSchema.optional(),
+  seed: z.number().int().nonnegative().optional(),
+  printLayout: z.string().optional(),
+  printScheme: z.string().optional(),
+  printSides: z.number().int().positive().optional(),
+  printMarks: z.array(z.string()).optional(),
+  printProfile: z.string().optional(),
+  imageProvider: z.string().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime()
+}).passthrough().superRefine((manifest, ctx) => {
+  if (manifest.outline && manifest.outline.length !== manifest.pageCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['outline'],
+      message: `Outline must have exactly ${manifest.pageCount} pages`
+    });
+  }
+  if (manifest.pageTransforms && manifest.pageTransforms.length > manifest.pageCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pageTransforms'],
+      message: `Page transforms must list at most ${manifest.pageCount} pages`
+    });
+  }
+  if (manifest.textLayers && manifest.textLayers.length > manifest.pageCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['textLayers'],
+      message: `Text layers must list at most ${manifest.pageCount} pages`
+    });
+  }
+  if (manifest.pageHistory && manifest.pageHistory.length > manifest.pageCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pageHistory'],
+      message: `Page history must list at most ${manifest.pageCount} pages`
+    });
+  }
+  if (manifest.pageDrafts && manifest.pageDrafts.length > manifest.pageCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pageDrafts'],
+      message: `Page drafts must list at most ${manifest.pageCount} pages`
+    });
+  }
+  if (manifest.pages.length > 0 && manifest.pages.length !== manifest.pageCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pages'],
+      message: `Pages must be empty or list exactly ${manifest.pageCount} images`
+    });
+  }
+});
+
+/**
+ * Make a stored path relative to the zine directory
+ *
+ * Absolute paths from another machine or data directory (the web app used to
+ * store them) keep their place in the zine: pages/<file>, or just the file.
+ *
+ * @param {string} filePath - Stored path ('' for a page not generated yet)
+ * @param {string} [dir] - Zine directory
+ * @param {string} [subdir] - Folder the file lives in within the zine, e.g. 'pages'
+ * @returns {string}
+ */
+function toZinePath(filePath, dir, subdir) {
+  if (!filePath || !path.isAbsolute(filePath)) {
+    return filePath || '';
+  }
+  const relative = dir ? path.relative(path.resolve(dir), filePath) : '';
+  if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative.split(path.sep).join('/');
+  }
+  const file = path.basename(filePath);
+  return subdir ? `${subdir}/${file}` : file;
+}
+
+/**
+ * Normalize a zine's page list: relative paths, one entry per page ('' where
+ * an image is still missing), or empty if there are no images yet
+ *
+ * @param {Array<string|null|undefined>} [pages] - Stored page paths (may be sparse)
+ * @param {number} pageCount - Pages the zine has
+ * @param {string} [dir] - Zine directory
+ * @returns {string[]}
+ */
+function toZinePages(pages = [], pageCount, dir) {
+  if (!Array.from(pages).some(Boolean)) {
+    return [];
+  }
+  return Array.from({ length: Math.max(pageCount, pages.length) }, (_, i) => toZinePath(pages[i], dir, 'pages'));
+}
+
+/**
+ * Add the page images in pages/ that a manifest doesn't list (the CLI and
+ * other tools put images there without recording them)
+ *
+ * @param {Object} manifest - Manifest, current version
+ * @param {string} dir - Zine directory
+ * @returns {Promise<Object>} - The manifest, pages filled in
+ */
+async function addPageFiles(manifest, dir) {
+  const pages = manifest.pages ?? [];
+  const { pageCount } = manifest;
+  if (!Number.isInteger(pageCount) || !Array.isArray(pages) || (pages.length > 0 && pages.length !== pageCount)) {
+    return manifest;
+  }
+
+  const files = await fs.readdir(path.join(dir, 'pages')).catch(() => []);
+  const found = Array.from({ length: pageCount }, (_, i) => {
+    const file = PAGE_EXTENSIONS.map(ext => `p${i + 1}${ext}`).find(name => files.includes(name));
+    return pages[i] || (file ? `pages/${file}` : '');
+  });
+  return found.some(Boolean) ? { ...manifest, pages: found } : manifest;
+}
+
+/**
+ * Normalize a page's history: version images relative to the zine directory
+ * @param {Object|null|undefined} history
+ * @param {string} [dir] - Zine directory
+ * @returns {Object|null}
+ */
+function toZineHistory(history, dir) {
+  if (!history) {
+    return null;
+  }
+  return {
+    ...history,
+    versions: history.versions?.map(version => ({ ...version, image: toZinePath(version.image, dir, 'pages/history') }))
+  };
+}
+
+/**
+ * Normalize a page's drafts: images relative to the zine directory
+ * @param {Object[]|null|undefined} drafts
+ * @param {string} [dir] - Zine directory
+ * @returns {Object[]|null}
+ */
+function toZineDrafts(drafts, dir) {
+  return drafts?.length ? drafts.map(draft => ({ ...draft, image: toZinePath(draft.image, dir, 'pages/drafts') })) : null;
+}
+
+/**
+ * Convert a timestamp (epoch milliseconds or a date string) to ISO 8601
+ * @param {number|string} [value]
+ * @returns {string}
+ */
+function toIsoDate(value) {
+  const date = new Date(value ?? Date.now());
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+/**
+ * Migrations, indexed by the version they upgrade from
+ *
+ * Version 0 is anything unversioned: createZineConfig() output (numeric
+ * createdAt, outline null until generated) and web metadata.json files (no
+ * title, ISO dates, absolute page paths, no pageCount before page counts were
+ * configurable).
+ */
+const MIGRATIONS = [
+  (data, { dir }) => {
+    const outline = Array.isArray(data.outline?.pages) ? data.outline.pages : data.outline;
+    const pageCount = data.pageCount ?? (Array.isArray(outline) ? outline.length : 8);
+
+    return {
+      ...data,
+      version: 1,
+      title: data.title || String(data.topic || '').toUpperCase(),
+      pageCount,
+      outline: outline ?? null,
+      pages: toZinePages(Array.isArray(data.pages) ? data.pages : [], pageCount, dir),
+      ...(data.printLayout ? { printLayout: toZinePath(data.printLayout, dir) } : {}),
+      createdAt: toIsoDate(data.createdAt),
+      updatedAt: toIsoDate(data.updatedAt ?? data.createdAt)
+    };
+  }
+];
+
+/**
+ * Upgrade a manifest (or an older zine config) to the current version
+ *
+ * @param {Object} data - Parsed JSON
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Zine directory, to make stored paths relative to it
+ * @returns {Object} - Current-version manifest (not yet validated)
+ */
+export function migrateManifest(data, { dir } = {}) {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('A zine manifest must be a JSON object');
+  }
+
+  let manifest = data;
+  let version = Number.isInteger(data.version) ? data.version : 0;
+  if (version > MANIFEST_VERSION) {
+    throw new Error(`zine.json version ${version} is newer than this version of MycroZine supports (${MANIFEST_VERSION})`);
+  }
+  while (version < MANIFEST_VERSION) {
+    manifest = MIGRATIONS[version](manifest, { dir });
+    version = manifest.version;
+  }
+  return manifest;
+}
+
+/**
+ * Describe zod issues, e.g. "pageCount: Page count must be one of 4, 8, 12, 16, 24"
+ * @param {import('zod').ZodError} error
+ * @returns {string[]}
+ */
+function describeIssues(error) {
+  return error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Validate a manifest without throwing
+ * @param {Object} data - Manifest (current version)
+ * @returns {{ valid: boolean, errors: string[] }}
+ */
+export function validateManifest(data) {
+  const result = manifestSchema.safeParse(data);
+  return {
+    valid: result.success,
+    errors: result.success ? [] : describeIssues(result.error)
+  };
+}
+
+/**
+ * Migrate and validate a manifest, filling in defaults
+ *
+ * @param {Object} data - Parsed JSON, any version
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Zine directory, to make stored paths relative to it
+ * @returns {Object} - Valid current-version manifest
+ */
+export function parseManifest(data, { dir } = {}) {
+  const result = manifestSchema.safeParse(migrateManifest(data, { dir }));
+  if (!result.success) {
+    throw new Error(`Invalid zine manifest: ${describeIssues(result.error).join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read a zine directory's manifest: zine.json, or a legacy metadata.json
+ *
+ * Page images in pages/ that the manifest doesn't list are added to pages.
+ *
+ * @param {string} dir - Zine directory
+ * @param {Object} [options]
+ * @param {boolean} [options.validate=true] - Throw on an invalid manifest (false: migrate only, for validateManifest)
+ * @returns {Promise<{ manifest: Object, file: string, migrated: boolean }>}
+ *   migrated is true when the file on disk is older than MANIFEST_VERSION
+ */
+export async function readManifest(dir, { validate = true } = {}) {
+  for (const name of [MANIFEST_FILE, LEGACY_MANIFEST_FILE]) {
+    const file = path.join(dir, name);
+    let text;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        continue;
+      }
+      throw error;
+    }
+
+    let data;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid ${file}: ${error.message}`);
+    }
+    const manifest = validate ? parseManifest(data, { dir }) : migrateManifest(data, { dir });
+    return {
+      manifest: await addPageFiles(manifest, dir),
+      file,
+      migrated: data.version !== MANIFEST_VERSION
+    };
+  }
+
+  throw new Error(`No ${MANIFEST_FILE} in ${path.resolve(dir)}`);
+}
+
+/**
+ * Write a zine directory's zine.json (validated, paths made relative)
+ *
+ * A legacy metadata.json next to it is removed, so there's one source of truth.
+ *
+ * @param {string} dir - Zine directory
+ * @param {Object} manifest - Manifest, any version
+ * @returns {Promise<Object>} - The manifest as written
+ */
+export async function writeManifest(dir, manifest) {
+  const parsed = parseManifest({
+    ...manifest,
+    pages: toZinePages(manifest.pages, manifest.pageCount ?? 0, dir),
+    // Pages without a transform or text may be holes in a sparse array
+    ...(manifest.pageTransforms ? { pageTransforms: Array.from(manifest.pageTransforms, transform => transform ?? null) } : {}),
+    ...(manifest.textLayers ? { textLayers: Array.from(manifest.textLayers, layer => layer ?? null) } : {}),
+    ...(manifest.pageHistory ? { pageHistory: Array.from(manifest.pageHistory, history => toZineHistory(history, dir)) } : {}),
+    ...(manifest.pageDrafts ? { pageDrafts: Array.from(manifest.pageDrafts, drafts => toZineDrafts(drafts, dir)) } : {}),
+    ...(manifest.printLayout ? { printLayout: toZinePath(manifest.printLayout, dir) } : {})
+  }, { dir });
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, MANIFEST_FILE), JSON.stringify(parsed, null, 2) + '\n');
+  await fs.rm(path.join(dir, LEGACY_MANIFEST_FILE), { force: true });
+  return parsed;
+}
+
+export default parseManifest;
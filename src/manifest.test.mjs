@@ -0,0 +1,137 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { MANIFEST_VERSION, migrateManifest, parseManifest, readManifest, validateManifest, writeManifest } from './manifest.mjs';
+
+const NOW = '2026-01-01T00:00:00.000Z';
+
+function createOutline(pageCount) {
+  return Array.from({ length: pageCount }, (_, i) => ({ pageNumber: i + 1, title: `Page ${i + 1}` }));
+}
+
+function createManifest(overrides = {}) {
+  return {
+    version: 1,
+    id: 'zine-1',
+    topic: 'Mycelium',
+    title: 'Mycelium',
+    style: 'punk-zine',
+    tone: 'rebellious',
+    pageCount: 8,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides
+  };
+}
+
+async function withZineDir(run) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mycrozine-manifest-'));
+  try {
+    await run(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+test('migrates a web metadata.json with absolute page paths', () => {
+  const dir = '/data/zines/zine-1';
+  const manifest = parseManifest({
+    id: 'zine-1',
+    topic: 'Mycelium',
+    style: 'punk-zine',
+    tone: 'rebellious',
+    outline: createOutline(8),
+    pages: [`${dir}/pages/p1.png`, '/elsewhere/zines/zine-1/pages/p2.png'],
+    printLayout: `${dir}/print.png`,
+    createdAt: NOW
+  }, { dir });
+
+  assert.equal(manifest.version, MANIFEST_VERSION);
+  assert.equal(manifest.title, 'MYCELIUM');
+  assert.equal(manifest.pageCount, 8);
+  assert.equal(manifest.pages.length, 8);
+  assert.deepEqual(manifest.pages.slice(0, 3), ['pages/p1.png', 'pages/p2.png', '']);
+  assert.equal(manifest.printLayout, 'print.png');
+  assert.equal(manifest.updatedAt, NOW);
+});
+
+test('migrates a createZineConfig() config with numeric dates and a wrapped outline', () => {
+  const manifest = parseManifest({
+    id: 'zine-1',
+    topic: 'Mycelium',
+    style: 'punk-zine',
+    tone: 'rebellious',
+    outline: { pages: createOutline(12) },
+    createdAt: Date.parse(NOW)
+  });
+
+  assert.equal(manifest.pageCount, 12);
+  assert.equal(manifest.outline.length, 12);
+  assert.equal(manifest.createdAt, NOW);
+  assert.deepEqual(manifest.pages, []);
+});
+
+test('leaves a current manifest as it is', () => {
+  const data = createManifest();
+  assert.equal(migrateManifest(data), data);
+});
+
+test('refuses manifests it cannot read', () => {
+  assert.throws(() => migrateManifest([]), /must be a JSON object/);
+  assert.throws(() => migrateManifest(createManifest({ version: MANIFEST_VERSION + 1 })), /newer than this version/);
+  assert.throws(() => parseManifest(createManifest({ pageCount: 7 })), /pageCount/);
+  assert.throws(() => parseManifest(createManifest({ outline: createOutline(4) })), /Outline must have exactly 8 pages/);
+});
+
+test('keeps page versions and drafts in their folders', () => {
+  const version = image => createManifest({ pageHistory: [{ current: 1, versions: [{ version: 1, image, createdAt: NOW }] }] });
+  const draft = image => createManifest({ pageDrafts: [[{ draft: 1, image, createdAt: NOW }]] });
+
+  assert.equal(validateManifest(version('pages/history/p1-v1.png')).valid, true);
+  assert.equal(validateManifest(draft('pages/drafts/p1-d1.png')).valid, true);
+  for (const image of ['../../etc/passwd', '/etc/passwd', 'zine.json', 'pages/history/../../zine.json', 'pages/drafts/p1-d1.png']) {
+    assert.equal(validateManifest(version(image)).valid, false, image);
+  }
+  for (const image of ['../other/zine.json', 'pages/history/p1-v1.png', 'pages/drafts/p1-d1.png/../../x']) {
+    assert.equal(validateManifest(draft(image)).valid, false, image);
+  }
+});
+
+test('reads a legacy metadata.json and picks up unlisted page images', async () => {
+  await withZineDir(async dir => {
+    await fs.mkdir(path.join(dir, 'pages'));
+    await fs.writeFile(path.join(dir, 'pages', 'p2.jpg'), '');
+    await fs.writeFile(path.join(dir, 'metadata.json'), JSON.stringify({
+      id: 'zine-1',
+      topic: 'Mycelium',
+      style: 'punk-zine',
+      tone: 'rebellious',
+      outline: createOutline(8),
+      createdAt: NOW
+    }));
+
+    const { manifest, file, migrated } = await readManifest(dir);
+
+    assert.equal(path.basename(file), 'metadata.json');
+    assert.equal(migrated, true);
+    assert.deepEqual(manifest.pages.slice(0, 3), ['', 'pages/p2.jpg', '']);
+  });
+});
+
+test('writes zine.json with relative paths and removes metadata.json', async () => {
+  await withZineDir(async dir => {
+    await fs.writeFile(path.join(dir, 'metadata.json'), '{}');
+
+    const written = await writeManifest(dir, createManifest({
+      pages: [path.join(dir, 'pages', 'p1.png')],
+      pageHistory: [{ current: 1, versions: [{ version: 1, image: path.join(dir, 'pages', 'history', 'p1-v1.png'), createdAt: NOW }] }]
+    }));
+
+    assert.equal(written.pages[0], 'pages/p1.png');
+    assert.equal(written.pageHistory[0].versions[0].image, 'pages/history/p1-v1.png');
+    assert.deepEqual(JSON.parse(await fs.readFile(path.join(dir, 'zine.json'), 'utf8')), written);
+    await assert.rejects(fs.access(path.join(dir, 'metadata.json')));
+  });
+});
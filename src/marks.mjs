@@ -0,0 +1,302 @@
+/**
+ * MycroZine Printer's Marks
+ *
+ * Builds an SVG overlay for an imposed sheet: dashed fold guides, solid cut
+ * lines (the mini-zine center slit), corner crop marks and a small assembly
+ * legend printed in the sheet margin, plus registration targets for
+ * risograph separation layers.
+ *
+ * Marks are drawn relative to the trim box - the area the panels fill - which
+ * resolvePaper() insets from the sheet edge by the margin.
+ */
+
+/**
+ * Mark types that can be toggled individually
+ */
+export const MARK_TYPES = ['fold', 'cut', 'crop', 'legend'];
+
+// Margin around the trim box when marks are on, in inches. Also keeps
+// artwork clear of the unprintable edge of most home printers.
+export const DEFAULT_MARGIN = 0.25;
+
+// How far artwork runs past the trim line so a slightly-off cut leaves no white edge
+export const DEFAULT_BLEED = 0.0625;
+
+/**
+ * Normalize a marks option into a list of enabled mark types
+ *
+ * Accepts true / 'all', false / 'none', a comma-separated string
+ * ('fold,cut') or an array of mark types.
+ *
+ * @param {boolean|string|string[]} [value] - Marks option
+ * @returns {string[]} - Enabled mark types
+ */
+export function parseMarks(value) {
+  if (value === undefined || value === null || value === false || value === 'none' || value === '') {
+    return [];
+  }
+  if (value === true || value === 'all' || value === 'true') {
+    return [...MARK_TYPES];
+  }
+
+  const names = (Array.isArray(value) ? value : String(value).split(','))
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  for (const name of names) {
+    if (!MARK_TYPES.includes(name)) {
+      throw new Error(`Unknown mark type: ${name}. Available: ${MARK_TYPES.join(', ')}`);
+    }
+  }
+
+  return [...new Set(names)];
+}
+
+/**
+ * Resolve margin and bleed (in inches) for a set of enabled marks
+ *
+ * @param {string[]} marks - Enabled mark types
+ * @param {Object} [options]
+ * @param {number} [options.margin] - Margin around the trim box (default: 0.25" with marks, else 0)
+ * @param {number} [options.bleed] - Bleed past the trim line (default: 1/16" with a margin, else 0)
+ * @returns {{ margin: number, bleed: number }}
+ */
+export function resolveMarkMargins(marks, { margin, bleed } = {}) {
+  const resolvedMargin = margin ?? (marks.length > 0 ? DEFAULT_MARGIN : 0);
+  const resolvedBleed = bleed ?? (resolvedMargin > 0 ? Math.min(DEFAULT_BLEED, resolvedMargin / 2) : 0);
+
+  if (!(resolvedMargin >= 0)) {
+    throw new Error(`Invalid margin: ${margin}`);
+  }
+  if (!(resolvedBleed >= 0) || resolvedBleed > resolvedMargin) {
+    throw new Error(`Invalid bleed: ${bleed}. Must be between 0 and the margin (${resolvedMargin}")`);
+  }
+
+  return { margin: resolvedMargin, bleed: resolvedBleed };
+}
+
+/**
+ * Escape text for use inside SVG markup, in text and in attribute values
+ * @param {string} text
+ * @returns {string}
+ */
+export function escapeXml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Check whether a unit grid edge lies on one of the scheme's cut lines
+ * @param {{ from: number[], to: number[] }[]} cuts - Cut lines in grid units
+ * @param {number[]} a - Edge start [col, row]
+ * @param {number[]} b - Edge end [col, row]
+ * @returns {boolean}
+ */
+function isCutEdge(cuts, a, b) {
+  return cuts.some(({ from, to }) => {
+    const within = (p) =>
+      p[0] >= Math.min(from[0], to[0]) && p[0] <= Math.max(from[0], to[0]) &&
+      p[1] >= Math.min(from[1], to[1]) && p[1] <= Math.max(from[1], to[1]);
+    const collinear = (from[0] === to[0] && a[0] === from[0] && b[0] === from[0]) ||
+      (from[1] === to[1] && a[1] === from[1] && b[1] === from[1]);
+    return collinear && within(a) && within(b);
+  });
+}
+
+/**
+ * Build the marks overlay for one printed side
+ *
+ * @param {Object} options
+ * @param {Object} options.scheme - Imposition scheme
+ * @param {Object} options.paper - Resolved paper geometry (see resolvePaper, with margin)
+ * @param {{ sheet: number, side: string }} options.side - Printed side
+ * @param {string[]} options.marks - Enabled mark types (see parseMarks)
+ * @param {number} [options.bleed=0] - Bleed in inches (crop marks start outside it)
+ * @returns {Buffer|null} - SVG sized to the sheet, or null if no marks apply
+ */
+export function createMarksSvg({ scheme, paper, side, marks, bleed = 0 }) {
+  if (!marks || marks.length === 0) {
+    return null;
+  }
+
+  const { dpi, width, height, panelWidth, panelHeight, panelCols: cols, panelRows: rows } = paper;
+  const margin = paper.margin || 0;
+  const cuts = scheme.cuts || [];
+
+  const stroke = Math.max(1, Math.round(dpi / 72)); // ~1pt
+  const dash = `${Math.round(dpi * 0.1)} ${Math.round(dpi * 0.06)}`;
+  const x = (col) => margin + col * panelWidth;
+  const y = (row) => margin + row * panelHeight;
+  const trimRight = x(cols);
+  const trimBottom = y(rows);
+
+  // Guides over artwork get a white halo so they show on dark pages too
+  const line = (x1, y1, x2, y2, dashed) =>
+    `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#ffffff" stroke-width="${stroke * 3}"${dashed ? ` stroke-dasharray="${dash}"` : ''}/>` +
+    `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#000000" stroke-width="${stroke}"${dashed ? ` stroke-dasharray="${dash}"` : ''}/>`;
+  const tick = (x1, y1, x2, y2) =>
+    `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#000000" stroke-width="${stroke}"/>`;
+
+  const elements = [];
+
+  // Crop and fold ticks sit in the margin, starting just outside the bleed
+  const offset = Math.round((bleed + 1 / 32) * dpi);
+  const hasGutter = margin - offset > stroke * 4;
+
+  if (marks.includes('fold')) {
+    for (let col = 1; col < cols; col++) {
+      for (let row = 0; row < rows; row++) {
+        if (!isCutEdge(cuts, [col, row], [col, row + 1])) {
+          elements.push(line(x(col), y(row), x(col), y(row + 1), true));
+        }
+      }
+      if (hasGutter) {
+        elements.push(tick(x(col), 0, x(col), margin - offset));
+        elements.push(tick(x(col), trimBottom + offset, x(col), height));
+      }
+    }
+    for (let row = 1; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        if (!isCutEdge(cuts, [col, row], [col + 1, row])) {
+          elements.push(line(x(col), y(row), x(col + 1), y(row), true));
+        }
+      }
+      if (hasGutter) {
+        elements.push(tick(0, y(row), margin - offset, y(row)));
+        elements.push(tick(trimRight + offset, y(row), width, y(row)));
+      }
+    }
+  }
+
+  if (marks.includes('cut')) {
+    for (const { from, to } of cuts) {
+      elements.push(line(x(from[0]), y(from[1]), x(to[0]), y(to[1]), false));
+    }
+  }
+
+  if (marks.includes('crop') && hasGutter) {
+    for (const cx of [margin, trimRight]) {
+      for (const cy of [margin, trimBottom]) {
+        const outX = cx === margin ? -1 : 1;
+        const outY = cy === margin ? -1 : 1;
+        // Horizontal and vertical arms, pointing away from the trim box
+        elements.push(tick(cx + outX * offset, cy, cx + outX * margin, cy));
+        elements.push(tick(cx, cy + outY * offset, cx, cy + outY * margin));
+      }
+    }
+  }
+
+  // Assembly legend goes on front sides only, in the top and bottom margins.
+  // Text is knocked out of a white box so fold ticks don't run through it.
+  if (marks.includes('legend') && side.side === 'front' && margin > dpi * 0.12) {
+    const fontSize = Math.round(Math.min(margin * 0.35, dpi * 0.1));
+    const textStyle = `font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" fill="#000000"`;
+    const textWidth = (text) => Math.round(text.length * fontSize * 0.6);
+    const pad = Math.round(fontSize / 3);
+    const label = (text, tx, baseline) =>
+      `<rect x="${tx - pad}" y="${baseline - fontSize}" width="${textWidth(text) + pad * 2}" height="${Math.round(fontSize * 1.3)}" fill="#ffffff"/>` +
+      `<text x="${tx}" y="${baseline}" ${textStyle}>${escapeXml(text)}</text>`;
+
+    const sheets = scheme.sheets.length > 1 ? ` · sheet ${side.sheet} of ${scheme.sheets.length}` : '';
+    const topBaseline = Math.round(margin / 2 + fontSize / 3);
+    const bottomBaseline = Math.round(trimBottom + margin / 2 + fontSize / 3);
+
+    elements.push(label(scheme.assembly || scheme.description, margin, topBaseline));
+    elements.push(label(`${scheme.name}${sheets} · print at 100% on ${paper.name}`, margin, bottomBaseline));
+
+    // Key, right-aligned in the bottom margin: - - - fold  ____ cut
+    const key = [];
+    if (marks.includes('fold')) {
+      key.push({ text: 'fold', dashed: true });
+    }
+    if (cuts.length > 0 && marks.includes('cut')) {
+      key.push({ text: 'cut', dashed: false });
+    }
+
+    const sampleLength = Math.round(dpi * 0.4);
+    const sampleY = bottomBaseline - Math.round(fontSize / 3);
+    let keyX = trimRight;
+    for (const { text, dashed } of key.reverse()) {
+      keyX -= textWidth(text);
+      elements.push(label(text, keyX, bottomBaseline));
+      keyX -= pad * 2 + sampleLength;
+      elements.push(
+        `<rect x="${keyX - pad}" y="${bottomBaseline - fontSize}" width="${sampleLength + pad * 2}" height="${Math.round(fontSize * 1.3)}" fill="#ffffff"/>` +
+        `<line x1="${keyX}" y1="${sampleY}" x2="${keyX + sampleLength}" y2="${sampleY}" stroke="#000000" stroke-width="${stroke}"${dashed ? ` stroke-dasharray="${dash}"` : ''}/>`
+      );
+      keyX -= fontSize * 2;
+    }
+  }
+
+  if (elements.length === 0) {
+    return null;
+  }
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    elements.join('') +
+    '</svg>'
+  );
+}
+
+/**
+ * Build registration targets for one separation layer
+ *
+ * Targets (circle and crosshair) sit in the left and right margins, level
+ * with the middle of the first and last panel rows, clear of fold ticks and
+ * the legend. They print identically on every layer so the drums can be
+ * lined up. An optional label names the layer in the top-right margin.
+ *
+ * @param {Object} options
+ * @param {Object} options.paper - Resolved paper geometry (see resolvePaper, with margin)
+ * @param {number} [options.bleed=0] - Bleed in inches (targets stay outside it)
+ * @param {string} [options.label] - Layer label, e.g. "layer 2 of 2 · fluorescent-pink"
+ * @returns {Buffer|null} - SVG sized to the sheet, or null if the margin is too small
+ */
+export function createRegistrationSvg({ paper, bleed = 0, label }) {
+  const { dpi, width, height, panelHeight, panelRows: rows } = paper;
+  const margin = paper.margin || 0;
+  const clearance = Math.round((bleed + 1 / 32) * dpi);
+  const size = Math.min(margin - clearance, Math.round(dpi * 0.25));
+  if (size < dpi * 0.08) {
+    return null;
+  }
+
+  const stroke = Math.max(1, Math.round(dpi / 150)); // ~0.5pt
+  const radius = Math.round(size * 0.3);
+  const target = (cx, cy) =>
+    `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="none" stroke="#000000" stroke-width="${stroke}"/>` +
+    `<line x1="${cx - size / 2}" y1="${cy}" x2="${cx + size / 2}" y2="${cy}" stroke="#000000" stroke-width="${stroke}"/>` +
+    `<line x1="${cx}" y1="${cy - size / 2}" x2="${cx}" y2="${cy + size / 2}" stroke="#000000" stroke-width="${stroke}"/>`;
+
+  const elements = [];
+  const levels = [...new Set([margin + panelHeight / 2, margin + (rows - 0.5) * panelHeight])];
+  for (const cy of levels.map(Math.round)) {
+    elements.push(target(Math.round((margin - clearance) / 2), cy));
+    elements.push(target(Math.round(width - (margin - clearance) / 2), cy));
+  }
+
+  if (label && margin > dpi * 0.12) {
+    const fontSize = Math.round(Math.min(margin * 0.35, dpi * 0.1));
+    const textWidth = Math.round(label.length * fontSize * 0.6);
+    const pad = Math.round(fontSize / 3);
+    const x = width - margin - textWidth;
+    const baseline = Math.round(margin / 2 + fontSize / 3);
+    elements.push(
+      `<rect x="${x - pad}" y="${baseline - fontSize}" width="${textWidth + pad * 2}" height="${Math.round(fontSize * 1.3)}" fill="#ffffff"/>` +
+      `<text x="${x}" y="${baseline}" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" fill="#000000">${escapeXml(label)}</text>`
+    );
+  }
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    elements.join('') +
+    '</svg>'
+  );
+}
+
+export default createMarksSvg;
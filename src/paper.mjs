@@ -0,0 +1,141 @@
+/**
+ * MycroZine Paper Formats
+ *
+ * Resolves named or custom paper sizes into pixel dimensions for the
+ * imposition engine. Sheets are always landscape (width >= height), which is
+ * how mini-zines are printed and folded.
+ */
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Named paper formats (landscape)
+ */
+export const PAPER_FORMATS = {
+  letter: { width: 11, height: 8.5, unit: 'in', label: 'US Letter' },
+  legal: { width: 14, height: 8.5, unit: 'in', label: 'US Legal' },
+  tabloid: { width: 17, height: 11, unit: 'in', label: 'Tabloid' },
+  a3: { width: 420, height: 297, unit: 'mm', label: 'A3' },
+  a4: { width: 297, height: 210, unit: 'mm', label: 'A4' },
+  a5: { width: 210, height: 148, unit: 'mm', label: 'A5' }
+};
+
+export const DEFAULT_DPI = 300;
+
+/**
+ * Parse a paper format into physical dimensions in inches
+ *
+ * Accepts a named format ('letter', 'a4'), a size string ('210x297mm',
+ * '8.5x11in', '11x17"') or an object ({ width, height, unit: 'mm' | 'in' }).
+ *
+ * @param {string|Object} format - Paper format
+ * @returns {{ name: string, widthIn: number, heightIn: number }}
+ */
+export function parsePaperFormat(format) {
+  let spec;
+  let name;
+
+  if (typeof format === 'string') {
+    const key = format.trim().toLowerCase();
+    if (PAPER_FORMATS[key]) {
+      spec = PAPER_FORMATS[key];
+      name = key;
+    } else {
+      const match = key.match(/^(\d+(?:\.\d+)?)\s*x\s*(\d+(?:\.\d+)?)\s*(mm|in|")?$/);
+      if (!match) {
+        throw new Error(`Invalid paper format: ${format}`);
+      }
+      spec = {
+        width: parseFloat(match[1]),
+        height: parseFloat(match[2]),
+        unit: match[3] === 'mm' ? 'mm' : 'in'
+      };
+      name = key;
+    }
+  } else if (format && typeof format === 'object') {
+    spec = format;
+    name = format.name || `${format.width}x${format.height}${format.unit || 'in'}`;
+  } else {
+    throw new Error(`Invalid paper format: ${format}`);
+  }
+
+  const { width, height, unit = 'in' } = spec;
+  if (!(width > 0) || !(height > 0)) {
+    throw new Error(`Invalid paper size: ${width}x${height}`);
+  }
+  if (!['mm', 'in'].includes(unit)) {
+    throw new Error(`Invalid paper unit: ${unit}. Use 'mm' or 'in'`);
+  }
+
+  const toInches = (value) => (unit === 'mm' ? value / MM_PER_INCH : value);
+  const a = toInches(width);
+  const b = toInches(height);
+
+  return {
+    name,
+    widthIn: Math.max(a, b),
+    heightIn: Math.min(a, b)
+  };
+}
+
+/**
+ * Check whether a paper format can be parsed
+ *
+ * @param {string|Object} format - Paper format
+ * @returns {boolean}
+ */
+export function isValidPaperFormat(format) {
+  try {
+    parsePaperFormat(format);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a paper format into sheet and panel dimensions in pixels
+ *
+ * @param {string|Object} [format='letter'] - Paper format (see parsePaperFormat)
+ * @param {Object} [options]
+ * @param {number} [options.dpi=300] - Output resolution
+ * @param {number} [options.cols=4] - Panel columns on the sheet
+ * @param {number} [options.rows=2] - Panel rows on the sheet
+ * @param {number} [options.margin=0] - Inset of the trim box (the area panels fill) from the sheet edge, in inches
+ * @returns {Object} Sheet geometry
+ */
+export function resolvePaper(format = 'letter', { dpi = DEFAULT_DPI, cols = 4, rows = 2, margin = 0 } = {}) {
+  if (!(dpi > 0)) {
+    throw new Error(`Invalid DPI: ${dpi}`);
+  }
+
+  const { name, widthIn, heightIn } = parsePaperFormat(format);
+  const width = Math.round(widthIn * dpi);
+  const height = Math.round(heightIn * dpi);
+  const marginPx = Math.round(margin * dpi);
+
+  if (!(marginPx >= 0) || marginPx * 2 >= Math.min(width, height)) {
+    throw new Error(`Invalid margin: ${margin}`);
+  }
+
+  const trimWidth = width - marginPx * 2;
+  const trimHeight = height - marginPx * 2;
+
+  return {
+    name,
+    dpi,
+    widthIn,
+    heightIn,
+    width,
+    height,
+    margin: marginPx,
+    trimWidth,
+    trimHeight,
+    panelWidth: Math.floor(trimWidth / cols),
+    panelHeight: Math.floor(trimHeight / rows),
+    panelCols: cols,
+    panelRows: rows
+  };
+}
+
+export default resolvePaper;
@@ -0,0 +1,185 @@
+/**
+ * MycroZine PDF Writer
+ *
+ * Minimal, dependency-free PDF writer that places one raster image per page
+ * at an exact physical size, so printers and print shops don't have to guess
+ * the scaling of a print layout.
+ *
+ * Images are embedded losslessly (Flate-compressed raw pixels), or as an
+ * export profile dictates - JPEG, CMYK or 1-bit, with an ICC profile
+ * (see profiles.mjs).
+ */
+
+import sharp from 'sharp';
+import zlib from 'zlib';
+import fs from 'fs/promises';
+import path from 'path';
+import { getExportProfile, rasterForPdf } from './profiles.mjs';
+
+// PDF user space units per inch
+const POINTS_PER_INCH = 72;
+
+/**
+ * Decode an image into raw pixels suitable for a PDF image XObject
+ *
+ * @param {string|Buffer} input - Image path or buffer
+ * @returns {Promise<{ data: Buffer, width: number, height: number, colorSpace: string }>}
+ */
+async function decodeForPdf(input) {
+  const metadata = await sharp(input).metadata();
+
+  let pipeline = sharp(input);
+  let colorSpace;
+
+  if (metadata.space === 'cmyk') {
+    colorSpace = 'DeviceCMYK';
+  } else if (metadata.channels <= 2) {
+    pipeline = pipeline.flatten({ background: '#ffffff' }).toColourspace('b-w');
+    colorSpace = 'DeviceGray';
+  } else {
+    pipeline = pipeline.flatten({ background: '#ffffff' }).toColourspace('srgb');
+    colorSpace = 'DeviceRGB';
+  }
+
+  const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, colorSpace };
+}
+
+/**
+ * Serialize raw page images into a PDF document
+ *
+ * @param {Object[]} pages - One entry per PDF page
+ * @param {Buffer} pages[].data - Raw pixel data (rows top to bottom)
+ * @param {number} pages[].width - Image width in pixels
+ * @param {number} pages[].height - Image height in pixels
+ * @param {string} pages[].colorSpace - DeviceGray, DeviceRGB or DeviceCMYK
+ * @param {number} [pages[].bitsPerComponent=8] - Bits per colour component
+ * @param {string} [pages[].filter='FlateDecode'] - 'DCTDecode' if data is already a JPEG
+ * @param {Buffer} [pages[].iccProfile] - ICC profile describing the colour space
+ * @param {number} pages[].widthIn - Physical page width in inches
+ * @param {number} pages[].heightIn - Physical page height in inches
+ * @returns {Buffer} - PDF file contents
+ */
+export function writePdf(pages) {
+  const objects = [];
+  const addObject = (body) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  // Reserve catalog (1) and page tree (2) so pages can point at their parent
+  addObject(null);
+  addObject(null);
+
+  const pageRefs = pages.map((page, i) => {
+    const widthPt = (page.widthIn * POINTS_PER_INCH).toFixed(2);
+    const heightPt = (page.heightIn * POINTS_PER_INCH).toFixed(2);
+    const filter = page.filter || 'FlateDecode';
+    const compressed = filter === 'FlateDecode' ? zlib.deflateSync(page.data) : page.data;
+
+    // Tag the image with its ICC profile; the Device space is the fallback
+    let colorSpace = `/${page.colorSpace}`;
+    if (page.iccProfile) {
+      const channels = { DeviceGray: 1, DeviceRGB: 3, DeviceCMYK: 4 }[page.colorSpace];
+      const icc = zlib.deflateSync(page.iccProfile);
+      const iccRef = addObject(Buffer.concat([
+        Buffer.from(`<< /N ${channels} /Alternate /${page.colorSpace} /Filter /FlateDecode /Length ${icc.length} >>\nstream\n`),
+        icc,
+        Buffer.from('\nendstream')
+      ]));
+      colorSpace = `[/ICCBased ${iccRef} 0 R]`;
+    }
+
+    const imageRef = addObject(Buffer.concat([
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height}` +
+        ` /ColorSpace ${colorSpace} /BitsPerComponent ${page.bitsPerComponent || 8}` +
+        ` /Filter /${filter} /Length ${compressed.length} >>\nstream\n`
+      ),
+      compressed,
+      Buffer.from('\nendstream')
+    ]));
+
+    const content = `q ${widthPt} 0 0 ${heightPt} 0 0 cm /Im${i} Do Q`;
+    const contentRef = addObject(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${widthPt} ${heightPt}]` +
+      ` /Resources << /XObject << /Im${i} ${imageRef} 0 R >> >> /Contents ${contentRef} 0 R >>`
+    );
+  });
+
+  objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+
+  // Assemble file body, recording byte offsets for the xref table
+  const chunks = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'binary')];
+  let offset = chunks[0].length;
+  const offsets = [];
+
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`),
+      Buffer.isBuffer(body) ? body : Buffer.from(body),
+      Buffer.from('\nendobj\n')
+    ]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF\n'
+  ].join('\n');
+  chunks.push(Buffer.from(xref));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Create a PDF with one image per page at a given physical size
+ *
+ * @param {Object} options
+ * @param {Object[]} options.pages - Pages in document order
+ * @param {string|Buffer} options.pages[].image - Image path or buffer
+ * @param {number} options.pages[].widthIn - Physical page width in inches
+ * @param {number} options.pages[].heightIn - Physical page height in inches
+ * @param {string} [options.outputPath] - Write the PDF here instead of returning it
+ * @param {string|Object} [options.profile] - Export profile or its name (see profiles.mjs); default embeds pixels as-is
+ * @returns {Promise<string|Buffer>} - File path if outputPath provided, otherwise Buffer
+ */
+export async function createPdf({ pages, outputPath, profile }) {
+  if (typeof profile === 'string') {
+    profile = getExportProfile(profile);
+  }
+
+  const decoded = await Promise.all(
+    pages.map(async (page) => ({
+      ...(await (profile ? rasterForPdf(page.image, profile) : decodeForPdf(page.image))),
+      widthIn: page.widthIn,
+      heightIn: page.heightIn
+    }))
+  );
+
+  const pdf = writePdf(decoded);
+
+  if (outputPath) {
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, pdf);
+    return outputPath;
+  }
+
+  return pdf;
+}
+
+export default createPdf;
@@ -0,0 +1,250 @@
+/**
+ * MycroZine Export Profiles
+ *
+ * Turns a rendered print layout (8-bit sRGB) into what a given print path
+ * expects: screen previews, home inkjet/laser prints, CMYK files for offset
+ * and risograph shops, or pure 1-bit black for photocopier runs.
+ *
+ * Each profile controls colorspace, bit depth, dithering and compression, and
+ * lists the output formats it can be written as.
+ */
+
+import sharp from 'sharp';
+
+/**
+ * Output formats for print layouts
+ */
+export const EXPORT_FORMATS = ['png', 'pdf', 'tiff'];
+
+/**
+ * Export profiles
+ *
+ * compression is per output format; a format missing from it isn't supported
+ * by the profile (PNG can't hold CMYK). icc is a sharp built-in profile name
+ * embedded in the output.
+ */
+export const EXPORT_PROFILES = {
+  screen: {
+    name: 'screen',
+    description: 'Small sRGB files for sharing and on-screen reading',
+    colorspace: 'srgb',
+    bitDepth: 8,
+    dither: 'none',
+    icc: 'srgb',
+    quality: 80,
+    compression: { png: 'deflate', pdf: 'jpeg', tiff: 'jpeg' }
+  },
+  'home-print': {
+    name: 'home-print',
+    description: 'Lossless sRGB for inkjet and laser printers',
+    colorspace: 'srgb',
+    bitDepth: 8,
+    dither: 'none',
+    icc: 'srgb',
+    compression: { png: 'deflate', pdf: 'deflate', tiff: 'lzw' }
+  },
+  'offset-cmyk': {
+    name: 'offset-cmyk',
+    description: 'CMYK with an embedded ICC profile for offset and print shops',
+    colorspace: 'cmyk',
+    bitDepth: 8,
+    dither: 'none',
+    icc: 'cmyk',
+    compression: { pdf: 'deflate', tiff: 'lzw' }
+  },
+  'xerox-1bit': {
+    name: 'xerox-1bit',
+    description: 'Pure black and white, dithered, for photocopier runs',
+    colorspace: 'b-w',
+    bitDepth: 1,
+    dither: 'floyd-steinberg',
+    threshold: 128,
+    compression: { png: 'deflate', pdf: 'deflate', tiff: 'ccittfax4' }
+  }
+};
+
+export const DEFAULT_PROFILE = 'home-print';
+
+/**
+ * Get an export profile by name
+ * @param {string} [name='home-print'] - Profile name
+ * @returns {Object} - Export profile
+ */
+export function getExportProfile(name = DEFAULT_PROFILE) {
+  const profile = EXPORT_PROFILES[name];
+  if (!profile) {
+    throw new Error(`Unknown export profile: ${name}. Available: ${Object.keys(EXPORT_PROFILES).join(', ')}`);
+  }
+  return profile;
+}
+
+/**
+ * List the output formats a profile can be written as
+ * @param {string|Object} profile - Profile name or profile
+ * @returns {string[]}
+ */
+export function getProfileFormats(profile) {
+  const { compression } = typeof profile === 'string' ? getExportProfile(profile) : profile;
+  return EXPORT_FORMATS.filter(format => compression[format]);
+}
+
+/**
+ * Throw unless a profile can be written in a format
+ * @param {Object} profile - Export profile
+ * @param {string} format - png, pdf or tiff
+ */
+export function assertProfileFormat(profile, format) {
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown output format: ${format}. Available: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  if (!profile.compression[format]) {
+    throw new Error(`The ${profile.name} profile can't be written as ${format}. Use ${getProfileFormats(profile).join(' or ')}`);
+  }
+}
+
+/**
+ * Reduce an image to 1-bit black and white
+ *
+ * Floyd-Steinberg dithering spreads each pixel's rounding error to its
+ * neighbours, so greys and photos survive as dot patterns instead of
+ * collapsing into solid black or white.
+ *
+ * @param {string|Buffer} input - Image path or buffer
+ * @param {Object} profile - Export profile (dither, threshold)
+ * @returns {Promise<{ data: Buffer, width: number, height: number }>} - One byte per pixel, 0 or 255
+ */
+async function toBitmap(input, profile) {
+  const threshold = profile.threshold ?? 128;
+  const { data, info } = await sharp(input)
+    .flatten({ background: '#ffffff' })
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  if (profile.dither !== 'floyd-steinberg') {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = data[i] < threshold ? 0 : 255;
+    }
+    return { data, width, height };
+  }
+
+  // Error for the current and next row, with a pixel of padding either side
+  let current = new Float32Array(width + 2);
+  let next = new Float32Array(width + 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const value = data[i] + current[x + 1];
+      const out = value < threshold ? 0 : 255;
+      const error = value - out;
+      data[i] = out;
+      current[x + 2] += error * 7 / 16;
+      next[x] += error * 3 / 16;
+      next[x + 1] += error * 5 / 16;
+      next[x + 2] += error * 1 / 16;
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Encode an image as PNG or TIFF with an export profile
+ *
+ * @param {string|Buffer} input - Rendered layout (path or buffer)
+ * @param {Object} options
+ * @param {Object} options.profile - Export profile
+ * @param {string} options.format - 'png' or 'tiff'
+ * @param {number} [options.dpi] - Resolution to record in the file
+ * @returns {Promise<Buffer>}
+ */
+export async function exportImage(input, { profile, format, dpi }) {
+  assertProfileFormat(profile, format);
+  if (format === 'pdf') {
+    throw new Error('Use createPdf() with a profile for PDF output');
+  }
+
+  // withMetadata() converts to its ICC profile (sRGB unless given), so a
+  // 1-bit TIFF records its resolution through xres/yres alone
+  let pipeline;
+  if (profile.bitDepth === 1) {
+    const { data, width, height } = await toBitmap(input, profile);
+    pipeline = sharp(data, { raw: { width, height, channels: 1 } }).toColourspace('b-w');
+    if (format === 'png' && dpi) {
+      pipeline = pipeline.withMetadata({ density: dpi });
+    }
+  } else {
+    pipeline = sharp(input)
+      .flatten({ background: '#ffffff' })
+      .withMetadata({ density: dpi, icc: profile.icc });
+  }
+
+  if (format === 'png') {
+    return profile.bitDepth === 1
+      ? pipeline.png({ palette: true, colours: 2, bitdepth: 1, dither: 0 }).toBuffer()
+      : pipeline.png({ compressionLevel: 9 }).toBuffer();
+  }
+
+  return pipeline.tiff({
+    compression: profile.compression.tiff,
+    quality: profile.quality,
+    bitdepth: profile.bitDepth === 1 ? 1 : undefined,
+    predictor: profile.bitDepth === 1 ? 'none' : undefined,
+    xres: dpi ? dpi / 25.4 : undefined,
+    yres: dpi ? dpi / 25.4 : undefined,
+    resolutionUnit: 'inch'
+  }).toBuffer();
+}
+
+/**
+ * Prepare an image for a PDF image XObject with an export profile
+ *
+ * @param {string|Buffer} input - Image path or buffer
+ * @param {Object} profile - Export profile
+ * @returns {Promise<{ data: Buffer, width: number, height: number, colorSpace: string, bitsPerComponent: number, filter: string, iccProfile?: Buffer }>}
+ *   data is already encoded for filter ('DCTDecode') or raw for 'FlateDecode'
+ */
+export async function rasterForPdf(input, profile) {
+  if (profile.bitDepth === 1) {
+    const { data, width, height } = await toBitmap(input, profile);
+
+    // Pack 8 pixels per byte, rows padded to a whole byte; 1 is white in DeviceGray
+    const rowBytes = Math.ceil(width / 8);
+    const packed = Buffer.alloc(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (data[y * width + x]) {
+          packed[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
+    }
+    return { data: packed, width, height, colorSpace: 'DeviceGray', bitsPerComponent: 1, filter: 'FlateDecode' };
+  }
+
+  const converted = await sharp(input)
+    .flatten({ background: '#ffffff' })
+    .withIccProfile(profile.icc)
+    .tiff({ compression: 'none' })
+    .toBuffer();
+  const { icc } = await sharp(converted).metadata();
+  const colorSpace = profile.colorspace === 'cmyk' ? 'DeviceCMYK' : 'DeviceRGB';
+
+  if (profile.compression.pdf === 'jpeg') {
+    const { data, info } = await sharp(converted)
+      .jpeg({ quality: profile.quality })
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height, colorSpace, bitsPerComponent: 8, filter: 'DCTDecode', iccProfile: icc };
+  }
+
+  // Keep CMYK pixels as CMYK rather than letting sharp convert back to sRGB
+  const { data, info } = await sharp(converted)
+    .toColourspace(profile.colorspace)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, colorSpace, bitsPerComponent: 8, filter: 'FlateDecode', iccProfile: icc };
+}
+
+export default EXPORT_PROFILES;
@@ -0,0 +1,199 @@
+/**
+ * MycroZine Projects
+ *
+ * A zine project is a directory holding a zine.json manifest (see
+ * manifest.mjs; createZineConfig() returns the same shape) and a pages/
+ * folder with one image per page, p1.png through pN.png. The mycrozine CLI
+ * works on projects, and the web app stores each zine as one.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { createZineConfig, validateConfig, DEFAULTS } from './index.mjs';
+import {
+  MANIFEST_FILE,
+  LEGACY_MANIFEST_FILE,
+  PAGE_EXTENSIONS,
+  readManifest,
+  writeManifest,
+  validateManifest
+} from './manifest.mjs';
+
+export const PROJECT_FILE = MANIFEST_FILE;
+export const PAGES_DIR = 'pages';
+export const OUTPUT_DIR = 'output';
+
+export { PAGE_EXTENSIONS };
+
+/**
+ * Create a zine project: zine.json and an empty pages/ folder
+ *
+ * @param {string} dir - Project directory (created if missing)
+ * @param {Object} options - createZineConfig options (topic, title, style, tone, ...)
+ * @param {Object} [flags]
+ * @param {boolean} [flags.force] - Overwrite an existing zine.json
+ * @returns {Promise<{ dir: string, config: Object }>}
+ */
+export async function initProject(dir, options, { force = false } = {}) {
+  for (const name of [PROJECT_FILE, LEGACY_MANIFEST_FILE]) {
+    const configPath = path.join(dir, name);
+    if (!force && await fileExists(configPath)) {
+      throw new Error(`${configPath} already exists (use --force to overwrite)`);
+    }
+  }
+
+  await fs.mkdir(path.join(dir, PAGES_DIR), { recursive: true });
+  const config = await writeManifest(dir, createZineConfig(options));
+
+  return { dir, config };
+}
+
+/**
+ * Load a zine project (older manifests are migrated in memory; saving writes
+ * the current format)
+ *
+ * @param {string} dir - Project directory
+ * @param {Object} [options]
+ * @param {boolean} [options.validate=true] - Throw on an invalid manifest (false: load it for validateProject)
+ * @returns {Promise<{ dir: string, config: Object, migrated: boolean }>}
+ */
+export async function loadProject(dir, { validate = true } = {}) {
+  if (!await fileExists(path.join(dir, PROJECT_FILE)) && !await fileExists(path.join(dir, LEGACY_MANIFEST_FILE))) {
+    throw new Error(`No ${PROJECT_FILE} in ${path.resolve(dir)}. Run mycrozine init first`);
+  }
+
+  const { manifest, migrated } = await readManifest(dir, { validate });
+  return { dir, config: manifest, migrated };
+}
+
+/**
+ * Save a project's zine.json (validated; replaces a legacy metadata.json),
+ * with pages listing the images in pages/, so other tools see them
+ * @param {{ dir: string, config: Object }} project
+ * @returns {Promise<string>} - Path written
+ */
+export async function saveProject(project) {
+  project.config = await writeManifest(project.dir, {
+    ...project.config,
+    pages: (await findProjectPages(project)).map(page => (page ? path.relative(project.dir, page).split(path.sep).join('/') : '')),
+    updatedAt: new Date().toISOString()
+  });
+  return path.join(project.dir, PROJECT_FILE);
+}
+
+/**
+ * Number of pages in a project (zine.json pageCount, default 8)
+ * @param {{ config: Object }} project
+ * @returns {number}
+ */
+export function getProjectPageCount({ config }) {
+  return config.pageCount ?? DEFAULTS.pageCount;
+}
+
+/**
+ * Path a page image is written to when generated (pages/p<N>.png)
+ * @param {{ dir: string }} project
+ * @param {number} pageNumber - Page number (1-based)
+ * @returns {string}
+ */
+export function getPagePath({ dir }, pageNumber) {
+  return path.join(dir, PAGES_DIR, `p${pageNumber}.png`);
+}
+
+/**
+ * Find each page's image in pages/ (p1.png, p2.jpg, ...)
+ * @param {{ dir: string, config: Object }} project
+ * @returns {Promise<(string|null)[]>} - One path per page, null where missing
+ */
+export async function findProjectPages(project) {
+  const pagesDir = path.join(project.dir, PAGES_DIR);
+  const files = await fs.readdir(pagesDir).catch(() => []);
+
+  return Array.from({ length: getProjectPageCount(project) }, (_, i) => {
+    const file = PAGE_EXTENSIONS
+      .map(ext => `p${i + 1}${ext}`)
+      .find(name => files.includes(name));
+    return file ? path.join(pagesDir, file) : null;
+  });
+}
+
+/**
+ * Parse a content outline: a JSON array of pages or { pages: [...] },
+ * optionally wrapped in a markdown code block (as LLMs tend to reply)
+ *
+ * @param {string} text - Outline JSON
+ * @param {number} pageCount - Pages the zine has
+ * @returns {Object[]} - Page outlines, numbered 1 to pageCount
+ */
+export function parseOutline(text, pageCount) {
+  const match = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  let parsed;
+  try {
+    parsed = JSON.parse((match ? match[1] : text).trim());
+  } catch (error) {
+    throw new Error(`Outline is not valid JSON: ${error.message}`);
+  }
+
+  const pages = Array.isArray(parsed) ? parsed : parsed?.pages;
+  if (!Array.isArray(pages) || pages.length !== pageCount) {
+    throw new Error(`Outline must list exactly ${pageCount} pages, got ${Array.isArray(pages) ? pages.length : 'none'}`);
+  }
+
+  return pages.map((page, i) => {
+    if (!page || typeof page.title !== 'string') {
+      throw new Error(`Outline page ${i + 1} needs a title`);
+    }
+    return { ...page, pageNumber: i + 1 };
+  });
+}
+
+/**
+ * Check a project: the zine.json manifest, its outline and its page images
+ *
+ * Missing pages are warnings, since a draft doesn't have them yet.
+ *
+ * @param {{ dir: string, config: Object }} project
+ * @returns {Promise<{ valid: boolean, errors: string[], warnings: string[] }>}
+ */
+export async function validateProject(project) {
+  // Style, tone and paper checks only make sense once the manifest is well-formed
+  const { errors } = validateManifest(project.config);
+  if (errors.length === 0) {
+    errors.push(...validateConfig(project.config).errors);
+  }
+  const warnings = [];
+  if (project.migrated) {
+    warnings.push(`Stored in an older format; mycrozine migrate rewrites it as ${PROJECT_FILE}`);
+  }
+  const pageCount = getProjectPageCount(project);
+
+  const { outline } = project.config;
+  if (outline == null) {
+    warnings.push('No outline yet (mycrozine outline --set <file>)');
+  } else if (!Array.isArray(outline) || outline.length !== pageCount) {
+    errors.push(`Outline must have exactly ${pageCount} pages`);
+  }
+
+  const pages = await findProjectPages(project);
+  const missing = pages.flatMap((page, i) => (page ? [] : [i + 1]));
+  if (missing.length > 0) {
+    warnings.push(`Missing page images: ${missing.map(n => `p${n}`).join(', ')} (in ${PAGES_DIR}/)`);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * @param {string} filePath
+ * @returns {Promise<boolean>}
+ */
+async function fileExists(filePath) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export default loadProject;
@@ -5,53 +5,59 @@
  * Designed for use with Gemini MCP tools.
  */
 
+import { BUILT_IN_STYLES, BUILT_IN_TONES, resolveStyle, resolveTone } from './styles.mjs';
+import { describeStyleBible } from './consistency.mjs';
+
 /**
- * Available zine styles
+ * Built-in zine styles' prompts (see styles.mjs for every style, user-defined ones included)
  */
-export const STYLES = {
-  'punk-zine': 'xerox texture, high contrast black and white with accent color highlights, DIY cut-and-paste collage, hand-drawn typography, rough edges, rebellious feel',
-  'minimal': 'clean lines, lots of white space, simple geometric shapes, modern sans-serif typography, subtle gradients',
-  'collage': 'layered imagery, mixed media textures, overlapping elements, vintage photographs, torn paper edges',
-  'retro': '1970s aesthetic, warm earth tones, groovy typography, halftone patterns, nostalgic imagery',
-  'academic': 'diagram-heavy, annotated illustrations, serif typography, reference-style layout, infographic elements'
-};
+export const STYLES = Object.fromEntries(Object.values(BUILT_IN_STYLES).map(({ name, prompt }) => [name, prompt]));
 
 /**
- * Available tones
+ * Colour palette per built-in style: paper, main ink and accent, plus the
+ * risograph inks the style separates into by default
  */
-export const TONES = {
-  'rebellious': 'defiant, anti-establishment, punk attitude, call to action, questioning authority',
-  'playful': 'whimsical, fun, light-hearted, humorous, engaging, accessible',
-  'informative': 'educational, clear explanations, factual, well-structured, easy to understand',
-  'poetic': 'lyrical, metaphorical, evocative imagery, emotional resonance, artistic expression'
-};
+export const STYLE_PALETTES = Object.fromEntries(Object.values(BUILT_IN_STYLES).map(({ name, palette }) => [name, palette]));
+
+/**
+ * Built-in tones' prompts
+ */
+export const TONES = Object.fromEntries(Object.values(BUILT_IN_TONES).map(({ name, prompt }) => [name, prompt]));
 
 /**
- * Generate a content outline prompt for an 8-page zine
+ * Generate a content outline prompt for a zine
  *
  * @param {Object} options
  * @param {string} options.topic - Main topic/theme
  * @param {string} [options.style='punk-zine'] - Visual style
  * @param {string} [options.tone='rebellious'] - Tone of content
  * @param {string} [options.sourceContent] - Optional reference content
+ * @param {number} [options.pageCount=8] - Number of pages (4, 8, 12, 16 or 24)
+ * @param {string|string[]} [options.structure] - Page sequence: a ZINE_STRUCTURES key or a list of PAGE_TEMPLATES keys (default: the tone's)
  * @returns {string} Prompt for content outline generation
  */
-export function getContentOutlinePrompt({ topic, style = 'punk-zine', tone = 'rebellious', sourceContent = null }) {
-  return `You are creating an 8-page mycro-zine (mini folded zine) on the topic: ${topic}
+export function getContentOutlinePrompt({ topic, style = 'punk-zine', tone = 'rebellious', sourceContent = null, pageCount = 8, structure = null }) {
+  const templates = getStructureTemplates(structure || getDefaultStructure(tone), pageCount);
+  const pages = templates.map((name, i) => {
+    const { type, description, elements } = PAGE_TEMPLATES[name];
+    return `Page ${i + 1} (${name}, type "${type}"): ${description} - ${elements.join(', ')}`;
+  }).join('\n');
 
-Style: ${style} | Tone: ${tone}
+  return `You are creating a ${pageCount}-page mycro-zine (mini folded zine) on the topic: ${topic}
+
+Style: ${style} - ${resolveStyle(style).prompt}
+Tone: ${tone} - ${resolveTone(tone).prompt}
 
 ${sourceContent ? `Reference content:\n${sourceContent}\n` : ''}
 
-Generate a JSON outline for 8 pages:
+Generate a JSON outline for ${pageCount} pages. Each page follows its template: write content that fits its description and elements.
 
-Page 1 (Cover): Bold title, subtitle, visual hook
-Pages 2-7 (Content): Key concepts with emoji-fied, memetic explanations, hashtags
-Page 8 (CTA): Call-to-action with QR code placeholders
+${pages}
 
 For each page provide:
-- pageNumber (1-8)
-- type: "cover" | "content" | "cta"
+- pageNumber (1-${pageCount})
+- template: the page's template, as named above
+- type: the page's type, as given above
 - title: Bold headline
 - subtitle: (optional) Supporting text
 - keyPoints: Array of 2-4 key points with emojis
@@ -65,25 +71,38 @@ Output as JSON array.`;
  * Generate an image prompt for a zine page
  *
  * @param {Object} options
- * @param {number} options.pageNumber - Page number (1-8)
+ * @param {number} options.pageNumber - Page number (1-based)
+ * @param {number} [options.pageCount=8] - Total pages in the zine
  * @param {string} options.zineTopic - Overall zine topic
  * @param {Object} options.pageOutline - Page outline from content generation
  * @param {string} [options.style='punk-zine'] - Visual style
  * @param {string} [options.feedback] - User feedback to incorporate
+ * @param {boolean} [options.textOverlay=false] - The page's text is set over the art (see text.mjs), so ask for art without lettering
+ * @param {Object} [options.styleBible] - The zine's palette, characters and motifs (see consistency.mjs)
  * @returns {string} Prompt for image generation
  */
-export function getImagePrompt({ pageNumber, zineTopic, pageOutline, style = 'punk-zine', feedback = null }) {
-  const styleDesc = STYLES[style] || STYLES['punk-zine'];
+export function getImagePrompt({ pageNumber, pageCount = 8, zineTopic, pageOutline, style = 'punk-zine', feedback = null, textOverlay = false, styleBible = null }) {
+  const styleDesc = resolveStyle(style).prompt;
+  const bible = describeStyleBible(styleBible);
 
-  let prompt = `Punk zine page ${pageNumber}/8 for "${zineTopic}".
+  let prompt = `Punk zine page ${pageNumber}/${pageCount} for "${zineTopic}".
 
 ${pageOutline.imagePrompt || ''}
 
 Style: ${styleDesc}
 
-Include text elements: ${pageOutline.title}
+${bible ? `${bible}\n\n` : ''}`;
+
+  if (textOverlay) {
+    prompt += `Artwork only: no text, letters, numbers or logos anywhere in the image.
+The title and text are added separately, so keep the top fifth and the lower third calm enough to print text over.
+Subject: ${pageOutline.title}
+${pageOutline.keyPoints ? pageOutline.keyPoints.join(', ') : ''}`;
+  } else {
+    prompt += `Include text elements: ${pageOutline.title}
 ${pageOutline.keyPoints ? pageOutline.keyPoints.join(', ') : ''}
 ${pageOutline.hashtags ? `Hashtags: ${pageOutline.hashtags.join(' ')}` : ''}`;
+  }
 
   if (feedback) {
     prompt += `\n\nUser feedback to incorporate: ${feedback}`;
@@ -97,10 +116,11 @@ ${pageOutline.hashtags ? `Hashtags: ${pageOutline.hashtags.join(' ')}` : ''}`;
  *
  * @param {string} topic - Topic to brainstorm about
  * @param {string} [style='punk-zine'] - Visual style preference
+ * @param {number} [pageCount=8] - Number of pages
  * @returns {string} Prompt for ideation brainstorming
  */
-export function getIdeationPrompt(topic, style = 'punk-zine') {
-  return `Let's create an 8-page mycro-zine about "${topic}" in ${style} style.
+export function getIdeationPrompt(topic, style = 'punk-zine', pageCount = 8) {
+  return `Let's create a ${pageCount}-page mycro-zine about "${topic}" in ${style} style.
 
 This is a mini folded zine format - think punk, DIY, memetic, shareable.
 
@@ -161,7 +181,8 @@ export const PAGE_TEMPLATES = {
 };
 
 /**
- * Suggested 8-page structures
+ * Page templates of an 8-page zine, in order, per structure (see
+ * getStructureTemplates() for other page counts)
  */
 export const ZINE_STRUCTURES = {
   educational: [
@@ -196,11 +217,69 @@ export const ZINE_STRUCTURES = {
   ]
 };
 
+/**
+ * Structure an outline follows when none is picked, by tone
+ */
+export const TONE_STRUCTURES = {
+  'rebellious': 'manifesto',
+  'playful': 'educational',
+  'informative': 'educational',
+  'poetic': 'manifesto'
+};
+
+/**
+ * Default structure for a tone
+ * @param {string} [tone]
+ * @returns {string} - Key of ZINE_STRUCTURES
+ */
+export function getDefaultStructure(tone) {
+  return TONE_STRUCTURES[tone] || 'educational';
+}
+
+/**
+ * Page template of every page for a structure and page count: the cover and
+ * call to action stay first and last, and the pages between them are picked
+ * evenly from the structure's (repeated in order for longer zines). A custom
+ * structure - a list of templates, one per page - is checked and returned
+ * as is.
+ *
+ * @param {string|string[]} structure - Key of ZINE_STRUCTURES, or a list of PAGE_TEMPLATES keys
+ * @param {number} [pageCount=8]
+ * @returns {string[]} - Keys of PAGE_TEMPLATES, one per page
+ */
+export function getStructureTemplates(structure, pageCount = 8) {
+  if (Array.isArray(structure)) {
+    if (structure.length !== pageCount) {
+      throw new Error(`A custom structure needs one template per page: ${pageCount}, got ${structure.length}`);
+    }
+    const unknown = structure.filter((name) => !Object.hasOwn(PAGE_TEMPLATES, name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown page template: ${unknown.join(', ')}. Use: ${Object.keys(PAGE_TEMPLATES).join(', ')}`);
+    }
+    return [...structure];
+  }
+  const templates = Object.hasOwn(ZINE_STRUCTURES, structure) ? ZINE_STRUCTURES[structure] : null;
+  if (!templates) {
+    throw new Error(`Unknown zine structure: ${structure}. Use one of: ${Object.keys(ZINE_STRUCTURES).join(', ')}`);
+  }
+  const middle = templates.slice(1, -1);
+  const count = pageCount - 2;
+  return [
+    templates[0],
+    ...Array.from({ length: count }, (_, i) => middle[Math.floor(i * middle.length / count)]),
+    templates[templates.length - 1]
+  ];
+}
+
 export default {
   STYLES,
+  STYLE_PALETTES,
   TONES,
   PAGE_TEMPLATES,
   ZINE_STRUCTURES,
+  TONE_STRUCTURES,
+  getDefaultStructure,
+  getStructureTemplates,
   getContentOutlinePrompt,
   getImagePrompt,
   getIdeationPrompt
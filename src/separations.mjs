@@ -0,0 +1,310 @@
+/**
+ * MycroZine Risograph Separations
+ *
+ * Splits a composited sheet into 1-3 spot-colour layers, one per risograph
+ * drum. Each layer is a grayscale image where black is full ink coverage and
+ * white is bare paper.
+ *
+ * Inks are modelled as halftone coverage over white paper: a pixel printed
+ * with coverage a of an ink that reflects r of the light in a channel
+ * reflects 1 - a(1 - r), and overprinted inks multiply. Coverages are solved
+ * per colour (least squares, clamped to 0-1) through a lookup table, so
+ * colours outside the inks' gamut land on the nearest mix they can make.
+ */
+
+import sharp from 'sharp';
+import { resolveStyle } from './styles.mjs';
+
+/**
+ * Common risograph inks (approximate sRGB of the printed ink)
+ */
+export const RISO_INKS = {
+  black: '#000000',
+  'fluorescent-pink': '#ff48b0',
+  'fluorescent-orange': '#ff7477',
+  'bright-red': '#f15060',
+  orange: '#ff6c2f',
+  yellow: '#ffe800',
+  green: '#00a95c',
+  teal: '#00838a',
+  blue: '#0078bf',
+  'medium-blue': '#3255a4',
+  purple: '#765ba7',
+  burgundy: '#914e72',
+  brown: '#925f52'
+};
+
+export const MAX_SEPARATIONS = 3;
+
+// Lookup table resolution: 6 bits per channel (64 levels)
+const LUT_BITS = 6;
+
+// Coverage tables by ink colours, so every side of a job shares one
+const coverageTables = new Map();
+
+/**
+ * Parse a #rrggbb colour into [r, g, b] (0-255)
+ * @param {string} hex
+ * @returns {number[]}
+ */
+function hexToRgb(hex) {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) {
+    throw new Error(`Invalid colour: ${hex}`);
+  }
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Find the risograph ink closest to a colour
+ * @param {string} hex - #rrggbb colour
+ * @returns {string} - Ink name from RISO_INKS
+ */
+export function nearestInk(hex) {
+  const [r, g, b] = hexToRgb(hex);
+  let best = null;
+  let bestDistance = Infinity;
+  for (const [name, inkHex] of Object.entries(RISO_INKS)) {
+    const [ir, ig, ib] = hexToRgb(inkHex);
+    const distance = (r - ir) ** 2 + (g - ig) ** 2 + (b - ib) ** 2;
+    if (distance < bestDistance) {
+      best = name;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Default inks for a style, from its palette (see styles.mjs), e.g.
+ * black + fluorescent-pink for punk-zine. Palettes without inks use the
+ * nearest inks to their foreground and accent colours.
+ *
+ * @param {string} [style='punk-zine'] - Visual style
+ * @returns {{ name: string, color: string }[]}
+ */
+export function getStyleInks(style = 'punk-zine') {
+  const { palette } = resolveStyle(style);
+  const names = palette.inks || [...new Set([nearestInk(palette.foreground), nearestInk(palette.accent)])];
+  return names.map(name => ({ name, color: RISO_INKS[name] }));
+}
+
+/**
+ * Normalize a separations option into a list of inks
+ *
+ * Accepts true (the style's default inks), a comma-separated string
+ * ('black,fluorescent-pink') or an array of ink names and #rrggbb colours.
+ *
+ * @param {boolean|string|string[]} value - Separations option
+ * @param {Object} [options]
+ * @param {string} [options.style] - Style whose palette picks the default inks
+ * @returns {{ name: string, color: string }[]} - 1 to 3 inks
+ */
+export function parseInks(value, { style } = {}) {
+  if (value === true || value === 'true' || value === 'default') {
+    return getStyleInks(style);
+  }
+
+  const names = (Array.isArray(value) ? value : String(value).split(','))
+    .map((name) => String(name).trim().toLowerCase())
+    .filter(Boolean);
+
+  const inks = names.map((name) => {
+    if (RISO_INKS[name]) {
+      return { name, color: RISO_INKS[name] };
+    }
+    if (/^#?[0-9a-f]{6}$/.test(name)) {
+      const color = name.startsWith('#') ? name : `#${name}`;
+      return { name: color.slice(1), color };
+    }
+    throw new Error(`Unknown ink: ${name}. Use a #rrggbb colour or one of ${Object.keys(RISO_INKS).join(', ')}`);
+  });
+
+  if (inks.length < 1 || inks.length > MAX_SEPARATIONS) {
+    throw new Error(`Separations need 1 to ${MAX_SEPARATIONS} inks, got ${inks.length}`);
+  }
+  if (new Set(inks.map(ink => ink.color)).size !== inks.length) {
+    throw new Error('Separation inks must be different colours');
+  }
+
+  return inks;
+}
+
+/**
+ * Solve a small symmetric linear system in place (Gaussian elimination)
+ * @param {Float64Array} m - k x k matrix, row-major
+ * @param {Float64Array} v - Right-hand side, overwritten with the solution
+ * @param {number} k - System size
+ * @returns {boolean} - false if the system is singular
+ */
+function solveInPlace(m, v, k) {
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < k; row++) {
+      if (Math.abs(m[row * k + col]) > Math.abs(m[pivot * k + col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(m[pivot * k + col]) < 1e-12) {
+      return false;
+    }
+    if (pivot !== col) {
+      for (let c = 0; c < k; c++) {
+        [m[col * k + c], m[pivot * k + c]] = [m[pivot * k + c], m[col * k + c]];
+      }
+      [v[col], v[pivot]] = [v[pivot], v[col]];
+    }
+    for (let row = col + 1; row < k; row++) {
+      const factor = m[row * k + col] / m[col * k + col];
+      for (let c = col; c < k; c++) {
+        m[row * k + c] -= factor * m[col * k + c];
+      }
+      v[row] -= factor * v[col];
+    }
+  }
+  for (let row = k - 1; row >= 0; row--) {
+    for (let c = row + 1; c < k; c++) {
+      v[row] -= m[row * k + c] * v[c];
+    }
+    v[row] /= m[row * k + row];
+  }
+  return true;
+}
+
+/**
+ * Build the colour -> ink coverage lookup table
+ *
+ * @param {{ color: string }[]} inks
+ * @returns {Uint8Array} - Per LUT entry, one byte per ink: 255 = no ink, 0 = full coverage
+ */
+function buildCoverageTable(inks) {
+  const k = inks.length;
+  const levels = 1 << LUT_BITS;
+  // Light absorbed by each ink per channel at full coverage, [ink * 3 + channel]
+  const absorb = Float64Array.from(inks.flatMap(({ color }) => hexToRgb(color).map(c => 1 - c / 255)));
+  const table = new Uint8Array(levels ** 3 * k);
+  const coverage = new Float64Array(k);
+  const factors = new Float64Array(k);
+  const jacobian = new Float64Array(k);
+  const jtj = new Float64Array(k * k);
+  const jtr = new Float64Array(k);
+  const target = new Float64Array(3);
+
+  for (let index = 0; index < levels ** 3; index++) {
+    target[0] = index >> (LUT_BITS * 2);
+    target[1] = (index >> LUT_BITS) & (levels - 1);
+    target[2] = index & (levels - 1);
+    for (let c = 0; c < 3; c++) {
+      target[c] = ((target[c] << (8 - LUT_BITS)) + (1 << (7 - LUT_BITS))) / 255;
+    }
+
+    // Damped Gauss-Newton, warm-started from the previous (neighbouring) colour
+    for (let iteration = 0; iteration < 8; iteration++) {
+      jtj.fill(0);
+      jtr.fill(0);
+      for (let c = 0; c < 3; c++) {
+        let predicted = 1;
+        for (let i = 0; i < k; i++) {
+          factors[i] = 1 - coverage[i] * absorb[i * 3 + c];
+          predicted *= factors[i];
+        }
+        const residual = predicted - target[c];
+        for (let i = 0; i < k; i++) {
+          // d(predicted)/d(coverage i): the other inks' factors times -absorb
+          let others = 1;
+          for (let j = 0; j < k; j++) {
+            if (j !== i) {
+              others *= factors[j];
+            }
+          }
+          jacobian[i] = -absorb[i * 3 + c] * others;
+        }
+        for (let i = 0; i < k; i++) {
+          jtr[i] -= jacobian[i] * residual;
+          for (let j = 0; j < k; j++) {
+            jtj[i * k + j] += jacobian[i] * jacobian[j];
+          }
+        }
+      }
+      for (let i = 0; i < k; i++) {
+        jtj[i * k + i] += 1e-4;
+      }
+      if (!solveInPlace(jtj, jtr, k)) {
+        break;
+      }
+      let moved = 0;
+      for (let i = 0; i < k; i++) {
+        const next = Math.min(1, Math.max(0, coverage[i] + jtr[i]));
+        moved += Math.abs(next - coverage[i]);
+        coverage[i] = next;
+      }
+      if (moved < 1e-3) {
+        break;
+      }
+    }
+
+    for (let i = 0; i < k; i++) {
+      table[index * k + i] = Math.round(255 * (1 - coverage[i]));
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Separate an image into spot-colour layers
+ *
+ * @param {string|Buffer} input - Composited sheet (path or buffer)
+ * @param {{ name: string, color: string }[]} inks - 1 to 3 inks (see parseInks)
+ * @returns {Promise<{ ink: { name: string, color: string }, data: Buffer, width: number, height: number }[]>}
+ *   One raw 8-bit grayscale layer per ink (0 = full ink, 255 = none)
+ */
+export async function separateImage(input, inks) {
+  const { data, info } = await sharp(input)
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const k = inks.length;
+  const key = inks.map(ink => ink.color).join(',');
+  if (!coverageTables.has(key)) {
+    coverageTables.set(key, buildCoverageTable(inks));
+  }
+  const table = coverageTables.get(key);
+  const layers = inks.map(() => Buffer.alloc(width * height));
+  const shift = 8 - LUT_BITS;
+
+  for (let p = 0, i = 0; p < width * height; p++, i += channels) {
+    const index = ((data[i] >> shift) << (LUT_BITS * 2)) | ((data[i + 1] >> shift) << LUT_BITS) | (data[i + 2] >> shift);
+    for (let layer = 0; layer < k; layer++) {
+      layers[layer][p] = table[index * k + layer];
+    }
+  }
+
+  return inks.map((ink, i) => ({ ink, data: layers[i], width, height }));
+}
+
+/**
+ * Simulate a risograph print of separated layers, for previews
+ *
+ * @param {{ ink: { color: string }, data: Buffer, width: number, height: number }[]} layers
+ * @returns {Promise<Buffer>} - PNG
+ */
+export async function previewSeparations(layers) {
+  const { width, height } = layers[0];
+  const rgb = Buffer.alloc(width * height * 3, 255);
+  for (const { ink, data } of layers) {
+    const absorb = hexToRgb(ink.color).map(c => 1 - c / 255);
+    for (let p = 0; p < width * height; p++) {
+      const coverage = 1 - data[p] / 255;
+      for (let c = 0; c < 3; c++) {
+        rgb[p * 3 + c] = Math.round(rgb[p * 3 + c] * (1 - coverage * absorb[c]));
+      }
+    }
+  }
+  return sharp(rgb, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+export default separateImage;
@@ -0,0 +1,506 @@
+/**
+ * MycroZine Styles
+ *
+ * The one registry of visual styles and tones, shared by the prompts, the
+ * placeholder and template pages, text layers, QR codes and the web app.
+ * Each style has a prompt fragment for image models, a palette (paper, ink
+ * and accent colours, plus the risograph inks it separates into), title and
+ * body fonts, a paper texture, QR code colours and reference images.
+ *
+ * The built-in styles and tones are always there. User-defined ones - a
+ * collective's house style, say - are JSON files in a registry directory:
+ *
+ *   <dir>/styles/<name>.json    style (see styleSchema)
+ *   <dir>/styles/<name>/*.png   its reference images
+ *   <dir>/tones/<name>.json     tone (see toneSchema)
+ *
+ * loadStyles() reads them in; until then only the built-ins are known.
+ */
+
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import sharp from 'sharp';
+import { z } from 'zod';
+
+/**
+ * Registry directory used when none is given (MYCROZINE_HOME, or ~/.mycrozine)
+ */
+export const DEFAULT_STYLES_DIR = process.env.MYCROZINE_HOME || path.join(os.homedir(), '.mycrozine');
+
+/**
+ * Paper textures drawn under template and placeholder pages
+ */
+export const STYLE_TEXTURES = ['none', 'dots', 'halftone', 'paper', 'grid'];
+
+// Reference images per style, and the longest side they are stored at
+export const MAX_STYLE_REFERENCES = 8;
+const REFERENCE_SIZE = 1024;
+
+/**
+ * Built-in styles
+ */
+export const BUILT_IN_STYLES = {
+  'punk-zine': {
+    name: 'punk-zine',
+    label: 'Punk Zine',
+    description: 'Xerox texture, high contrast, DIY collage',
+    prompt: 'xerox texture, high contrast black and white with accent color highlights, DIY cut-and-paste collage, hand-drawn typography, rough edges, grainy photocopied look, bold graphic elements, rebellious feel',
+    palette: { background: '#ffffff', foreground: '#000000', accent: '#ff0066', inks: ['black', 'fluorescent-pink'] },
+    fonts: { title: 'ransom-note', body: 'typewriter' },
+    texture: 'dots',
+    qr: { dark: '#000000', light: '#00ff00' },
+    references: []
+  },
+  'minimal': {
+    name: 'minimal',
+    label: 'Minimal',
+    description: 'Clean lines, white space, modern',
+    prompt: 'clean lines, lots of white space, simple geometric shapes, modern sans-serif typography, subtle gradients, elegant composition',
+    palette: { background: '#fafafa', foreground: '#333333', accent: '#0066ff', inks: ['black', 'blue'] },
+    fonts: { title: 'sans', body: 'sans' },
+    texture: 'none',
+    qr: { dark: '#333333', light: '#fafafa' },
+    references: []
+  },
+  'collage': {
+    name: 'collage',
+    label: 'Collage',
+    description: 'Layered imagery, mixed media',
+    prompt: 'layered mixed media collage, vintage photographs, torn paper edges, overlapping textures, found imagery, eclectic composition',
+    palette: { background: '#f5e6d3', foreground: '#2d2d2d', accent: '#8b4513', inks: ['black', 'brown'] },
+    fonts: { title: 'handwritten', body: 'typewriter' },
+    texture: 'paper',
+    qr: { dark: '#2d2d2d', light: '#f5e6d3' },
+    references: []
+  },
+  'retro': {
+    name: 'retro',
+    label: 'Retro',
+    description: '1970s aesthetic, earth tones',
+    prompt: '1970s aesthetic, warm earth tones, groovy psychedelic typography, halftone dot patterns, vintage illustration style, nostalgic imagery',
+    palette: { background: '#fff8dc', foreground: '#8b4513', accent: '#ff6347', inks: ['brown', 'orange'] },
+    fonts: { title: 'stencil', body: 'serif' },
+    texture: 'halftone',
+    qr: { dark: '#8b4513', light: '#fff8dc' },
+    references: []
+  },
+  'academic': {
+    name: 'academic',
+    label: 'Academic',
+    description: 'Diagrams, annotations, infographic',
+    prompt: 'diagram-heavy, annotated illustrations, serif typography, reference-style layout, infographic elements, clear hierarchy',
+    palette: { background: '#ffffff', foreground: '#1a1a1a', accent: '#0055aa', inks: ['black', 'medium-blue'] },
+    fonts: { title: 'serif', body: 'serif' },
+    texture: 'grid',
+    qr: { dark: '#1a1a1a', light: '#ffffff' },
+    references: []
+  }
+};
+
+/**
+ * Built-in tones
+ */
+export const BUILT_IN_TONES = {
+  'rebellious': {
+    name: 'rebellious',
+    label: 'Rebellious',
+    description: 'Defiant, punk attitude',
+    prompt: 'defiant, anti-establishment, punk attitude, provocative bold statements, raw and unfiltered, call to action, questioning authority'
+  },
+  'playful': {
+    name: 'playful',
+    label: 'Playful',
+    description: 'Whimsical, fun, light-hearted',
+    prompt: 'whimsical, fun, light-hearted, humor and wit, bright positive vibes, engaging, accessible'
+  },
+  'informative': {
+    name: 'informative',
+    label: 'Informative',
+    description: 'Educational, factual',
+    prompt: 'educational, clear explanations, factual, well-structured, easy to understand'
+  },
+  'poetic': {
+    name: 'poetic',
+    label: 'Poetic',
+    description: 'Lyrical, metaphorical',
+    prompt: 'lyrical, metaphorical, evocative imagery, emotional resonance, contemplative, artistic expression'
+  }
+};
+
+const DEFAULT_STYLE = 'punk-zine';
+const DEFAULT_TONE = 'rebellious';
+
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i, 'Use a #rrggbb colour');
+const registryName = z.string()
+  .max(40)
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Use lowercase letters, digits and dashes');
+
+/**
+ * A user-defined style, as stored in <dir>/styles/<name>.json. Fonts are
+ * library font names (see fonts.mjs) and inks RISO_INKS names or #rrggbb
+ * colours (see separations.mjs). QR colours default to the palette's
+ * foreground on its background; inks, when left out, are the nearest
+ * risograph inks to the foreground and accent.
+ */
+export const styleSchema = z.object({
+  name: registryName,
+  label: z.string().optional(),
+  description: z.string().default(''),
+  prompt: z.string().min(1, 'Describe the style for image models'),
+  palette: z.object({
+    background: hexColor,
+    foreground: hexColor,
+    accent: hexColor,
+    inks: z.array(z.string()).min(1).max(3).optional()
+  }),
+  fonts: z.object({
+    title: z.string().default('typewriter'),
+    body: z.string().default('typewriter')
+  }).default({}),
+  texture: z.enum(STYLE_TEXTURES).default('none'),
+  qr: z.object({ dark: hexColor, light: hexColor }).optional(),
+  references: z.array(z.string().regex(/^[\w-]+\.png$/)).max(MAX_STYLE_REFERENCES).default([]),
+  default: z.boolean().optional()
+}).transform((style) => ({
+  ...style,
+  label: style.label || style.name,
+  qr: style.qr || { dark: style.palette.foreground, light: style.palette.background }
+}));
+
+/**
+ * A user-defined tone, as stored in <dir>/tones/<name>.json
+ */
+export const toneSchema = z.object({
+  name: registryName,
+  label: z.string().optional(),
+  description: z.string().default(''),
+  prompt: z.string().min(1, 'Describe the tone for language models')
+}).transform((tone) => ({ ...tone, label: tone.label || tone.name }));
+
+// User-defined styles and tones by name, and the directory they were loaded from
+const userStyles = new Map();
+const userTones = new Map();
+let registryDir = null;
+
+/**
+ * Look up a style by name
+ * @param {string} name
+ * @returns {Object|null} - Built-in or user-defined style, or null
+ */
+export function getStyle(name) {
+  return (Object.hasOwn(BUILT_IN_STYLES, name ?? '') ? BUILT_IN_STYLES[name] : userStyles.get(name)) || null;
+}
+
+/**
+ * A style by name, falling back to punk-zine for unknown names
+ * @param {string} [name]
+ * @returns {Object}
+ */
+export function resolveStyle(name) {
+  return getStyle(name) || BUILT_IN_STYLES[DEFAULT_STYLE];
+}
+
+/**
+ * Look up a tone by name
+ * @param {string} name
+ * @returns {Object|null} - Built-in or user-defined tone, or null
+ */
+export function getTone(name) {
+  return (Object.hasOwn(BUILT_IN_TONES, name ?? '') ? BUILT_IN_TONES[name] : userTones.get(name)) || null;
+}
+
+/**
+ * A tone by name, falling back to rebellious for unknown names
+ * @param {string} [name]
+ * @returns {Object}
+ */
+export function resolveTone(name) {
+  return getTone(name) || BUILT_IN_TONES[DEFAULT_TONE];
+}
+
+/**
+ * Every style, built-in ones first
+ * @returns {Object[]} - Styles with a builtIn flag
+ */
+export function listStyles() {
+  return [
+    ...Object.values(BUILT_IN_STYLES).map((style) => ({ ...style, builtIn: true })),
+    ...[...userStyles.values()].map((style) => ({ ...style, builtIn: false }))
+  ];
+}
+
+/**
+ * Every tone, built-in ones first
+ * @returns {Object[]} - Tones with a builtIn flag
+ */
+export function listTones() {
+  return [
+    ...Object.values(BUILT_IN_TONES).map((tone) => ({ ...tone, builtIn: true })),
+    ...[...userTones.values()].map((tone) => ({ ...tone, builtIn: false }))
+  ];
+}
+
+/**
+ * Style new zines get: the user-defined style marked default (a house
+ * style), otherwise punk-zine
+ * @returns {string}
+ */
+export function getDefaultStyle() {
+  return [...userStyles.values()].find((style) => style.default)?.name || DEFAULT_STYLE;
+}
+
+/**
+ * Title and body fonts for a style (default: punk-zine's)
+ * @param {string} [style]
+ * @returns {{ title: string, body: string }}
+ */
+export function getStyleFonts(style) {
+  return resolveStyle(style).fonts;
+}
+
+/**
+ * Read the user-defined styles and tones in a registry directory, replacing
+ * any loaded before. Files that don't parse are skipped and reported.
+ *
+ * @param {string} [dir] - Registry directory (default: DEFAULT_STYLES_DIR)
+ * @returns {Promise<{ styles: string[], tones: string[], errors: string[] }>}
+ */
+export async function loadStyles(dir = DEFAULT_STYLES_DIR) {
+  registryDir = dir;
+  userStyles.clear();
+  userTones.clear();
+  const errors = [];
+
+  for (const [kind, schema, builtIns, registry] of [
+    ['styles', styleSchema, BUILT_IN_STYLES, userStyles],
+    ['tones', toneSchema, BUILT_IN_TONES, userTones]
+  ]) {
+    let files = [];
+    try {
+      files = (await fs.readdir(path.join(dir, kind))).filter((file) => file.endsWith('.json')).sort();
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    for (const file of files) {
+      try {
+        const entry = parseEntry(schema, JSON.parse(await fs.readFile(path.join(dir, kind, file), 'utf8')));
+        if (`${entry.name}.json` !== file) {
+          throw new Error(`name ${entry.name} does not match the file name`);
+        }
+        if (Object.hasOwn(builtIns, entry.name)) {
+          throw new Error(`${entry.name} is built in`);
+        }
+        registry.set(entry.name, entry);
+      } catch (error) {
+        errors.push(`${kind}/${file}: ${error.message}`);
+      }
+    }
+  }
+
+  return { styles: [...userStyles.keys()], tones: [...userTones.keys()], errors };
+}
+
+/**
+ * Add or replace a user-defined style. Marking it default unmarks the
+ * previous default. Reference images are managed with addStyleReference.
+ *
+ * @param {Object} style - Style (see styleSchema)
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Registry directory (default: the loaded one)
+ * @returns {Promise<Object>} - The saved style
+ */
+export async function saveStyle(style, { dir } = {}) {
+  const parsed = parseEntry(styleSchema, { ...style, references: userStyles.get(style?.name)?.references || [] });
+  if (Object.hasOwn(BUILT_IN_STYLES, parsed.name)) {
+    throw new Error(`${parsed.name} is a built-in style; save yours under another name`);
+  }
+
+  if (parsed.default) {
+    for (const other of userStyles.values()) {
+      if (other.name !== parsed.name && other.default) {
+        await writeEntry(dir, 'styles', { ...other, default: false });
+      }
+    }
+  }
+  return writeEntry(dir, 'styles', parsed);
+}
+
+/**
+ * Delete a user-defined style and its reference images
+ *
+ * @param {string} name
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Registry directory (default: the loaded one)
+ * @returns {Promise<void>}
+ */
+export async function deleteStyle(name, { dir } = {}) {
+  const style = getUserEntry(userStyles, BUILT_IN_STYLES, 'style', name);
+  const stylesDir = path.join(dir || registryDir || DEFAULT_STYLES_DIR, 'styles');
+  await fs.rm(path.join(stylesDir, `${style.name}.json`), { force: true });
+  await fs.rm(path.join(stylesDir, style.name), { recursive: true, force: true });
+  userStyles.delete(style.name);
+}
+
+/**
+ * Add or replace a user-defined tone
+ *
+ * @param {Object} tone - Tone (see toneSchema)
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Registry directory (default: the loaded one)
+ * @returns {Promise<Object>} - The saved tone
+ */
+export async function saveTone(tone, { dir } = {}) {
+  const parsed = parseEntry(toneSchema, tone);
+  if (Object.hasOwn(BUILT_IN_TONES, parsed.name)) {
+    throw new Error(`${parsed.name} is a built-in tone; save yours under another name`);
+  }
+  return writeEntry(dir, 'tones', parsed);
+}
+
+/**
+ * Delete a user-defined tone
+ *
+ * @param {string} name
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Registry directory (default: the loaded one)
+ * @returns {Promise<void>}
+ */
+export async function deleteTone(name, { dir } = {}) {
+  const tone = getUserEntry(userTones, BUILT_IN_TONES, 'tone', name);
+  await fs.rm(path.join(dir || registryDir || DEFAULT_STYLES_DIR, 'tones', `${tone.name}.json`), { force: true });
+  userTones.delete(tone.name);
+}
+
+/**
+ * Add a reference image to a user-defined style, stored as a PNG no larger
+ * than 1024 pixels on its longest side
+ *
+ * @param {string} name - Style name
+ * @param {Buffer} image - Image data (anything sharp reads)
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Registry directory (default: the loaded one)
+ * @returns {Promise<{ style: Object, file: string }>} - The updated style and the image's file name
+ */
+export async function addStyleReference(name, image, { dir } = {}) {
+  const style = getUserEntry(userStyles, BUILT_IN_STYLES, 'style', name);
+  if (style.references.length >= MAX_STYLE_REFERENCES) {
+    throw new Error(`A style has at most ${MAX_STYLE_REFERENCES} reference images`);
+  }
+
+  let n = style.references.length + 1;
+  while (style.references.includes(`reference-${n}.png`)) {
+    n++;
+  }
+  const file = `reference-${n}.png`;
+  const png = await sharp(image)
+    .rotate()
+    .resize(REFERENCE_SIZE, REFERENCE_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+
+  const referencesDir = path.join(dir || registryDir || DEFAULT_STYLES_DIR, 'styles', style.name);
+  await fs.mkdir(referencesDir, { recursive: true });
+  await fs.writeFile(path.join(referencesDir, file), png);
+  return { style: await writeEntry(dir, 'styles', { ...style, references: [...style.references, file] }), file };
+}
+
+/**
+ * Remove a reference image from a user-defined style
+ *
+ * @param {string} name - Style name
+ * @param {string} file - Image file name (from the style's references)
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Registry directory (default: the loaded one)
+ * @returns {Promise<Object>} - The updated style
+ */
+export async function removeStyleReference(name, file, { dir } = {}) {
+  const style = getUserEntry(userStyles, BUILT_IN_STYLES, 'style', name);
+  if (!style.references.includes(file)) {
+    throw new Error(`Style ${style.name} has no reference image ${file}`);
+  }
+  await fs.rm(path.join(dir || registryDir || DEFAULT_STYLES_DIR, 'styles', style.name, file), { force: true });
+  return writeEntry(dir, 'styles', { ...style, references: style.references.filter((ref) => ref !== file) });
+}
+
+/**
+ * Paths of a style's reference images (none for built-in styles)
+ *
+ * @param {string} name - Style name
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Registry directory (default: the loaded one)
+ * @returns {string[]}
+ */
+export function getStyleReferencePaths(name, { dir } = {}) {
+  const style = userStyles.get(name);
+  if (!style) {
+    return [];
+  }
+  return style.references.map((file) => path.join(dir || registryDir || DEFAULT_STYLES_DIR, 'styles', style.name, file));
+}
+
+/**
+ * @param {import('zod').ZodTypeAny} schema
+ * @param {Object} data
+ * @returns {Object}
+ */
+function parseEntry(schema, data) {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new Error(result.error.issues
+      .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; '));
+  }
+  return result.data;
+}
+
+/**
+ * @param {Map<string, Object>} registry - userStyles or userTones
+ * @param {Object} builtIns - BUILT_IN_STYLES or BUILT_IN_TONES
+ * @param {string} kind - 'style' or 'tone', for errors
+ * @param {string} name
+ * @returns {Object}
+ */
+function getUserEntry(registry, builtIns, kind, name) {
+  if (Object.hasOwn(builtIns, name ?? '')) {
+    throw new Error(`${name} is a built-in ${kind} and can't be changed`);
+  }
+  const entry = registry.get(name);
+  if (!entry) {
+    throw new Error(`Unknown ${kind}: ${name}`);
+  }
+  return entry;
+}
+
+/**
+ * Write a style or tone to <dir>/<kind>/<name>.json and register it
+ * @param {string} [dir]
+ * @param {'styles'|'tones'} kind
+ * @param {Object} entry - Parsed style or tone
+ * @returns {Promise<Object>}
+ */
+async function writeEntry(dir, kind, entry) {
+  const kindDir = path.join(dir || registryDir || DEFAULT_STYLES_DIR, kind);
+  await fs.mkdir(kindDir, { recursive: true });
+  await fs.writeFile(path.join(kindDir, `${entry.name}.json`), JSON.stringify(entry, null, 2) + '\n');
+  (kind === 'styles' ? userStyles : userTones).set(entry.name, entry);
+  return entry;
+}
+
+export default {
+  BUILT_IN_STYLES,
+  BUILT_IN_TONES,
+  getStyle,
+  resolveStyle,
+  getTone,
+  resolveTone,
+  listStyles,
+  listTones,
+  getDefaultStyle,
+  loadStyles,
+  saveStyle,
+  saveTone
+};
@@ -0,0 +1,297 @@
+/**
+ * MycroZine Page Templates
+ *
+ * Renderable layouts for the page templates in prompts.mjs (PAGE_TEMPLATES):
+ * each is a grid of image slots, text slots and rules on the panel. Outline
+ * pages name their template (picked from the zine's structure, see
+ * ZINE_STRUCTURES), and renderTemplatePage() draws a page from it with no
+ * image model at all - the style's paper and pattern, framed image slots
+ * (filled with artwork if there is any) and the outline's words typeset in
+ * the text slots. The same page renders the same way every time.
+ *
+ * Slot positions and sizes are fractions of the panel, like text layers, so
+ * a template fits any paper size or resolution.
+ */
+
+import sharp from 'sharp';
+import { PAGE_TEMPLATES, getStructureTemplates } from './prompts.mjs';
+import { resolveStyle } from './styles.mjs';
+import { TEXT_ROLE_DEFAULTS, normalizeTextLayer, measureTextBlock, stripEmoji, applyTextLayer } from './text.mjs';
+
+/**
+ * Slots of each page template: image (artwork), text (words from the
+ * outline page, see TEMPLATE_CONTENT) and rule (a line from x, y to
+ * x + width, y + height). x and y are the top left corner.
+ */
+export const TEMPLATE_LAYOUTS = {
+  cover: [
+    { kind: 'text', content: 'title', role: 'title', size: 28, x: 0.06, y: 0.06, width: 0.88, height: 0.16 },
+    { kind: 'image', x: 0.06, y: 0.24, width: 0.88, height: 0.56 },
+    { kind: 'text', content: 'subtitle', role: 'body', size: 13, align: 'center', x: 0.06, y: 0.82, width: 0.88, height: 0.08 },
+    { kind: 'text', content: 'hashtags', role: 'caption', x: 0.06, y: 0.91, width: 0.88, height: 0.04 }
+  ],
+  intro: [
+    { kind: 'text', content: 'title', role: 'title', x: 0.06, y: 0.06, width: 0.88, height: 0.12 },
+    { kind: 'text', content: 'subtitle', role: 'body', size: 13, weight: 'bold', align: 'center', x: 0.06, y: 0.19, width: 0.88, height: 0.1 },
+    { kind: 'image', x: 0.06, y: 0.31, width: 0.88, height: 0.34 },
+    { kind: 'text', content: 'points', role: 'body', x: 0.08, y: 0.68, width: 0.84, height: 0.26 }
+  ],
+  concept: [
+    { kind: 'text', content: 'title', role: 'title', x: 0.06, y: 0.06, width: 0.88, height: 0.12 },
+    { kind: 'image', x: 0.06, y: 0.2, width: 0.88, height: 0.42 },
+    { kind: 'text', content: 'points', role: 'body', x: 0.08, y: 0.65, width: 0.84, height: 0.24 },
+    { kind: 'text', content: 'hashtags', role: 'caption', x: 0.06, y: 0.9, width: 0.88, height: 0.05 }
+  ],
+  comparison: [
+    { kind: 'text', content: 'title', role: 'title', x: 0.06, y: 0.06, width: 0.88, height: 0.12 },
+    { kind: 'image', x: 0.06, y: 0.2, width: 0.42, height: 0.3 },
+    { kind: 'image', x: 0.52, y: 0.2, width: 0.42, height: 0.3 },
+    { kind: 'rule', x: 0.5, y: 0.53, width: 0, height: 0.4 },
+    { kind: 'text', content: 'left', role: 'body', size: 10, x: 0.07, y: 0.53, width: 0.38, height: 0.4 },
+    { kind: 'text', content: 'right', role: 'body', size: 10, x: 0.55, y: 0.53, width: 0.38, height: 0.4 }
+  ],
+  process: [
+    { kind: 'text', content: 'title', role: 'title', x: 0.06, y: 0.06, width: 0.88, height: 0.12 },
+    { kind: 'image', x: 0.06, y: 0.2, width: 0.88, height: 0.28 },
+    { kind: 'text', content: 'steps', role: 'body', size: 12, x: 0.08, y: 0.52, width: 0.84, height: 0.4 }
+  ],
+  manifesto: [
+    { kind: 'text', content: 'title', role: 'title', size: 24, x: 0.06, y: 0.06, width: 0.88, height: 0.14 },
+    { kind: 'rule', x: 0.2, y: 0.215, width: 0.6, height: 0 },
+    { kind: 'text', content: 'statements', role: 'body', size: 14, weight: 'bold', align: 'center', x: 0.06, y: 0.24, width: 0.88, height: 0.5 },
+    { kind: 'image', x: 0.06, y: 0.76, width: 0.88, height: 0.18 }
+  ],
+  resources: [
+    { kind: 'text', content: 'title', role: 'title', x: 0.06, y: 0.06, width: 0.88, height: 0.12 },
+    { kind: 'text', content: 'points', role: 'body', x: 0.08, y: 0.2, width: 0.84, height: 0.44 },
+    { kind: 'image', x: 0.3, y: 0.67, width: 0.4, height: 0.22 },
+    { kind: 'text', content: 'hashtags', role: 'caption', x: 0.06, y: 0.91, width: 0.88, height: 0.04 }
+  ],
+  cta: [
+    { kind: 'text', content: 'title', role: 'title', size: 24, x: 0.06, y: 0.06, width: 0.88, height: 0.14 },
+    { kind: 'image', x: 0.06, y: 0.22, width: 0.88, height: 0.36 },
+    { kind: 'text', content: 'steps', role: 'body', x: 0.08, y: 0.61, width: 0.84, height: 0.27 },
+    { kind: 'text', content: 'hashtags', role: 'caption', x: 0.06, y: 0.9, width: 0.88, height: 0.05 }
+  ]
+};
+
+/**
+ * The words a text slot takes from an outline page
+ */
+export const TEMPLATE_CONTENT = {
+  title: (page) => stripEmoji(page.title || ''),
+  subtitle: (page) => stripEmoji(page.subtitle || ''),
+  points: (page) => keyPoints(page).map((point) => `• ${point}`).join('\n'),
+  steps: (page) => keyPoints(page).map((point, i) => `${i + 1}. ${point}`).join('\n'),
+  statements: (page) => keyPoints(page).join('\n\n'),
+  // Comparisons split the key points: the first half on the left, the rest on the right
+  left: (page) => keyPoints(page).slice(0, Math.ceil(keyPoints(page).length / 2)).map((point) => `• ${point}`).join('\n'),
+  right: (page) => keyPoints(page).slice(Math.ceil(keyPoints(page).length / 2)).map((point) => `• ${point}`).join('\n'),
+  hashtags: (page) => (page.hashtags || []).map(stripEmoji).filter(Boolean).join(' ')
+};
+
+const keyPoints = (page) => (page.keyPoints || []).map(stripEmoji).filter(Boolean);
+
+// Smallest size text is shrunk to when it overflows its slot, in points
+const MIN_TEXT_SIZE = 6;
+
+// Templates draw in a panel 825 units wide (the classic mini-zine at 300 DPI), scaled to the real size
+const VIEW_WIDTH = 825;
+
+// Paper textures (see STYLE_TEXTURES in styles.mjs), in view units, drawn in the palette's colours
+const TEXTURE_PATTERNS = {
+  dots: (palette) => `<pattern id="texture" patternUnits="userSpaceOnUse" width="20" height="20">
+    <circle cx="10" cy="10" r="2" fill="${palette.foreground}" opacity="0.3"/></pattern>`,
+  paper: () => `<pattern id="texture" patternUnits="userSpaceOnUse" width="100" height="100">
+    <rect x="0" y="0" width="50" height="50" fill="#ebe0d0" opacity="0.5"/></pattern>`,
+  halftone: (palette) => `<pattern id="texture" patternUnits="userSpaceOnUse" width="8" height="8">
+    <circle cx="4" cy="4" r="1.5" fill="${palette.foreground}" opacity="0.2"/></pattern>`,
+  grid: () => `<pattern id="texture" patternUnits="userSpaceOnUse" width="40" height="40">
+    <path d="M 40 0 L 0 0 0 40" fill="none" stroke="#ddd" stroke-width="1"/></pattern>`
+};
+
+/**
+ * Template of an outline page: its own if it names a known one, otherwise
+ * one that suits its type (cover, cta, or concept for content pages)
+ *
+ * @param {Object} page - Page outline
+ * @returns {string} - Key of TEMPLATE_LAYOUTS
+ */
+export function getPageTemplate(page) {
+  if (Object.hasOwn(TEMPLATE_LAYOUTS, page?.template ?? '')) {
+    return page.template;
+  }
+  return page?.type === 'cover' || page?.type === 'cta' ? page.type : 'concept';
+}
+
+/**
+ * Give each outline page the template its structure has for it, and that
+ * template's page type, whatever the outline named (LLMs drift)
+ *
+ * @param {Object[]} outline - Page outlines, in order
+ * @param {string|string[]} structure - Key of ZINE_STRUCTURES, or a list of templates (see getStructureTemplates)
+ * @returns {Object[]}
+ */
+export function assignPageTemplates(outline, structure) {
+  const templates = getStructureTemplates(structure, outline.length);
+  return outline.map((page, i) => ({
+    ...page,
+    template: templates[i],
+    type: PAGE_TEMPLATES[templates[i]].type
+  }));
+}
+
+/**
+ * Set an outline page's words in its template's text slots, in the style's
+ * colours and fonts. Text too long for a slot is shrunk until it fits.
+ *
+ * @param {Object} page - Page outline
+ * @param {Object} [options]
+ * @param {string} [options.template] - Key of TEMPLATE_LAYOUTS (default: the page's, see getPageTemplate)
+ * @param {string} [options.style='punk-zine'] - Zine style
+ * @param {{ width: number, height: number }} [options.panel] - Panel size in inches (default: the classic mini-zine's 2.75 x 4.25)
+ * @returns {{ blocks: Object[] }} - Text layer (see text.mjs)
+ */
+export function createTemplateTextLayer(page, { template, style = 'punk-zine', panel = { width: 2.75, height: 4.25 } } = {}) {
+  const slots = getTemplateSlots(template || getPageTemplate(page));
+  const { palette, fonts } = resolveStyle(style);
+  const round = (value) => Math.round(value * 1000) / 1000;
+  const blocks = [];
+
+  for (const slot of slots.filter(({ kind }) => kind === 'text')) {
+    const text = TEMPLATE_CONTENT[slot.content](page);
+    if (!text) {
+      continue;
+    }
+    const align = slot.align || TEXT_ROLE_DEFAULTS[slot.role].align;
+    const block = {
+      role: slot.role,
+      text,
+      font: slot.role === 'title' ? fonts.title : fonts.body,
+      size: slot.size || TEXT_ROLE_DEFAULTS[slot.role].size,
+      weight: slot.weight || TEXT_ROLE_DEFAULTS[slot.role].weight,
+      color: slot.role === 'caption' ? palette.accent : palette.foreground,
+      align,
+      x: round(slot.x + { left: 0, center: slot.width / 2, right: slot.width }[align]),
+      y: slot.y,
+      width: slot.width
+    };
+    let { height } = measureTextBlock(block, panel);
+    while (height > slot.height && block.size > MIN_TEXT_SIZE) {
+      block.size -= 1;
+      ({ height } = measureTextBlock(block, panel));
+    }
+    // Titles and captions sit in the middle of their slot, body text at the top
+    if (slot.role !== 'body') {
+      block.y = round(slot.y + Math.max(0, (slot.height - height) / 2));
+    }
+    blocks.push(block);
+  }
+
+  return normalizeTextLayer({ blocks });
+}
+
+/**
+ * Draw a template's page without its text: the style's paper, pattern and
+ * border, rules, and a framed box for each image slot (crossed out where no
+ * artwork goes in)
+ *
+ * @param {string} template - Key of TEMPLATE_LAYOUTS
+ * @param {Object} options
+ * @param {number} options.width - Panel width in pixels
+ * @param {number} options.height - Panel height in pixels
+ * @param {string} [options.style='punk-zine'] - Zine style
+ * @param {boolean[]} [options.filled=[]] - Which image slots, in order, get artwork
+ * @returns {Buffer} - SVG
+ */
+export function createTemplateSvg(template, { width, height, style = 'punk-zine', filled = [] }) {
+  const slots = getTemplateSlots(template);
+  const { palette, texture } = resolveStyle(style);
+  const pattern = TEXTURE_PATTERNS[texture]?.(palette);
+  const viewHeight = VIEW_WIDTH * height / width;
+  const box = ({ x, y, width: w, height: h }) =>
+    `x="${(x * VIEW_WIDTH).toFixed(1)}" y="${(y * viewHeight).toFixed(1)}" width="${(w * VIEW_WIDTH).toFixed(1)}" height="${(h * viewHeight).toFixed(1)}"`;
+
+  const elements = [
+    `<rect width="100%" height="100%" fill="${palette.background}"/>`,
+    pattern ? '<rect width="100%" height="100%" fill="url(#texture)"/>' : '',
+    `<rect x="20" y="20" width="${VIEW_WIDTH - 40}" height="${(viewHeight - 40).toFixed(1)}" fill="none" stroke="${palette.foreground}" stroke-width="4"/>`,
+    `<rect x="30" y="30" width="${VIEW_WIDTH - 60}" height="${(viewHeight - 60).toFixed(1)}" fill="none" stroke="${palette.foreground}" stroke-width="1.5"/>`
+  ];
+
+  let image = 0;
+  for (const slot of slots) {
+    if (slot.kind === 'rule') {
+      elements.push(`<line x1="${(slot.x * VIEW_WIDTH).toFixed(1)}" y1="${(slot.y * viewHeight).toFixed(1)}" x2="${((slot.x + slot.width) * VIEW_WIDTH).toFixed(1)}" y2="${((slot.y + slot.height) * viewHeight).toFixed(1)}" stroke="${palette.foreground}" stroke-width="3"/>`);
+    } else if (slot.kind === 'image') {
+      if (!filled[image]) {
+        const [x1, y1, x2, y2] = [slot.x * VIEW_WIDTH, slot.y * viewHeight, (slot.x + slot.width) * VIEW_WIDTH, (slot.y + slot.height) * viewHeight].map((n) => n.toFixed(1));
+        elements.push(
+          `<rect ${box(slot)} fill="${palette.accent}" fill-opacity="0.12"/>`,
+          `<path d="M ${x1} ${y1} L ${x2} ${y2} M ${x2} ${y1} L ${x1} ${y2}" stroke="${palette.accent}" stroke-opacity="0.5" stroke-width="2"/>`
+        );
+      }
+      elements.push(`<rect ${box(slot)} fill="none" stroke="${palette.foreground}" stroke-width="4"/>`);
+      image++;
+    }
+  }
+
+  return Buffer.from(`<svg width="${width}" height="${height}" viewBox="0 0 ${VIEW_WIDTH} ${viewHeight.toFixed(1)}" xmlns="http://www.w3.org/2000/svg"><defs>${pattern || ''}</defs>${elements.join('')}</svg>`);
+}
+
+/**
+ * Render an outline page from its template
+ *
+ * @param {Object} page - Page outline (title, subtitle, keyPoints, hashtags, template)
+ * @param {Object} options
+ * @param {number} options.width - Panel width in pixels
+ * @param {number} options.height - Panel height in pixels
+ * @param {number} [options.dpi=300] - Resolution, for the text sizes
+ * @param {string} [options.template] - Key of TEMPLATE_LAYOUTS (default: the page's, see getPageTemplate)
+ * @param {string} [options.style='punk-zine'] - Zine style
+ * @param {Array<string|Buffer>} [options.images=[]] - Artwork for the image slots, in order (cropped to fill)
+ * @param {boolean} [options.withText=true] - Typeset the outline's words (false: leave them to a text layer)
+ * @returns {Promise<Buffer>} - PNG
+ */
+export async function renderTemplatePage(page, { width, height, dpi = 300, template, style = 'punk-zine', images = [], withText = true }) {
+  const name = template || getPageTemplate(page);
+  const imageSlots = getTemplateSlots(name).filter(({ kind }) => kind === 'image');
+  const composites = [{ input: createTemplateSvg(name, { width, height, style, filled: imageSlots.map((_, i) => Boolean(images[i])) }) }];
+
+  // Artwork sits inside the slot's frame
+  const inset = Math.ceil(4 * width / VIEW_WIDTH);
+  for (const [i, slot] of imageSlots.entries()) {
+    if (images[i]) {
+      const left = Math.round(slot.x * width) + inset;
+      const top = Math.round(slot.y * height) + inset;
+      const input = await sharp(images[i])
+        .resize(Math.round(slot.width * width) - inset * 2, Math.round(slot.height * height) - inset * 2, { fit: 'cover' })
+        .toBuffer();
+      composites.push({ input, left, top });
+    }
+  }
+
+  const { palette } = resolveStyle(style);
+  const art = await sharp({ create: { width, height, channels: 3, background: palette.background } })
+    .composite(composites)
+    .png()
+    .toBuffer();
+  if (!withText) {
+    return art;
+  }
+  const layer = createTemplateTextLayer(page, { template: name, style, panel: { width: width / dpi, height: height / dpi } });
+  return applyTextLayer(art, { width, height, dpi, layer });
+}
+
+/**
+ * @param {string} template
+ * @returns {Object[]}
+ */
+function getTemplateSlots(template) {
+  if (!Object.hasOwn(TEMPLATE_LAYOUTS, template)) {
+    throw new Error(`Unknown page template: ${template}. Use one of: ${Object.keys(PAGE_TEMPLATES).join(', ')}`);
+  }
+  return TEMPLATE_LAYOUTS[template];
+}
+
+export default renderTemplatePage;
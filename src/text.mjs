@@ -0,0 +1,359 @@
+/**
+ * MycroZine Text Layers
+ *
+ * Image models garble lettering, so a page's words - its title, body copy
+ * and captions - live in a text layer that MycroZine typesets itself and
+ * composites over the artwork at layout time. Zines store one layer per page
+ * (zine.json textLayers), and every layout applies it after the page
+ * transform, so the text stays put when the artwork is cropped or zoomed.
+ *
+ * Positions and widths are fractions of the panel and sizes are in points,
+ * so a layer prints the same on any paper size or resolution. Fonts come
+ * from the bundled library (see fonts.mjs), so they render the same on any
+ * host.
+ */
+
+import sharp from 'sharp';
+import { getFont, getFontFamily, registerFonts, FONTS } from './fonts.mjs';
+import { resolveStyle } from './styles.mjs';
+import { escapeXml } from './marks.mjs';
+
+registerFonts();
+
+/**
+ * What a text block is for; picks its default size, weight and alignment
+ */
+export const TEXT_ROLES = ['title', 'body', 'caption'];
+
+/**
+ * Horizontal alignment of a block around its x position
+ */
+export const TEXT_ALIGNMENTS = ['left', 'center', 'right'];
+
+/**
+ * Default look of each role
+ */
+export const TEXT_ROLE_DEFAULTS = Object.freeze({
+  title: Object.freeze({ font: 'typewriter', size: 22, weight: 'bold', align: 'center', width: 0.88 }),
+  body: Object.freeze({ font: 'typewriter', size: 11, weight: 'normal', align: 'left', width: 0.84 }),
+  caption: Object.freeze({ font: 'typewriter', size: 8, weight: 'normal', align: 'center', width: 0.84 })
+});
+
+// Average glyph advance of fonts outside the library, as a fraction of the font size
+const DEFAULT_GLYPH_WIDTH = 0.55;
+
+// Padding around a block's background box, as a fraction of its font size
+const BACKGROUND_PADDING = 0.35;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Font-family lists only: names, spaces, quotes, commas and hyphens
+const FONT_FAMILY = /^[\w\s,'"-]+$/;
+
+/**
+ * Validate a text block and fill in its role's defaults
+ *
+ * @param {Object} block
+ * @param {string} block.text - The words, exactly as printed; newlines break lines
+ * @param {string} [block.role='body'] - title, body or caption (see TEXT_ROLES)
+ * @param {string} [block.font] - A library font (see FONTS in fonts.mjs) or a CSS font-family list
+ * @param {number} [block.size] - Font size in points (4 to 144)
+ * @param {string} [block.weight] - normal or bold
+ * @param {string} [block.color='#000000'] - #rrggbb
+ * @param {string} [block.background] - #rrggbb box behind the text, for legibility over artwork
+ * @param {number} block.x - Anchor from the panel's left edge (0 to 1): left edge, centre or right edge by align
+ * @param {number} block.y - Top of the block from the panel's top edge (0 to 1)
+ * @param {number} [block.width] - Wrapping width as a fraction of the panel width
+ * @param {string} [block.align] - left, center or right
+ * @param {number} [block.lineHeight=1.2] - Line spacing as a multiple of the size
+ * @returns {Object}
+ */
+export function normalizeTextBlock(block) {
+  if (!block || typeof block !== 'object' || Array.isArray(block)) {
+    throw new Error('A text block must be an object');
+  }
+
+  const role = block.role ?? 'body';
+  if (!TEXT_ROLES.includes(role)) {
+    throw new Error(`Invalid text role: ${role}. Use one of: ${TEXT_ROLES.join(', ')}`);
+  }
+  const result = { color: '#000000', lineHeight: 1.2, ...TEXT_ROLE_DEFAULTS[role], ...block, role };
+
+  if (typeof result.text !== 'string') {
+    throw new Error('A text block needs its text');
+  }
+  if (typeof result.font !== 'string' || !(getFont(result.font) || FONT_FAMILY.test(result.font))) {
+    throw new Error(`Invalid font: ${result.font}. Use ${Object.keys(FONTS).join(', ')} or a font-family list`);
+  }
+  if (!['normal', 'bold'].includes(result.weight)) {
+    throw new Error(`Invalid font weight: ${result.weight}. Use normal or bold`);
+  }
+  if (!TEXT_ALIGNMENTS.includes(result.align)) {
+    throw new Error(`Invalid alignment: ${result.align}. Use one of: ${TEXT_ALIGNMENTS.join(', ')}`);
+  }
+  for (const key of ['color', 'background']) {
+    if (result[key] !== undefined && !(typeof result[key] === 'string' && HEX_COLOR.test(result[key]))) {
+      throw new Error(`Invalid ${key}: ${result[key]}. Use a #rrggbb colour`);
+    }
+  }
+  const limits = { size: [4, 144], x: [0, 1], y: [0, 1], width: [0.05, 1], lineHeight: [0.8, 3] };
+  for (const [key, [min, max]] of Object.entries(limits)) {
+    if (!(Number.isFinite(result[key]) && result[key] >= min && result[key] <= max)) {
+      throw new Error(`Invalid ${key}: ${result[key]}. Must be a number from ${min} to ${max}`);
+    }
+  }
+
+  const normalized = {
+    role,
+    text: result.text,
+    font: result.font,
+    size: result.size,
+    weight: result.weight,
+    color: result.color,
+    x: result.x,
+    y: result.y,
+    width: result.width,
+    align: result.align,
+    lineHeight: result.lineHeight
+  };
+  if (result.background !== undefined) {
+    normalized.background = result.background;
+  }
+  return normalized;
+}
+
+/**
+ * Validate a page's text layer
+ *
+ * @param {Object} [layer]
+ * @param {Object[]} layer.blocks - Text blocks, drawn in order (see normalizeTextBlock)
+ * @returns {{ blocks: Object[] }}
+ */
+export function normalizeTextLayer(layer) {
+  if (layer == null) {
+    return { blocks: [] };
+  }
+  if (typeof layer !== 'object' || !Array.isArray(layer.blocks)) {
+    throw new Error('A text layer must be an object with a blocks list');
+  }
+  return { blocks: layer.blocks.map(normalizeTextBlock) };
+}
+
+/**
+ * Check whether a text layer prints anything
+ * @param {Object} [layer]
+ * @returns {boolean}
+ */
+export function isEmptyTextLayer(layer) {
+  return !layer?.blocks?.some((block) => block.text.trim());
+}
+
+/**
+ * Remove emoji, which rarely exist in print fonts and would come out as empty boxes
+ * @param {string} text
+ * @returns {string}
+ */
+export const stripEmoji = (text) => text
+  .replace(/[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{1F3FB}-\u{1F3FF}\u{FE0F}\u{200D}]/gu, '')
+  .replace(/\s{2,}/g, ' ')
+  .trim();
+
+/**
+ * Build the default text layer for a page from its outline: the title and
+ * subtitle at the top, the key points as a bulleted list at the bottom and
+ * the hashtags as a caption under them, in the style's colours and fonts
+ * on label boxes so they read over any artwork
+ *
+ * @param {Object} outline - Page outline (title, subtitle, keyPoints, hashtags)
+ * @param {Object} [options]
+ * @param {string} [options.style='punk-zine'] - Zine style whose palette and fonts the text takes
+ * @param {{ width: number, height: number }} [options.panel] - Panel size in inches, to stack the blocks (default: the classic mini-zine's 2.75 x 4.25)
+ * @returns {{ blocks: Object[] }}
+ */
+export function createTextLayer(outline, { style = 'punk-zine', panel = { width: 2.75, height: 4.25 } } = {}) {
+  const { palette, fonts } = resolveStyle(style);
+  const label = { color: palette.foreground, background: palette.background };
+  const heightOf = (block) => measureTextBlock({ ...block, y: 0 }, panel).height;
+  const round = (value) => Math.round(value * 1000) / 1000;
+  const margin = 0.05;
+  const top = [];
+  const bottom = [];
+
+  const title = stripEmoji(outline.title || '');
+  if (title) {
+    top.push({ role: 'title', text: title, font: fonts.title, x: 0.5, ...label });
+  }
+  const subtitle = stripEmoji(outline.subtitle || '');
+  if (subtitle) {
+    top.push({ role: 'body', text: subtitle, font: fonts.body, size: 13, align: 'center', x: 0.5, ...label });
+  }
+  const keyPoints = (outline.keyPoints || []).map(stripEmoji).filter(Boolean);
+  if (keyPoints.length > 0) {
+    bottom.push({ role: 'body', text: keyPoints.map((point) => `• ${point}`).join('\n'), font: fonts.body, x: 0.08, ...label });
+  }
+  const hashtags = (outline.hashtags || []).map(stripEmoji).filter(Boolean);
+  if (hashtags.length > 0) {
+    bottom.push({ role: 'caption', text: hashtags.join(' '), font: fonts.body, x: 0.5, color: palette.accent, background: palette.background });
+  }
+
+  // Stack the top blocks down from the top edge and the bottom blocks up from the bottom edge
+  let y = margin;
+  for (const block of top) {
+    block.y = round(Math.min(y, 1));
+    y += heightOf(block);
+  }
+  y = 1 - margin;
+  for (const block of [...bottom].reverse()) {
+    y -= heightOf(block);
+    block.y = round(Math.max(y, 0));
+  }
+
+  return normalizeTextLayer({ blocks: [...top, ...bottom] });
+}
+
+/**
+ * Size of a text block on a panel, including its background padding
+ *
+ * @param {Object} block - Text block (see normalizeTextBlock)
+ * @param {{ width: number, height: number }} panel - Panel size in inches
+ * @returns {{ width: number, height: number, lines: number }} - Fractions of the panel, and the number of lines
+ */
+export function measureTextBlock(block, panel) {
+  const { lines, lineHeight, fontSize, glyphWidth } = layoutBlock(normalizeTextBlock(block), { width: panel.width, dpi: 1 });
+  const padding = fontSize * BACKGROUND_PADDING * 2;
+  return {
+    width: (Math.max(...lines.map((line) => line.length)) * glyphWidth + padding) / panel.width,
+    height: (lines.length * lineHeight + padding) / panel.height,
+    lines: lines.length
+  };
+}
+
+/**
+ * Break text into lines that fit a width, estimated from the average glyph
+ * width; words longer than a line are split
+ *
+ * @param {string} text
+ * @param {number} maxChars - Characters per line
+ * @returns {string[]}
+ */
+function wrapText(text, maxChars) {
+  const lines = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      while (word.length > maxChars) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+      }
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Size a block's font and break it into lines for a panel width
+ *
+ * @param {Object} block - Normalized text block
+ * @param {Object} options
+ * @param {number} options.width - Panel width in pixels
+ * @param {number} options.dpi - Resolution
+ * @returns {{ lines: string[], fontSize: number, glyphWidth: number, lineHeight: number }} - Sizes in pixels
+ */
+function layoutBlock(block, { width, dpi }) {
+  const fontSize = block.size / 72 * dpi;
+  const glyphWidth = fontSize * (getFont(block.font)?.glyphWidth || DEFAULT_GLYPH_WIDTH) * (block.weight === 'bold' ? 1.05 : 1);
+  return {
+    lines: wrapText(block.text, Math.max(1, Math.floor(block.width * width / glyphWidth))),
+    fontSize,
+    glyphWidth,
+    lineHeight: fontSize * block.lineHeight
+  };
+}
+
+/**
+ * Typeset a text layer as an SVG the size of a panel
+ *
+ * @param {Object} layer - Text layer (see normalizeTextLayer)
+ * @param {Object} options
+ * @param {number} options.width - Panel width in pixels
+ * @param {number} options.height - Panel height in pixels
+ * @param {number} [options.dpi=300] - Resolution, to convert point sizes to pixels
+ * @returns {Buffer|null} - SVG, or null if the layer prints nothing
+ */
+export function createTextSvg(layer, { width, height, dpi = 300 }) {
+  const { blocks } = normalizeTextLayer(layer);
+  const elements = [];
+
+  for (const block of blocks) {
+    if (!block.text.trim()) {
+      continue;
+    }
+    const { lines, fontSize, glyphWidth, lineHeight } = layoutBlock(block, { width, dpi });
+
+    const x = block.x * width;
+    const top = block.y * height;
+    const anchor = { left: 'start', center: 'middle', right: 'end' }[block.align];
+    const family = escapeXml(getFontFamily(block.font));
+    // Fonts that mix families (ransom-note) take each letter from the next one
+    const mixed = getFont(block.font)?.families.length > 1;
+    const setLine = (line, lineIndex) => (mixed
+      ? [...line].map((char, i) => (/\s/.test(char)
+        ? char
+        : `<tspan font-family="${escapeXml(getFontFamily(block.font, i + lineIndex * 2))}">${escapeXml(char)}</tspan>`)).join('')
+      : escapeXml(line));
+
+    if (block.background) {
+      const padding = fontSize * BACKGROUND_PADDING;
+      const boxWidth = Math.max(...lines.map((line) => line.length)) * glyphWidth + padding * 2;
+      const boxLeft = { left: x - padding, center: x - boxWidth / 2, right: x - boxWidth + padding }[block.align];
+      const boxHeight = lines.length * lineHeight + padding * 2;
+      elements.push(`<rect x="${boxLeft.toFixed(1)}" y="${(top - padding).toFixed(1)}" width="${boxWidth.toFixed(1)}" height="${boxHeight.toFixed(1)}" fill="${block.background}"/>`);
+    }
+
+    // Baselines sit about an ascent below each line's top
+    const tspans = lines.map((line, i) =>
+      `<tspan x="${x.toFixed(1)}" y="${(top + i * lineHeight + fontSize * 0.85).toFixed(1)}">${setLine(line, i)}</tspan>`
+    ).join('');
+    elements.push(`<text font-family="${family}" font-size="${fontSize.toFixed(1)}" font-weight="${block.weight}" fill="${block.color}" text-anchor="${anchor}" xml:space="preserve">${tspans}</text>`);
+  }
+
+  if (elements.length === 0) {
+    return null;
+  }
+  return Buffer.from(`<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">${elements.join('')}</svg>`);
+}
+
+/**
+ * Composite a text layer over a panel-sized page image
+ *
+ * @param {Buffer} image - Panel image (e.g. from applyPageTransform)
+ * @param {Object} options
+ * @param {number} options.width - Panel width in pixels
+ * @param {number} options.height - Panel height in pixels
+ * @param {number} [options.dpi=300] - Resolution of the layout
+ * @param {Object} [options.layer] - Text layer; the image is returned unchanged without one
+ * @returns {Promise<Buffer>} - PNG
+ */
+export async function applyTextLayer(image, { width, height, dpi = 300, layer }) {
+  const svg = layer ? createTextSvg(layer, { width, height, dpi }) : null;
+  if (!svg) {
+    return image;
+  }
+  return sharp(image)
+    .composite([{ input: svg, left: 0, top: 0 }])
+    .png()
+    .toBuffer();
+}
+
+export default applyTextLayer;
@@ -0,0 +1,146 @@
+/**
+ * MycroZine Page Transforms
+ *
+ * How a page image sits in its panel: fitted whole (contain) or filling the
+ * panel (cover), then zoomed, panned and rotated. Zines store one transform
+ * per page (zine.json pageTransforms), and every layout applies it, so the
+ * print layout, the reader PDF and the web app's crop editor agree.
+ *
+ * Offsets are fractions of the panel size and scale multiplies the fitted
+ * size, so a transform still holds when the zine is imposed with another
+ * scheme or paper size.
+ */
+
+import sharp from 'sharp';
+
+/**
+ * How the image is fitted before scale, offset and rotation apply
+ */
+export const TRANSFORM_FITS = ['contain', 'cover'];
+
+/**
+ * The identity transform: the whole image, centred, padded with the background
+ */
+export const DEFAULT_TRANSFORM = Object.freeze({
+  fit: 'contain',
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0
+});
+
+/**
+ * Allowed range of each numeric transform field
+ */
+export const TRANSFORM_LIMITS = Object.freeze({
+  scale: [0.1, 10],
+  offsetX: [-1, 1],
+  offsetY: [-1, 1],
+  rotation: [-360, 360]
+});
+
+/**
+ * Validate a page transform and fill in defaults
+ *
+ * @param {Object} [transform]
+ * @param {string} [transform.fit='contain'] - contain or cover
+ * @param {number} [transform.scale=1] - Zoom on top of the fit (0.1 to 10)
+ * @param {number} [transform.offsetX=0] - Horizontal shift, as a fraction of the panel width (-1 to 1)
+ * @param {number} [transform.offsetY=0] - Vertical shift, as a fraction of the panel height (-1 to 1)
+ * @param {number} [transform.rotation=0] - Clockwise rotation in degrees (-360 to 360)
+ * @returns {{ fit: string, scale: number, offsetX: number, offsetY: number, rotation: number }}
+ */
+export function normalizeTransform(transform) {
+  if (transform == null) {
+    return { ...DEFAULT_TRANSFORM };
+  }
+  if (typeof transform !== 'object' || Array.isArray(transform)) {
+    throw new Error('A page transform must be an object');
+  }
+
+  const result = { ...DEFAULT_TRANSFORM, ...transform };
+  if (!TRANSFORM_FITS.includes(result.fit)) {
+    throw new Error(`Invalid fit: ${result.fit}. Use ${TRANSFORM_FITS.join(' or ')}`);
+  }
+  for (const [key, [min, max]] of Object.entries(TRANSFORM_LIMITS)) {
+    if (!(Number.isFinite(result[key]) && result[key] >= min && result[key] <= max)) {
+      throw new Error(`Invalid ${key}: ${result[key]}. Must be a number from ${min} to ${max}`);
+    }
+  }
+
+  return {
+    fit: result.fit,
+    scale: result.scale,
+    offsetX: result.offsetX,
+    offsetY: result.offsetY,
+    rotation: result.rotation
+  };
+}
+
+/**
+ * Check whether a transform leaves a panel-sized image unchanged
+ * @param {Object} [transform]
+ * @returns {boolean}
+ */
+export function isDefaultTransform(transform) {
+  const { fit, scale, offsetX, offsetY, rotation } = normalizeTransform(transform);
+  return fit === DEFAULT_TRANSFORM.fit && scale === 1 && offsetX === 0 && offsetY === 0 && rotation % 360 === 0;
+}
+
+/**
+ * Render a page image into its panel
+ *
+ * The image is rotated first and its rotated bounding box fitted to the
+ * panel, then scaled around the panel centre and shifted by the offsets.
+ * Whatever falls outside the panel is cropped; uncovered areas get the
+ * background.
+ *
+ * @param {string|Buffer} input - Page image
+ * @param {Object} options
+ * @param {number} options.width - Panel width in pixels
+ * @param {number} options.height - Panel height in pixels
+ * @param {Object} [options.transform] - Page transform (default: DEFAULT_TRANSFORM)
+ * @param {string} [options.background='#ffffff'] - Background color
+ * @returns {Promise<Buffer>} - PNG, width x height
+ */
+export async function applyPageTransform(input, { width, height, transform, background = '#ffffff' }) {
+  const { fit, scale, offsetX, offsetY, rotation } = normalizeTransform(transform);
+
+  let image = input;
+  if (rotation % 360 !== 0) {
+    image = await sharp(input).rotate(rotation, { background }).png().toBuffer();
+  }
+  const { width: imageWidth, height: imageHeight } = await sharp(image).metadata();
+
+  const fitScale = (fit === 'cover' ? Math.max : Math.min)(width / imageWidth, height / imageHeight) * scale;
+  const scaledWidth = Math.max(1, Math.round(imageWidth * fitScale));
+  const scaledHeight = Math.max(1, Math.round(imageHeight * fitScale));
+  const left = Math.round((width - scaledWidth) / 2 + offsetX * width);
+  const top = Math.round((height - scaledHeight) / 2 + offsetY * height);
+
+  // The part of the scaled image inside the panel
+  const cropLeft = Math.max(0, -left);
+  const cropTop = Math.max(0, -top);
+  const cropWidth = Math.min(scaledWidth, width - left) - cropLeft;
+  const cropHeight = Math.min(scaledHeight, height - top) - cropTop;
+
+  const panel = sharp({
+    create: { width, height, channels: 4, background }
+  });
+  if (cropWidth <= 0 || cropHeight <= 0) {
+    return panel.flatten({ background }).png().toBuffer();
+  }
+
+  const visible = await sharp(image)
+    .resize(scaledWidth, scaledHeight, { fit: 'fill' })
+    .extract({ left: cropLeft, top: cropTop, width: cropWidth, height: cropHeight })
+    .toBuffer();
+
+  return panel
+    .composite([{ input: visible, left: Math.max(0, left), top: Math.max(0, top) }])
+    .flatten({ background })
+    .png()
+    .toBuffer();
+}
+
+export default applyPageTransform;
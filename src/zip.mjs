@@ -0,0 +1,207 @@
+/**
+ * MycroZine ZIP Archives
+ *
+ * Minimal, dependency-free ZIP writer and reader for bundling files into a
+ * single download: the files of a print job (separation layers, one image per
+ * printed side) and .zine bundles (see bundle.mjs).
+ *
+ * Entries are Deflate-compressed unless that doesn't make them smaller. The
+ * reader handles stored and Deflate entries, which is what this writer and
+ * common zip tools produce; ZIP64 and encrypted archives aren't supported.
+ */
+
+import zlib from 'zlib';
+
+// CRC-32 (IEEE) lookup table, as used by the ZIP format
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * Compute the CRC-32 of a buffer (also used for PNG chunks)
+ * @param {Buffer} data
+ * @returns {number}
+ */
+export function crc32(data) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode a date as MS-DOS time and date fields
+ * @param {Date} date
+ * @returns {{ time: number, date: number }}
+ */
+function dosDateTime(date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Create a ZIP archive
+ *
+ * @param {Object[]} entries - Files to include
+ * @param {string} entries[].name - Path inside the archive (forward slashes)
+ * @param {Buffer|string} entries[].data - File contents
+ * @param {Date} [entries[].modified] - Modification time (default: now)
+ * @returns {Buffer} - ZIP file contents
+ */
+export function createZip(entries) {
+  const localParts = [];
+  const centralParts = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name.replace(/\\/g, '/'), 'utf8');
+    const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data);
+    const deflated = zlib.deflateRawSync(data);
+    const stored = deflated.length >= data.length;
+    const body = stored ? data : deflated;
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(entry.modified || new Date());
+
+    // Version 2.0, UTF-8 names (bit 11), store (0) or deflate (8)
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0800, 6);
+    header.writeUInt16LE(stored ? 0 : 8, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(body.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(header, name, body);
+    centralParts.push(central, name);
+    offset += header.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Read a ZIP archive
+ *
+ * Entries are located through the central directory and checked against
+ * their CRC-32. Directory entries are skipped.
+ *
+ * @param {Buffer} zip - ZIP file contents
+ * @returns {{ name: string, data: Buffer, modified: Date }[]} - Files, in archive order
+ */
+export function readZip(zip) {
+  if (!Buffer.isBuffer(zip)) {
+    zip = Buffer.from(zip);
+  }
+
+  // The end of central directory record is the last 22 bytes, plus a comment of up to 64 KB
+  let end = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries = [];
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const time = zip.readUInt16LE(offset + 12);
+    const date = zip.readUInt16LE(offset + 14);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString(flags & 0x0800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (flags & 0x0001) {
+      throw new Error(`${name}: encrypted ZIP entries are not supported`);
+    }
+    if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new Error(`${name}: corrupt ZIP entry`);
+    }
+
+    // The local header's name and extra field can differ in length from the central directory's
+    const start = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const body = zip.subarray(start, start + compressedSize);
+    if (body.length !== compressedSize) {
+      throw new Error(`${name}: truncated ZIP entry`);
+    }
+
+    let data;
+    if (method === 0) {
+      data = Buffer.from(body);
+    } else if (method === 8) {
+      // Cap the output at the declared size, so a malicious archive can't inflate without bound
+      data = zlib.inflateRawSync(body, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`${name}: unsupported ZIP compression method ${method}`);
+    }
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new Error(`${name}: ZIP entry failed its CRC check`);
+    }
+
+    entries.push({
+      name,
+      data,
+      modified: new Date(1980 + (date >> 9), ((date >> 5) & 0x0f) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2)
+    });
+  }
+
+  return entries;
+}
+
+export default createZip;
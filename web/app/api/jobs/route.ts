@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine, getZinePageCount, getPageImagePath } from "@/lib/storage";
+import { parseProviderChain } from "@/lib/providers";
+import { enqueueZinePages, getJob, listZineJobs, cancelJob } from "@/lib/jobs";
+
+// POST /api/jobs - Queue a zine's pages for generation in the background
+// Body: { zineId, pages?: number[], provider? }
+//   pages defaults to every page without an image; provider overrides the zine's provider chain.
+// Pages run a few at a time (JOB_CONCURRENCY), failed ones are retried with backoff, and the
+// queue carries on after a server restart. Poll GET /api/jobs?id= for progress.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { zineId, pages, provider } = body;
+
+    if (!zineId) {
+      return NextResponse.json(
+        { error: "Missing required field: zineId" },
+        { status: 400 }
+      );
+    }
+
+    // Verify zine exists
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    const pageCount = getZinePageCount(zine);
+    // Whether a page has an image is up to pages/ (the CLI doesn't always list them in zine.json)
+    const withoutImage: number[] = [];
+    for (let pageNumber = 1; pageNumber <= pageCount && !pages; pageNumber++) {
+      if (!(await getPageImagePath(zineId, pageNumber))) {
+        withoutImage.push(pageNumber);
+      }
+    }
+    const pageNumbers: number[] = pages ?? withoutImage;
+    if (
+      !Array.isArray(pageNumbers) ||
+      pageNumbers.some((pageNumber) => !Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount)
+    ) {
+      return NextResponse.json(
+        { error: `Pages must be page numbers between 1 and ${pageCount}` },
+        { status: 400 }
+      );
+    }
+    if (pageNumbers.length === 0) {
+      return NextResponse.json(
+        { error: "Every page already has an image" },
+        { status: 400 }
+      );
+    }
+
+    const missing = pageNumbers.filter((pageNumber) => !zine.outline?.[pageNumber - 1]);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `No outline for page ${missing.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (provider) {
+      try {
+        parseProviderChain(provider);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Invalid image provider" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // One job per zine at a time, so two don't draw the same pages
+    const { job, queued } = await enqueueZinePages(
+      zineId,
+      Array.from(new Set(pageNumbers)).sort((a, b) => a - b),
+      provider
+    );
+    if (!queued) {
+      return NextResponse.json(
+        { error: "The zine already has pages being generated", job },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error("Job creation error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to queue pages" },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/jobs?id=<jobId> - A job's progress: its status and each page's status, attempts and error
+// GET /api/jobs?zineId=<zineId> - A zine's jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+    const zineId = request.nextUrl.searchParams.get("zineId");
+
+    if (id) {
+      const job = await getJob(id);
+      if (!job) {
+        return NextResponse.json(
+          { error: "Job not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ job });
+    }
+
+    if (zineId) {
+      return NextResponse.json({ jobs: await listZineJobs(zineId) });
+    }
+
+    return NextResponse.json(
+      { error: "Missing query parameter: id or zineId" },
+      { status: 400 }
+    );
+  } catch (error) {
+    console.error("Job lookup error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get job" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/jobs?id=<jobId> - Cancel a job's queued pages (pages already running finish)
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "Missing query parameter: id" },
+        { status: 400 }
+      );
+    }
+
+    const job = await cancelJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ job, success: true });
+  } catch (error) {
+    console.error("Job cancel error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel job" },
+      { status: 500 }
+    );
+  }
+}
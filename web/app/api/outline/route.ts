@@ -1,12 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
 import { generateOutline } from "@/lib/gemini";
-import { saveZine, type StoredZine } from "@/lib/storage";
+import { saveZine, DEFAULT_PAGE_COUNT, type StoredZine } from "@/lib/storage";
 import { generateZineId } from "@/lib/utils";
+import { parseProviderChain } from "@/lib/providers";
+import { emitZineEvent } from "@/lib/events";
+import {
+  isValidPaperFormat,
+  isSupportedPageCount,
+  getDefaultScheme,
+  resolveZinePaper,
+  getDefaultZineStructure,
+  validateZineStructure,
+  listZineStyles,
+  getZineStyle,
+  getZineTone,
+  createZineSeed,
+  type ZineStructure,
+} from "@/lib/zine";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { topic, style = "punk-zine", tone = "rebellious" } = body;
+    const {
+      topic,
+      style = (await listZineStyles()).defaultStyle,
+      tone = "rebellious",
+      imageProvider,
+      paperFormat = "letter",
+      dpi,
+      pageCount = DEFAULT_PAGE_COUNT,
+      structure: requestedStructure,
+    } = body;
 
     if (!topic || typeof topic !== "string" || topic.trim().length === 0) {
       return NextResponse.json(
@@ -15,16 +39,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate the 8-page outline using Gemini
-    const pages = await generateOutline(topic.trim(), style, tone);
+    // Built-in or user-defined (see /api/styles)
+    if (!(await getZineStyle(style))) {
+      return NextResponse.json(
+        { error: `Unknown style: ${style}` },
+        { status: 400 }
+      );
+    }
 
-    if (!pages || pages.length !== 8) {
+    if (!(await getZineTone(tone))) {
+      return NextResponse.json(
+        { error: `Unknown tone: ${tone}` },
+        { status: 400 }
+      );
+    }
+
+    if (imageProvider) {
+      try {
+        parseProviderChain(imageProvider);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Invalid image provider" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!(await isValidPaperFormat(paperFormat))) {
+      return NextResponse.json(
+        { error: `Invalid paper format: ${paperFormat}` },
+        { status: 400 }
+      );
+    }
+
+    if (dpi !== undefined && !(typeof dpi === "number" && dpi > 0)) {
+      return NextResponse.json(
+        { error: `Invalid DPI: ${dpi}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isSupportedPageCount(pageCount))) {
+      return NextResponse.json(
+        { error: `Unsupported page count: ${pageCount}. Use 4, 8, 12, 16 or 24.` },
+        { status: 400 }
+      );
+    }
+
+    // Each page follows a template of the picked structure (educational, manifesto, howto
+    // or a list of page templates), or the tone's when none is picked
+    let structure: ZineStructure;
+    try {
+      structure = requestedStructure
+        ? await validateZineStructure(requestedStructure, pageCount)
+        : await getDefaultZineStructure(tone);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid structure" },
+        { status: 400 }
+      );
+    }
+
+    // Generate the outline using Gemini
+    const pages = await generateOutline(topic.trim(), style, tone, pageCount, structure);
+
+    if (!pages || pages.length !== pageCount) {
       return NextResponse.json(
         { error: "Failed to generate complete outline" },
         { status: 500 }
       );
     }
 
+    // Page images are sized for the scheme the zine will print with
+    const scheme = await getDefaultScheme(pageCount);
+    const paper = await resolveZinePaper({ paperFormat, dpi, scheme: scheme.name });
+
     // Create a new zine ID
     const id = generateZineId();
     const now = new Date().toISOString();
@@ -35,19 +124,33 @@ export async function POST(request: NextRequest) {
       topic: topic.trim(),
       style,
       tone,
+      pageCount,
+      structure,
       outline: pages,
       pages: [], // Will be populated as images are generated
+      textOverlay: true, // Titles and text are typeset over the art, not drawn by the image model
+      ...(imageProvider ? { imageProvider } : {}),
+      paperFormat,
+      ...(dpi ? { dpi } : {}),
+      printScheme: scheme.name,
+      seed: await createZineSeed(), // Every page is drawn with it, for providers that take a seed
       createdAt: now,
       updatedAt: now,
     };
 
     await saveZine(zine);
+    emitZineEvent(id, "outline-ready", { pageCount, structure });
 
     return NextResponse.json({
       id,
       topic: topic.trim(),
       style,
       tone,
+      paperFormat,
+      pageCount,
+      structure,
+      printScheme: scheme.name,
+      panel: { width: paper.panelWidth, height: paper.panelHeight }, // Page image size, for the crop editor
       outline: pages,
     });
   } catch (error) {
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine, getZinePageCount, clearPageDrafts, updateZine, type StoredZine } from "@/lib/storage";
+import { pickZinePageDraft } from "@/lib/pages";
+
+// Zine and page number from the query string or body, or the error response to send
+async function findZinePage(
+  zineId: unknown,
+  pageNumber: unknown
+): Promise<{ zine: StoredZine; pageNumber: number } | NextResponse> {
+  if (!zineId || !pageNumber) {
+    return NextResponse.json(
+      { error: "Missing required fields: zineId, pageNumber" },
+      { status: 400 }
+    );
+  }
+
+  // Verify zine exists
+  const zine = await getZine(String(zineId));
+  if (!zine) {
+    return NextResponse.json(
+      { error: "Zine not found" },
+      { status: 404 }
+    );
+  }
+
+  const pageCount = getZinePageCount(zine);
+  const page = Number(pageNumber);
+  if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+    return NextResponse.json(
+      { error: `Page number must be between 1 and ${pageCount}` },
+      { status: 400 }
+    );
+  }
+  return { zine, pageNumber: page };
+}
+
+// GET /api/page-drafts?zineId=<id>&pageNumber=3 - A page's candidate images waiting to be picked
+//   (from POST /api/generate-page with candidates), with their provider and a preview URL
+export async function GET(request: NextRequest) {
+  try {
+    const found = await findZinePage(
+      request.nextUrl.searchParams.get("zineId"),
+      request.nextUrl.searchParams.get("pageNumber")
+    );
+    if (found instanceof NextResponse) {
+      return found;
+    }
+    const { zine, pageNumber } = found;
+
+    return NextResponse.json({
+      pageNumber,
+      drafts: (zine.pageDrafts?.[pageNumber - 1] ?? []).map((draft) => ({
+        draft: draft.draft,
+        outline: draft.outline ?? null,
+        feedback: draft.feedback ?? null,
+        provider: draft.provider ?? null,
+        fallback: draft.fallback ?? false,
+        createdAt: draft.createdAt,
+        imageUrl: `/api/zine/${zine.id}?image=p${pageNumber}&draft=${draft.draft}&t=${Date.parse(draft.createdAt)}`,
+      })),
+    });
+  } catch (error) {
+    console.error("Page drafts error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list page drafts" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/page-drafts - Pick a draft: it becomes the page (its next version) and the other drafts are dropped
+// Body: { zineId, pageNumber, draft }
+//   The page takes the draft's outline, and for zines with a text overlay, text set from it when the outline changed.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const found = await findZinePage(body.zineId, body.pageNumber);
+    if (found instanceof NextResponse) {
+      return found;
+    }
+    const { zine, pageNumber } = found;
+
+    if (!body.draft) {
+      return NextResponse.json(
+        { error: "Missing required field: draft" },
+        { status: 400 }
+      );
+    }
+    const draftNumber = Number(body.draft);
+    if (!Number.isInteger(draftNumber) || draftNumber < 1) {
+      return NextResponse.json(
+        { error: "Draft must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const picked = await pickZinePageDraft(zine.id, pageNumber, draftNumber);
+    if (!picked) {
+      return NextResponse.json(
+        { error: `Page ${pageNumber} has no draft ${draftNumber}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      pageNumber,
+      draft: picked.draft.draft,
+      version: picked.zine.pageHistory?.[pageNumber - 1]?.current ?? null,
+      imageUrl: `/api/zine/${zine.id}?image=p${pageNumber}`,
+      outline: picked.zine.outline?.[pageNumber - 1] ?? null,
+      textLayer: picked.zine.textLayers?.[pageNumber - 1] ?? null,
+      provider: picked.draft.provider ?? null,
+      success: true,
+    });
+  } catch (error) {
+    console.error("Page draft pick error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to pick page draft" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/page-drafts?zineId=<id>&pageNumber=3 - Discard a page's drafts without picking one
+export async function DELETE(request: NextRequest) {
+  try {
+    const found = await findZinePage(
+      request.nextUrl.searchParams.get("zineId"),
+      request.nextUrl.searchParams.get("pageNumber")
+    );
+    if (found instanceof NextResponse) {
+      return found;
+    }
+    const { zine, pageNumber } = found;
+
+    await updateZine(zine.id, (stored) => clearPageDrafts(stored, pageNumber));
+    return NextResponse.json({ pageNumber, success: true });
+  } catch (error) {
+    console.error("Page draft discard error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to discard page drafts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine, updateZine, getZinePageCount, setPageTextLayer } from "@/lib/storage";
+import {
+  normalizePageTextLayer,
+  createPageTextLayer,
+  renderPageTextSvg,
+  type TextLayer,
+} from "@/lib/zine";
+
+// POST /api/page-text - Set the text printed over a page's art (typeset by the app, so spelling is exact)
+// Body: { zineId, pageNumber, layer: { blocks: [...] } }
+//   Each block: { role, text, font, size, weight, color, background, x, y, width, align, lineHeight }
+//   (see src/text.mjs); role is title, body or caption and picks the defaults for omitted fields.
+//   x, y and width are fractions of the panel; size is in points.
+//   layer: null removes the page's text.
+// Body: { zineId, pageNumber, fromOutline: true } - Rebuild the text from the page's outline
+// Add preview: true to get the layer back as SVG without saving it.
+// Applies to the print layout, reader PDF and separations from the next render on.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { zineId, pageNumber, layer, fromOutline, preview } = body;
+
+    if (!zineId || !pageNumber || (layer === undefined && !fromOutline)) {
+      return NextResponse.json(
+        { error: "Missing required fields: zineId, pageNumber, layer (or fromOutline)" },
+        { status: 400 }
+      );
+    }
+
+    // Verify zine exists
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    const pageCount = getZinePageCount(zine);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      return NextResponse.json(
+        { error: `Page number must be between 1 and ${pageCount}` },
+        { status: 400 }
+      );
+    }
+
+    const paperOptions = { paperFormat: zine.paperFormat, dpi: zine.dpi, scheme: zine.printScheme };
+    let normalized: TextLayer | null;
+    if (fromOutline) {
+      const pageOutline = zine.outline?.[pageNumber - 1];
+      if (!pageOutline) {
+        return NextResponse.json(
+          { error: "Zine has no outline for this page" },
+          { status: 400 }
+        );
+      }
+      normalized = await normalizePageTextLayer(await createPageTextLayer(pageOutline, paperOptions, zine.style));
+    } else {
+      try {
+        normalized = await normalizePageTextLayer(layer);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Invalid text layer" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (preview) {
+      const svg = normalized ? await renderPageTextSvg(normalized, paperOptions) : null;
+      return new NextResponse(svg ? new Uint8Array(svg) : null, {
+        status: svg ? 200 : 204,
+        headers: { "Content-Type": "image/svg+xml", "Cache-Control": "no-cache" },
+      });
+    }
+
+    const updated = await updateZine(zineId, (stored) => setPageTextLayer(stored, pageNumber, normalized));
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      pageNumber,
+      layer: normalized,
+      textUrl: normalized ? `/api/zine/${zineId}?text=p${pageNumber}` : null,
+      success: true,
+    });
+  } catch (error) {
+    console.error("Page text error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save page text" },
+      { status: 500 }
+    );
+  }
+}
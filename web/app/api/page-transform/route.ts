@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine, updateZine, getZinePageCount, setPageTransform } from "@/lib/storage";
+import { normalizePageTransform, type PageTransform } from "@/lib/zine";
+
+// POST /api/page-transform - Set how a page image sits in its panel
+// Body: { zineId, pageNumber, transform: { fit, scale, offsetX, offsetY, rotation } }
+//   fit: "contain" (whole image) or "cover" (fill the panel); scale multiplies the fitted size;
+//   offsets are fractions of the panel size; rotation is in degrees clockwise.
+//   transform: null resets the page to the default (whole image, centred).
+// Applies to the print layout, reader PDF and separations from the next render on.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { zineId, pageNumber, transform } = body;
+
+    if (!zineId || !pageNumber || transform === undefined) {
+      return NextResponse.json(
+        { error: "Missing required fields: zineId, pageNumber, transform" },
+        { status: 400 }
+      );
+    }
+
+    // Verify zine exists
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    const pageCount = getZinePageCount(zine);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      return NextResponse.json(
+        { error: `Page number must be between 1 and ${pageCount}` },
+        { status: 400 }
+      );
+    }
+
+    let normalized: PageTransform | null;
+    try {
+      normalized = await normalizePageTransform(transform);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid transform" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateZine(zineId, (stored) => setPageTransform(stored, pageNumber, normalized));
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      pageNumber,
+      transform: normalized,
+      success: true,
+    });
+  } catch (error) {
+    console.error("Page transform error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save page transform" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine, getZinePageCount, MAX_PAGE_VERSIONS } from "@/lib/storage";
+import { restoreZinePageVersion } from "@/lib/pages";
+
+// GET /api/page-versions?zineId=<id>&pageNumber=3 - A page's versions, oldest first, and which one it shows
+//   Each version has its outline, refinement feedback, provider ("upload" for your own artwork),
+//   creation time and a preview URL. The last MAX_PAGE_VERSIONS (20) versions per page are kept.
+export async function GET(request: NextRequest) {
+  try {
+    const zineId = request.nextUrl.searchParams.get("zineId");
+    const pageNumber = Number(request.nextUrl.searchParams.get("pageNumber"));
+
+    if (!zineId || !pageNumber) {
+      return NextResponse.json(
+        { error: "Missing query parameters: zineId, pageNumber" },
+        { status: 400 }
+      );
+    }
+
+    // Verify zine exists
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    const pageCount = getZinePageCount(zine);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      return NextResponse.json(
+        { error: `Page number must be between 1 and ${pageCount}` },
+        { status: 400 }
+      );
+    }
+
+    const history = zine.pageHistory?.[pageNumber - 1];
+    return NextResponse.json({
+      pageNumber,
+      current: history?.current ?? null,
+      maxVersions: MAX_PAGE_VERSIONS,
+      versions: (history?.versions ?? []).map((version) => ({
+        version: version.version,
+        outline: version.outline ?? null,
+        feedback: version.feedback ?? null,
+        provider: version.provider ?? null,
+        createdAt: version.createdAt,
+        imageUrl: `/api/zine/${zineId}?image=p${pageNumber}&version=${version.version}`,
+      })),
+    });
+  } catch (error) {
+    console.error("Page versions error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list page versions" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/page-versions - Restore an earlier version of a page
+// Body: { zineId, pageNumber, version }
+//   The page shows the version's image again (whole and centred), and gets back the version's
+//   outline and, for zines with a text overlay, text set from that outline. Later versions are kept.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { zineId, pageNumber, version } = body;
+
+    if (!zineId || !pageNumber || !version) {
+      return NextResponse.json(
+        { error: "Missing required fields: zineId, pageNumber, version" },
+        { status: 400 }
+      );
+    }
+
+    // Verify zine exists
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    const pageCount = getZinePageCount(zine);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      return NextResponse.json(
+        { error: `Page number must be between 1 and ${pageCount}` },
+        { status: 400 }
+      );
+    }
+
+    const restored = await restoreZinePageVersion(zineId, pageNumber, version);
+    if (!restored) {
+      return NextResponse.json(
+        { error: `Page ${pageNumber} has no version ${version}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      pageNumber,
+      version: restored.version.version,
+      imageUrl: `/api/zine/${zineId}?image=p${pageNumber}`,
+      outline: restored.zine.outline?.[pageNumber - 1] ?? null,
+      textLayer: restored.zine.textLayers?.[pageNumber - 1] ?? null,
+      success: true,
+    });
+  } catch (error) {
+    console.error("Page restore error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to restore page version" },
+      { status: 500 }
+    );
+  }
+}
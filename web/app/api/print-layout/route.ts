@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getZine, saveZine, getPrintLayoutPath } from "@/lib/storage";
-import { createZinePrintLayout } from "@/lib/zine";
+import { getZine, updateZine, getAllPagePaths, getPrintLayoutPath, getZinePageCount } from "@/lib/storage";
+import {
+  createZinePrintLayout,
+  getImpositionScheme,
+  getDefaultScheme,
+  parseMarks,
+  getExportProfile,
+  getProfileFormats,
+  type ImpositionScheme,
+} from "@/lib/zine";
+import { emitZineEvent } from "@/lib/events";
 
+// POST /api/print-layout - Impose the zine's pages onto printable sheets
+// POST /api/print-layout?marks=all - Add fold/cut guides, crop marks and an assembly legend
+// POST /api/print-layout?marks=fold,cut&margin=0.3&bleed=0 - Pick marks, sheet margin and bleed (inches)
+// POST /api/print-layout?profile=offset-cmyk - Export profile for the print downloads (screen, home-print, offset-cmyk, xerox-1bit)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { zineId, zineName } = body;
+    const { zineId, zineName, scheme: schemeName } = body;
+    const url = new URL(request.url);
+    const marksParam = url.searchParams.get("marks");
+    const marginParam = url.searchParams.get("margin");
+    const bleedParam = url.searchParams.get("bleed");
+    const profileParam = url.searchParams.get("profile");
 
     if (!zineId) {
       return NextResponse.json(
@@ -23,29 +41,105 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check that all 8 pages exist
-    const validPages = zine.pages.filter((p) => p && p.length > 0);
-    if (validPages.length !== 8) {
+    // Imposition scheme: request > last used for this zine > default for its page count
+    const pageCount = getZinePageCount(zine);
+    let scheme: ImpositionScheme;
+    try {
+      scheme = schemeName || zine.printScheme
+        ? await getImpositionScheme(schemeName || zine.printScheme)
+        : await getDefaultScheme(pageCount);
+    } catch (error) {
       return NextResponse.json(
-        { error: `Expected 8 pages, found ${validPages.length}. Please generate all pages first.` },
+        { error: error instanceof Error ? error.message : "Invalid imposition scheme" },
+        { status: 400 }
+      );
+    }
+
+    if (scheme.pageCount !== pageCount) {
+      return NextResponse.json(
+        { error: `Scheme ${scheme.name} imposes ${scheme.pageCount} pages, but this zine has ${pageCount}` },
+        { status: 400 }
+      );
+    }
+
+    let marks: string[];
+    try {
+      marks = await parseMarks(marksParam ?? undefined);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid marks" },
+        { status: 400 }
+      );
+    }
+
+    let profile: string;
+    try {
+      profile = (await getExportProfile(profileParam || zine.printProfile || undefined)).name;
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid export profile" },
+        { status: 400 }
+      );
+    }
+
+    const margin = marginParam !== null ? parseFloat(marginParam) : undefined;
+    const bleed = bleedParam !== null ? parseFloat(bleedParam) : undefined;
+    if ((margin !== undefined && !(margin >= 0)) || (bleed !== undefined && !(bleed >= 0))) {
+      return NextResponse.json(
+        { error: "margin and bleed must be non-negative numbers (inches)" },
+        { status: 400 }
+      );
+    }
+
+    // Check that all pages the scheme needs exist (on disk, so zines made with the CLI work too)
+    const validPages = await getAllPagePaths(zineId, scheme.pageCount);
+    if (validPages.length !== scheme.pageCount) {
+      return NextResponse.json(
+        { error: `Expected ${scheme.pageCount} pages, found ${validPages.length}. Please generate all pages first.` },
         { status: 400 }
       );
     }
 
     // Create the print layout
-    const { filepath, buffer } = await createZinePrintLayout(
+    const { filepath, filepaths } = await createZinePrintLayout(
       zineId,
-      zineName || zine.topic.slice(0, 20).replace(/[^a-zA-Z0-9]/g, "_")
+      zineName || zine.topic.slice(0, 20).replace(/[^a-zA-Z0-9]/g, "_"),
+      { paperFormat: zine.paperFormat, dpi: zine.dpi, scheme: scheme.name },
+      { marks, margin, bleed },
+      zine.pageTransforms,
+      zine.textLayers
     );
 
-    // Update zine metadata
-    zine.printLayout = filepath;
-    zine.updatedAt = new Date().toISOString();
-    await saveZine(zine);
+    // Record the layout on the zine as it is now (pages may have been saved while the layout was built)
+    const updated = await updateZine(zineId, (stored) => {
+      stored.printLayout = filepath;
+      stored.printScheme = scheme.name;
+      stored.printSides = filepaths.length;
+      stored.printMarks = marks;
+      stored.printProfile = profile;
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    const printLayoutUrls = filepaths.map((_, i) => `/api/zine/${zineId}?print=true&side=${i + 1}`);
+    emitZineEvent(zineId, "layout-built", { scheme: scheme.name, sides: filepaths.length, profile, printLayoutUrls });
 
     return NextResponse.json({
       success: true,
       printLayoutUrl: `/api/zine/${zineId}/print`,
+      printLayoutUrls,
+      scheme: scheme.name,
+      duplex: scheme.duplex,
+      marks,
+      profile,
+      formats: await getProfileFormats(profile),
+      printPdfUrl: `/api/zine/${zineId}?print=pdf`,
+      printTiffUrls: filepaths.map((_, i) => `/api/zine/${zineId}?print=tiff&side=${i + 1}`),
+      risoZipUrl: `/api/zine/${zineId}?print=riso`,
       filename: `${zineName || "mycrozine"}_print.png`,
     });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { getZine, saveZine, savePageImage } from "@/lib/storage";
+import { getZine, updateZine, setPageTextLayer } from "@/lib/storage";
+import { createPageTextLayer, describeZineStyle } from "@/lib/zine";
 import type { PageOutline } from "@/lib/gemini";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
@@ -8,7 +9,7 @@ const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { zineId, pageNumber, currentOutline, feedback, style, tone } = body;
+    const { zineId, pageNumber, currentOutline, feedback, style, tone, candidates } = body;
 
     if (!zineId || !pageNumber || !currentOutline || !feedback) {
       return NextResponse.json(
@@ -28,6 +29,7 @@ export async function POST(request: NextRequest) {
 
     // Update outline based on feedback using Gemini
     const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+    const prompts = await describeZineStyle(style, tone);
 
     const prompt = `You are refining a zine page based on user feedback.
 
@@ -40,8 +42,8 @@ Current page outline:
 
 User feedback: "${feedback}"
 
-Style: ${style}
-Tone: ${tone}
+Style: ${style} - ${prompts.style}
+Tone: ${tone} - ${prompts.tone}
 
 Update the page outline to incorporate this feedback. Keep the same page number and type.
 
@@ -67,6 +69,10 @@ Return ONLY valid JSON (no markdown, no code blocks):
     }
 
     const updatedOutline = JSON.parse(jsonStr.trim()) as PageOutline;
+    // The page keeps its place in the zine's structure
+    if (currentOutline.template) {
+      updatedOutline.template = currentOutline.template;
+    }
 
     // Generate new image with updated outline
     // Forward to generate-page endpoint logic
@@ -83,6 +89,8 @@ Return ONLY valid JSON (no markdown, no code blocks):
           outline: updatedOutline,
           style,
           tone,
+          feedback, // Kept with the page's new version
+          candidates, // Several: drafts to pick from, with the updated outline
         }),
       }
     );
@@ -93,15 +101,48 @@ Return ONLY valid JSON (no markdown, no code blocks):
 
     const generateResult = await generateResponse.json();
 
-    // Update the zine outline
-    zine.outline[pageNumber - 1] = updatedOutline;
-    zine.updatedAt = new Date().toISOString();
-    await saveZine(zine);
+    // The outline changes with the draft that's picked (POST /api/page-drafts)
+    if (generateResult.drafts) {
+      return NextResponse.json({
+        pageNumber,
+        updatedOutline,
+        drafts: generateResult.drafts,
+        failed: generateResult.failed,
+        success: true,
+      });
+    }
+
+    // Update the zine outline, on top of what generate-page saved
+    const updatedZine = await updateZine(zineId, async (stored) => {
+      if (stored.outline) {
+        stored.outline[pageNumber - 1] = updatedOutline;
+      }
+      // The feedback may have changed the title or points, so the page's text follows the new outline
+      if (stored.textOverlay) {
+        setPageTextLayer(
+          stored,
+          pageNumber,
+          await createPageTextLayer(
+            updatedOutline,
+            { paperFormat: stored.paperFormat, dpi: stored.dpi, scheme: stored.printScheme },
+            stored.style,
+            generateResult.provider === "local"
+          )
+        );
+      }
+    });
+    if (!updatedZine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({
       pageNumber,
       updatedOutline,
       imageUrl: generateResult.imageUrl,
+      textLayer: updatedZine.textLayers?.[pageNumber - 1] ?? null,
       success: true,
     });
   } catch (error) {
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine, getPageImagePath, updateZine } from "@/lib/storage";
+import { updateStyleBibleFromCover } from "@/lib/pages";
+import { emitZineEvent } from "@/lib/events";
+import { getZineSeed, parseStyleBible } from "@/lib/zine";
+
+// GET /api/style-bible?zineId=<id> - The zine's style bible (null until its cover exists) and image seed
+export async function GET(request: NextRequest) {
+  try {
+    const zineId = request.nextUrl.searchParams.get("zineId");
+    if (!zineId) {
+      return NextResponse.json(
+        { error: "Missing required field: zineId" },
+        { status: 400 }
+      );
+    }
+
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ styleBible: zine.styleBible ?? null, seed: await getZineSeed(zine) });
+  } catch (error) {
+    console.error("Style bible error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get style bible" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/style-bible - Set the zine's style bible, which every page prompt gets
+// Body: { zineId, styleBible: { palette?, characters?, motifs?, notes? } } - the user's own, kept when the cover changes
+//   or { zineId, fromCover: true } - derive it from the cover again, replacing the user's
+export async function POST(request: NextRequest) {
+  try {
+    const { zineId, styleBible, fromCover } = await request.json();
+    if (!zineId || (!fromCover && (typeof styleBible !== "object" || styleBible === null))) {
+      return NextResponse.json(
+        { error: "Missing required fields: zineId, and styleBible or fromCover" },
+        { status: 400 }
+      );
+    }
+
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    if (fromCover) {
+      if (!(await getPageImagePath(zineId, 1))) {
+        return NextResponse.json(
+          { error: "The cover has no image yet" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json({ styleBible: await updateStyleBibleFromCover(zineId, true) });
+    }
+
+    let bible;
+    try {
+      bible = await parseStyleBible({ ...styleBible, source: "user", createdAt: new Date().toISOString() });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid style bible" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateZine(zineId, async (stored) => {
+      stored.styleBible = bible;
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+    emitZineEvent(zineId, "style-bible", { styleBible: bible });
+
+    return NextResponse.json({ styleBible: bible });
+  } catch (error) {
+    console.error("Style bible error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to set style bible" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/style-bible?zineId=<id> - Remove the style bible; the next cover brings a new one
+export async function DELETE(request: NextRequest) {
+  try {
+    const zineId = request.nextUrl.searchParams.get("zineId");
+    if (!zineId) {
+      return NextResponse.json(
+        { error: "Missing required field: zineId" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateZine(zineId, async (stored) => {
+      delete stored.styleBible;
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+    emitZineEvent(zineId, "style-bible", { styleBible: null });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Style bible error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to remove style bible" },
+      { status: 500 }
+    );
+  }
+}
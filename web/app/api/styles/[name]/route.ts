@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readFileAsBuffer } from "@/lib/storage";
+import {
+  getZineStyle,
+  addStyleReference,
+  removeStyleReference,
+  getStyleReferencePath,
+} from "@/lib/zine";
+
+// Reference images are stored at most 1024 pixels on a side; anything past this isn't one image
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// GET /api/styles/[name] - Get a style
+// GET /api/styles/[name]?reference=reference-1.png - Get one of its reference images
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { name } = await context.params;
+    const reference = new URL(request.url).searchParams.get("reference");
+
+    const style = await getZineStyle(name);
+    if (!style) {
+      return NextResponse.json(
+        { error: "Style not found" },
+        { status: 404 }
+      );
+    }
+
+    if (reference) {
+      const referencePath = await getStyleReferencePath(name, reference);
+      if (!referencePath) {
+        return NextResponse.json(
+          { error: "Reference image not found" },
+          { status: 404 }
+        );
+      }
+      return new NextResponse(new Uint8Array(await readFileAsBuffer(referencePath)), {
+        headers: { "Content-Type": "image/png", "Cache-Control": "no-cache" },
+      });
+    }
+
+    return NextResponse.json({ style });
+  } catch (error) {
+    console.error("Style fetch error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to get style" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/styles/[name] - Add a reference image to a user-defined style (at most 8)
+// Multipart form data:
+//   file - PNG, JPEG or WebP, stored as a PNG
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { name } = await context.params;
+    const form = await request.formData();
+    const file = form.get("file");
+
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { error: "Missing required field: file" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024} MB)` },
+        { status: 413 }
+      );
+    }
+
+    if (!(await getZineStyle(name))) {
+      return NextResponse.json(
+        { error: "Style not found" },
+        { status: 404 }
+      );
+    }
+
+    try {
+      return NextResponse.json(await addStyleReference(name, Buffer.from(await file.arrayBuffer())));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read image" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Style reference upload error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to add reference image" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/styles/[name]?reference=reference-1.png - Remove one of a style's reference images
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { name } = await context.params;
+    const reference = new URL(request.url).searchParams.get("reference");
+
+    if (!reference) {
+      return NextResponse.json(
+        { error: "Give the reference image to remove: ?reference=" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getZineStyle(name))) {
+      return NextResponse.json(
+        { error: "Style not found" },
+        { status: 404 }
+      );
+    }
+
+    try {
+      return NextResponse.json({ style: await removeStyleReference(name, reference) });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Cannot remove reference image" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Style reference delete error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to remove reference image" },
+      { status: 500 }
+    );
+  }
+}
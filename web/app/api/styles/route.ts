@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listZineStyles,
+  saveZineStyle,
+  saveZineTone,
+  deleteZineStyle,
+  deleteZineTone,
+} from "@/lib/zine";
+
+// GET /api/styles - List every style and tone (built-in ones first) and the default style
+export async function GET() {
+  try {
+    return NextResponse.json(await listZineStyles());
+  } catch (error) {
+    console.error("Style listing error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list styles" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/styles - Add or replace a user-defined style or tone (stored in data/styles, data/tones)
+// JSON body: { style: { name, prompt, palette: { background, foreground, accent, inks? }, fonts?, texture?, qr?, default? } }
+//         or { tone: { name, prompt, label?, description? } }
+// A style with default: true becomes the house style new zines get. Built-in names can't be replaced.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body?.style === !body?.tone) {
+      return NextResponse.json(
+        { error: "Send either a style or a tone" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      if (body.style) {
+        return NextResponse.json({ style: await saveZineStyle(body.style) });
+      }
+      return NextResponse.json({ tone: await saveZineTone(body.tone) });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid style" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error("Style save error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save style" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/styles?style=house - Delete a user-defined style and its reference images
+// DELETE /api/styles?tone=neighbourly - Delete a user-defined tone
+export async function DELETE(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const style = url.searchParams.get("style");
+    const tone = url.searchParams.get("tone");
+    if (!style === !tone) {
+      return NextResponse.json(
+        { error: "Give either ?style= or ?tone=" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      if (style) {
+        await deleteZineStyle(style);
+      } else {
+        await deleteZineTone(tone!);
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Cannot delete" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ deleted: style || tone });
+  } catch (error) {
+    console.error("Style delete error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete style" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine, getZinePageCount, savePageVersion, setPageTransform, updateZine } from "@/lib/storage";
+import { normalizePageArtwork, type ArtworkFit } from "@/lib/zine";
+import { refreshStyleBible } from "@/lib/pages";
+
+// Scans and exported PDFs get big; anything past this isn't a single page
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// POST /api/upload-page - Replace a page with your own artwork instead of generating it
+// Multipart form data:
+//   zineId, pageNumber
+//   file - PNG, JPEG, WebP, PDF or SVG
+//   fit - "contain" (default: whole artwork, padded with the paper colour) or "cover" (fill the panel, crop)
+//   pdfPage - Page of a multi-page PDF (default 1)
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData();
+    const zineId = form.get("zineId");
+    const pageNumber = Number(form.get("pageNumber"));
+    const file = form.get("file");
+    const fit = (form.get("fit") || "contain") as ArtworkFit;
+    const pdfPage = Number(form.get("pdfPage") || 1);
+
+    if (typeof zineId !== "string" || !zineId || !(file instanceof Blob)) {
+      return NextResponse.json(
+        { error: "Missing required fields: zineId, pageNumber, file" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024} MB)` },
+        { status: 413 }
+      );
+    }
+
+    if (!Number.isInteger(pdfPage) || pdfPage < 1) {
+      return NextResponse.json(
+        { error: "pdfPage must be a page number" },
+        { status: 400 }
+      );
+    }
+
+    // Verify zine exists
+    const zine = await getZine(zineId);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    const pageCount = getZinePageCount(zine);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+      return NextResponse.json(
+        { error: `Page number must be between 1 and ${pageCount}` },
+        { status: 400 }
+      );
+    }
+
+    // Page images are stored at the panel size of the zine's paper format, like generated ones
+    let image: Buffer;
+    try {
+      image = await normalizePageArtwork(
+        Buffer.from(await file.arrayBuffer()),
+        { paperFormat: zine.paperFormat, dpi: zine.dpi, scheme: zine.printScheme },
+        { fit, style: zine.style, page: pdfPage }
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read artwork" },
+        { status: 400 }
+      );
+    }
+
+    // Save the artwork as the page's next version; a new image starts out whole and centred
+    const updated = await updateZine(zineId, async (stored) => {
+      await savePageVersion(stored, pageNumber, image, { provider: "upload" });
+      setPageTransform(stored, pageNumber, null);
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+    // A new cover gets the zine a new style bible
+    await refreshStyleBible(zineId, pageNumber);
+
+    return NextResponse.json({
+      pageNumber,
+      imageUrl: `/api/zine/${zineId}?image=p${pageNumber}`,
+      success: true,
+    });
+  } catch (error) {
+    console.error("Page upload error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to upload page" },
+      { status: 500 }
+    );
+  }
+}
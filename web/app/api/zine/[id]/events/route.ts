@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getZine } from "@/lib/storage";
+import { subscribeZineEvents, type ZineEvent } from "@/lib/events";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Comment line sent this often so proxies keep an idle stream open
+const HEARTBEAT_MS = 15000;
+
+export const dynamic = "force-dynamic";
+
+// GET /api/zine/[id]/events - Stream the zine's build as Server-Sent Events
+//   outline-ready, page-started, page-done, page-failed (with provider and fallback info),
+//   job-updated (job queue progress) and layout-built; each event's data is JSON.
+//   Recent events are replayed on connect; a reconnect (Last-Event-ID, or ?lastEventId=) gets only newer ones.
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify zine exists
+    const zine = await getZine(id);
+    if (!zine) {
+      return NextResponse.json(
+        { error: "Zine not found" },
+        { status: 404 }
+      );
+    }
+
+    // Ids from before a server restart replay everything, as the new process numbers its events from 1 again
+    const lastEventId = request.headers.get("last-event-id") || request.nextUrl.searchParams.get("lastEventId");
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            stop(); // The client has gone
+          }
+        };
+
+        const unsubscribe = subscribeZineEvents(
+          id,
+          (event: ZineEvent) => {
+            send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, zineId: event.zineId, at: event.at })}\n\n`);
+          },
+          lastEventId
+        );
+        const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_MS);
+
+        stop = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+        request.signal.addEventListener("abort", () => {
+          stop();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        send("retry: 3000\n\n");
+      },
+      cancel() {
+        stop();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no", // Don't let nginx buffer the stream
+      },
+    });
+  } catch (error) {
+    console.error("Zine events error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to stream zine events" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,72 +1,333 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getZine, readFileAsBuffer, getPageImagePath, getPrintLayoutPath } from "@/lib/storage";
+import {
+  getZine,
+  getZinePageCount,
+  readFileAsBuffer,
+  getPageImagePath,
+  getPageVersionPath,
+  getPageDraftPath,
+  getPrintLayoutPath,
+  getAllPagePaths,
+  exportZineBundle,
+  type StoredZine,
+} from "@/lib/storage";
+import {
+  createZinePdf,
+  createZineSeparationsZip,
+  exportZinePrintSide,
+  parseInks,
+  renderPageTextSvg,
+  getExportProfile,
+  getProfileFormats,
+  getImpositionScheme,
+  type ExportFormat,
+} from "@/lib/zine";
 import path from "path";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
+// Page images are PNGs, except pages the CLI saved as JPEG or WebP
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+// Why a download can't use an export profile (unknown, or not writable in the format), or null
+async function checkExportProfile(name: string | undefined, format?: ExportFormat): Promise<string | null> {
+  try {
+    const profile = await getExportProfile(name);
+    const formats = await getProfileFormats(profile.name);
+    if (format && !formats.includes(format)) {
+      return `The ${profile.name} profile can't be written as ${format}. Use ${formats.join(" or ")}`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid export profile";
+  }
+}
+
+// Why a zine's pages can't be laid out (some have no image yet), or null
+async function checkZinePages(zine: StoredZine): Promise<string | null> {
+  const scheme = await getImpositionScheme(zine.printScheme);
+  const pagePaths = await getAllPagePaths(zine.id, scheme.pageCount);
+  return pagePaths.length === scheme.pageCount
+    ? null
+    : `Expected ${scheme.pageCount} pages, found ${pagePaths.length}. Please generate all pages first.`;
+}
+
 // GET /api/zine/[id] - Get zine metadata
-// GET /api/zine/[id]?image=p1 - Get page image
+// GET /api/zine/[id]?image=p1 - Get page image (p1 up to the zine's page count, e.g. p16)
+// GET /api/zine/[id]?image=p1&version=2 - Get an earlier version of a page image (see /api/page-versions)
+// GET /api/zine/[id]?image=p1&draft=2 - Get a candidate page image waiting to be picked (see /api/page-drafts)
+// GET /api/zine/[id]?text=p1 - Get a page's text layer as a panel-sized SVG, to lay over the page image
 // GET /api/zine/[id]?print=true - Get print layout
+// GET /api/zine/[id]?print=true&side=2 - Get another printed side of a multi-sheet/duplex layout
+// GET /api/zine/[id]?print=tiff&side=1 - Get a printed side as TIFF (e.g. CMYK for print shops)
+// GET /api/zine/[id]?print=pdf - Get print layout as PDF (11" x 8.5")
+// GET /api/zine/[id]?print=pdf&profile=xerox-1bit - Override the zine's export profile (also for PNG and TIFF)
+// GET /api/zine/[id]?print=pdf&order=reader - Get pages as a reader-order PDF
+// GET /api/zine/[id]?print=riso - Get risograph separations (grayscale layer per ink) as a ZIP
+// GET /api/zine/[id]?print=riso&inks=black,green - Separate into other inks (1-3 names or hex colours)
+// GET /api/zine/[id]?export=zine - Get the whole zine (manifest, pages, print layouts, prompts) as a .zine bundle
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params;
     const url = new URL(request.url);
     const imageParam = url.searchParams.get("image");
     const printParam = url.searchParams.get("print");
+    const textParam = url.searchParams.get("text");
 
     // Serve page image
     if (imageParam) {
-      const pageMatch = imageParam.match(/^p(\d)$/);
+      const pageMatch = imageParam.match(/^p(\d{1,2})$/);
       if (!pageMatch) {
         return NextResponse.json(
-          { error: "Invalid image parameter. Use p1-p8." },
+          { error: "Invalid image parameter. Use p1, p2, ..." },
           { status: 400 }
         );
       }
 
+      const zine = await getZine(id);
+      if (!zine) {
+        return NextResponse.json(
+          { error: "Zine not found" },
+          { status: 404 }
+        );
+      }
+
+      const pageCount = getZinePageCount(zine);
       const pageNumber = parseInt(pageMatch[1], 10);
-      if (pageNumber < 1 || pageNumber > 8) {
+      if (pageNumber < 1 || pageNumber > pageCount) {
         return NextResponse.json(
-          { error: "Page number must be between 1 and 8" },
+          { error: `Page number must be between 1 and ${pageCount}` },
           { status: 400 }
         );
       }
 
-      const imagePath = await getPageImagePath(id, pageNumber);
+      const versionParam = url.searchParams.get("version");
+      const draftParam = url.searchParams.get("draft");
+      const imagePath = versionParam
+        ? await getPageVersionPath(zine, pageNumber, parseInt(versionParam, 10))
+        : draftParam
+          ? await getPageDraftPath(zine, pageNumber, parseInt(draftParam, 10))
+          : await getPageImagePath(id, pageNumber);
       if (!imagePath) {
         return NextResponse.json(
-          { error: "Page image not found" },
+          {
+            error: versionParam
+              ? `Page ${pageNumber} has no version ${versionParam}`
+              : draftParam
+                ? `Page ${pageNumber} has no draft ${draftParam}`
+                : "Page image not found",
+          },
           { status: 404 }
         );
       }
 
+      // Versions and drafts never change; the current image does whenever the page is regenerated or restored
       const imageBuffer = await readFileAsBuffer(imagePath);
       return new NextResponse(new Uint8Array(imageBuffer), {
         headers: {
-          "Content-Type": "image/png",
-          "Cache-Control": "public, max-age=31536000, immutable",
+          "Content-Type": IMAGE_TYPES[path.extname(imagePath).toLowerCase()] ?? "image/png",
+          "Cache-Control": versionParam || draftParam ? "public, max-age=31536000, immutable" : "no-cache",
+        },
+      });
+    }
+
+    // Serve a page's text layer, as the print layout sets it over the art
+    if (textParam) {
+      const pageMatch = textParam.match(/^p(\d{1,2})$/);
+      if (!pageMatch) {
+        return NextResponse.json(
+          { error: "Invalid text parameter. Use p1, p2, ..." },
+          { status: 400 }
+        );
+      }
+
+      const zine = await getZine(id);
+      if (!zine) {
+        return NextResponse.json(
+          { error: "Zine not found" },
+          { status: 404 }
+        );
+      }
+
+      const pageNumber = parseInt(pageMatch[1], 10);
+      const layer = zine.textLayers?.[pageNumber - 1];
+      const svg = layer
+        ? await renderPageTextSvg(layer, { paperFormat: zine.paperFormat, dpi: zine.dpi, scheme: zine.printScheme })
+        : null;
+      if (!svg) {
+        return NextResponse.json(
+          { error: "Page has no text" },
+          { status: 404 }
+        );
+      }
+
+      return new NextResponse(new Uint8Array(svg), {
+        headers: {
+          "Content-Type": "image/svg+xml",
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    // Serve the zine as a .zine bundle, to back it up or import it elsewhere (POST /api/zine/import)
+    if (url.searchParams.get("export") === "zine") {
+      const zine = await getZine(id);
+      if (!zine) {
+        return NextResponse.json(
+          { error: "Zine not found" },
+          { status: 404 }
+        );
+      }
+
+      const bundleBuffer = await exportZineBundle(id);
+      return new NextResponse(new Uint8Array(bundleBuffer), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="${id}.zine"`,
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    // Serve print layout as PDF at true print size
+    if (printParam === "pdf") {
+      const order = url.searchParams.get("order") === "reader" ? "reader" : "print";
+
+      const zine = await getZine(id);
+      if (!zine) {
+        return NextResponse.json(
+          { error: "Zine not found" },
+          { status: 404 }
+        );
+      }
+
+      const profile = order === "print" ? url.searchParams.get("profile") || zine.printProfile : undefined;
+      const invalid = order === "print" ? await checkExportProfile(profile, "pdf") : await checkZinePages(zine);
+      if (invalid) {
+        return NextResponse.json(
+          { error: invalid },
+          { status: 400 }
+        );
+      }
+      const sides = Array.from({ length: zine.printSides || 1 }, (_, i) => i + 1);
+      if (order === "print" && (await Promise.all(sides.map((side) => getPrintLayoutPath(id, side)))).includes(null)) {
+        return NextResponse.json(
+          { error: "Print layout not found. Generate it first." },
+          { status: 404 }
+        );
+      }
+
+      const pdfBuffer = await createZinePdf(
+        id,
+        order,
+        { paperFormat: zine.paperFormat, dpi: zine.dpi, scheme: zine.printScheme },
+        zine.printSides || 1,
+        profile,
+        zine.pageTransforms,
+        zine.textLayers
+      );
+
+      return new NextResponse(new Uint8Array(pdfBuffer), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${id}_${order}.pdf"`,
+          "Cache-Control": "no-cache",
         },
       });
     }
 
-    // Serve print layout
-    if (printParam === "true") {
-      const printPath = await getPrintLayoutPath(id);
-      if (!printPath) {
+    // Serve risograph separations, one grayscale layer per ink, bundled as a ZIP
+    if (printParam === "riso") {
+      const zine = await getZine(id);
+      if (!zine) {
+        return NextResponse.json(
+          { error: "Zine not found" },
+          { status: 404 }
+        );
+      }
+
+      const inks = url.searchParams.get("inks") || undefined;
+      try {
+        await parseInks(inks || true, zine.style);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Invalid inks" },
+          { status: 400 }
+        );
+      }
+
+      // Separations are re-rendered from the pages, not the stored layout
+      const missingPages = await checkZinePages(zine);
+      if (missingPages) {
+        return NextResponse.json(
+          { error: missingPages },
+          { status: 400 }
+        );
+      }
+
+      const zipBuffer = await createZineSeparationsZip(
+        id,
+        { paperFormat: zine.paperFormat, dpi: zine.dpi, scheme: zine.printScheme },
+        { inks, style: zine.style, marks: zine.printMarks, transforms: zine.pageTransforms, textLayers: zine.textLayers }
+      );
+
+      return new NextResponse(new Uint8Array(zipBuffer), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="${id}_riso.zip"`,
+          "Cache-Control": "no-cache",
+        },
+      });
+    }
+
+    // Serve print layout (PNG, or TIFF for print shops), encoded with the zine's export profile
+    if (printParam === "true" || printParam === "tiff") {
+      const side = parseInt(url.searchParams.get("side") || "1", 10);
+      if (!(side >= 1)) {
+        return NextResponse.json(
+          { error: "Invalid side parameter" },
+          { status: 400 }
+        );
+      }
+
+      const zine = await getZine(id);
+      if (!zine) {
+        return NextResponse.json(
+          { error: "Zine not found" },
+          { status: 404 }
+        );
+      }
+
+      const format = printParam === "tiff" ? "tiff" : "png";
+      const profile = url.searchParams.get("profile") || zine.printProfile;
+      // PNG falls back to the stored layout for profiles that can't be written as PNG (a preview)
+      const invalid = await checkExportProfile(profile, format === "tiff" ? "tiff" : undefined);
+      if (invalid) {
+        return NextResponse.json(
+          { error: invalid },
+          { status: 400 }
+        );
+      }
+      if (!(await getPrintLayoutPath(id, side))) {
         return NextResponse.json(
           { error: "Print layout not found. Generate it first." },
           { status: 404 }
         );
       }
 
-      const printBuffer = await readFileAsBuffer(printPath);
+      const printBuffer = await exportZinePrintSide(id, side, format, profile, zine.dpi);
+
       return new NextResponse(new Uint8Array(printBuffer), {
         headers: {
-          "Content-Type": "image/png",
-          "Content-Disposition": `attachment; filename="${id}_print.png"`,
-          "Cache-Control": "public, max-age=31536000, immutable",
+          "Content-Type": format === "tiff" ? "image/tiff" : "image/png",
+          "Content-Disposition": `attachment; filename="${id}_print${side > 1 ? `_${side}` : ""}.${format}"`,
+          "Cache-Control": "no-cache",
         },
       });
     }
@@ -82,10 +343,32 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
     // Build response with image URLs
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "";
+    const pageCount = getZinePageCount(zine);
     const response = {
       ...zine,
-      pageUrls: Array.from({ length: 8 }, (_, i) => `${baseUrl}/api/zine/${id}?image=p${i + 1}`),
+      outline: zine.outline ?? [],
+      pageCount,
+      pageUrls: Array.from({ length: pageCount }, (_, i) => `${baseUrl}/api/zine/${id}?image=p${i + 1}`),
+      textUrls: Array.from({ length: pageCount }, (_, i) =>
+        zine.textLayers?.[i] ? `${baseUrl}/api/zine/${id}?text=p${i + 1}` : null
+      ),
       printLayoutUrl: zine.printLayout ? `${baseUrl}/api/zine/${id}?print=true` : null,
+      printLayoutUrls: zine.printLayout
+        ? Array.from(
+            { length: zine.printSides || 1 },
+            (_, i) => `${baseUrl}/api/zine/${id}?print=true&side=${i + 1}`
+          )
+        : [],
+      printPdfUrl: zine.printLayout ? `${baseUrl}/api/zine/${id}?print=pdf` : null,
+      printTiffUrls: zine.printLayout
+        ? Array.from(
+            { length: zine.printSides || 1 },
+            (_, i) => `${baseUrl}/api/zine/${id}?print=tiff&side=${i + 1}`
+          )
+        : [],
+      risoZipUrl: zine.printLayout ? `${baseUrl}/api/zine/${id}?print=riso` : null,
+      readerPdfUrl: `${baseUrl}/api/zine/${id}?print=pdf&order=reader`,
+      bundleUrl: `${baseUrl}/api/zine/${id}?export=zine`,
       shareUrl: `${baseUrl}/z/${id}`,
     };
 
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  BUNDLE_CONFLICT_MODES,
+  importZineBundle,
+  type BundleConflictMode,
+} from "@/lib/storage";
+
+// POST /api/zine/import - Import a .zine bundle (from GET /api/zine/[id]?export=zine)
+// Body: the bundle itself, or multipart form data with the bundle as "file"
+// ?id=abc123 - Import under this id (default: the bundle's)
+// ?conflict=error|rename|overwrite - When the id is taken: fail with 409 (default),
+//   import under a new id, or replace the existing zine
+export async function POST(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const conflict = url.searchParams.get("conflict") || "error";
+    if (!BUNDLE_CONFLICT_MODES.includes(conflict as BundleConflictMode)) {
+      return NextResponse.json(
+        { error: `Invalid conflict mode. Use one of: ${BUNDLE_CONFLICT_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    let data: Buffer;
+    if (request.headers.get("content-type")?.startsWith("multipart/form-data")) {
+      const file = (await request.formData()).get("file");
+      if (!(file instanceof Blob)) {
+        return NextResponse.json(
+          { error: "Missing file" },
+          { status: 400 }
+        );
+      }
+      data = Buffer.from(await file.arrayBuffer());
+    } else {
+      data = Buffer.from(await request.arrayBuffer());
+    }
+
+    if (data.length === 0) {
+      return NextResponse.json(
+        { error: "Missing bundle" },
+        { status: 400 }
+      );
+    }
+
+    let imported;
+    try {
+      imported = await importZineBundle(data, {
+        id: url.searchParams.get("id") || undefined,
+        conflict: conflict as BundleConflictMode,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to import zine";
+      if (message.includes("already exists")) {
+        return NextResponse.json({ error: message }, { status: 409 });
+      }
+      if (message.startsWith("Invalid")) {
+        return NextResponse.json({ error: message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://zine.jeffemmett.com";
+    return NextResponse.json({
+      success: true,
+      ...imported,
+      shareUrl: `${baseUrl}/z/${imported.id}`,
+    });
+  } catch (error) {
+    console.error("Import zine error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to import zine" },
+      { status: 500 }
+    );
+  }
+}
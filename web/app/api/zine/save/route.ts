@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getZine, saveZine } from "@/lib/storage";
+import { updateZine } from "@/lib/storage";
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,8 +13,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get existing zine
-    const zine = await getZine(zineId);
+    // Update the timestamp to mark it as "saved" (updateZine sets it)
+    const zine = await updateZine(zineId, () => {});
     if (!zine) {
       return NextResponse.json(
         { error: "Zine not found" },
@@ -22,10 +22,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update the timestamp to mark it as "saved"
-    zine.updatedAt = new Date().toISOString();
-    await saveZine(zine);
-
     // Return the shareable URL
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://zine.jeffemmett.com";
     const shareUrl = `${baseUrl}/z/${zineId}`;
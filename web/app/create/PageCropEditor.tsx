@@ -0,0 +1,219 @@
+"use client";
+
+import { useRef, useState, type PointerEvent, type ReactNode } from "react";
+import { Check, RotateCcw, RotateCw, X } from "lucide-react";
+
+// Mirrors PageTransform in lib/zine.ts (src/transform.mjs applies it to the print layout)
+export interface PageTransform {
+  fit: "contain" | "cover";
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  rotation: number;
+}
+
+export const DEFAULT_TRANSFORM: PageTransform = { fit: "contain", scale: 1, offsetX: 0, offsetY: 0, rotation: 0 };
+
+export interface PanelSize {
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Where the image sits in a panel-sized box, as CSS percentages. Same geometry
+ * as applyPageTransform(): the rotated bounding box is fitted to the panel,
+ * scaled around the centre and shifted by the offsets.
+ */
+function imageStyle(natural: PanelSize, panel: PanelSize, transform: PageTransform) {
+  const angle = (transform.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const boundsWidth = natural.width * cos + natural.height * sin;
+  const boundsHeight = natural.width * sin + natural.height * cos;
+  const fitScale =
+    (transform.fit === "cover" ? Math.max : Math.min)(panel.width / boundsWidth, panel.height / boundsHeight) *
+    transform.scale;
+
+  return {
+    left: `${50 + transform.offsetX * 100}%`,
+    top: `${50 + transform.offsetY * 100}%`,
+    width: `${((natural.width * fitScale) / panel.width) * 100}%`,
+    height: `${((natural.height * fitScale) / panel.height) * 100}%`,
+    transform: `translate(-50%, -50%) rotate(${transform.rotation}deg)`,
+  };
+}
+
+interface TransformedPageProps {
+  src: string;
+  alt: string;
+  panel: PanelSize;
+  transform?: PageTransform | null;
+  className?: string;
+  children?: ReactNode;
+  clip?: boolean;
+}
+
+// A page image as it will print: fitted, zoomed, panned and rotated within its panel
+export function TransformedPage({ src, alt, panel, transform, className = "", children, clip = true }: TransformedPageProps) {
+  const [natural, setNatural] = useState<PanelSize | null>(null);
+
+  return (
+    <div
+      className={`relative bg-white ${clip ? "overflow-hidden" : ""} ${className}`}
+      style={{ aspectRatio: `${panel.width} / ${panel.height}` }}
+    >
+      {src && (
+        <img
+          src={src}
+          alt={alt}
+          draggable={false}
+          onLoad={(e) =>
+            setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+          }
+          className="absolute max-w-none select-none"
+          style={
+            natural
+              ? imageStyle(natural, panel, transform || DEFAULT_TRANSFORM)
+              : { visibility: "hidden", width: "100%", height: "100%" }
+          }
+        />
+      )}
+      {children}
+    </div>
+  );
+}
+
+interface PageCropEditorProps {
+  src: string;
+  pageNumber: number;
+  panel: PanelSize;
+  transform: PageTransform;
+  saving?: boolean;
+  onSave: (transform: PageTransform) => void;
+  onCancel: () => void;
+}
+
+// Drag to pan, sliders to zoom and rotate; the dimmed area falls outside the panel and is cropped
+export default function PageCropEditor({ src, pageNumber, panel, transform, saving, onSave, onCancel }: PageCropEditorProps) {
+  const [draft, setDraft] = useState<PageTransform>(transform);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+  const update = (changes: Partial<PageTransform>) => setDraft((t) => ({ ...t, ...changes }));
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY, offsetX: draft.offsetX, offsetY: draft.offsetY };
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const box = panelRef.current?.getBoundingClientRect();
+    if (!drag.current || !box) return;
+    update({
+      offsetX: clamp(drag.current.offsetX + (e.clientX - drag.current.x) / box.width, -1, 1),
+      offsetY: clamp(drag.current.offsetY + (e.clientY - drag.current.y) / box.height, -1, 1),
+    });
+  };
+
+  // Rotation stays within -180..180 so the slider can follow the buttons
+  const rotateBy = (degrees: number) =>
+    update({ rotation: ((((draft.rotation + degrees + 180) % 360) + 360) % 360) - 180 });
+
+  return (
+    <div className="space-y-4">
+      <div
+        className="bg-gray-800 p-8 overflow-hidden cursor-move touch-none"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={() => (drag.current = null)}
+        onPointerCancel={() => (drag.current = null)}
+      >
+        <div ref={panelRef} className="mx-auto max-w-xs">
+          <TransformedPage src={src} alt={`Page ${pageNumber}`} panel={panel} transform={draft} clip={false}>
+            {/* Panel boundary: everything outside it is dimmed here and cropped on the print */}
+            <div
+              className="absolute inset-0 pointer-events-none border-2 border-dashed border-green-400"
+              style={{ boxShadow: "0 0 0 9999px rgba(31, 41, 55, 0.7)" }}
+            />
+          </TransformedPage>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 punk-text text-sm">
+        <label className="flex flex-col gap-1">
+          Fit
+          <select
+            value={draft.fit}
+            onChange={(e) => update({ fit: e.target.value as PageTransform["fit"] })}
+            className="p-2 border-2 border-black bg-white focus:outline-none"
+          >
+            <option value="contain">Whole page (pad with paper)</option>
+            <option value="cover">Fill the panel (crop)</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Zoom {Math.round(draft.scale * 100)}%
+          <input
+            type="range"
+            min={0.25}
+            max={4}
+            step={0.01}
+            value={draft.scale}
+            onChange={(e) => update({ scale: Number(e.target.value) })}
+            className="accent-black"
+          />
+        </label>
+        <label className="flex flex-col gap-1 sm:col-span-2">
+          Rotation {Math.round(draft.rotation)}°
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={() => rotateBy(-90)} className="p-2 punk-border bg-white" title="Rotate left">
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              step={1}
+              value={draft.rotation}
+              onChange={(e) => update({ rotation: Number(e.target.value) })}
+              className="flex-1 accent-black"
+            />
+            <button type="button" onClick={() => rotateBy(90)} className="p-2 punk-border bg-white" title="Rotate right">
+              <RotateCw className="w-4 h-4" />
+            </button>
+          </div>
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => setDraft(DEFAULT_TRANSFORM)}
+          className="px-4 py-2 punk-border bg-white punk-text text-sm hover:bg-gray-100"
+        >
+          Reset
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 punk-border bg-white punk-text text-sm hover:bg-gray-100 flex items-center gap-1"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(draft)}
+          disabled={saving}
+          className="flex-1 px-4 py-2 bg-black text-white punk-text text-sm flex items-center justify-center gap-1
+                    hover:bg-green-500 hover:text-black disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" />
+          Save Crop
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Layers, Trash2 } from "lucide-react";
+
+// One entry of GET /api/page-drafts (PageDraft in lib/storage.ts)
+export interface PageDraftSummary {
+  draft: number;
+  outline: { title: string } | null;
+  feedback: string | null;
+  provider: string | null;
+  fallback: boolean;
+  createdAt: string;
+  imageUrl: string;
+}
+
+interface PageDraftPickerProps {
+  zineId: string;
+  pageNumber: number;
+  refreshKey: number; // Bumped when drafts are generated, picked or discarded, to reload them
+  disabled?: boolean;
+  onPick: (draft: number) => void;
+  onDiscard: () => void;
+}
+
+// A page's candidate images side by side; the one picked becomes the page
+export default function PageDraftPicker({
+  zineId,
+  pageNumber,
+  refreshKey,
+  disabled,
+  onPick,
+  onDiscard,
+}: PageDraftPickerProps) {
+  const [drafts, setDrafts] = useState<PageDraftSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/page-drafts?zineId=${zineId}&pageNumber=${pageNumber}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setDrafts(data.drafts);
+      } catch (err) {
+        console.error("Failed to load page drafts:", err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [zineId, pageNumber, refreshKey]);
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="punk-border bg-white p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm font-bold punk-text">
+          <Layers className="w-4 h-4" />
+          Pick a candidate for page {pageNumber}
+        </label>
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={disabled}
+          className="px-3 py-1 border-2 border-black punk-text text-xs flex items-center gap-1
+                    hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Trash2 className="w-3 h-3" />
+          Discard all
+        </button>
+      </div>
+      {drafts[0].feedback && (
+        <p className="text-xs text-gray-600 punk-text">&ldquo;{drafts[0].feedback}&rdquo;</p>
+      )}
+
+      <div className={`grid gap-3 ${drafts.length > 2 ? "grid-cols-2 md:grid-cols-4" : "grid-cols-2"}`}>
+        {drafts.map((d) => (
+          <div key={d.draft} className="space-y-2">
+            <img src={d.imageUrl} alt={`Candidate ${d.draft}`} className="w-full border-2 border-black" />
+            <p className="text-xs text-gray-600 punk-text">
+              {d.provider || "Generated"}
+              {d.fallback ? " (fallback)" : ""}
+            </p>
+            <button
+              type="button"
+              onClick={() => onPick(d.draft)}
+              disabled={disabled}
+              className="w-full py-1 bg-black text-white punk-text text-sm flex items-center justify-center gap-1
+                        hover:bg-green-500 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-4 h-4" />
+              Use this one
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, RotateCcw, X } from "lucide-react";
+
+// One entry of GET /api/page-versions (PageVersion in lib/storage.ts)
+export interface PageVersionSummary {
+  version: number;
+  outline: { title: string } | null;
+  feedback: string | null;
+  provider: string | null;
+  createdAt: string;
+  imageUrl: string;
+}
+
+interface PageHistoryStripProps {
+  zineId: string;
+  pageNumber: number;
+  src: string; // The page's current image URL; the history reloads when it changes
+  disabled?: boolean;
+  restoring?: boolean;
+  onRestore: (version: number) => void;
+}
+
+// A page's earlier attempts, newest first: preview any of them and bring it back
+export default function PageHistoryStrip({
+  zineId,
+  pageNumber,
+  src,
+  disabled,
+  restoring,
+  onRestore,
+}: PageHistoryStripProps) {
+  const [versions, setVersions] = useState<PageVersionSummary[]>([]);
+  const [current, setCurrent] = useState<number | null>(null);
+  const [previewing, setPreviewing] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreviewing(null);
+    (async () => {
+      try {
+        const response = await fetch(`/api/page-versions?zineId=${zineId}&pageNumber=${pageNumber}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (cancelled) return;
+        setVersions([...data.versions].reverse());
+        setCurrent(data.current);
+      } catch (err) {
+        console.error("Failed to load page history:", err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [zineId, pageNumber, src]);
+
+  // Nothing to go back to yet
+  if (versions.length < 2) return null;
+
+  const preview = versions.find((v) => v.version === previewing);
+
+  return (
+    <div className="punk-border bg-white p-4 space-y-3">
+      <label className="flex items-center gap-2 text-sm font-bold punk-text">
+        <History className="w-4 h-4" />
+        Page history
+      </label>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {versions.map((v) => (
+          <button
+            key={v.version}
+            type="button"
+            onClick={() => setPreviewing(v.version === previewing ? null : v.version)}
+            title={v.feedback || v.outline?.title || `Version ${v.version}`}
+            className={`relative flex-shrink-0 w-14 border-2 ${
+              v.version === previewing ? "border-green-500" : "border-black"
+            } ${v.version === current ? "ring-2 ring-black ring-offset-1" : ""}`}
+          >
+            <img src={v.imageUrl} alt={`Version ${v.version}`} className="w-full" />
+            <span className="absolute bottom-0 inset-x-0 bg-black text-white text-[10px] punk-text">
+              v{v.version}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {preview && (
+        <div className="flex gap-3">
+          <img src={preview.imageUrl} alt={`Version ${preview.version}`} className="w-24 border-2 border-black" />
+          <div className="flex-1 space-y-1 text-xs punk-text">
+            <p className="font-bold">
+              Version {preview.version}
+              {preview.version === current ? " (showing)" : ""}
+            </p>
+            <p className="text-gray-600">
+              {preview.provider === "upload" ? "Your artwork" : preview.provider || "Generated"} •{" "}
+              {new Date(preview.createdAt).toLocaleString()}
+            </p>
+            {preview.feedback && <p className="text-gray-600">&ldquo;{preview.feedback}&rdquo;</p>}
+            <div className="flex gap-2 pt-1">
+              <button
+                type="button"
+                onClick={() => onRestore(preview.version)}
+                disabled={disabled || restoring || preview.version === current}
+                className="px-3 py-1 bg-black text-white flex items-center gap-1
+                          hover:bg-green-500 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => setPreviewing(null)}
+                className="px-3 py-1 border-2 border-black flex items-center gap-1 hover:bg-gray-100"
+              >
+                <X className="w-3 h-3" />
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Plus, RotateCcw, Trash2, X } from "lucide-react";
+import { TransformedPage, type PageTransform, type PanelSize } from "./PageCropEditor";
+
+// Mirrors TextBlock in lib/zine.ts (src/text.mjs typesets it over the page on the print layout)
+export interface TextBlock {
+  role: "title" | "body" | "caption";
+  text: string;
+  font: string;
+  size: number;
+  weight: "normal" | "bold";
+  color: string;
+  background?: string;
+  x: number;
+  y: number;
+  width: number;
+  align: "left" | "center" | "right";
+  lineHeight: number;
+}
+
+export interface TextLayer {
+  blocks: TextBlock[];
+}
+
+// Same defaults as TEXT_ROLE_DEFAULTS in src/text.mjs
+const ROLE_DEFAULTS: Record<TextBlock["role"], Pick<TextBlock, "size" | "weight" | "align" | "width">> = {
+  title: { size: 22, weight: "bold", align: "center", width: 0.88 },
+  body: { size: 11, weight: "normal", align: "left", width: 0.84 },
+  caption: { size: 8, weight: "normal", align: "center", width: 0.84 },
+};
+
+// Fonts bundled with the library (FONTS in src/fonts.mjs)
+const FONT_OPTIONS: [string, string][] = [
+  ["typewriter", "Typewriter"],
+  ["ransom-note", "Ransom note"],
+  ["stencil", "Stencil"],
+  ["serif", "Serif"],
+  ["handwritten", "Handwritten"],
+  ["sans", "Sans-serif"],
+];
+
+const newBlock = (): TextBlock => ({
+  role: "body",
+  text: "",
+  font: "typewriter",
+  color: "#000000",
+  background: "#ffffff",
+  x: 0.08,
+  y: 0.45,
+  lineHeight: 1.2,
+  ...ROLE_DEFAULTS.body,
+});
+
+interface PageTextEditorProps {
+  zineId: string;
+  src: string;
+  pageNumber: number;
+  panel: PanelSize;
+  transform?: PageTransform | null;
+  layer: TextLayer | null;
+  saving?: boolean;
+  onSave: (layer: TextLayer | null) => void;
+  onRebuild: () => void;
+  onCancel: () => void;
+}
+
+// Edit the words printed over a page; the preview is typeset by the server exactly as it will print
+export default function PageTextEditor({
+  zineId,
+  src,
+  pageNumber,
+  panel,
+  transform,
+  layer,
+  saving,
+  onSave,
+  onRebuild,
+  onCancel,
+}: PageTextEditorProps) {
+  const [blocks, setBlocks] = useState<TextBlock[]>(layer?.blocks || []);
+  const [selected, setSelected] = useState(0);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => setBlocks(layer?.blocks || []), [layer]);
+
+  // Re-typeset the preview shortly after the last edit
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/page-text", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ zineId, pageNumber, layer: { blocks }, preview: true }),
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to preview text");
+        }
+        objectUrl = response.status === 204 ? null : URL.createObjectURL(await response.blob());
+        setPreviewUrl(objectUrl);
+        setPreviewError(null);
+      } catch (err) {
+        setPreviewError(err instanceof Error ? err.message : "Failed to preview text");
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [zineId, pageNumber, blocks]);
+
+  const block = blocks[selected];
+  const update = (changes: Partial<TextBlock>) =>
+    setBlocks((bs) => bs.map((b, i) => (i === selected ? { ...b, ...changes } : b)));
+
+  return (
+    <div className="space-y-4">
+      <TransformedPage src={src} alt={`Page ${pageNumber}`} panel={panel} transform={transform} className="punk-border">
+        {previewUrl && (
+          <img src={previewUrl} alt="" className="absolute inset-0 w-full h-full pointer-events-none select-none" />
+        )}
+      </TransformedPage>
+      {previewError && <p className="text-sm text-red-600 punk-text">{previewError}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {blocks.map((b, i) => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => setSelected(i)}
+            className={`px-2 py-1 border-2 border-black punk-text text-xs max-w-[10rem] truncate
+              ${i === selected ? "bg-black text-white" : "bg-white hover:bg-gray-100"}`}
+          >
+            {b.text.trim() || `(${b.role})`}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => {
+            setBlocks((bs) => [...bs, newBlock()]);
+            setSelected(blocks.length);
+          }}
+          className="px-2 py-1 border-2 border-black bg-white punk-text text-xs flex items-center gap-1 hover:bg-gray-100"
+        >
+          <Plus className="w-3 h-3" />
+          Add text
+        </button>
+      </div>
+
+      {block && (
+        <div className="grid grid-cols-2 gap-3 punk-text text-sm">
+          <label className="flex flex-col gap-1 col-span-2">
+            Text
+            <textarea
+              value={block.text}
+              onChange={(e) => update({ text: e.target.value })}
+              className="h-20 p-2 border-2 border-black resize-none text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Role
+            <select
+              value={block.role}
+              onChange={(e) => {
+                const role = e.target.value as TextBlock["role"];
+                update({ role, ...ROLE_DEFAULTS[role] });
+              }}
+              className="p-2 border-2 border-black bg-white focus:outline-none"
+            >
+              <option value="title">Title</option>
+              <option value="body">Body</option>
+              <option value="caption">Caption</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Font
+            <select
+              value={block.font}
+              onChange={(e) => update({ font: e.target.value })}
+              className="p-2 border-2 border-black bg-white focus:outline-none"
+            >
+              {FONT_OPTIONS.map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Size {block.size}pt
+            <input
+              type="range"
+              min={6}
+              max={48}
+              step={1}
+              value={block.size}
+              onChange={(e) => update({ size: Number(e.target.value) })}
+              className="accent-black"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Align
+            <select
+              value={block.align}
+              onChange={(e) => update({ align: e.target.value as TextBlock["align"] })}
+              className="p-2 border-2 border-black bg-white focus:outline-none"
+            >
+              <option value="left">Left</option>
+              <option value="center">Centre</option>
+              <option value="right">Right</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Across {Math.round(block.x * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={block.x}
+              onChange={(e) => update({ x: Number(e.target.value) })}
+              className="accent-black"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Down {Math.round(block.y * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={block.y}
+              onChange={(e) => update({ y: Number(e.target.value) })}
+              className="accent-black"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="color" value={block.color} onChange={(e) => update({ color: e.target.value })} />
+            Text colour
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={block.background !== undefined}
+              onChange={(e) => update({ background: e.target.checked ? "#ffffff" : undefined })}
+              className="w-4 h-4 accent-black"
+            />
+            Label
+            {block.background !== undefined && (
+              <input type="color" value={block.background} onChange={(e) => update({ background: e.target.value })} />
+            )}
+          </label>
+          <button
+            type="button"
+            onClick={() => {
+              setBlocks((bs) => bs.filter((_, i) => i !== selected));
+              setSelected(0);
+            }}
+            className="col-span-2 py-2 punk-border bg-white text-sm flex items-center justify-center gap-1 hover:bg-gray-100"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove this text
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onRebuild}
+          disabled={saving}
+          className="px-4 py-2 punk-border bg-white punk-text text-sm hover:bg-gray-100 flex items-center gap-1 disabled:opacity-50"
+          title="Replace with the outline's title, key points and hashtags"
+        >
+          <RotateCcw className="w-4 h-4" />
+          From outline
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 punk-border bg-white punk-text text-sm hover:bg-gray-100 flex items-center gap-1"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(blocks.length > 0 ? { blocks } : null)}
+          disabled={saving}
+          className="flex-1 px-4 py-2 bg-black text-white punk-text text-sm flex items-center justify-center gap-1
+                    hover:bg-green-500 hover:text-black disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" />
+          Save Text
+        </button>
+      </div>
+    </div>
+  );
+}
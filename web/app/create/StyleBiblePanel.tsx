@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Palette, RefreshCw, Save } from "lucide-react";
+
+// GET /api/style-bible (StyleBible in lib/zine.ts)
+interface StyleBibleSummary {
+  palette: string[];
+  characters: string[];
+  motifs: string[];
+  notes?: string;
+  source: "cover" | "user";
+}
+
+interface StyleBiblePanelProps {
+  zineId: string;
+  coverSrc: string; // The cover's image URL; the bible reloads when it changes
+  disabled?: boolean;
+}
+
+const toLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// What every page keeps from the cover: palette, recurring characters and motifs; editable, or rebuilt from the cover
+export default function StyleBiblePanel({ zineId, coverSrc, disabled }: StyleBiblePanelProps) {
+  const [bible, setBible] = useState<StyleBibleSummary | null>(null);
+  const [characters, setCharacters] = useState("");
+  const [motifs, setMotifs] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const show = (loaded: StyleBibleSummary | null) => {
+    setBible(loaded);
+    setCharacters(loaded?.characters.join("\n") ?? "");
+    setMotifs(loaded?.motifs.join("\n") ?? "");
+    setNotes(loaded?.notes ?? "");
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/style-bible?zineId=${zineId}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) show(data.styleBible);
+      } catch (err) {
+        console.error("Failed to load style bible:", err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [zineId, coverSrc]);
+
+  const save = async (body: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/style-bible", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zineId, ...body }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save style bible");
+      show(data.styleBible);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save style bible");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Nothing to keep to until the cover exists
+  if (!bible) return null;
+
+  return (
+    <div className="punk-border bg-white p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm font-bold punk-text">
+          <Palette className="w-4 h-4" />
+          Style bible
+        </label>
+        <span className="text-xs text-gray-600 punk-text">
+          {bible.source === "user" ? "Yours (kept when the cover changes)" : "From the cover"}
+        </span>
+      </div>
+
+      {bible.palette.length > 0 && (
+        <div className="flex gap-1">
+          {bible.palette.map((color) => (
+            <span key={color} title={color} className="w-6 h-6 border-2 border-black" style={{ background: color }} />
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={characters}
+        onChange={(e) => setCharacters(e.target.value)}
+        placeholder="Recurring characters, one per line"
+        className="w-full h-16 p-2 border-2 border-black resize-none punk-text text-xs"
+        disabled={disabled || saving}
+      />
+      <textarea
+        value={motifs}
+        onChange={(e) => setMotifs(e.target.value)}
+        placeholder="Motifs, one per line"
+        className="w-full h-16 p-2 border-2 border-black resize-none punk-text text-xs"
+        disabled={disabled || saving}
+      />
+      <input
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes, e.g. thick outlines, flat shading"
+        className="w-full p-2 border-2 border-black punk-text text-xs"
+        disabled={disabled || saving}
+      />
+      {error && <p className="text-xs text-red-600 punk-text">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() =>
+            save({
+              styleBible: {
+                palette: bible.palette,
+                characters: toLines(characters),
+                motifs: toLines(motifs),
+                ...(notes.trim() ? { notes: notes.trim() } : {}),
+              },
+            })
+          }
+          disabled={disabled || saving}
+          className="flex-1 py-1 bg-black text-white punk-text text-sm flex items-center justify-center gap-1
+                    hover:bg-green-500 hover:text-black disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-3 h-3" />
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => save({ fromCover: true })}
+          disabled={disabled || saving}
+          className="flex-1 py-1 border-2 border-black punk-text text-sm flex items-center justify-center gap-1
+                    hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className={`w-3 h-3 ${saving ? "animate-spin" : ""}`} />
+          Rebuild from cover
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
 import {
   ArrowLeft,
@@ -15,7 +15,21 @@ import {
   Share2,
   Copy,
   CheckCircle,
+  Upload,
+  Crop,
+  Type,
+  Layers,
 } from "lucide-react";
+import PageCropEditor, {
+  TransformedPage,
+  DEFAULT_TRANSFORM,
+  type PageTransform,
+  type PanelSize,
+} from "./PageCropEditor";
+import PageTextEditor, { type TextLayer } from "./PageTextEditor";
+import PageHistoryStrip from "./PageHistoryStrip";
+import PageDraftPicker from "./PageDraftPicker";
+import StyleBiblePanel from "./StyleBiblePanel";
 
 interface PageOutline {
   pageNumber: number;
@@ -23,6 +37,7 @@ interface PageOutline {
   title: string;
   keyPoints: string[];
   imagePrompt: string;
+  template?: string;
 }
 
 interface ZineState {
@@ -30,11 +45,77 @@ interface ZineState {
   topic: string;
   style: string;
   tone: string;
+  paperFormat: string;
+  pageCount: number;
   outline: PageOutline[];
   pages: string[];
+  pageTransforms: (PageTransform | null)[]; // Fit, zoom, pan and rotation per page (null: default)
+  panel: PanelSize; // Page image size in pixels, for the crop editor
+  textLayers: (TextLayer | null)[]; // Text typeset over each page (null: none)
+  textUrls: string[]; // Text overlay SVG per page, cache-busted on change ("" for none)
   currentStep: "outline" | "generate" | "refine" | "download";
   generatingPage: number | null;
   printLayoutUrl: string | null;
+  printLayoutUrls: string[];
+  printTiffUrls: string[];
+  printFormats: string[];
+}
+
+// Progress of a page generation job (see /api/jobs)
+interface GenerationJob {
+  id: string;
+  status: "queued" | "running" | "done" | "failed" | "cancelled";
+  pages: { pageNumber: number; status: string; attempts: number; error?: string }[];
+}
+
+// How often a job is polled when its event stream has closed
+const JOB_POLL_MS = 2000;
+
+const isJobFinished = (job: GenerationJob) => job.status !== "queued" && job.status !== "running";
+
+// Poll a job (GET /api/jobs?id=) until it finishes, passing on each update; stops once following() is false
+async function pollJob(
+  jobId: string,
+  onUpdate: (job: GenerationJob) => void,
+  following: () => boolean
+): Promise<GenerationJob> {
+  for (;;) {
+    if (!following()) throw new Error("Stopped following page generation");
+    const response = await fetch(`/api/jobs?id=${jobId}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to get page generation progress");
+    onUpdate(data.job);
+    if (isJobFinished(data.job)) return data.job;
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+  }
+}
+
+// Imposition schemes offered per page count (see src/imposition.mjs)
+const PRINT_SCHEMES = [
+  { value: "folded-4", pageCount: 4, label: "Folded sheet", description: "One sheet, print duplex, fold once" },
+  { value: "mini-8", pageCount: 8, label: "Mini-zine", description: "One sheet, fold and cut" },
+  { value: "half-letter-8", pageCount: 8, label: "Half-letter booklet", description: "Two sheets, print duplex, fold and staple" },
+  { value: "booklet-12", pageCount: 12, label: "Booklet", description: "Three sheets, print duplex, fold and staple" },
+  { value: "mini-16", pageCount: 16, label: "Mini-zine", description: "Two sheets, fold and cut, nest together" },
+  { value: "half-letter-16", pageCount: 16, label: "Half-letter booklet", description: "Four sheets, print duplex, fold and staple" },
+  { value: "booklet-24", pageCount: 24, label: "Booklet", description: "Six sheets, print duplex, fold and staple" },
+];
+
+// Export profiles for the print downloads (see src/profiles.mjs)
+const PRINT_PROFILES = [
+  { value: "home-print", label: "Home print", description: "Lossless sRGB for inkjet and laser printers" },
+  { value: "screen", label: "Screen", description: "Small sRGB files for sharing and on-screen reading" },
+  { value: "offset-cmyk", label: "Print shop (CMYK)", description: "CMYK TIFF/PDF with an embedded ICC profile" },
+  { value: "xerox-1bit", label: "Xerox (1-bit)", description: "Pure black and white, dithered, for photocopier runs" },
+];
+
+// Store a page's text layer, with a fresh overlay URL so the preview reloads
+function withTextLayer(s: ZineState, pageNumber: number, layer: TextLayer | null): ZineState {
+  const textLayers = [...s.textLayers];
+  const textUrls = [...s.textUrls];
+  textLayers[pageNumber - 1] = layer;
+  textUrls[pageNumber - 1] = layer ? `/api/zine/${s.id}?text=p${pageNumber}&t=${Date.now()}` : "";
+  return { ...s, textLayers, textUrls };
 }
 
 const STEPS = ["outline", "generate", "refine", "download"] as const;
@@ -54,6 +135,29 @@ export default function CreatePage() {
   const [feedback, setFeedback] = useState("");
   const [isListening, setIsListening] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [printScheme, setPrintScheme] = useState("mini-8");
+  const [printMarks, setPrintMarks] = useState(true);
+  const [printProfile, setPrintProfile] = useState("home-print");
+  const [uploadFit, setUploadFit] = useState<"contain" | "cover">("contain");
+  const [dragOver, setDragOver] = useState(false);
+  const [editingCrop, setEditingCrop] = useState(false);
+  const [savingCrop, setSavingCrop] = useState(false);
+  const [editingText, setEditingText] = useState(false);
+  const [savingText, setSavingText] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState(false);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [draftsKey, setDraftsKey] = useState(0);
+  const [pickingDraft, setPickingDraft] = useState(false);
+  const jobEventsRef = useRef<EventSource | null>(null);
+
+  // Stop following a generation job when leaving the page
+  useEffect(
+    () => () => {
+      jobEventsRef.current?.close();
+      jobEventsRef.current = null;
+    },
+    []
+  );
 
   // Initialize from session storage
   useEffect(() => {
@@ -63,11 +167,18 @@ export default function CreatePage() {
       return;
     }
 
-    const { topic, style, tone } = JSON.parse(input);
-    generateOutline(topic, style, tone);
+    const { topic, style, tone, paperFormat = "letter", pageCount = 8, structure } = JSON.parse(input);
+    generateOutline(topic, style, tone, paperFormat, pageCount, structure);
   }, [router]);
 
-  const generateOutline = async (topic: string, style: string, tone: string) => {
+  const generateOutline = async (
+    topic: string,
+    style: string,
+    tone: string,
+    paperFormat: string,
+    pageCount: number,
+    structure?: string | string[]
+  ) => {
     setLoading(true);
     setError(null);
 
@@ -75,7 +186,7 @@ export default function CreatePage() {
       const response = await fetch("/api/outline", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ topic, style, tone }),
+        body: JSON.stringify({ topic, style, tone, paperFormat, pageCount, structure }),
       });
 
       if (!response.ok) {
@@ -90,12 +201,22 @@ export default function CreatePage() {
         topic,
         style,
         tone,
+        paperFormat,
+        pageCount: data.pageCount,
         outline: data.outline,
-        pages: new Array(8).fill(""),
+        pages: new Array(data.pageCount).fill(""),
+        pageTransforms: [],
+        panel: data.panel,
+        textLayers: [],
+        textUrls: [],
         currentStep: "outline",
         generatingPage: null,
         printLayoutUrl: null,
+        printLayoutUrls: [],
+        printTiffUrls: [],
+        printFormats: [],
       });
+      setPrintScheme(data.printScheme);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Something went wrong");
     } finally {
@@ -103,50 +224,117 @@ export default function CreatePage() {
     }
   };
 
+  // Queue the missing pages as a background job (POST /api/jobs) and follow its progress live
   const generatePages = async () => {
     if (!state) return;
 
+    if (state.pages.every((page) => page)) {
+      setState((s) => (s ? { ...s, currentStep: "refine" } : s));
+      return;
+    }
+
     setState((s) => (s ? { ...s, currentStep: "generate" } : s));
+    setError(null);
 
-    for (let i = 1; i <= 8; i++) {
-      if (state.pages[i - 1]) continue; // Skip already generated pages
-
-      setState((s) => (s ? { ...s, generatingPage: i } : s));
-
-      try {
-        const response = await fetch("/api/generate-page", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            zineId: state.id,
-            pageNumber: i,
-            outline: state.outline[i - 1],
-            style: state.style,
-            tone: state.tone,
-          }),
-        });
+    try {
+      const response = await fetch("/api/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zineId: state.id }),
+      });
+      const data = await response.json();
 
-        if (!response.ok) {
-          const data = await response.json();
-          throw new Error(data.error || `Failed to generate page ${i}`);
-        }
+      // A job already running for the zine (e.g. started before a reload) is followed instead
+      let job: GenerationJob | undefined = data.job;
+      if (!job) {
+        throw new Error(data.error || "Failed to queue pages");
+      }
 
-        const data = await response.json();
+      // Follow the job over the zine's event stream (GET /api/zine/[id]/events), which replays
+      // what already happened, so nothing is missed while it connects
+      const jobId = job.id;
+      const zineId = state.id;
+      const events = new EventSource(`/api/zine/${zineId}/events`);
+      jobEventsRef.current = events;
+      const showProgress = (update: GenerationJob) => {
+        const running = update.pages.filter((page) => page.status === "running").map((page) => page.pageNumber);
+        setState((s) => (s ? { ...s, generatingPage: running.length > 0 ? Math.min(...running) : null } : s));
+      };
+      const polledPages = new Set<number>();
 
-        // Add cache-busting timestamp to force image reload
-        const imageUrlWithTimestamp = `${data.imageUrl}&t=${Date.now()}`;
+      job = await new Promise<GenerationJob>((resolve, reject) => {
+        events.addEventListener("page-done", (event) => {
+          const data = JSON.parse(event.data);
+          if (data.jobId !== jobId) return;
+          setState((s) => {
+            if (!s) return s;
+            const newPages = [...s.pages];
+            // Add cache-busting timestamp to force image reload
+            newPages[data.pageNumber - 1] = `${data.imageUrl}&t=${Date.now()}`;
+            return withTextLayer({ ...s, pages: newPages }, data.pageNumber, data.textLayer);
+          });
+        });
 
-        setState((s) => {
-          if (!s) return s;
-          const newPages = [...s.pages];
-          newPages[i - 1] = imageUrlWithTimestamp;
-          return { ...s, pages: newPages };
+        events.addEventListener("job-updated", (event) => {
+          const update: GenerationJob = JSON.parse(event.data).job;
+          if (update.id !== jobId) return;
+          showProgress(update);
+          if (isJobFinished(update)) {
+            events.close();
+            resolve(update);
+          }
         });
-      } catch (err) {
-        console.error(`Error generating page ${i}:`, err);
-        setError(`Failed to generate page ${i}`);
-        return;
+
+        // The stream gave up for good (it reconnects by itself otherwise): poll the job instead,
+        // showing pages as they finish
+        events.onerror = () => {
+          if (events.readyState !== EventSource.CLOSED) return;
+          pollJob(
+            jobId,
+            (update) => {
+              showProgress(update);
+              const done = update.pages.filter((page) => page.status === "done" && !polledPages.has(page.pageNumber));
+              if (done.length === 0) return;
+              done.forEach((page) => polledPages.add(page.pageNumber));
+              setState((s) => {
+                if (!s) return s;
+                const newPages = [...s.pages];
+                for (const { pageNumber } of done) {
+                  newPages[pageNumber - 1] = `/api/zine/${zineId}?image=p${pageNumber}&t=${Date.now()}`;
+                }
+                return { ...s, pages: newPages };
+              });
+            },
+            () => jobEventsRef.current === events
+          ).then(resolve, reject);
+        };
+      });
+      if (jobEventsRef.current === events) jobEventsRef.current = null;
+
+      // Polled pages come without their text layers; take them from the zine
+      if (polledPages.size > 0) {
+        const zineResponse = await fetch(`/api/zine/${zineId}`);
+        if (zineResponse.ok) {
+          const zine = await zineResponse.json();
+          setState((s) =>
+            s ? [...polledPages].reduce((next, n) => withTextLayer(next, n, zine.textLayers?.[n - 1] ?? null), s) : s
+          );
+        }
+      }
+
+      if (job.status !== "done") {
+        const failed = job.pages.filter((page) => page.status === "failed");
+        throw new Error(
+          failed.length > 0
+            ? failed.map((page) => `Failed to generate page ${page.pageNumber}: ${page.error}`).join("; ")
+            : "Page generation was cancelled"
+        );
       }
+    } catch (err) {
+      console.error("Error generating pages:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate pages");
+      setState((s) => (s ? { ...s, generatingPage: null } : s));
+      return;
     }
 
     setState((s) => (s ? { ...s, generatingPage: null, currentStep: "refine" } : s));
@@ -168,6 +356,7 @@ export default function CreatePage() {
           feedback: feedback.trim(),
           style: state.style,
           tone: state.tone,
+          ...(candidateCount > 1 ? { candidates: candidateCount } : {}),
         }),
       });
 
@@ -178,13 +367,28 @@ export default function CreatePage() {
 
       const data = await response.json();
 
+      // Candidates wait to be picked; the page stays as it is until then
+      if (data.drafts) {
+        setDraftsKey((k) => k + 1);
+        setState((s) => (s ? { ...s, generatingPage: null } : s));
+        setFeedback("");
+        return;
+      }
+
       setState((s) => {
         if (!s) return s;
         const newPages = [...s.pages];
-        newPages[currentPage - 1] = data.imageUrl;
+        // Add cache-busting timestamp to force image reload
+        newPages[currentPage - 1] = `${data.imageUrl}&t=${Date.now()}`;
         const newOutline = [...s.outline];
         newOutline[currentPage - 1] = data.updatedOutline;
-        return { ...s, pages: newPages, outline: newOutline, generatingPage: null };
+        const newTransforms = [...s.pageTransforms];
+        newTransforms[currentPage - 1] = null;
+        return withTextLayer(
+          { ...s, pages: newPages, outline: newOutline, pageTransforms: newTransforms, generatingPage: null },
+          currentPage,
+          data.textLayer
+        );
       });
 
       setFeedback("");
@@ -194,18 +398,219 @@ export default function CreatePage() {
     }
   };
 
+  // Draw several candidates for the current page from its outline, to pick one
+  const generateCandidates = async () => {
+    if (!state || state.generatingPage !== null) return;
+
+    setState((s) => (s ? { ...s, generatingPage: currentPage } : s));
+    try {
+      const response = await fetch("/api/generate-page", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          zineId: state.id,
+          pageNumber: currentPage,
+          outline: state.outline[currentPage - 1],
+          style: state.style,
+          tone: state.tone,
+          candidates: candidateCount,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate candidates");
+      }
+      setDraftsKey((k) => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to generate candidates");
+    } finally {
+      setState((s) => (s ? { ...s, generatingPage: null } : s));
+    }
+  };
+
+  // Use one of the current page's candidates (or with null, throw them all away)
+  const pickDraft = async (draft: number | null) => {
+    if (!state) return;
+
+    setPickingDraft(true);
+    try {
+      const response = await fetch(
+        draft === null ? `/api/page-drafts?zineId=${state.id}&pageNumber=${currentPage}` : "/api/page-drafts",
+        draft === null
+          ? { method: "DELETE" }
+          : {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ zineId: state.id, pageNumber: currentPage, draft }),
+            }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to pick candidate");
+      }
+
+      if (draft !== null) {
+        setState((s) => {
+          if (!s) return s;
+          const newPages = [...s.pages];
+          newPages[currentPage - 1] = `${data.imageUrl}&t=${Date.now()}`;
+          const newOutline = [...s.outline];
+          if (data.outline) newOutline[currentPage - 1] = data.outline;
+          const newTransforms = [...s.pageTransforms];
+          newTransforms[currentPage - 1] = null;
+          return withTextLayer(
+            { ...s, pages: newPages, outline: newOutline, pageTransforms: newTransforms },
+            currentPage,
+            data.textLayer
+          );
+        });
+      }
+      setDraftsKey((k) => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to pick candidate");
+    } finally {
+      setPickingDraft(false);
+    }
+  };
+
+  // Replace the current page with the user's own scan, photo or illustration
+  const uploadPage = async (file: File) => {
+    if (!state || state.generatingPage !== null) return;
+
+    setState((s) => (s ? { ...s, generatingPage: currentPage } : s));
+
+    try {
+      const form = new FormData();
+      form.append("zineId", state.id);
+      form.append("pageNumber", String(currentPage));
+      form.append("file", file);
+      form.append("fit", uploadFit);
+
+      const response = await fetch("/api/upload-page", { method: "POST", body: form });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to upload page");
+      }
+
+      setState((s) => {
+        if (!s) return s;
+        const newPages = [...s.pages];
+        newPages[currentPage - 1] = `${data.imageUrl}&t=${Date.now()}`;
+        const newTransforms = [...s.pageTransforms];
+        newTransforms[currentPage - 1] = null;
+        return { ...s, pages: newPages, pageTransforms: newTransforms, generatingPage: null };
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload page");
+      setState((s) => (s ? { ...s, generatingPage: null } : s));
+    }
+  };
+
+  // Bring back an earlier version of the current page: its image, outline and text
+  const restorePageVersion = async (version: number) => {
+    if (!state) return;
+
+    setRestoringVersion(true);
+    try {
+      const response = await fetch("/api/page-versions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zineId: state.id, pageNumber: currentPage, version }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to restore page");
+      }
+
+      setState((s) => {
+        if (!s) return s;
+        const newPages = [...s.pages];
+        newPages[currentPage - 1] = `${data.imageUrl}&t=${Date.now()}`;
+        const newOutline = [...s.outline];
+        if (data.outline) newOutline[currentPage - 1] = data.outline;
+        const newTransforms = [...s.pageTransforms];
+        newTransforms[currentPage - 1] = null;
+        return withTextLayer(
+          { ...s, pages: newPages, outline: newOutline, pageTransforms: newTransforms },
+          currentPage,
+          data.textLayer
+        );
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore page");
+    } finally {
+      setRestoringVersion(false);
+    }
+  };
+
+  // Store how the current page sits in its panel (applied to the print layout and PDFs)
+  const savePageTransform = async (transform: PageTransform) => {
+    if (!state) return;
+
+    setSavingCrop(true);
+    try {
+      const response = await fetch("/api/page-transform", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zineId: state.id, pageNumber: currentPage, transform }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save crop");
+      }
+
+      setState((s) => {
+        if (!s) return s;
+        const newTransforms = [...s.pageTransforms];
+        newTransforms[currentPage - 1] = data.transform;
+        return { ...s, pageTransforms: newTransforms };
+      });
+      setEditingCrop(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save crop");
+    } finally {
+      setSavingCrop(false);
+    }
+  };
+
+  // Store the text printed over the current page, or rebuild it from the page's outline
+  const savePageText = async (body: { layer: TextLayer | null } | { fromOutline: true }) => {
+    if (!state) return;
+
+    setSavingText(true);
+    try {
+      const response = await fetch("/api/page-text", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ zineId: state.id, pageNumber: currentPage, ...body }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save text");
+      }
+
+      setState((s) => (s ? withTextLayer(s, currentPage, data.layer) : s));
+      if (!("fromOutline" in body)) setEditingText(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save text");
+    } finally {
+      setSavingText(false);
+    }
+  };
+
   const createPrintLayout = async () => {
     if (!state) return;
 
     setLoading(true);
 
     try {
-      const response = await fetch("/api/print-layout", {
+      const response = await fetch(`/api/print-layout?marks=${printMarks ? "all" : "none"}&profile=${printProfile}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           zineId: state.id,
           zineName: state.topic.slice(0, 20).replace(/[^a-zA-Z0-9]/g, "_"),
+          scheme: printScheme,
         }),
       });
 
@@ -217,7 +622,16 @@ export default function CreatePage() {
       const data = await response.json();
 
       setState((s) =>
-        s ? { ...s, printLayoutUrl: data.printLayoutUrl, currentStep: "download" } : s
+        s
+          ? {
+              ...s,
+              printLayoutUrl: data.printLayoutUrls[0],
+              printLayoutUrls: data.printLayoutUrls,
+              printTiffUrls: data.printTiffUrls,
+              printFormats: data.formats,
+              currentStep: "download",
+            }
+          : s
       );
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create print layout");
@@ -366,14 +780,14 @@ export default function CreatePage() {
         {/* Step 1: Outline Review */}
         {state.currentStep === "outline" && (
           <div className="space-y-4">
-            <h2 className="text-xl font-bold punk-text mb-4">Your 8-Page Outline</h2>
+            <h2 className="text-xl font-bold punk-text mb-4">Your {state.pageCount}-Page Outline</h2>
             <div className="grid gap-4">
               {state.outline.map((page, i) => (
                 <div key={i} className="punk-border bg-white p-4">
                   <div className="flex items-start justify-between">
                     <div>
                       <span className="text-xs text-gray-500 punk-text">
-                        Page {page.pageNumber} • {page.type}
+                        Page {page.pageNumber} • {page.template || page.type}
                       </span>
                       <h3 className="font-bold text-lg">{page.title}</h3>
                       <ul className="mt-2 text-sm text-gray-600">
@@ -407,7 +821,7 @@ export default function CreatePage() {
                 Generating Your Zine
               </h2>
               <p className="text-gray-600 text-sm">
-                Page {state.generatingPage || state.pages.filter((p) => p).length} of 8
+                Page {state.generatingPage || state.pages.filter((p) => p).length} of {state.pageCount}
               </p>
             </div>
 
@@ -415,16 +829,16 @@ export default function CreatePage() {
             <div className="punk-border bg-white p-4">
               <div className="flex justify-between text-sm punk-text mb-2">
                 <span>Progress</span>
-                <span>{Math.round((state.pages.filter((p) => p).length / 8) * 100)}%</span>
+                <span>{Math.round((state.pages.filter((p) => p).length / state.pageCount) * 100)}%</span>
               </div>
               <div className="h-4 bg-gray-200 punk-border overflow-hidden">
                 <div
                   className="h-full bg-black transition-all duration-500 ease-out"
-                  style={{ width: `${(state.pages.filter((p) => p).length / 8) * 100}%` }}
+                  style={{ width: `${(state.pages.filter((p) => p).length / state.pageCount) * 100}%` }}
                 />
               </div>
-              <div className="flex justify-between mt-2">
-                {[1, 2, 3, 4, 5, 6, 7, 8].map((num) => (
+              <div className="flex flex-wrap justify-between gap-1 mt-2">
+                {Array.from({ length: state.pageCount }, (_, i) => i + 1).map((num) => (
                   <div
                     key={num}
                     className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold
@@ -498,19 +912,27 @@ export default function CreatePage() {
           <div className="space-y-6">
             <div className="flex items-center justify-between">
               <h2 className="text-xl font-bold punk-text">
-                Page {currentPage} of 8
+                Page {currentPage} of {state.pageCount}
               </h2>
               <div className="flex gap-2">
                 <button
-                  onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                  onClick={() => {
+                    setEditingCrop(false);
+                    setEditingText(false);
+                    setCurrentPage((p) => Math.max(1, p - 1));
+                  }}
                   disabled={currentPage === 1}
                   className="p-2 punk-border disabled:opacity-50"
                 >
                   <ArrowLeft className="w-4 h-4" />
                 </button>
                 <button
-                  onClick={() => setCurrentPage((p) => Math.min(8, p + 1))}
-                  disabled={currentPage === 8}
+                  onClick={() => {
+                    setEditingCrop(false);
+                    setEditingText(false);
+                    setCurrentPage((p) => Math.min(state.pageCount, p + 1));
+                  }}
+                  disabled={currentPage === state.pageCount}
                   className="p-2 punk-border disabled:opacity-50"
                 >
                   <ArrowRight className="w-4 h-4" />
@@ -518,21 +940,96 @@ export default function CreatePage() {
               </div>
             </div>
 
+            <PageDraftPicker
+              zineId={state.id}
+              pageNumber={currentPage}
+              refreshKey={draftsKey}
+              disabled={pickingDraft || state.generatingPage !== null}
+              onPick={pickDraft}
+              onDiscard={() => pickDraft(null)}
+            />
+
             {/* Current Page Preview */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="aspect-[3/4] punk-border bg-white">
-                {state.generatingPage === currentPage ? (
-                  <div className="w-full h-full flex items-center justify-center">
-                    <Loader2 className="w-12 h-12 animate-spin" />
-                  </div>
-                ) : (
-                  <img
+              {editingCrop ? (
+                <PageCropEditor
+                  key={currentPage}
+                  src={state.pages[currentPage - 1]}
+                  pageNumber={currentPage}
+                  panel={state.panel}
+                  transform={state.pageTransforms[currentPage - 1] || DEFAULT_TRANSFORM}
+                  saving={savingCrop}
+                  onSave={savePageTransform}
+                  onCancel={() => setEditingCrop(false)}
+                />
+              ) : editingText ? (
+                <PageTextEditor
+                  key={currentPage}
+                  zineId={state.id}
+                  src={state.pages[currentPage - 1]}
+                  pageNumber={currentPage}
+                  panel={state.panel}
+                  transform={state.pageTransforms[currentPage - 1]}
+                  layer={state.textLayers[currentPage - 1] || null}
+                  saving={savingText}
+                  onSave={(layer) => savePageText({ layer })}
+                  onRebuild={() => savePageText({ fromOutline: true })}
+                  onCancel={() => setEditingText(false)}
+                />
+              ) : (
+                <div className="space-y-2">
+                  {state.generatingPage === currentPage ? (
+                    <div
+                      className="punk-border bg-white flex items-center justify-center"
+                      style={{ aspectRatio: `${state.panel.width} / ${state.panel.height}` }}
+                    >
+                      <Loader2 className="w-12 h-12 animate-spin" />
+                    </div>
+                  ) : (
+                    <TransformedPage
+                      src={state.pages[currentPage - 1]}
+                      alt={`Page ${currentPage}`}
+                      panel={state.panel}
+                      transform={state.pageTransforms[currentPage - 1]}
+                      className="punk-border"
+                    >
+                      {state.textUrls[currentPage - 1] && (
+                        <img
+                          src={state.textUrls[currentPage - 1]}
+                          alt=""
+                          className="absolute inset-0 w-full h-full pointer-events-none select-none"
+                        />
+                      )}
+                    </TransformedPage>
+                  )}
+                  <button
+                    onClick={() => setEditingCrop(true)}
+                    disabled={state.generatingPage !== null || !state.pages[currentPage - 1]}
+                    className="w-full py-2 punk-border bg-white punk-text text-sm flex items-center justify-center gap-2
+                              hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Crop className="w-4 h-4" />
+                    Adjust Crop &amp; Position
+                  </button>
+                  <button
+                    onClick={() => setEditingText(true)}
+                    disabled={state.generatingPage !== null || !state.pages[currentPage - 1]}
+                    className="w-full py-2 punk-border bg-white punk-text text-sm flex items-center justify-center gap-2
+                              hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Type className="w-4 h-4" />
+                    Edit Text
+                  </button>
+                  <PageHistoryStrip
+                    zineId={state.id}
+                    pageNumber={currentPage}
                     src={state.pages[currentPage - 1]}
-                    alt={`Page ${currentPage}`}
-                    className="w-full h-full object-cover"
+                    disabled={state.generatingPage !== null}
+                    restoring={restoringVersion}
+                    onRestore={restorePageVersion}
                   />
-                )}
-              </div>
+                </div>
+              )}
 
               <div className="space-y-4">
                 <div className="punk-border bg-white p-4">
@@ -573,7 +1070,82 @@ export default function CreatePage() {
                     <RefreshCw className={`w-4 h-4 ${state.generatingPage ? "animate-spin" : ""}`} />
                     Regenerate Page
                   </button>
+                  <div className="mt-3 flex items-center gap-2">
+                    <label className="text-sm punk-text" htmlFor="candidate-count">
+                      Candidates
+                    </label>
+                    <select
+                      id="candidate-count"
+                      value={candidateCount}
+                      onChange={(e) => setCandidateCount(Number(e.target.value))}
+                      className="p-1 border-2 border-black punk-text text-sm"
+                    >
+                      {[1, 2, 3, 4].map((n) => (
+                        <option key={n} value={n}>
+                          {n}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={generateCandidates}
+                      disabled={candidateCount < 2 || state.generatingPage !== null}
+                      className="flex-1 py-1 punk-border bg-white punk-text text-sm flex items-center justify-center gap-2
+                                hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Layers className="w-4 h-4" />
+                      Try {candidateCount > 1 ? candidateCount : "several"} without feedback
+                    </button>
+                  </div>
+                </div>
+
+                <div className="punk-border bg-white p-4">
+                  <label className="block text-sm font-bold punk-text mb-2">
+                    Or use your own artwork
+                  </label>
+                  <label
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragOver(true);
+                    }}
+                    onDragLeave={() => setDragOver(false)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setDragOver(false);
+                      const file = e.dataTransfer.files[0];
+                      if (file) uploadPage(file);
+                    }}
+                    className={`flex flex-col items-center justify-center gap-2 h-24 border-2 border-dashed border-black
+                      punk-text text-sm cursor-pointer ${dragOver ? "bg-green-100" : "hover:bg-gray-50"}
+                      ${state.generatingPage !== null ? "opacity-50 pointer-events-none" : ""}`}
+                  >
+                    <Upload className="w-5 h-5" />
+                    Drop a scan, photo or drawing (PNG, JPEG, WebP, PDF, SVG)
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp,application/pdf,image/svg+xml"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) uploadPage(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                  <select
+                    value={uploadFit}
+                    onChange={(e) => setUploadFit(e.target.value as "contain" | "cover")}
+                    className="mt-3 w-full p-2 border-2 border-black bg-white punk-text text-sm focus:outline-none"
+                  >
+                    <option value="contain">Fit whole artwork (pad with paper colour)</option>
+                    <option value="cover">Fill the page (crop the edges)</option>
+                  </select>
                 </div>
+
+                <StyleBiblePanel
+                  zineId={state.id}
+                  coverSrc={state.pages[0]}
+                  disabled={state.generatingPage !== null}
+                />
               </div>
             </div>
 
@@ -582,16 +1154,62 @@ export default function CreatePage() {
               {state.pages.map((page, i) => (
                 <button
                   key={i}
-                  onClick={() => setCurrentPage(i + 1)}
-                  className={`flex-shrink-0 w-16 aspect-[3/4] punk-border overflow-hidden
+                  onClick={() => {
+                    setEditingCrop(false);
+                    setEditingText(false);
+                    setCurrentPage(i + 1);
+                  }}
+                  className={`flex-shrink-0 w-16 punk-border overflow-hidden
                     ${currentPage === i + 1 ? "ring-2 ring-green-500" : ""}`}
                 >
-                  <img src={page} alt={`Page ${i + 1}`} className="w-full h-full object-cover" />
+                  <TransformedPage
+                    src={page}
+                    alt={`Page ${i + 1}`}
+                    panel={state.panel}
+                    transform={state.pageTransforms[i]}
+                  >
+                    {state.textUrls[i] && (
+                      <img src={state.textUrls[i]} alt="" className="absolute inset-0 w-full h-full pointer-events-none" />
+                    )}
+                  </TransformedPage>
                 </button>
               ))}
             </div>
 
-            <div className="flex justify-end">
+            <div className="flex flex-col sm:flex-row justify-end items-stretch sm:items-center gap-4">
+              <select
+                value={printScheme}
+                onChange={(e) => setPrintScheme(e.target.value)}
+                className="p-2 border-2 border-black bg-white punk-text text-sm focus:outline-none"
+                title={PRINT_SCHEMES.find((p) => p.value === printScheme)?.description}
+              >
+                {PRINT_SCHEMES.filter((p) => p.pageCount === state.pageCount).map((p) => (
+                  <option key={p.value} value={p.value}>
+                    {p.label} - {p.description}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 punk-text text-sm">
+                <input
+                  type="checkbox"
+                  checked={printMarks}
+                  onChange={(e) => setPrintMarks(e.target.checked)}
+                  className="w-4 h-4 accent-black"
+                />
+                Cut &amp; fold marks
+              </label>
+              <select
+                value={printProfile}
+                onChange={(e) => setPrintProfile(e.target.value)}
+                className="p-2 border-2 border-black bg-white punk-text text-sm focus:outline-none"
+                title={PRINT_PROFILES.find((p) => p.value === printProfile)?.description}
+              >
+                {PRINT_PROFILES.map((p) => (
+                  <option key={p.value} value={p.value}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
               <button
                 onClick={createPrintLayout}
                 className="px-6 py-3 bg-black text-white punk-text flex items-center gap-2
@@ -609,25 +1227,72 @@ export default function CreatePage() {
           <div className="space-y-6">
             <h2 className="text-xl font-bold punk-text text-center">Your Zine is Ready!</h2>
 
-            {/* Print Layout Preview */}
-            <div className="punk-border bg-white p-4">
-              <img
-                src={state.printLayoutUrl || ""}
-                alt="Print Layout"
-                className="w-full"
-              />
+            {/* Print Layout Preview (one image per printed side) */}
+            <div className="punk-border bg-white p-4 space-y-4">
+              {state.printLayoutUrls.map((url, i) => (
+                <img key={url} src={url} alt={`Print Layout ${i + 1}`} className="w-full" />
+              ))}
+              {state.printLayoutUrls.length > 1 && (
+                <p className="text-xs text-gray-500 punk-text text-center">
+                  {state.printLayoutUrls.length} printed sides - use the Print PDF and print duplex
+                </p>
+              )}
             </div>
 
             {/* Actions */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {state.printFormats.includes("png") ? (
+                <a
+                  href={state.printLayoutUrl || "#"}
+                  download={`${state.topic.slice(0, 20).replace(/[^a-zA-Z0-9]/g, "_")}_print.png`}
+                  className="punk-border bg-black text-white py-4 px-6 flex items-center justify-center gap-2
+                            hover:bg-green-500 hover:text-black transition-colors punk-text"
+                >
+                  <Download className="w-5 h-5" />
+                  Download PNG (300 DPI)
+                </a>
+              ) : (
+                <a
+                  href={state.printTiffUrls[0] || "#"}
+                  download={`${state.topic.slice(0, 20).replace(/[^a-zA-Z0-9]/g, "_")}_print.tiff`}
+                  className="punk-border bg-black text-white py-4 px-6 flex items-center justify-center gap-2
+                            hover:bg-green-500 hover:text-black transition-colors punk-text"
+                >
+                  <Download className="w-5 h-5" />
+                  Download TIFF (300 DPI)
+                </a>
+              )}
+              <a
+                href={`/api/zine/${state.id}?print=pdf`}
+                className="punk-border bg-white py-4 px-6 flex items-center justify-center gap-2
+                          hover:bg-gray-100 transition-colors punk-text"
+              >
+                <Download className="w-5 h-5" />
+                Download Print PDF
+              </a>
+              <a
+                href={`/api/zine/${state.id}?print=pdf&order=reader`}
+                className="punk-border bg-white py-4 px-6 flex items-center justify-center gap-2
+                          hover:bg-gray-100 transition-colors punk-text"
+              >
+                <Download className="w-5 h-5" />
+                Download Reader PDF
+              </a>
+              <a
+                href={`/api/zine/${state.id}?print=riso`}
+                className="punk-border bg-white py-4 px-6 flex items-center justify-center gap-2
+                          hover:bg-gray-100 transition-colors punk-text"
+              >
+                <Download className="w-5 h-5" />
+                Download Riso Separations (ZIP)
+              </a>
               <a
-                href={state.printLayoutUrl || "#"}
-                download={`${state.topic.slice(0, 20).replace(/[^a-zA-Z0-9]/g, "_")}_print.png`}
-                className="punk-border bg-black text-white py-4 px-6 flex items-center justify-center gap-2
-                          hover:bg-green-500 hover:text-black transition-colors punk-text"
+                href={`/api/zine/${state.id}?export=zine`}
+                className="punk-border bg-white py-4 px-6 flex items-center justify-center gap-2
+                          hover:bg-gray-100 transition-colors punk-text"
               >
                 <Download className="w-5 h-5" />
-                Download PNG (300 DPI)
+                Download Zine Bundle (.zine)
               </a>
               <button
                 onClick={copyShareLink}
@@ -651,16 +1316,35 @@ export default function CreatePage() {
             {/* Folding Instructions */}
             <div className="punk-border bg-gray-50 p-6">
               <h3 className="font-bold punk-text mb-4">How to Fold Your Zine</h3>
-              <ol className="text-sm space-y-2">
-                <li>1. Print the layout on 8.5&quot; x 11&quot; paper (landscape)</li>
-                <li>2. Fold in half along the long edge (hotdog fold)</li>
-                <li>3. Fold in half again along the short edge</li>
-                <li>4. Fold once more to create a booklet</li>
-                <li>5. Unfold completely and lay flat</li>
-                <li>6. Cut the center slit between pages 3-6 and 4-5</li>
-                <li>7. Refold hotdog style and push ends together</li>
-                <li>8. Flatten - pages should now be in order 1-8!</li>
-              </ol>
+              {printScheme.startsWith("mini-") ? (
+                <ol className="text-sm space-y-2">
+                  <li>
+                    1. Print the layout on{" "}
+                    {state.paperFormat === "a4" ? "A4" : "8.5\" x 11\""} paper (landscape, actual size)
+                  </li>
+                  <li>2. Fold in half along the long edge (hotdog fold)</li>
+                  <li>3. Fold in half again along the short edge</li>
+                  <li>4. Fold once more to create a booklet</li>
+                  <li>5. Unfold completely and lay flat</li>
+                  <li>6. Cut the center slit between pages 3-6 and 4-5 (the solid line)</li>
+                  <li>7. Refold hotdog style and push ends together</li>
+                  <li>8. Flatten - pages should now be in reading order!</li>
+                  {state.pageCount === 16 && (
+                    <li>9. Fold sheet 2 the same way and nest it inside the center of sheet 1</li>
+                  )}
+                </ol>
+              ) : (
+                <ol className="text-sm space-y-2">
+                  <li>
+                    1. Print the Print PDF double-sided on{" "}
+                    {state.paperFormat === "a4" ? "A4" : "8.5\" x 11\""} paper, flipping on the short edge
+                  </li>
+                  <li>2. Stack the sheets in print order, sheet 1 on the outside</li>
+                  <li>3. Fold the stack in half along the center line</li>
+                  <li>4. Staple twice along the fold</li>
+                  <li>5. Pages should now be in order 1-{state.pageCount}!</li>
+                </ol>
+              )}
             </div>
 
             <div className="text-center">
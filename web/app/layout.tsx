@@ -3,10 +3,10 @@ import "./globals.css";
 
 export const metadata: Metadata = {
   title: "MycroZine - Create Your Own Mini-Zine",
-  description: "Transform your ideas into printable 8-page mini-zines with AI. Input a concept, generate pages, refine, and print!",
+  description: "Transform your ideas into printable mini-zines with AI. Input a concept, generate pages, refine, and print!",
   openGraph: {
     title: "MycroZine - Create Your Own Mini-Zine",
-    description: "Transform your ideas into printable 8-page mini-zines with AI",
+    description: "Transform your ideas into printable mini-zines with AI",
     url: "https://zine.jeffemmett.com",
     siteName: "MycroZine",
     type: "website",
@@ -1,31 +1,88 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Mic, MicOff, Sparkles, BookOpen, Printer } from "lucide-react";
 
-const STYLES = [
-  { value: "punk-zine", label: "Punk Zine", description: "Xerox texture, high contrast, DIY collage" },
-  { value: "minimal", label: "Minimal", description: "Clean lines, white space, modern" },
-  { value: "collage", label: "Collage", description: "Layered imagery, mixed media" },
-  { value: "retro", label: "Retro", description: "1970s aesthetic, earth tones" },
-  { value: "academic", label: "Academic", description: "Diagrams, annotations, infographic" },
+// Built-in and user-defined styles and tones, from the style registry (GET /api/styles)
+interface RegistryEntry {
+  name: string;
+  label: string;
+  description: string;
+}
+
+const PAPER_FORMATS = [
+  { value: "letter", label: "US Letter", description: "11\" x 8.5\" sheet" },
+  { value: "a4", label: "A4", description: "297mm x 210mm sheet" },
+];
+
+const PAGE_COUNTS = [
+  { value: 4, label: "4 Pages", description: "One sheet, printed both sides, folded once" },
+  { value: 8, label: "8 Pages", description: "Classic mini-zine from a single sheet" },
+  { value: 12, label: "12 Pages", description: "Stapled booklet, 3 sheets printed both sides" },
+  { value: 16, label: "16 Pages", description: "Two mini-zine sheets nested together" },
+  { value: 24, label: "24 Pages", description: "Stapled booklet, 6 sheets printed both sides" },
+];
+
+// ZINE_STRUCTURES in src/prompts.mjs; "" lets the tone pick, "custom" takes a template per page
+const STRUCTURES = [
+  { value: "", label: "Match the tone", description: "Manifesto for rebellious and poetic zines, educational otherwise" },
+  { value: "educational", label: "Educational", description: "Intro, key concepts, a process, resources" },
+  { value: "manifesto", label: "Manifesto", description: "Bold statements, concepts, a comparison" },
+  { value: "howto", label: "How-To", description: "Intro, step-by-step pages, resources" },
+  { value: "custom", label: "Custom", description: "Pick the template of every page" },
 ];
 
-const TONES = [
-  { value: "rebellious", label: "Rebellious", description: "Defiant, punk attitude" },
-  { value: "playful", label: "Playful", description: "Whimsical, fun, light-hearted" },
-  { value: "informative", label: "Informative", description: "Educational, factual" },
-  { value: "poetic", label: "Poetic", description: "Lyrical, metaphorical" },
+// PAGE_TEMPLATES in src/prompts.mjs
+const PAGE_TEMPLATES = [
+  { value: "cover", label: "Cover" },
+  { value: "intro", label: "Intro" },
+  { value: "concept", label: "Concept" },
+  { value: "comparison", label: "Comparison" },
+  { value: "process", label: "Process" },
+  { value: "manifesto", label: "Manifesto" },
+  { value: "resources", label: "Resources" },
+  { value: "cta", label: "Call to Action" },
 ];
 
+// A custom sequence resized to a page count: pages are kept from the front, concept pages
+// are added, and the last page (usually the call to action) stays last
+function resizeSequence(sequence: string[], count: number): string[] {
+  const middle = sequence.slice(0, -1).slice(0, count - 1);
+  while (middle.length < count - 1) {
+    middle.push("concept");
+  }
+  return [...middle, sequence[sequence.length - 1]];
+}
+
 export default function Home() {
   const router = useRouter();
   const [topic, setTopic] = useState("");
   const [style, setStyle] = useState("punk-zine");
   const [tone, setTone] = useState("rebellious");
+  const [paperFormat, setPaperFormat] = useState("letter");
+  const [pageCount, setPageCount] = useState(8);
+  const [structure, setStructure] = useState("");
+  const [customTemplates, setCustomTemplates] = useState<string[]>(() => resizeSequence(["cover", "cta"], 8));
   const [isListening, setIsListening] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [styles, setStyles] = useState<RegistryEntry[]>([]);
+  const [tones, setTones] = useState<RegistryEntry[]>([]);
+
+  // The house style, when the collective has set one, is picked to start with
+  useEffect(() => {
+    fetch("/api/styles")
+      .then((response) => (response.ok ? response.json() : Promise.reject()))
+      .then((data) => {
+        setStyles(data.styles);
+        setTones(data.tones);
+        setStyle(data.defaultStyle);
+      })
+      .catch(() => {
+        setStyles([{ name: "punk-zine", label: "Punk Zine", description: "" }]);
+        setTones([{ name: "rebellious", label: "Rebellious", description: "" }]);
+      });
+  }, []);
 
   const handleVoiceInput = () => {
     if (!("webkitSpeechRecognition" in window) && !("SpeechRecognition" in window)) {
@@ -62,7 +119,17 @@ export default function Home() {
     setIsLoading(true);
 
     // Store the input in sessionStorage and navigate to create page
-    sessionStorage.setItem("zineInput", JSON.stringify({ topic, style, tone }));
+    sessionStorage.setItem(
+      "zineInput",
+      JSON.stringify({
+        topic,
+        style,
+        tone,
+        paperFormat,
+        pageCount,
+        structure: structure === "custom" ? customTemplates : structure || undefined,
+      })
+    );
     router.push("/create");
   };
 
@@ -74,7 +141,7 @@ export default function Home() {
           MYCRO<span className="text-green-500">ZINE</span>
         </h1>
         <p className="text-lg sm:text-xl text-gray-600 max-w-xl mx-auto">
-          Transform your ideas into printable 8-page mini-zines with AI
+          Transform your ideas into printable mini-zines with AI
         </p>
       </div>
 
@@ -86,7 +153,7 @@ export default function Home() {
         </div>
         <div className="flex items-center gap-2 text-sm text-gray-500">
           <BookOpen className="w-4 h-4" />
-          <span>8 Pages</span>
+          <span>4-24 Pages</span>
         </div>
         <div className="flex items-center gap-2 text-sm text-gray-500">
           <Printer className="w-4 h-4" />
@@ -132,14 +199,14 @@ export default function Home() {
               className="w-full p-2 border-2 border-black bg-white punk-text focus:outline-none"
               disabled={isLoading}
             >
-              {STYLES.map((s) => (
-                <option key={s.value} value={s.value}>
+              {styles.map((s) => (
+                <option key={s.name} value={s.name}>
                   {s.label}
                 </option>
               ))}
             </select>
             <p className="mt-2 text-xs text-gray-500">
-              {STYLES.find((s) => s.value === style)?.description}
+              {styles.find((s) => s.name === style)?.description}
             </p>
           </div>
 
@@ -152,18 +219,108 @@ export default function Home() {
               className="w-full p-2 border-2 border-black bg-white punk-text focus:outline-none"
               disabled={isLoading}
             >
-              {TONES.map((t) => (
-                <option key={t.value} value={t.value}>
+              {tones.map((t) => (
+                <option key={t.name} value={t.name}>
                   {t.label}
                 </option>
               ))}
             </select>
             <p className="mt-2 text-xs text-gray-500">
-              {TONES.find((t) => t.value === tone)?.description}
+              {tones.find((t) => t.name === tone)?.description}
             </p>
           </div>
         </div>
 
+        {/* Paper & Page Count Selectors */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {/* Paper Select */}
+          <div className="punk-border bg-white p-4">
+            <label className="block text-sm font-bold punk-text mb-2">Paper</label>
+            <select
+              value={paperFormat}
+              onChange={(e) => setPaperFormat(e.target.value)}
+              className="w-full p-2 border-2 border-black bg-white punk-text focus:outline-none"
+              disabled={isLoading}
+            >
+              {PAPER_FORMATS.map((p) => (
+                <option key={p.value} value={p.value}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-2 text-xs text-gray-500">
+              {PAPER_FORMATS.find((p) => p.value === paperFormat)?.description}
+            </p>
+          </div>
+
+          {/* Page Count Select */}
+          <div className="punk-border bg-white p-4">
+            <label className="block text-sm font-bold punk-text mb-2">Pages</label>
+            <select
+              value={pageCount}
+              onChange={(e) => {
+                const count = parseInt(e.target.value, 10);
+                setPageCount(count);
+                setCustomTemplates((sequence) => resizeSequence(sequence, count));
+              }}
+              className="w-full p-2 border-2 border-black bg-white punk-text focus:outline-none"
+              disabled={isLoading}
+            >
+              {PAGE_COUNTS.map((c) => (
+                <option key={c.value} value={c.value}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-2 text-xs text-gray-500">
+              {PAGE_COUNTS.find((c) => c.value === pageCount)?.description}
+            </p>
+          </div>
+        </div>
+
+        {/* Structure Select */}
+        <div className="punk-border bg-white p-4">
+          <label className="block text-sm font-bold punk-text mb-2">Structure</label>
+          <select
+            value={structure}
+            onChange={(e) => setStructure(e.target.value)}
+            className="w-full p-2 border-2 border-black bg-white punk-text focus:outline-none"
+            disabled={isLoading}
+          >
+            {STRUCTURES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-xs text-gray-500">
+            {STRUCTURES.find((s) => s.value === structure)?.description}
+          </p>
+          {structure === "custom" && (
+            <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {customTemplates.map((template, i) => (
+                <label key={i} className="flex flex-col gap-1 text-xs punk-text">
+                  Page {i + 1}
+                  <select
+                    value={template}
+                    onChange={(e) =>
+                      setCustomTemplates((sequence) => sequence.map((t, j) => (j === i ? e.target.value : t)))
+                    }
+                    className="p-1 border-2 border-black bg-white focus:outline-none"
+                    disabled={isLoading}
+                  >
+                    {PAGE_TEMPLATES.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Submit Button */}
         <button
           type="submit"
@@ -187,7 +344,7 @@ export default function Home() {
       {/* Footer */}
       <footer className="mt-12 text-center text-sm text-gray-400">
         <p>
-          Folds into a single 8.5&quot; x 11&quot; sheet •{" "}
+          Prints on US Letter or A4 •{" "}
           <a href="#how-it-works" className="underline hover:text-gray-600">
             How to fold
           </a>
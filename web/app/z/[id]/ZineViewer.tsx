@@ -17,9 +17,13 @@ interface ZineData {
   topic: string;
   style: string;
   tone: string;
+  pageCount: number;
   outline: PageOutline[];
   pageUrls: string[];
+  textUrls?: (string | null)[]; // Text typeset over each page, as it prints
   printLayoutUrl: string | null;
+  printPdfUrl: string | null;
+  readerPdfUrl: string;
   shareUrl: string;
   createdAt: string;
 }
@@ -84,13 +88,13 @@ export default function ZineViewer({ zine }: ZineViewerProps) {
           {zine.topic}
         </h1>
         <p className="text-center text-gray-500 text-sm mb-6">
-          {zine.style} • {zine.tone}
+          {zine.style} • {zine.tone} • {zine.pageCount} pages
         </p>
 
         {/* Main Viewer */}
         <div className="relative">
           {/* Page Display */}
-          <div className="punk-border bg-white aspect-[3/4] max-w-md mx-auto overflow-hidden">
+          <div className="relative punk-border bg-white aspect-[3/4] max-w-md mx-auto overflow-hidden">
             {zine.pageUrls[currentPage] && (
               <img
                 src={zine.pageUrls[currentPage]}
@@ -98,6 +102,13 @@ export default function ZineViewer({ zine }: ZineViewerProps) {
                 className="w-full h-full object-cover"
               />
             )}
+            {zine.textUrls?.[currentPage] && (
+              <img
+                src={zine.textUrls[currentPage]!}
+                alt=""
+                className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+              />
+            )}
           </div>
 
           {/* Navigation Arrows */}
@@ -128,7 +139,7 @@ export default function ZineViewer({ zine }: ZineViewerProps) {
         </div>
 
         {/* Thumbnail Strip */}
-        <div className="flex justify-center gap-2 mt-6 overflow-x-auto pb-2">
+        <div className="flex flex-wrap justify-center gap-2 mt-6 pb-2">
           {zine.pageUrls.map((url, i) => (
             <button
               key={i}
@@ -154,6 +165,16 @@ export default function ZineViewer({ zine }: ZineViewerProps) {
               Download Print Layout
             </a>
           )}
+          {zine.printPdfUrl && (
+            <a
+              href={zine.printPdfUrl}
+              className="punk-border bg-white py-3 px-6 flex items-center justify-center gap-2
+                        hover:bg-gray-100 transition-colors punk-text"
+            >
+              <Download className="w-5 h-5" />
+              Print PDF
+            </a>
+          )}
           <Link
             href="/"
             className="punk-border bg-white py-3 px-6 flex items-center justify-center gap-2
@@ -31,17 +31,17 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
 
   return {
     title: `${zine.topic} - MycroZine`,
-    description: `An 8-page mini-zine about ${zine.topic}. Created with MycroZine.`,
+    description: `A mini-zine about ${zine.topic} (${zine.pageCount} pages). Created with MycroZine.`,
     openGraph: {
       title: `${zine.topic} - MycroZine`,
-      description: `An 8-page mini-zine about ${zine.topic}`,
+      description: `A mini-zine about ${zine.topic} (${zine.pageCount} pages)`,
       type: "article",
       images: zine.pageUrls?.[0] ? [{ url: zine.pageUrls[0] }] : [],
     },
     twitter: {
       card: "summary_large_image",
       title: `${zine.topic} - MycroZine`,
-      description: `An 8-page mini-zine about ${zine.topic}`,
+      description: `A mini-zine about ${zine.topic} (${zine.pageCount} pages)`,
     },
   };
 }
@@ -0,0 +1,7 @@
+// Runs once when the server starts: carry on with page generation jobs queued before a restart
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startJobRunner } = await import("./lib/jobs");
+    await startJobRunner();
+  }
+}
@@ -0,0 +1,94 @@
+// Live build events per zine, for GET /api/zine/[id]/events (Server-Sent Events)
+
+export type ZineEventType =
+  | "outline-ready" // { pageCount, structure }
+  | "page-started" // { pageNumber, providers, candidates?, jobId?, attempt? }
+  | "page-done" // { pageNumber, provider, fallback, imageUrl, textLayer, draft?, jobId?, attempt? }
+  | "page-failed" // { pageNumber, providers, error, jobId?, attempt? }
+  | "page-drafts" // { pageNumber, drafts, failed }: candidates to pick from (see generateZinePageDrafts)
+  | "job-updated" // { job }: a page generation job's progress (see lib/jobs.ts)
+  | "style-bible" // { styleBible }: the palette, characters and motifs pages keep to (see lib/pages.ts)
+  | "layout-built"; // { scheme, sides, profile, printLayoutUrls }
+
+export interface ZineEvent {
+  id: string; // SSE event id: "<epoch>-<n>", n increasing across all zines (see formatEventId)
+  type: ZineEventType;
+  zineId: string;
+  data: Record<string, unknown>;
+  at: string;
+}
+
+type ZineEventListener = (event: ZineEvent) => void;
+
+// Recent events per zine, replayed to new subscribers so a late one catches up
+const RECENT_EVENTS = 100;
+const RECENT_ZINES = 200;
+
+interface ZineEventBus {
+  epoch: string; // Changes with every server process, whose event numbers start over at 1
+  nextId: number;
+  recent: Map<string, ZineEvent[]>;
+  listeners: Map<string, Set<ZineEventListener>>;
+}
+
+// One bus per server process; kept on globalThis so every route sees the same one in dev mode too
+const bus: ZineEventBus = ((globalThis as { mycrozineEventBus?: ZineEventBus }).mycrozineEventBus ??= {
+  epoch: Date.now().toString(36),
+  nextId: 1,
+  recent: new Map(),
+  listeners: new Map(),
+});
+
+function formatEventId(n: number): string {
+  return `${bus.epoch}-${n}`;
+}
+
+// The event number in an id this process sent; 0 (everything) for ids from an earlier process or none
+function parseEventId(id: string | null | undefined): number {
+  const match = /^([0-9a-z]+)-(\d+)$/.exec(id || "");
+  return match && match[1] === bus.epoch ? Number(match[2]) : 0;
+}
+
+export function emitZineEvent(zineId: string, type: ZineEventType, data: Record<string, unknown> = {}): void {
+  const event: ZineEvent = { id: formatEventId(bus.nextId++), type, zineId, data, at: new Date().toISOString() };
+
+  // Most recently active zines last, so the least recent ones are dropped first
+  const recent = bus.recent.get(zineId) || [];
+  bus.recent.delete(zineId);
+  bus.recent.set(zineId, [...recent, event].slice(-RECENT_EVENTS));
+  for (const stale of Array.from(bus.recent.keys()).slice(0, -RECENT_ZINES)) {
+    bus.recent.delete(stale);
+  }
+
+  for (const listener of bus.listeners.get(zineId) || []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Zine event listener failed (${type}):`, error);
+    }
+  }
+}
+
+/**
+ * Listen to a zine's events, starting with the recent ones after `lastEventId`
+ * (all of them by default, and after a restart); returns a function that stops listening
+ */
+export function subscribeZineEvents(zineId: string, listener: ZineEventListener, lastEventId?: string | null): () => void {
+  const afterId = parseEventId(lastEventId);
+  for (const event of bus.recent.get(zineId) || []) {
+    if (parseEventId(event.id) > afterId) {
+      listener(event);
+    }
+  }
+
+  const listeners = bus.listeners.get(zineId) || new Set();
+  listeners.add(listener);
+  bus.listeners.set(zineId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      bus.listeners.delete(zineId);
+    }
+  };
+}
@@ -1,4 +1,5 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { describeZineStructure, describeZineStyle, assignOutlineTemplates, type ZineStructure } from "./zine";
 
 // Lazy initialization to ensure runtime env var is used (not build-time)
 let _genAI: GoogleGenerativeAI | null = null;
@@ -20,6 +21,7 @@ export interface PageOutline {
   title: string;
   keyPoints: string[];
   imagePrompt: string;
+  template?: string; // Page template (PAGE_TEMPLATES in src/prompts.mjs), which lays the page out
 }
 
 export interface ZineOutline {
@@ -31,46 +33,44 @@ export interface ZineOutline {
   createdAt: string;
 }
 
-const STYLE_PROMPTS: Record<string, string> = {
-  "punk-zine": "xerox-style high contrast black and white, DIY cut-and-paste collage aesthetic, hand-drawn typography, punk rock zine style, grainy texture, photocopied look",
-  "minimal": "clean minimalist design, lots of white space, modern sans-serif typography, simple geometric shapes, subtle gradients",
-  "collage": "layered mixed media collage, vintage photographs, torn paper edges, overlapping textures, eclectic composition",
-  "retro": "1970s aesthetic, earth tones, groovy psychedelic typography, halftone dot patterns, vintage illustration style",
-  "academic": "clean infographic style, annotated diagrams, data visualization, technical illustration, educational layout",
-};
-
-const TONE_PROMPTS: Record<string, string> = {
-  "rebellious": "defiant anti-establishment energy, provocative bold statements, raw and unfiltered",
-  "playful": "whimsical fun light-hearted energy, humor and wit, bright positive vibes",
-  "informative": "educational and factual, clear explanations, structured information",
-  "poetic": "lyrical and metaphorical, evocative imagery, emotional depth",
-};
+// Purpose of each page: its template in the zine's structure, scaled to the page count
+async function describePageRoles(structure: ZineStructure, pageCount: number): Promise<string> {
+  const pages = await describeZineStructure(structure, pageCount);
+  return pages
+    .map(({ template, type, description, elements }, i) =>
+      `- Page ${i + 1} (${template}, type "${type}"): ${description} - ${elements.join(", ")}`)
+    .join("\n");
+}
 
 export async function generateOutline(
   topic: string,
   style: string,
-  tone: string
+  tone: string,
+  pageCount: number = 8,
+  structure: ZineStructure = "educational"
 ): Promise<PageOutline[]> {
   const model = getGenAI().getGenerativeModel({ model: "gemini-2.0-flash" });
+  const prompts = await describeZineStyle(style, tone);
+
+  const format = pageCount === 8
+    ? "mini DIY zine that folds from a single sheet of paper"
+    : "mini DIY zine folded from printed sheets";
 
-  const prompt = `You are creating an 8-page mycro-zine (mini DIY zine that folds from a single sheet of paper).
+  const prompt = `You are creating a ${pageCount}-page mycro-zine (${format}).
 
 Topic: ${topic}
-Visual Style: ${style} - ${STYLE_PROMPTS[style] || STYLE_PROMPTS["punk-zine"]}
-Tone: ${tone} - ${TONE_PROMPTS[tone] || TONE_PROMPTS["rebellious"]}
+Visual Style: ${style} - ${prompts.style}
+Tone: ${tone} - ${prompts.tone}
 
-Create a detailed outline for all 8 pages. Each page should have a distinct purpose:
-- Page 1: Cover (eye-catching title and central image)
-- Page 2: Introduction (hook the reader, set the stage)
-- Pages 3-6: Main content (key concepts, stories, visuals)
-- Page 7: Resources or deeper dive
-- Page 8: Call to action (what reader should do next)
+Create a detailed outline for all ${pageCount} pages. Each page follows a template, which sets its purpose, layout and type; write content that fits it:
+${await describePageRoles(structure, pageCount)}
 
 Return ONLY valid JSON in this exact format (no markdown, no code blocks):
 {
   "pages": [
     {
       "pageNumber": 1,
+      "template": "cover",
       "type": "cover",
       "title": "Short punchy title",
       "keyPoints": ["Main visual concept", "Tagline or subtitle"],
@@ -94,7 +94,7 @@ Make each imagePrompt detailed and specific to the ${style} visual style. Includ
   }
 
   const parsed = JSON.parse(jsonStr.trim());
-  return parsed.pages;
+  return Array.isArray(parsed.pages) ? assignOutlineTemplates(parsed.pages, structure) : parsed.pages;
 }
 
 export async function generatePageImage(
@@ -106,8 +106,7 @@ export async function generatePageImage(
   // Use Gemini's image generation (Imagen 3 via Gemini API)
   const model = getGenAI().getGenerativeModel({ model: "gemini-2.0-flash-exp" });
 
-  const styleDesc = STYLE_PROMPTS[style] || STYLE_PROMPTS["punk-zine"];
-  const toneDesc = TONE_PROMPTS[tone] || TONE_PROMPTS["rebellious"];
+  const { style: styleDesc, tone: toneDesc } = await describeZineStyle(style, tone);
 
   let imagePrompt = `Create a single page for a mini-zine (approximately 825x1275 pixels aspect ratio, portrait orientation).
 
@@ -202,3 +201,48 @@ Return ONLY valid JSON (no markdown, no code blocks):
 
   return { updatedOutline, imageUrl };
 }
+
+// What a zine's other pages should keep from its cover: recurring characters, motifs and drawing notes
+export async function describeCoverStyle(
+  coverBase64: string,
+  topic: string
+): Promise<{ characters: string[]; motifs: string[]; notes?: string }> {
+  const model = getGenAI().getGenerativeModel({ model: "gemini-2.0-flash" });
+
+  const prompt = `This is the cover of a mini-zine about "${topic}". The other pages will be drawn separately and must look like they belong to the same zine.
+
+List what they should keep from the cover:
+- characters: recurring characters or figures, each described so an illustrator could draw it again the same way (at most 3)
+- motifs: recurring objects, shapes, patterns or textures (at most 5)
+- notes: one sentence on the drawing style - line weight, shading, composition
+
+Return ONLY valid JSON (no markdown, no code blocks):
+{
+  "characters": ["..."],
+  "motifs": ["..."],
+  "notes": "..."
+}`;
+
+  const result = await model.generateContent([
+    { text: prompt },
+    { inlineData: { mimeType: "image/png", data: coverBase64 } },
+  ]);
+  const response = result.response.text();
+
+  let jsonStr = response;
+  if (response.includes("```")) {
+    const match = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (match) {
+      jsonStr = match[1];
+    }
+  }
+
+  const parsed = JSON.parse(jsonStr.trim());
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.trim().length > 0) : [];
+  return {
+    characters: strings(parsed.characters).slice(0, 3),
+    motifs: strings(parsed.motifs).slice(0, 5),
+    ...(typeof parsed.notes === "string" && parsed.notes.trim() ? { notes: parsed.notes.trim() } : {}),
+  };
+}
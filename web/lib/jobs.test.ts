@@ -0,0 +1,129 @@
+import fs from "fs/promises";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateZinePage } from "./pages";
+import { cancelJob, enqueueZinePages, getJob, listZineJobs, type GenerationJob } from "./jobs";
+
+// Jobs are stored in DATA_DIR/jobs, so each run gets its own
+const dataDir = await vi.hoisted(async () => {
+  const { mkdtemp } = await import("fs/promises");
+  const os = await import("os");
+  const { join } = await import("path");
+  return mkdtemp(join(os.tmpdir(), "mycrozine-jobs-"));
+});
+
+vi.mock("./storage", () => ({
+  DATA_DIR: dataDir,
+  getZine: vi.fn(async (id: string) => (id === "missing" ? null : { id })),
+}));
+
+vi.mock("./pages", () => ({
+  generateZinePage: vi.fn(),
+}));
+
+const generate = vi.mocked(generateZinePage);
+
+// A job stored by an earlier server process, which stopped while page 1 was running
+const interrupted: GenerationJob = {
+  id: "job_restored",
+  zineId: "restored",
+  status: "running",
+  pages: [{ pageNumber: 1, status: "running", attempts: 1 }],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+function waitForJob(id: string, done: (job: GenerationJob) => boolean): Promise<GenerationJob> {
+  return vi.waitFor(async () => {
+    const job = await getJob(id);
+    if (!job || !done(job)) {
+      throw new Error(`Job ${id} is still ${job?.status}`);
+    }
+    return job;
+  });
+}
+
+async function readStoredJob(id: string): Promise<GenerationJob> {
+  return JSON.parse(await fs.readFile(path.join(dataDir, "jobs", `${id}.json`), "utf-8"));
+}
+
+beforeAll(async () => {
+  await fs.mkdir(path.join(dataDir, "jobs"), { recursive: true });
+  await fs.writeFile(path.join(dataDir, "jobs", `${interrupted.id}.json`), JSON.stringify(interrupted));
+});
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  generate.mockReset();
+  generate.mockResolvedValue({ provider: "local", fallback: false } as Awaited<ReturnType<typeof generateZinePage>>);
+});
+
+describe("job queue", () => {
+  it("picks up pages that were running when the server stopped", async () => {
+    const job = await waitForJob(interrupted.id, (job) => job.status === "done");
+
+    expect(job.pages[0]).toMatchObject({ status: "done", attempts: 2, provider: "local" });
+    expect((await readStoredJob(interrupted.id)).status).toBe("done");
+  });
+
+  it("generates the cover before the other pages, and stores the job", async () => {
+    let finishCover = () => {};
+    generate.mockImplementationOnce(
+      () => new Promise((resolve) => (finishCover = () => resolve({ provider: "local", fallback: false } as never)))
+    );
+
+    const { job, queued } = await enqueueZinePages("zine-1", [1, 2, 3], "local");
+    expect(queued).toBe(true);
+    await vi.waitFor(() => expect(generate).toHaveBeenCalledTimes(1));
+    expect(generate.mock.calls[0][1]).toBe(1);
+    expect(job.pages.map((page) => page.status)).toEqual(["running", "queued", "queued"]);
+
+    finishCover();
+    const finished = await waitForJob(job.id, (job) => job.status === "done");
+    expect(generate.mock.calls.map(([, pageNumber]) => pageNumber)).toEqual([1, 2, 3]);
+    expect(generate).toHaveBeenCalledWith(expect.anything(), 2, { provider: "local", job: { id: job.id, attempt: 1 } });
+    expect(await readStoredJob(job.id)).toEqual(JSON.parse(JSON.stringify(finished)));
+  });
+
+  it("starts one job per zine, even for concurrent requests", async () => {
+    generate.mockImplementation(() => new Promise(() => {}));
+
+    const results = await Promise.all([
+      enqueueZinePages("zine-2", [2]),
+      enqueueZinePages("zine-2", [3]),
+      enqueueZinePages("zine-2", [4]),
+    ]);
+
+    expect(results.filter(({ queued }) => queued)).toHaveLength(1);
+    expect(new Set(results.map(({ job }) => job.id)).size).toBe(1);
+    expect(await listZineJobs("zine-2")).toHaveLength(1);
+  });
+
+  it("retries a failed page later, and cancels what is still queued", async () => {
+    generate.mockRejectedValue(new Error("Quota exceeded"));
+
+    const { job } = await enqueueZinePages("zine-3", [2]);
+    const retrying = await waitForJob(job.id, (job) => job.pages[0].attempts === 1 && job.pages[0].status === "queued");
+    expect(retrying.status).toBe("running");
+    expect(retrying.pages[0].error).toBe("Quota exceeded");
+    expect(Date.parse(retrying.pages[0].retryAt!)).toBeGreaterThan(Date.now());
+
+    const cancelled = await cancelJob(job.id);
+    expect(cancelled?.status).toBe("cancelled");
+    expect(cancelled?.pages[0]).toMatchObject({ status: "cancelled", attempts: 1 });
+    expect(cancelled?.pages[0].retryAt).toBeUndefined();
+    expect(await cancelJob("job_unknown")).toBeNull();
+  });
+
+  it("fails pages of a zine that no longer exists without retrying", async () => {
+    const { job } = await enqueueZinePages("missing", [2]);
+    const failed = await waitForJob(job.id, (job) => job.status === "failed");
+
+    expect(failed.pages[0]).toMatchObject({ status: "failed", attempts: 1, error: "Zine not found" });
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
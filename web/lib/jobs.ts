@@ -0,0 +1,283 @@
+import fs from "fs/promises";
+import path from "path";
+import { DATA_DIR, getZine } from "./storage";
+import { generateZinePage } from "./pages";
+import { emitZineEvent } from "./events";
+
+// Page generation jobs, one JSON file each, so queued pages carry on after a restart
+const JOBS_DIR = path.join(DATA_DIR, "jobs");
+
+// Pages generated at once across all jobs (JOB_CONCURRENCY, default 2)
+const CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 2);
+
+// Tries per page before it fails, and the wait before the first retry (doubled for each one after)
+export const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+
+// Finished jobs are kept this long for progress and history
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface PageJob {
+  pageNumber: number;
+  status: JobStatus;
+  attempts: number;
+  error?: string; // Last failure
+  retryAt?: string; // When a failed attempt is retried
+  provider?: string; // Provider that generated the page
+  fallback?: boolean; // An earlier provider in the chain failed
+  finishedAt?: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  zineId: string;
+  status: JobStatus;
+  provider?: string | string[]; // Provider chain override for every page
+  pages: PageJob[];
+  cancelledAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface JobRunner {
+  jobs: Map<string, GenerationJob>;
+  loaded: Promise<void> | null;
+  running: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  writes: Map<string, Promise<void>>;
+}
+
+// One runner per server process; kept on globalThis so dev-mode module reloads don't start a second one
+const runner: JobRunner = ((globalThis as { mycrozineJobRunner?: JobRunner }).mycrozineJobRunner ??= {
+  jobs: new Map(),
+  loaded: null,
+  running: 0,
+  timer: null,
+  writes: new Map(),
+});
+
+// A job is active while any page is queued or running; then failed if any page failed
+function getJobStatus(pages: PageJob[]): JobStatus {
+  if (pages.some((page) => page.status === "queued" || page.status === "running")) {
+    return pages.some((page) => page.attempts > 0) ? "running" : "queued";
+  }
+  for (const status of ["failed", "cancelled"] as const) {
+    if (pages.some((page) => page.status === status)) {
+      return status;
+    }
+  }
+  return "done";
+}
+
+function isActive(job: GenerationJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+// The zine's queued or running job, if it has one
+function findActiveZineJob(zineId: string): GenerationJob | null {
+  return Array.from(runner.jobs.values())
+    .reverse()
+    .find((job) => job.zineId === zineId && isActive(job)) ?? null;
+}
+
+// Write a job's file (whole, via a temporary file), after any earlier write of it, and tell the zine's subscribers
+async function saveJob(job: GenerationJob): Promise<void> {
+  job.status = getJobStatus(job.pages);
+  job.updatedAt = new Date().toISOString();
+  const data = JSON.stringify(job, null, 2);
+  const file = path.join(JOBS_DIR, `${job.id}.json`);
+  const write = (runner.writes.get(job.id) || Promise.resolve()).catch(() => {}).then(async () => {
+    await fs.mkdir(JOBS_DIR, { recursive: true });
+    await fs.writeFile(`${file}.tmp`, data);
+    await fs.rename(`${file}.tmp`, file);
+  });
+  runner.writes.set(job.id, write);
+  emitZineEvent(job.zineId, "job-updated", { job: JSON.parse(data) });
+  await write;
+}
+
+// Read the stored jobs: pages that were running when the server stopped go back in the queue
+async function loadJobs(): Promise<void> {
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(JOBS_DIR)).filter((file) => file.endsWith(".json"));
+  } catch {
+    return;
+  }
+
+  const jobs: GenerationJob[] = [];
+  for (const file of files) {
+    try {
+      jobs.push(JSON.parse(await fs.readFile(path.join(JOBS_DIR, file), "utf-8")));
+    } catch (error) {
+      console.error(`Skipping unreadable job ${file}:`, error);
+    }
+  }
+
+  // Oldest first, which is also the order their pages run in
+  for (const job of jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt))) {
+    if (!isActive(job) && Date.now() - Date.parse(job.updatedAt) > JOB_RETENTION_MS) {
+      await fs.rm(path.join(JOBS_DIR, `${job.id}.json`), { force: true });
+      continue;
+    }
+    const interrupted = job.pages.filter((page) => page.status === "running");
+    for (const page of interrupted) {
+      page.status = "queued";
+    }
+    runner.jobs.set(job.id, job);
+    if (interrupted.length > 0) {
+      await saveJob(job);
+    }
+  }
+}
+
+// Load the stored jobs and start working through them (once per process; every other export calls it)
+export function startJobRunner(): Promise<void> {
+  runner.loaded ??= loadJobs().then(() => pump());
+  return runner.loaded;
+}
+
+// Start queued pages while there's room, and wake up for the next retry. A job's
+// cover goes first: its other pages wait for the style bible and references it brings
+function pump(): void {
+  if (runner.timer) {
+    clearTimeout(runner.timer);
+    runner.timer = null;
+  }
+
+  const now = Date.now();
+  let nextRetry = Infinity;
+  for (const job of runner.jobs.values()) {
+    const coverPending = job.pages.some(
+      (page) => page.pageNumber === 1 && (page.status === "queued" || page.status === "running")
+    );
+    for (const page of job.pages) {
+      if (page.status !== "queued" || (coverPending && page.pageNumber !== 1)) continue;
+      const retryAt = page.retryAt ? Date.parse(page.retryAt) : 0;
+      if (retryAt > now) {
+        nextRetry = Math.min(nextRetry, retryAt);
+      } else if (runner.running < CONCURRENCY) {
+        void runPage(job, page);
+      }
+    }
+  }
+
+  if (nextRetry < Infinity) {
+    runner.timer = setTimeout(pump, nextRetry - now);
+  }
+}
+
+async function runPage(job: GenerationJob, page: PageJob): Promise<void> {
+  runner.running++;
+  page.status = "running";
+  page.attempts++;
+  delete page.retryAt;
+  let retry = true;
+
+  try {
+    await saveJob(job);
+    const zine = await getZine(job.zineId);
+    if (!zine) {
+      retry = false;
+      throw new Error("Zine not found");
+    }
+
+    const generated = await generateZinePage(zine, page.pageNumber, {
+      provider: job.provider,
+      job: { id: job.id, attempt: page.attempts },
+    });
+    page.status = "done";
+    page.provider = generated.provider;
+    page.fallback = generated.fallback;
+    page.finishedAt = new Date().toISOString();
+    delete page.error;
+  } catch (error) {
+    console.error(`Job ${job.id}: page ${page.pageNumber} failed (attempt ${page.attempts}):`, error);
+    page.error = error instanceof Error ? error.message : "Failed to generate page";
+    if (job.cancelledAt) {
+      page.status = "cancelled";
+    } else if (retry && page.attempts < MAX_ATTEMPTS) {
+      page.status = "queued";
+      page.retryAt = new Date(Date.now() + RETRY_DELAY_MS * 2 ** (page.attempts - 1)).toISOString();
+    } else {
+      page.status = "failed";
+      page.finishedAt = new Date().toISOString();
+    }
+  } finally {
+    runner.running--;
+    await saveJob(job).catch((error) => console.error(`Failed to save job ${job.id}:`, error));
+    pump();
+  }
+}
+
+/**
+ * Queue a zine's pages for generation; they run in the background, a few at
+ * a time, and failed attempts are retried with backoff. One job per zine at
+ * a time, so two don't draw the same pages: while the zine has an active job,
+ * nothing is queued and that job comes back with queued false
+ */
+export async function enqueueZinePages(
+  zineId: string,
+  pageNumbers: number[],
+  provider?: string | string[]
+): Promise<{ job: GenerationJob; queued: boolean }> {
+  await startJobRunner();
+  // Checked and registered with no await in between, so concurrent requests can't both start a job
+  const active = findActiveZineJob(zineId);
+  if (active) {
+    return { job: active, queued: false };
+  }
+
+  const now = new Date().toISOString();
+  const job: GenerationJob = {
+    id: `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    zineId,
+    status: "queued",
+    ...(provider ? { provider } : {}),
+    pages: pageNumbers.map((pageNumber) => ({ pageNumber, status: "queued", attempts: 0 })),
+    createdAt: now,
+    updatedAt: now,
+  };
+  runner.jobs.set(job.id, job);
+
+  try {
+    await saveJob(job);
+  } catch (error) {
+    runner.jobs.delete(job.id);
+    throw error;
+  }
+  pump();
+  return { job, queued: true };
+}
+
+export async function getJob(id: string): Promise<GenerationJob | null> {
+  await startJobRunner();
+  return runner.jobs.get(id) ?? null;
+}
+
+// A zine's jobs, newest first
+export async function listZineJobs(zineId: string): Promise<GenerationJob[]> {
+  await startJobRunner();
+  return Array.from(runner.jobs.values())
+    .filter((job) => job.zineId === zineId)
+    .reverse();
+}
+
+// Stop a job: its queued pages are cancelled; pages already running finish
+export async function cancelJob(id: string): Promise<GenerationJob | null> {
+  const job = await getJob(id);
+  if (!job) {
+    return null;
+  }
+  job.cancelledAt = new Date().toISOString();
+  for (const page of job.pages) {
+    if (page.status === "queued") {
+      page.status = "cancelled";
+      delete page.retryAt;
+    }
+  }
+  await saveJob(job);
+  return job;
+}
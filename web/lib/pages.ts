@@ -0,0 +1,466 @@
+import { describeCoverStyle, type PageOutline } from "./gemini";
+import { generatePageImage, resolveProviderChain } from "./providers";
+import {
+  getZine,
+  getZinePageCount,
+  getPageImagePath,
+  readFileAsBuffer,
+  savePageVersion,
+  restorePageVersion,
+  savePageDrafts,
+  pickPageDraft,
+  MAX_PAGE_DRAFTS,
+  setPageTransform,
+  setPageTextLayer,
+  updateZine,
+  type PageDraft,
+  type PageVersion,
+  type StoredZine,
+} from "./storage";
+import { emitZineEvent } from "./events";
+import {
+  resolveZinePaper,
+  createPageTextLayer,
+  describeZineStyle,
+  readStyleReferences,
+  createStyleBible,
+  describeStyleBible,
+  getZineSeed,
+  readPageReferences,
+  type StyleBible,
+  type TextLayer,
+} from "./zine";
+
+export interface GeneratedPage {
+  pageNumber: number;
+  imageUrl: string;
+  textLayer: TextLayer | null;
+  provider: string;
+  fallback: boolean;
+}
+
+export interface PageGenerationOptions {
+  outline?: PageOutline; // Default: the zine's outline for the page
+  style?: string; // Default: the zine's
+  tone?: string; // Default: the zine's
+  provider?: string | string[]; // Provider chain (default: the zine's, then IMAGE_PROVIDER)
+  feedback?: string; // Refinement feedback the outline was changed for, kept with the page's version
+  job?: { id: string; attempt: number }; // Job running the page (lib/jobs.ts), for its events
+}
+
+/**
+ * Generate a page's image with the provider chain and store it in the zine,
+ * as POST /api/generate-page and the job queue (lib/jobs.ts) do; subscribers
+ * to the zine's events hear when the page starts, is done or fails
+ */
+export async function generateZinePage(
+  zine: StoredZine,
+  pageNumber: number,
+  options: PageGenerationOptions = {}
+): Promise<GeneratedPage> {
+  const selection = options.provider || zine.imageProvider;
+  const jobInfo = options.job ? { jobId: options.job.id, attempt: options.job.attempt } : {};
+  const providers = resolveProviderChain(selection);
+
+  emitZineEvent(zine.id, "page-started", { pageNumber, providers, ...jobInfo });
+  try {
+    const generated = await generateAndStorePage(zine, pageNumber, { ...options, provider: selection });
+    emitZineEvent(zine.id, "page-done", {
+      pageNumber,
+      provider: generated.provider,
+      fallback: generated.fallback,
+      imageUrl: generated.imageUrl,
+      textLayer: generated.textLayer,
+      ...jobInfo,
+    });
+    return generated;
+  } catch (error) {
+    emitZineEvent(zine.id, "page-failed", {
+      pageNumber,
+      providers,
+      error: error instanceof Error ? error.message : "Failed to generate page",
+      ...jobInfo,
+    });
+    throw error;
+  }
+}
+
+export interface GeneratedDrafts {
+  pageNumber: number;
+  drafts: { draft: number; imageUrl: string; provider?: string; fallback?: boolean }[];
+  failed: { providers: string[]; error: string }[]; // Candidates that couldn't be generated
+}
+
+/**
+ * Generate several candidate images for a page and store them as drafts, for
+ * the user to pick one (pickZinePageDraft); the page itself is unchanged.
+ * candidates is how many to draw with the provider chain, or a list of
+ * provider chains to draw one each with (e.g. ["gemini", "openai,local"]).
+ */
+export async function generateZinePageDrafts(
+  zine: StoredZine,
+  pageNumber: number,
+  candidates: number | (string | string[])[],
+  options: PageGenerationOptions = {}
+): Promise<GeneratedDrafts> {
+  const selection = options.provider || zine.imageProvider;
+  const chains = (typeof candidates === "number" ? Array(candidates).fill(selection) : candidates).map(
+    (chain: string | string[] | undefined) => resolveProviderChain(chain)
+  );
+  if (chains.length < 1 || chains.length > MAX_PAGE_DRAFTS) {
+    throw new Error(`Candidates must be between 1 and ${MAX_PAGE_DRAFTS}`);
+  }
+
+  emitZineEvent(zine.id, "page-started", {
+    pageNumber,
+    providers: Array.from(new Set(chains.flat())),
+    candidates: chains.length,
+  });
+  try {
+    const { pageOutline, request } = await preparePageImage(zine, pageNumber, options);
+
+    // Candidates are drawn at the same time, each with its own seed (or they'd come out alike); the ones that fail are left out
+    const results = await Promise.allSettled(
+      chains.map((chain, i) => generatePageImage({ ...request, seed: (request.seed + i) % 2 ** 31 }, chain))
+    );
+    const generated = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    const failed = results.flatMap((result, i) =>
+      result.status === "rejected"
+        ? [{ providers: chains[i], error: result.reason instanceof Error ? result.reason.message : "Failed to generate image" }]
+        : []
+    );
+    if (generated.length === 0) {
+      throw new Error(failed.map((candidate) => candidate.error).join("; "));
+    }
+
+    let drafts: PageDraft[] = [];
+    const updated = await updateZine(zine.id, async (stored) => {
+      drafts = await savePageDrafts(
+        stored,
+        pageNumber,
+        generated.map((image) => ({
+          imageData: image.imageBase64,
+          outline: pageOutline,
+          feedback: options.feedback,
+          provider: image.provider,
+          fallback: image.fallback,
+        }))
+      );
+    });
+    if (!updated) {
+      throw new Error("Zine not found");
+    }
+
+    const result: GeneratedDrafts = {
+      pageNumber,
+      drafts: drafts.map((draft) => ({
+        draft: draft.draft,
+        // Each round of drafts reuses the file names, so the URL changes with the round
+        imageUrl: `/api/zine/${zine.id}?image=p${pageNumber}&draft=${draft.draft}&t=${Date.parse(draft.createdAt)}`,
+        provider: draft.provider,
+        fallback: draft.fallback,
+      })),
+      failed,
+    };
+    emitZineEvent(zine.id, "page-drafts", { ...result });
+    return result;
+  } catch (error) {
+    emitZineEvent(zine.id, "page-failed", {
+      pageNumber,
+      providers: Array.from(new Set(chains.flat())),
+      error: error instanceof Error ? error.message : "Failed to generate page",
+    });
+    throw error;
+  }
+}
+
+/**
+ * Make one of a page's drafts the page (its next version): the other drafts
+ * are dropped, and the page takes the draft's outline and, with a text
+ * overlay, text set from it unless the page has text for that outline already
+ */
+export async function pickZinePageDraft(
+  zineId: string,
+  pageNumber: number,
+  draftNumber: number
+): Promise<{ zine: StoredZine; draft: PageDraft } | null> {
+  let draft: PageDraft | null = null;
+  const zine = await updateZine(zineId, async (stored) => {
+    const previousOutline = stored.outline?.[pageNumber - 1];
+    const picked = await pickPageDraft(stored, pageNumber, draftNumber);
+    if (!picked) {
+      return;
+    }
+    draft = picked.draft;
+    setPageTransform(stored, pageNumber, null);
+
+    const outline = picked.draft.outline;
+    const outlineChanged = Boolean(outline) && JSON.stringify(outline) !== JSON.stringify(previousOutline);
+    if (outline && stored.outline) {
+      stored.outline[pageNumber - 1] = outline;
+    }
+    if (outline && stored.textOverlay && (outlineChanged || !stored.textLayers?.[pageNumber - 1])) {
+      setPageTextLayer(
+        stored,
+        pageNumber,
+        await createPageTextLayer(
+          outline,
+          { paperFormat: stored.paperFormat, dpi: stored.dpi, scheme: stored.printScheme },
+          stored.style,
+          picked.draft.provider === "local"
+        )
+      );
+    }
+  });
+  if (!zine || !draft) {
+    return null;
+  }
+  await refreshStyleBible(zineId, pageNumber);
+
+  const picked: PageDraft = draft;
+  emitZineEvent(zineId, "page-done", {
+    pageNumber,
+    provider: picked.provider,
+    fallback: picked.fallback ?? false,
+    imageUrl: `/api/zine/${zineId}?image=p${pageNumber}`,
+    textLayer: zine.textLayers?.[pageNumber - 1] ?? null,
+    draft: picked.draft,
+  });
+  return { zine, draft: picked };
+}
+
+// Everything a page's image is generated from: the prompt, panel size, seed, and style and page references
+async function preparePageImage(
+  zine: StoredZine,
+  pageNumber: number,
+  { outline, style = zine.style, tone = zine.tone }: PageGenerationOptions
+) {
+  const pageCount = getZinePageCount(zine);
+  const pageOutline = outline || zine.outline?.[pageNumber - 1];
+  if (!pageOutline) {
+    throw new Error(`Page ${pageNumber} has no outline`);
+  }
+
+  // The style and tone's prompts come from the style registry (built-in or user-defined)
+  const prompts = await describeZineStyle(style, tone);
+
+  // Page images are rendered at the panel size of the zine's paper format
+  const paperOptions = { paperFormat: zine.paperFormat, dpi: zine.dpi, scheme: zine.printScheme };
+  const paper = await resolveZinePaper(paperOptions);
+  // Zines with a text overlay get their lettering from the app, so the art is asked for without any
+  const textOverlay = Boolean(zine.textOverlay);
+
+  // The style bible, seed and the zine's other pages keep this page looking like the rest
+  const [styleBible, seed, pageReferences] = await Promise.all([
+    describeStyleBible(zine.styleBible),
+    getZineSeed(zine),
+    readPageReferences(zine.id, pageNumber, pageCount),
+  ]);
+
+  // Build the full image generation prompt
+  const fullPrompt = buildImagePrompt(
+    pageOutline,
+    prompts.style,
+    prompts.tone,
+    pageCount,
+    paper.panelWidth,
+    paper.panelHeight,
+    textOverlay,
+    styleBible
+  );
+
+  return {
+    pageOutline,
+    paperOptions,
+    style,
+    textOverlay,
+    request: {
+      prompt: fullPrompt,
+      outline: pageOutline,
+      style,
+      width: paper.panelWidth,
+      height: paper.panelHeight,
+      dpi: paper.dpi,
+      textOverlay,
+      references: await readStyleReferences(style),
+      pageReferences,
+      seed,
+    },
+  };
+}
+
+async function generateAndStorePage(
+  zine: StoredZine,
+  pageNumber: number,
+  options: PageGenerationOptions
+): Promise<GeneratedPage> {
+  const { pageOutline, paperOptions, style, textOverlay, request } = await preparePageImage(zine, pageNumber, options);
+
+  // Walk the configured provider chain (request > zine > IMAGE_PROVIDER env)
+  const generated = await generatePageImage(request, options.provider);
+
+  // Pages drawn from their template get the words in the template's text slots
+  const textLayer = textOverlay
+    ? await createPageTextLayer(pageOutline, paperOptions, style, generated.provider === "local")
+    : null;
+
+  // Save the image as the page's next version and update zine metadata; a new image starts out whole and centred
+  const updated = await updateZine(zine.id, async (stored) => {
+    await savePageVersion(stored, pageNumber, generated.imageBase64, {
+      outline: pageOutline,
+      feedback: options.feedback,
+      provider: generated.provider,
+    });
+    setPageTransform(stored, pageNumber, null);
+    // Text already set for the page (maybe edited) stays; new pages get theirs from the outline
+    if (textLayer && !stored.textLayers?.[pageNumber - 1]) {
+      setPageTextLayer(stored, pageNumber, textLayer);
+    }
+  });
+  if (!updated) {
+    throw new Error("Zine not found");
+  }
+  await refreshStyleBible(zine.id, pageNumber);
+
+  return {
+    pageNumber,
+    imageUrl: `/api/zine/${zine.id}?image=p${pageNumber}`,
+    textLayer: updated.textLayers?.[pageNumber - 1] ?? null,
+    provider: generated.provider,
+    fallback: generated.fallback,
+  };
+}
+
+/**
+ * Show an earlier version of a page again: its image, and its outline and
+ * text (for zines with a text overlay) when the version has an outline
+ */
+export async function restoreZinePageVersion(
+  zineId: string,
+  pageNumber: number,
+  versionNumber: number
+): Promise<{ zine: StoredZine; version: PageVersion } | null> {
+  let version: PageVersion | null = null;
+  const zine = await updateZine(zineId, async (stored) => {
+    version = await restorePageVersion(stored, pageNumber, versionNumber);
+    if (!version) {
+      return;
+    }
+    setPageTransform(stored, pageNumber, null);
+    if (version.outline && stored.outline) {
+      stored.outline[pageNumber - 1] = version.outline;
+      if (stored.textOverlay) {
+        setPageTextLayer(
+          stored,
+          pageNumber,
+          await createPageTextLayer(
+            version.outline,
+            { paperFormat: stored.paperFormat, dpi: stored.dpi, scheme: stored.printScheme },
+            stored.style,
+            version.provider === "local"
+          )
+        );
+      }
+    }
+  });
+  if (!zine || !version) {
+    return null;
+  }
+  await refreshStyleBible(zineId, pageNumber);
+  return { zine, version };
+}
+
+/**
+ * Derive the zine's style bible from its cover (page 1): the palette from its
+ * pixels and, with a Gemini API key, its characters and motifs as Gemini sees
+ * them. A bible the user set is kept unless force is set. Returns the zine's
+ * bible afterwards, or null for a zine that doesn't exist.
+ */
+export async function updateStyleBibleFromCover(zineId: string, force: boolean = false): Promise<StyleBible | null> {
+  const zine = await getZine(zineId);
+  if (!zine) {
+    return null;
+  }
+  const coverPath = await getPageImagePath(zineId, 1);
+  if (!coverPath || (zine.styleBible?.source === "user" && !force)) {
+    return zine.styleBible ?? null;
+  }
+
+  const cover = await readFileAsBuffer(coverPath);
+  let details = {};
+  if (process.env.GEMINI_API_KEY) {
+    try {
+      details = await describeCoverStyle(cover.toString("base64"), zine.topic);
+    } catch (error) {
+      console.error(`Failed to describe the cover of ${zineId}, keeping its palette only:`, error);
+    }
+  }
+  const styleBible = await createStyleBible(cover, details);
+
+  let saved = false;
+  const updated = await updateZine(zineId, async (stored) => {
+    // The user may have set one in the meantime
+    if (stored.styleBible?.source !== "user" || force) {
+      stored.styleBible = styleBible;
+      saved = true;
+    }
+  });
+  if (saved) {
+    emitZineEvent(zineId, "style-bible", { styleBible });
+  }
+  return updated?.styleBible ?? null;
+}
+
+/**
+ * After a page's image changes: a new cover gets the zine a new style bible
+ * (unless the user set one). Failures are only logged; the page stands.
+ */
+export async function refreshStyleBible(zineId: string, pageNumber: number): Promise<void> {
+  if (pageNumber !== 1) {
+    return;
+  }
+  try {
+    await updateStyleBibleFromCover(zineId);
+  } catch (error) {
+    console.error(`Failed to update the style bible of ${zineId}:`, error);
+  }
+}
+
+function buildImagePrompt(
+  outline: PageOutline,
+  stylePrompt: string,
+  tonePrompt: string,
+  pageCount: number,
+  width: number,
+  height: number,
+  textOverlay: boolean = false,
+  styleBible: string = ""
+): string {
+  const typography = textOverlay
+    ? `- Artwork only: NO text, letters, numbers or logos anywhere in the image
+- The title and text are printed over it later, so keep the top fifth and the lower third calm`
+    : "- Include any text/typography as part of the graphic design";
+  // Panels are portrait on the usual sheets, but a custom paper size can make them square or landscape
+  const orientation = height > width ? "portrait" : width > height ? "landscape" : "square";
+
+  return `Create a single zine page image (${orientation} orientation, ${width}x${height} pixels aspect ratio).
+
+PAGE ${outline.pageNumber} OF ${pageCount}: "${outline.title}"
+Type: ${outline.type}
+
+Content to visualize:
+${outline.keyPoints.map((p, i) => `${i + 1}. ${p}`).join("\n")}
+
+Visual Style: ${stylePrompt}
+Mood/Tone: ${tonePrompt}
+
+Detailed requirements:
+${outline.imagePrompt}
+${styleBible ? `\n${styleBible}\n` : ""}
+IMPORTANT:
+- This is a SINGLE page that will be printed
+${typography}
+- Fill the entire page - no blank margins
+- Make it visually striking and cohesive
+- The design should work in print (high contrast, clear details)`;
+}
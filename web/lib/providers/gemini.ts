@@ -0,0 +1,68 @@
+import type { ImageProvider, ImageRequest } from "./index";
+
+// Pull the first inline image out of a Gemini generateContent response
+export function extractInlineImage(data: any): string | null {
+  const parts = data.candidates?.[0]?.content?.parts || [];
+  for (const part of parts) {
+    if (part.inlineData?.mimeType?.startsWith("image/")) {
+      return part.inlineData.data;
+    }
+  }
+  return null;
+}
+
+// Request parts: the prompt, then any reference images of the style, then the zine's other pages, for the model to match
+export function createPromptParts({ prompt, references = [], pageReferences = [] }: ImageRequest): object[] {
+  const notes = [
+    references.length > 0 ? `The first ${references.length} image(s) after this text show the style: match their look.` : "",
+    pageReferences.length > 0
+      ? `The last ${pageReferences.length} image(s) are other pages of this zine, the cover first: keep their palette, characters and motifs, but don't copy their layout or content.`
+      : "",
+  ].filter(Boolean);
+  return [
+    { text: `Generate an image: ${prompt}${notes.length > 0 ? `\n\n${notes.join("\n")}` : ""}` },
+    ...[...references, ...pageReferences].map((data) => ({ inlineData: { mimeType: "image/png", data } })),
+  ];
+}
+
+// Generation settings: image output, and the zine's seed so its pages come out of the same draw
+export function createGenerationConfig({ seed }: ImageRequest): object {
+  return { responseModalities: ["TEXT", "IMAGE"], ...(seed !== undefined ? { seed } : {}) };
+}
+
+// Direct Gemini API (will fail in geo-restricted regions)
+export const directGeminiProvider: ImageProvider = {
+  name: "gemini",
+
+  isAvailable() {
+    return Boolean(process.env.GEMINI_API_KEY);
+  },
+
+  async generate(request: ImageRequest): Promise<string | null> {
+    const apiKey = process.env.GEMINI_API_KEY;
+    const geminiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`;
+
+    const response = await fetch(geminiUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        contents: [{ parts: createPromptParts(request) }],
+        generationConfig: createGenerationConfig(request),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Direct Gemini API error:", response.status, errorText);
+      return null;
+    }
+
+    const data = await response.json();
+    if (data.error) {
+      console.error("Gemini API error:", data.error);
+      return null;
+    }
+
+    return extractInlineImage(data);
+  },
+};
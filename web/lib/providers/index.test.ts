@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PageOutline } from "../gemini";
+import {
+  generatePageImage,
+  parseProviderChain,
+  registerImageProvider,
+  resolveProviderChain,
+  type ImageProvider,
+  type ImageRequest,
+} from "./index";
+
+const outline: PageOutline = {
+  pageNumber: 1,
+  type: "cover",
+  title: "Mycelium",
+  keyPoints: [],
+  imagePrompt: "A mushroom",
+};
+
+function createProvider(name: string, generate: (request: ImageRequest) => Promise<string | null>, available = true) {
+  const provider: ImageProvider = { name, isAvailable: () => available, generate: vi.fn(generate) };
+  registerImageProvider(provider);
+  return provider;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("parseProviderChain", () => {
+  it("splits comma-separated names and accepts arrays", () => {
+    expect(parseProviderChain("local")).toEqual(["local"]);
+    expect(parseProviderChain(" openai , local ,")).toEqual(["openai", "local"]);
+    expect(parseProviderChain(["gemini", "local"])).toEqual(["gemini", "local"]);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => parseProviderChain("local,dall-e")).toThrow("Unknown image provider: dall-e");
+  });
+
+  it("rejects selections that are neither names nor lists of names", () => {
+    for (const selection of [42, { name: "local" }, ["local", 1], null]) {
+      expect(() => parseProviderChain(selection as unknown as string)).toThrow("Image provider must be a name");
+    }
+  });
+});
+
+describe("resolveProviderChain", () => {
+  it("prefers the selection, then IMAGE_PROVIDER, then the default chain", () => {
+    vi.stubEnv("IMAGE_PROVIDER", "openai,local");
+    expect(resolveProviderChain("gemini")).toEqual(["gemini"]);
+    expect(resolveProviderChain([])).toEqual(["openai", "local"]);
+
+    vi.stubEnv("IMAGE_PROVIDER", "");
+    expect(resolveProviderChain(null)).toEqual(["runpod-gemini", "gemini", "local"]);
+  });
+});
+
+describe("generatePageImage", () => {
+  it("returns the first provider's image, at the default panel size", async () => {
+    const first = createProvider("test-first", async () => "aW1hZ2U=");
+
+    await expect(generatePageImage({ prompt: "p", outline, style: "punk-zine" }, "test-first")).resolves.toEqual({
+      imageBase64: "aW1hZ2U=",
+      provider: "test-first",
+      fallback: false,
+    });
+    expect(first.generate).toHaveBeenCalledWith(expect.objectContaining({ width: 825, height: 1275 }));
+  });
+
+  it("falls back past unavailable, empty and failing providers", async () => {
+    createProvider("test-unavailable", async () => "bm9wZQ==", false);
+    createProvider("test-empty", async () => null);
+    createProvider("test-broken", async () => {
+      throw new Error("Quota exceeded");
+    });
+    createProvider("test-last", async () => "bGFzdA==");
+
+    const generated = await generatePageImage(
+      { prompt: "p", outline, style: "punk-zine", width: 100, height: 200 },
+      "test-unavailable,test-empty,test-broken,test-last"
+    );
+
+    expect(generated).toEqual({ imageBase64: "bGFzdA==", provider: "test-last", fallback: true });
+  });
+
+  it("fails when every provider does", async () => {
+    createProvider("test-empty", async () => null);
+
+    await expect(generatePageImage({ prompt: "p", outline, style: "punk-zine" }, ["test-empty"])).rejects.toThrow(
+      "All image providers failed: test-empty"
+    );
+  });
+});
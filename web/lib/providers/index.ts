@@ -0,0 +1,137 @@
+import type { PageOutline } from "../gemini";
+import { runpodGeminiProvider } from "./runpod";
+import { directGeminiProvider } from "./gemini";
+import { openaiImagesProvider } from "./openai";
+import { localProvider } from "./local";
+
+// Panel size of the classic mini-zine at 300 DPI
+const DEFAULT_WIDTH = 825;
+const DEFAULT_HEIGHT = 1275;
+
+// Used when neither the request, the zine nor IMAGE_PROVIDER pick a chain
+const DEFAULT_CHAIN = ["runpod-gemini", "gemini", "local"];
+
+export interface ImageRequest {
+  prompt: string;
+  outline: PageOutline;
+  style: string;
+  width: number;
+  height: number;
+  dpi?: number; // Print resolution the page is sized for (default 300), for point sizes
+  textOverlay?: boolean; // The app sets the page's text over the art, so the image should have none
+  references?: string[]; // Base64 PNGs of the style's reference images, for providers that take images
+  pageReferences?: string[]; // Base64 PNGs of the zine's other pages (cover first), to keep the look consistent
+  seed?: number; // The zine's image seed (src/consistency.mjs), for providers that take one
+}
+
+export interface ImageProvider {
+  name: string;
+  // Whether the provider has the credentials/config it needs to run
+  isAvailable(): boolean;
+  // Returns base64-encoded image data, or null if generation failed
+  generate(request: ImageRequest): Promise<string | null>;
+}
+
+export interface GeneratedImage {
+  imageBase64: string;
+  provider: string;
+  // True when an earlier provider in the chain failed or was unavailable
+  fallback: boolean;
+}
+
+const providers = new Map<string, ImageProvider>();
+
+export function registerImageProvider(provider: ImageProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getImageProvider(name: string): ImageProvider | undefined {
+  return providers.get(name);
+}
+
+export function listImageProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Parse a provider selection ("local" or "runpod-gemini,local") into a chain.
+ * Throws on unknown provider names so bad config fails loudly.
+ */
+export function parseProviderChain(selection: string | string[]): string[] {
+  // Selections come straight from request bodies, so check the shape before splitting
+  if (typeof selection !== "string" && !(Array.isArray(selection) && selection.every((name) => typeof name === "string"))) {
+    throw new Error("Image provider must be a name, a comma-separated list of names or an array of names");
+  }
+
+  const names = (Array.isArray(selection) ? selection : selection.split(","))
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  for (const name of names) {
+    if (!providers.has(name)) {
+      throw new Error(
+        `Unknown image provider: ${name}. Available: ${listImageProviders().join(", ")}`
+      );
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Resolve which providers to try, in order of precedence:
+ * explicit selection (request/zine) > IMAGE_PROVIDER env > default chain
+ */
+export function resolveProviderChain(selection?: string | string[] | null): string[] {
+  if (selection && selection.length > 0) {
+    return parseProviderChain(selection);
+  }
+  if (process.env.IMAGE_PROVIDER) {
+    return parseProviderChain(process.env.IMAGE_PROVIDER);
+  }
+  return DEFAULT_CHAIN;
+}
+
+/**
+ * Generate a page image by walking the provider chain until one succeeds.
+ */
+export async function generatePageImage(
+  request: Omit<ImageRequest, "width" | "height"> & Partial<Pick<ImageRequest, "width" | "height">>,
+  selection?: string | string[] | null
+): Promise<GeneratedImage> {
+  const chain = resolveProviderChain(selection);
+  const fullRequest: ImageRequest = {
+    width: DEFAULT_WIDTH,
+    height: DEFAULT_HEIGHT,
+    ...request,
+  };
+
+  let fallback = false;
+  for (const name of chain) {
+    const provider = providers.get(name)!;
+
+    if (!provider.isAvailable()) {
+      console.log(`⚠️ Image provider ${name} not configured, skipping`);
+      fallback = true;
+      continue;
+    }
+
+    try {
+      const imageBase64 = await provider.generate(fullRequest);
+      if (imageBase64) {
+        console.log(`✅ Generated page ${request.outline.pageNumber} with ${name}`);
+        return { imageBase64, provider: name, fallback };
+      }
+    } catch (error) {
+      console.error(`Image provider ${name} error:`, error);
+    }
+    fallback = true;
+  }
+
+  throw new Error(`All image providers failed: ${chain.join(", ")}`);
+}
+
+registerImageProvider(runpodGeminiProvider);
+registerImageProvider(directGeminiProvider);
+registerImageProvider(openaiImagesProvider);
+registerImageProvider(localProvider);
@@ -0,0 +1,19 @@
+import type { ImageProvider, ImageRequest } from "./index";
+import { renderPageFromTemplate } from "../zine";
+
+// Deterministic renderer - draws the page from its outline template
+// (src/templates.mjs) and never touches the network, so it is safe for
+// offline dev and CI and is the last resort in the default chain
+export const localProvider: ImageProvider = {
+  name: "local",
+
+  isAvailable() {
+    return true;
+  },
+
+  async generate({ outline, style, width, height, dpi, textOverlay }: ImageRequest): Promise<string | null> {
+    // With a text overlay the words go in the page's text layer instead
+    const image = await renderPageFromTemplate(outline, { width, height, dpi, style, withText: !textOverlay });
+    return image.toString("base64");
+  },
+};
@@ -0,0 +1,43 @@
+import type { ImageProvider, ImageRequest } from "./index";
+
+// Any OpenAI-compatible /images/generations endpoint (OpenAI, LocalAI, vLLM, ...)
+export const openaiImagesProvider: ImageProvider = {
+  name: "openai",
+
+  isAvailable() {
+    return Boolean(process.env.OPENAI_API_KEY);
+  },
+
+  async generate({ prompt, width, height }: ImageRequest): Promise<string | null> {
+    const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+    const model = process.env.OPENAI_IMAGE_MODEL || "gpt-image-1";
+
+    // Image APIs only accept a few fixed sizes - pick the closest orientation
+    const size = height > width ? "1024x1536" : width > height ? "1536x1024" : "1024x1024";
+
+    const response = await fetch(`${baseUrl}/images/generations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model,
+        prompt,
+        n: 1,
+        size,
+        // gpt-image models always return base64; DALL-E needs to be asked
+        ...(model.startsWith("dall-e") ? { response_format: "b64_json" } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("OpenAI images API error:", response.status, errorText);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.data?.[0]?.b64_json || null;
+  },
+};
@@ -0,0 +1,68 @@
+import type { ImageProvider, ImageRequest } from "./index";
+import { extractInlineImage, createPromptParts, createGenerationConfig } from "./gemini";
+
+// Gemini 2.0 Flash with native image generation (Nano Banana)
+// Uses RunPod serverless proxy (US-based) to bypass geo-restrictions
+export const runpodGeminiProvider: ImageProvider = {
+  name: "runpod-gemini",
+
+  isAvailable() {
+    return Boolean(process.env.RUNPOD_API_KEY && process.env.GEMINI_API_KEY);
+  },
+
+  async generate(request: ImageRequest): Promise<string | null> {
+    const runpodEndpointId = process.env.RUNPOD_GEMINI_ENDPOINT_ID || "ntqjz8cdsth42i";
+    const runpodUrl = `https://api.runpod.ai/v2/${runpodEndpointId}/runsync`;
+
+    try {
+      const response = await fetch(runpodUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${process.env.RUNPOD_API_KEY}`,
+        },
+        body: JSON.stringify({
+          input: {
+            api_key: process.env.GEMINI_API_KEY,
+            model: "gemini-2.0-flash-exp",
+            contents: [
+              {
+                parts: createPromptParts(request),
+              },
+            ],
+            generationConfig: createGenerationConfig(request),
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("RunPod API error:", response.status, errorText);
+        return null;
+      }
+
+      const result = await response.json();
+
+      // RunPod wraps the response in { output: ... }
+      const data = result.output || result;
+
+      // Check for errors
+      if (data.error) {
+        console.error("Gemini API error via RunPod:", data.error);
+        return null;
+      }
+
+      const image = extractInlineImage(data);
+      if (!image) {
+        console.error(
+          "No image in Gemini response via RunPod, parts:",
+          JSON.stringify(data.candidates?.[0]?.content?.parts || []).slice(0, 500)
+        );
+      }
+      return image;
+    } catch (error) {
+      console.error("RunPod request error:", error);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,148 @@
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearPageDrafts,
+  getPageDraftPath,
+  getPageImagePath,
+  getPageVersionPath,
+  getZine,
+  pickPageDraft,
+  restorePageVersion,
+  saveZine,
+  savePageDrafts,
+  savePageImage,
+  savePageVersion,
+  type StoredZine,
+} from "./storage";
+
+// DATA_DIR is read when storage.ts loads, so it's set before the imports run
+const dataDir = await vi.hoisted(async () => {
+  const { mkdtemp } = await import("fs/promises");
+  const os = await import("os");
+  const { join } = await import("path");
+  const dir = await mkdtemp(join(os.tmpdir(), "mycrozine-storage-"));
+  process.env.DATA_DIR = dir;
+  return dir;
+});
+
+const zinesDir = path.join(dataDir, "zines");
+// A file outside the zine that a hostile zine.json points at
+const outside = path.join(dataDir, "secret.txt");
+const NOW = "2026-01-01T00:00:00.000Z";
+
+function createZine(overrides: Partial<StoredZine> = {}): StoredZine {
+  return {
+    id: "zine-1",
+    topic: "Mycelium",
+    style: "punk-zine",
+    tone: "rebellious",
+    pageCount: 8,
+    outline: null,
+    pages: [],
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function createImage(format: "png" | "jpeg", background = "#ff0000"): Promise<Buffer> {
+  return sharp({ create: { width: 8, height: 12, channels: 3, background } })[format]().toBuffer();
+}
+
+beforeEach(async () => {
+  await fs.rm(zinesDir, { recursive: true, force: true });
+  await fs.writeFile(outside, "secret");
+});
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("page images", () => {
+  it("finds a page's image with any of the manifest's extensions", async () => {
+    await saveZine(createZine());
+    await fs.mkdir(path.join(zinesDir, "zine-1", "pages"));
+    await fs.writeFile(path.join(zinesDir, "zine-1", "pages", "p2.jpg"), await createImage("jpeg"));
+
+    expect(await getPageImagePath("zine-1", 2)).toBe(path.join(zinesDir, "zine-1", "pages", "p2.jpg"));
+    expect(await getPageImagePath("zine-1", 3)).toBeNull();
+
+    await savePageImage("zine-1", 2, await createImage("png"));
+    expect(await getPageImagePath("zine-1", 2)).toBe(path.join(zinesDir, "zine-1", "pages", "p2.png"));
+    await expect(fs.access(path.join(zinesDir, "zine-1", "pages", "p2.jpg"))).rejects.toThrow();
+  });
+});
+
+describe("page versions and drafts", () => {
+  it("keeps a JPEG page as a PNG version 1, and restores it", async () => {
+    const zine = createZine();
+    await saveZine(zine);
+    await fs.mkdir(path.join(zinesDir, "zine-1", "pages"));
+    await fs.writeFile(path.join(zinesDir, "zine-1", "pages", "p1.jpg"), await createImage("jpeg"));
+
+    const version = await savePageVersion(zine, 1, await createImage("png", "#0000ff"), { provider: "local" });
+    expect(version).toMatchObject({ version: 2, image: "pages/history/p1-v2.png", provider: "local" });
+    const first = await getPageVersionPath(zine, 1, 1);
+    expect((await sharp(first!).metadata()).format).toBe("png");
+
+    expect(await restorePageVersion(zine, 1, 1)).toMatchObject({ version: 1 });
+    expect(zine.pageHistory?.[0]?.current).toBe(1);
+    expect(await restorePageVersion(zine, 1, 9)).toBeNull();
+  });
+
+  it("makes a picked draft the page's next version and drops the rest", async () => {
+    const zine = createZine();
+    await saveZine(zine);
+
+    const drafts = await savePageDrafts(zine, 3, [
+      { imageData: await createImage("png", "#00ff00"), provider: "local" },
+      { imageData: await createImage("png", "#0000ff"), provider: "local" },
+    ]);
+    expect(drafts.map((draft) => draft.image)).toEqual(["pages/drafts/p3-d1.png", "pages/drafts/p3-d2.png"]);
+    expect(await getPageDraftPath(zine, 3, 2)).toBe(path.join(zinesDir, "zine-1", "pages", "drafts", "p3-d2.png"));
+
+    const picked = await pickPageDraft(zine, 3, 2);
+    expect(picked?.version).toMatchObject({ version: 1, image: "pages/history/p3-v1.png" });
+    expect(zine.pageDrafts?.[2] ?? null).toBeNull();
+    await expect(fs.readdir(path.join(zinesDir, "zine-1", "pages", "drafts"))).resolves.toEqual([]);
+    expect(await pickPageDraft(zine, 3, 2)).toBeNull();
+  });
+});
+
+describe("paths in zine.json", () => {
+  const hostileVersion = { version: 1, image: "../../secret.txt", createdAt: NOW };
+  const hostileDraft = { draft: 1, image: "../../secret.txt", createdAt: NOW };
+
+  it("refuses a zine.json whose versions or drafts lead out of the zine", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await saveZine(createZine({ pageHistory: [{ current: 1, versions: [{ ...hostileVersion, image: "pages/history/p1-v1.png" }] }] }));
+    expect(await getZine("zine-1")).not.toBeNull();
+
+    for (const overrides of [
+      { pageHistory: [{ current: 1, versions: [hostileVersion] }] },
+      { pageDrafts: [[hostileDraft]] },
+      { pageDrafts: [[{ ...hostileDraft, image: "pages/drafts/../../../secret.txt" }]] },
+    ]) {
+      await fs.mkdir(path.join(zinesDir, "zine-1"), { recursive: true });
+      await fs.writeFile(path.join(zinesDir, "zine-1", "zine.json"), JSON.stringify({ version: 1, title: "M", ...createZine(overrides) }));
+      expect(await getZine("zine-1")).toBeNull();
+    }
+  });
+
+  it("never reads or deletes files outside the zine", async () => {
+    const zine = createZine({
+      pageHistory: [{ current: 1, versions: [hostileVersion] }],
+      pageDrafts: [[hostileDraft], [{ ...hostileDraft, image: outside }]],
+    });
+
+    await expect(getPageVersionPath(zine, 1, 1)).rejects.toThrow("Invalid file path in zine zine-1");
+    await expect(restorePageVersion(zine, 1, 1)).rejects.toThrow("Invalid file path");
+    await expect(getPageDraftPath(zine, 1, 1)).rejects.toThrow("Invalid file path");
+    await expect(pickPageDraft(zine, 1, 1)).rejects.toThrow("Invalid file path");
+    await expect(clearPageDrafts(zine, 1)).rejects.toThrow("Invalid file path");
+    await expect(clearPageDrafts(zine, 2)).rejects.toThrow("Invalid file path");
+    expect(await fs.readFile(outside, "utf-8")).toBe("secret");
+  });
+});
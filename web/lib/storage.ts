@@ -1,22 +1,83 @@
 import fs from "fs/promises";
 import path from "path";
+import sharp from "sharp";
 import type { ZineOutline, PageOutline } from "./gemini";
+import { importMycroZine, type PageTransform, type StyleBible, type TextLayer, type ZineStructure } from "./zine";
+import { generateZineId } from "./utils";
 
-const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "..", "data");
+// Zines live in data/zines, user-defined styles and tones in data/styles and data/tones
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "..", "data");
 const ZINES_DIR = path.join(DATA_DIR, "zines");
 
+// Zines saved before page counts were configurable are classic 8-page mini-zines
+export const DEFAULT_PAGE_COUNT = 8;
+
+// Each zine is a directory with a zine.json manifest (src/manifest.mjs), the same
+// format the mycrozine CLI reads and writes, so zines move between the two as is
 export interface StoredZine {
+  version?: number; // zine.json manifest version, set on save
   id: string;
   topic: string;
+  title?: string; // Defaults to the topic in capitals
   style: string;
   tone: string;
-  outline: PageOutline[];
-  pages: string[]; // Paths to page images (p1.png - p8.png)
-  printLayout?: string; // Path to final print layout
+  structure?: ZineStructure; // Page sequence the outline follows (ZINE_STRUCTURES in src/prompts.mjs, or a list of templates)
+  outline: PageOutline[] | null; // null for CLI drafts that haven't been outlined yet
+  pageCount?: number; // 4, 8 (default), 12, 16 or 24
+  pages: string[]; // Page images relative to the zine directory (pages/p1.png - pages/p{pageCount}.png)
+  pageTransforms?: (PageTransform | null)[]; // Fit, zoom, pan and rotation per page (null: whole page, centred)
+  textLayers?: (TextLayer | null)[]; // Title, body and caption text set over each page at layout time (null: none)
+  textOverlay?: boolean; // Page art is generated without lettering; the text comes from textLayers
+  pageHistory?: (PageHistory | null)[]; // Each page's versions, so earlier attempts can be restored (null: none kept)
+  pageDrafts?: (PageDraft[] | null)[]; // Candidate images per page, waiting to be picked (null: none)
+  styleBible?: StyleBible; // Palette, characters and motifs every page prompt gets, derived from the cover
+  seed?: number; // Image seed for providers that take one, so the pages come out alike
+  sourceUrls?: string[];
+  status?: string;
+  printLayout?: string; // Final print layout, relative to the zine directory
+  printScheme?: string; // Imposition scheme of the print layout (default "mini-8")
+  printSides?: number; // Number of printed sides (print.png, print-2.png, ...)
+  printMarks?: string[]; // Printer's marks on the print layout (fold, cut, crop, legend)
+  printProfile?: string; // Export profile for print downloads (screen, home-print, offset-cmyk, xerox-1bit)
+  imageProvider?: string; // Provider chain override, e.g. "local" or "openai,local"
+  paperFormat?: string; // "letter" (default), "a4", or a custom size like "210x297mm"
+  dpi?: number; // Print resolution (default 300)
   createdAt: string;
   updatedAt: string;
 }
 
+// One image a page has had; versions are numbered from 1 per page
+export interface PageVersion {
+  version: number;
+  image: string; // Relative to the zine directory (pages/history/p{n}-v{version}.png)
+  outline?: PageOutline; // Outline the image was generated from
+  feedback?: string; // Refinement feedback that led to it
+  provider?: string; // Image provider, or "upload" for the user's own artwork
+  createdAt: string;
+}
+
+export interface PageHistory {
+  current: number; // Version the page shows
+  versions: PageVersion[]; // Oldest first
+}
+
+// Versions kept per page; beyond this the oldest (never the current one) are deleted
+export const MAX_PAGE_VERSIONS = 20;
+
+// A candidate image for a page; picking it makes it the page's next version
+export interface PageDraft {
+  draft: number; // Numbered from 1 per round of candidates
+  image: string; // Relative to the zine directory (pages/drafts/p{n}-d{draft}.png)
+  outline?: PageOutline;
+  feedback?: string;
+  provider?: string;
+  fallback?: boolean; // An earlier provider in the chain failed
+  createdAt: string;
+}
+
+// Candidates generated for a page at once
+export const MAX_PAGE_DRAFTS = 4;
+
 async function ensureDir(dir: string): Promise<void> {
   try {
     await fs.access(dir);
@@ -25,24 +86,109 @@ async function ensureDir(dir: string): Promise<void> {
   }
 }
 
-export async function saveZine(zine: StoredZine): Promise<void> {
-  const zineDir = path.join(ZINES_DIR, zine.id);
-  await ensureDir(zineDir);
+interface ManifestModule {
+  PAGE_EXTENSIONS: string[];
+  readManifest(dir: string): Promise<{ manifest: StoredZine; file: string; migrated: boolean }>;
+  writeManifest(dir: string, manifest: StoredZine): Promise<StoredZine>;
+}
 
-  const metadataPath = path.join(zineDir, "metadata.json");
-  await fs.writeFile(metadataPath, JSON.stringify(zine, null, 2));
+// Validates and writes zine.json (absolute paths are stored relative to the zine)
+export async function saveZine(zine: StoredZine): Promise<void> {
+  const manifest = await importMycroZine<ManifestModule>("manifest.mjs");
+  await manifest.writeManifest(path.join(ZINES_DIR, zine.id), zine);
 }
 
+// Reads zine.json, or migrates a metadata.json saved by older versions
 export async function getZine(id: string): Promise<StoredZine | null> {
+  const zineDir = path.join(ZINES_DIR, id);
   try {
-    const metadataPath = path.join(ZINES_DIR, id, "metadata.json");
-    const data = await fs.readFile(metadataPath, "utf-8");
-    return JSON.parse(data);
-  } catch {
+    const manifest = await importMycroZine<ManifestModule>("manifest.mjs");
+    return (await manifest.readManifest(zineDir)).manifest;
+  } catch (error) {
+    if (!(error instanceof Error && error.message.startsWith("No zine.json"))) {
+      console.error(`Failed to read zine ${id}:`, error);
+    }
     return null;
   }
 }
 
+// Zine updates in progress, so concurrent page generations don't overwrite each other's zine.json changes;
+// kept on globalThis so every route (and the job runner) shares them in dev mode too
+const zineLocks: Map<string, Promise<unknown>> = ((globalThis as { mycrozineZineLocks?: Map<string, Promise<unknown>> })
+  .mycrozineZineLocks ??= new Map());
+
+// Read, change and save a zine with no other updateZine of the same zine in between (null if it doesn't exist)
+export async function updateZine(
+  id: string,
+  update: (zine: StoredZine) => void | Promise<void>
+): Promise<StoredZine | null> {
+  const previous = zineLocks.get(id) || Promise.resolve();
+  const next = previous.catch(() => {}).then(async () => {
+    const zine = await getZine(id);
+    if (!zine) {
+      return null;
+    }
+    await update(zine);
+    zine.updatedAt = new Date().toISOString();
+    await saveZine(zine);
+    return zine;
+  });
+  zineLocks.set(id, next);
+  try {
+    return await next;
+  } finally {
+    if (zineLocks.get(id) === next) {
+      zineLocks.delete(id);
+    }
+  }
+}
+
+// .zine bundles (src/bundle.mjs): a zine directory zipped up, for moving zines between instances
+export const BUNDLE_CONFLICT_MODES = ["error", "rename", "overwrite"] as const;
+export type BundleConflictMode = (typeof BUNDLE_CONFLICT_MODES)[number];
+
+export interface ImportedZine {
+  id: string;
+  renamed: boolean; // Imported under another id than the bundle's
+  replaced: boolean; // An existing zine with the id was overwritten
+}
+
+interface BundleModule {
+  createBundle(dir: string): Promise<Buffer>;
+  importBundle(
+    data: Buffer,
+    zinesDir: string,
+    options: { id?: string; conflict?: BundleConflictMode; createId?: () => string }
+  ): Promise<ImportedZine & { dir: string; manifest: StoredZine }>;
+}
+
+export async function exportZineBundle(id: string): Promise<Buffer> {
+  const bundle = await importMycroZine<BundleModule>("bundle.mjs");
+  return bundle.createBundle(path.join(ZINES_DIR, id));
+}
+
+// Throws "Zine <id> already exists ..." when the id is taken and conflict is "error"
+export async function importZineBundle(
+  data: Buffer,
+  options: { id?: string; conflict?: BundleConflictMode } = {}
+): Promise<ImportedZine> {
+  const bundle = await importMycroZine<BundleModule>("bundle.mjs");
+  await ensureDir(ZINES_DIR);
+  const { id, renamed, replaced } = await bundle.importBundle(data, ZINES_DIR, {
+    ...options,
+    createId: generateZineId,
+  });
+  return { id, renamed, replaced };
+}
+
+// Base64 (or a data: URL) from the image providers, or a buffer
+function toImageBuffer(imageData: Buffer | string): Buffer {
+  if (typeof imageData !== "string") {
+    return imageData;
+  }
+  return Buffer.from(imageData.startsWith("data:") ? imageData.split(",")[1] : imageData, "base64");
+}
+
 export async function savePageImage(
   zineId: string,
   pageNumber: number,
@@ -54,25 +200,192 @@ export async function savePageImage(
 
   const filename = `p${pageNumber}.png`;
   const filepath = path.join(pagesDir, filename);
+  await fs.writeFile(filepath, toImageBuffer(imageData));
+
+  // The page may have been a JPEG or WebP from the CLI; the PNG replaces it
+  const { PAGE_EXTENSIONS } = await importMycroZine<ManifestModule>("manifest.mjs");
+  for (const ext of PAGE_EXTENSIONS.filter((ext) => ext !== ".png")) {
+    await fs.rm(path.join(pagesDir, `p${pageNumber}${ext}`), { force: true });
+  }
+
+  return filepath;
+}
 
-  if (typeof imageData === "string") {
-    // Handle base64 data URL
-    if (imageData.startsWith("data:")) {
-      const base64Data = imageData.split(",")[1];
-      await fs.writeFile(filepath, Buffer.from(base64Data, "base64"));
+// A file named in zine.json (e.g. a page version's or draft's image) as a path in the zine's directory.
+// Throws for paths that lead out of it, so an edited or imported zine.json can't reach other files.
+function getZineFilePath(zineId: string, file: string): string {
+  const zineDir = path.resolve(ZINES_DIR, zineId);
+  const filepath = path.resolve(zineDir, file);
+  const relative = path.relative(zineDir, filepath);
+  if (!relative || relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Invalid file path in zine ${zineId}: ${file}`);
+  }
+  return filepath;
+}
+
+/**
+ * Give a page a new image, as the next version in its history (the image it
+ * replaces stays there). Call it within updateZine, which saves the zine.
+ */
+export async function savePageVersion(
+  zine: StoredZine,
+  pageNumber: number,
+  imageData: Buffer | string,
+  details: Pick<PageVersion, "outline" | "feedback" | "provider"> = {}
+): Promise<PageVersion> {
+  const zineDir = path.join(ZINES_DIR, zine.id);
+  await ensureDir(path.join(zineDir, "pages", "history"));
+  const stored = zine.pageHistory?.[pageNumber - 1];
+  const history: PageHistory = stored ? { ...stored, versions: [...stored.versions] } : { current: 0, versions: [] };
+
+  // A page made before versions were kept (or by the CLI, or uploaded) becomes version 1
+  const existing = await getPageImagePath(zine.id, pageNumber);
+  if (history.versions.length === 0 && existing) {
+    const image = `pages/history/p${pageNumber}-v1.png`;
+    if (path.extname(existing) === ".png") {
+      await fs.copyFile(existing, path.join(zineDir, image));
     } else {
-      // Assume it's already base64
-      await fs.writeFile(filepath, Buffer.from(imageData, "base64"));
+      await sharp(existing).png().toFile(path.join(zineDir, image));
     }
-  } else {
-    await fs.writeFile(filepath, imageData);
+    const outline = zine.outline?.[pageNumber - 1];
+    history.versions.push({ version: 1, image, ...(outline ? { outline } : {}), createdAt: zine.updatedAt });
   }
 
-  return filepath;
+  const number = Math.max(0, ...history.versions.map((version) => version.version)) + 1;
+  const version: PageVersion = {
+    version: number,
+    image: `pages/history/p${pageNumber}-v${number}.png`,
+    ...Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)),
+    createdAt: new Date().toISOString(),
+  };
+  const image = toImageBuffer(imageData);
+  await fs.writeFile(path.join(zineDir, version.image), image);
+  history.versions.push(version);
+  history.current = number;
+
+  while (history.versions.length > MAX_PAGE_VERSIONS) {
+    const [oldest] = history.versions.splice(0, 1);
+    await fs.rm(getZineFilePath(zine.id, oldest.image), { force: true });
+  }
+
+  setPageHistory(zine, pageNumber, history);
+  zine.pages[pageNumber - 1] = await savePageImage(zine.id, pageNumber, image);
+  return version;
 }
 
-export async function getPageImagePath(zineId: string, pageNumber: number): Promise<string | null> {
-  const filepath = path.join(ZINES_DIR, zineId, "pages", `p${pageNumber}.png`);
+/**
+ * Show an earlier version of a page again (null if the page has no such
+ * version). Call it within updateZine, which saves the zine.
+ */
+export async function restorePageVersion(
+  zine: StoredZine,
+  pageNumber: number,
+  versionNumber: number
+): Promise<PageVersion | null> {
+  const history = zine.pageHistory?.[pageNumber - 1];
+  const version = history?.versions.find((entry) => entry.version === versionNumber);
+  if (!history || !version) {
+    return null;
+  }
+
+  const image = await fs.readFile(getZineFilePath(zine.id, version.image));
+  zine.pages[pageNumber - 1] = await savePageImage(zine.id, pageNumber, image);
+  setPageHistory(zine, pageNumber, { ...history, current: versionNumber });
+  return version;
+}
+
+/**
+ * Store a round of candidate images for a page, replacing any not picked
+ * from the last round. Call it within updateZine, which saves the zine.
+ */
+export async function savePageDrafts(
+  zine: StoredZine,
+  pageNumber: number,
+  candidates: ({ imageData: Buffer | string } & Pick<PageDraft, "outline" | "feedback" | "provider" | "fallback">)[]
+): Promise<PageDraft[]> {
+  await clearPageDrafts(zine, pageNumber);
+  const zineDir = path.join(ZINES_DIR, zine.id);
+  await ensureDir(path.join(zineDir, "pages", "drafts"));
+
+  const createdAt = new Date().toISOString();
+  const drafts: PageDraft[] = [];
+  for (const [i, { imageData, ...details }] of candidates.entries()) {
+    const draft: PageDraft = {
+      draft: i + 1,
+      image: `pages/drafts/p${pageNumber}-d${i + 1}.png`,
+      ...Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)),
+      createdAt,
+    };
+    await fs.writeFile(path.join(zineDir, draft.image), toImageBuffer(imageData));
+    drafts.push(draft);
+  }
+
+  setPageDrafts(zine, pageNumber, drafts);
+  return drafts;
+}
+
+// Delete a page's drafts; call it within updateZine, which saves the zine
+export async function clearPageDrafts(zine: StoredZine, pageNumber: number): Promise<void> {
+  for (const draft of zine.pageDrafts?.[pageNumber - 1] || []) {
+    await fs.rm(getZineFilePath(zine.id, draft.image), { force: true });
+  }
+  setPageDrafts(zine, pageNumber, null);
+}
+
+/**
+ * Make one of a page's drafts its next version, and drop the others (null if
+ * the page has no such draft). Call it within updateZine, which saves the zine.
+ */
+export async function pickPageDraft(
+  zine: StoredZine,
+  pageNumber: number,
+  draftNumber: number
+): Promise<{ draft: PageDraft; version: PageVersion } | null> {
+  const draft = zine.pageDrafts?.[pageNumber - 1]?.find((entry) => entry.draft === draftNumber);
+  if (!draft) {
+    return null;
+  }
+
+  const image = await fs.readFile(getZineFilePath(zine.id, draft.image));
+  const version = await savePageVersion(zine, pageNumber, image, {
+    outline: draft.outline,
+    feedback: draft.feedback,
+    provider: draft.provider,
+  });
+  await clearPageDrafts(zine, pageNumber);
+  return { draft, version };
+}
+
+// A page draft's image file, to preview it (null if there's no such draft)
+export async function getPageDraftPath(
+  zine: StoredZine,
+  pageNumber: number,
+  draftNumber: number
+): Promise<string | null> {
+  const draft = zine.pageDrafts?.[pageNumber - 1]?.find((entry) => entry.draft === draftNumber);
+  if (!draft) {
+    return null;
+  }
+  const filepath = getZineFilePath(zine.id, draft.image);
+  try {
+    await fs.access(filepath);
+    return filepath;
+  } catch {
+    return null;
+  }
+}
+
+// A page version's image file, to preview it (null if there's no such version)
+export async function getPageVersionPath(
+  zine: StoredZine,
+  pageNumber: number,
+  versionNumber: number
+): Promise<string | null> {
+  const version = zine.pageHistory?.[pageNumber - 1]?.versions.find((entry) => entry.version === versionNumber);
+  if (!version) {
+    return null;
+  }
+  const filepath = getZineFilePath(zine.id, version.image);
   try {
     await fs.access(filepath);
     return filepath;
@@ -81,9 +394,71 @@ export async function getPageImagePath(zineId: string, pageNumber: number): Prom
   }
 }
 
-export async function getAllPagePaths(zineId: string): Promise<string[]> {
+// A page's image in pages/: p3.png, or the JPEG or WebP the CLI accepts too (null if there's none)
+export async function getPageImagePath(zineId: string, pageNumber: number): Promise<string | null> {
+  const { PAGE_EXTENSIONS } = await importMycroZine<ManifestModule>("manifest.mjs");
+  for (const ext of PAGE_EXTENSIONS) {
+    const filepath = path.join(ZINES_DIR, zineId, "pages", `p${pageNumber}${ext}`);
+    try {
+      await fs.access(filepath);
+      return filepath;
+    } catch {
+      // Try the next extension
+    }
+  }
+  return null;
+}
+
+export function getZinePageCount(zine: StoredZine): number {
+  return zine.pageCount || DEFAULT_PAGE_COUNT;
+}
+
+// Set (or with null, reset) a page's transform; saveZine stores it
+export function setPageTransform(zine: StoredZine, pageNumber: number, transform: PageTransform | null): void {
+  const transforms = [...(zine.pageTransforms || [])];
+  transforms[pageNumber - 1] = transform;
+  while (transforms.length > 0 && !transforms[transforms.length - 1]) {
+    transforms.pop();
+  }
+  zine.pageTransforms = transforms;
+}
+
+// Set (or with null, remove) a page's text layer; saveZine stores it
+export function setPageTextLayer(zine: StoredZine, pageNumber: number, layer: TextLayer | null): void {
+  const layers = [...(zine.textLayers || [])];
+  layers[pageNumber - 1] = layer;
+  while (layers.length > 0 && !layers[layers.length - 1]) {
+    layers.pop();
+  }
+  zine.textLayers = layers;
+}
+
+// Set (or with null, clear) a page's version history; saveZine stores it
+function setPageHistory(zine: StoredZine, pageNumber: number, history: PageHistory | null): void {
+  const pageHistory = [...(zine.pageHistory || [])];
+  pageHistory[pageNumber - 1] = history;
+  while (pageHistory.length > 0 && !pageHistory[pageHistory.length - 1]) {
+    pageHistory.pop();
+  }
+  zine.pageHistory = pageHistory;
+}
+
+// Set (or with null, clear) a page's drafts; saveZine stores them
+function setPageDrafts(zine: StoredZine, pageNumber: number, drafts: PageDraft[] | null): void {
+  const pageDrafts = [...(zine.pageDrafts || [])];
+  pageDrafts[pageNumber - 1] = drafts;
+  while (pageDrafts.length > 0 && !pageDrafts[pageDrafts.length - 1]) {
+    pageDrafts.pop();
+  }
+  zine.pageDrafts = pageDrafts;
+}
+
+export async function getAllPagePaths(
+  zineId: string,
+  pageCount: number = DEFAULT_PAGE_COUNT
+): Promise<string[]> {
   const paths: string[] = [];
-  for (let i = 1; i <= 8; i++) {
+  for (let i = 1; i <= pageCount; i++) {
     const pagePath = await getPageImagePath(zineId, i);
     if (pagePath) {
       paths.push(pagePath);
@@ -92,18 +467,27 @@ export async function getAllPagePaths(zineId: string): Promise<string[]> {
   return paths;
 }
 
-export async function savePrintLayout(zineId: string, imageData: Buffer): Promise<string> {
+// Side 1 is print.png; further sides of multi-sheet/duplex layouts are print-2.png, ...
+function printLayoutFilename(side: number): string {
+  return side === 1 ? "print.png" : `print-${side}.png`;
+}
+
+export async function savePrintLayout(
+  zineId: string,
+  imageData: Buffer,
+  side: number = 1
+): Promise<string> {
   const zineDir = path.join(ZINES_DIR, zineId);
   await ensureDir(zineDir);
 
-  const filepath = path.join(zineDir, "print.png");
+  const filepath = path.join(zineDir, printLayoutFilename(side));
   await fs.writeFile(filepath, imageData);
 
   return filepath;
 }
 
-export async function getPrintLayoutPath(zineId: string): Promise<string | null> {
-  const filepath = path.join(ZINES_DIR, zineId, "print.png");
+export async function getPrintLayoutPath(zineId: string, side: number = 1): Promise<string | null> {
+  const filepath = path.join(ZINES_DIR, zineId, printLayoutFilename(side));
   try {
     await fs.access(filepath);
     return filepath;
@@ -125,7 +509,8 @@ export async function listAllZines(): Promise<string[]> {
   try {
     await ensureDir(ZINES_DIR);
     const entries = await fs.readdir(ZINES_DIR, { withFileTypes: true });
-    return entries.filter((e) => e.isDirectory()).map((e) => e.name);
+    // Skip bundle imports still being unpacked (.import-*)
+    return entries.filter((e) => e.isDirectory() && !e.name.startsWith(".")).map((e) => e.name);
   } catch {
     return [];
   }
@@ -1,13 +1,34 @@
 import path from "path";
-import { getAllPagePaths, readFileAsBuffer, savePrintLayout } from "./storage";
+import type { PageOutline } from "./gemini";
+import {
+  DATA_DIR,
+  getAllPagePaths,
+  getPageImagePath,
+  getPrintLayoutPath,
+  readFileAsBase64,
+  readFileAsBuffer,
+  savePrintLayout,
+} from "./storage";
+
+// The user-defined styles and tones (data/styles, data/tones) are read once, before any module uses them
+let stylesLoaded: Promise<void> | null = null;
 
 // Dynamic import of the ES module mycro-zine library
-async function importMycroZine() {
+// webpackIgnore keeps Next from trying to bundle the runtime path
+export async function importMycroZine<T = unknown>(moduleFile: string = "layout.mjs"): Promise<T> {
   // The mycro-zine library is in the parent directory
-  const libPath = path.resolve(process.cwd(), "..", "src", "layout.mjs");
+  const libPath = path.resolve(process.cwd(), "..", "src", moduleFile);
 
   try {
-    const module = await import(libPath);
+    stylesLoaded ??= import(/* webpackIgnore: true */ path.resolve(process.cwd(), "..", "src", "styles.mjs"))
+      .then(async (styles: StylesModule) => {
+        const { errors } = await styles.loadStyles(DATA_DIR);
+        for (const error of errors) {
+          console.warn(`Skipping ${path.join(DATA_DIR, error)}`);
+        }
+      });
+    await stylesLoaded;
+    const module = await import(/* webpackIgnore: true */ libPath);
     return module;
   } catch (error) {
     console.error("Failed to import mycro-zine library:", error);
@@ -15,123 +36,779 @@ async function importMycroZine() {
   }
 }
 
-export interface PrintLayoutOptions {
-  zineId: string;
-  zineName?: string;
-  background?: string;
+// Typed surface of the library modules used by the web app
+interface PdfPage {
+  image: string | Buffer;
+  widthIn: number;
+  heightIn: number;
 }
 
-export async function createPrintLayoutForZine(
-  options: PrintLayoutOptions
-): Promise<{ filepath: string; buffer: Buffer }> {
-  const { zineId, zineName = "mycrozine", background = "#ffffff" } = options;
+interface PdfModule {
+  createPdf(options: { pages: PdfPage[]; profile?: string }): Promise<Buffer>;
+}
 
-  // Get all page image paths
-  const pagePaths = await getAllPagePaths(zineId);
+// How a page image sits in its panel (see src/transform.mjs); offsets are fractions of the panel size
+export interface PageTransform {
+  fit: "contain" | "cover";
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  rotation: number; // degrees clockwise
+}
 
-  if (pagePaths.length !== 8) {
-    throw new Error(`Expected 8 pages, got ${pagePaths.length}`);
-  }
+interface TransformModule {
+  normalizeTransform(transform?: Partial<PageTransform> | null): PageTransform;
+  isDefaultTransform(transform?: Partial<PageTransform> | null): boolean;
+}
 
-  // Read all page images as buffers
-  const pageBuffers = await Promise.all(pagePaths.map((p) => readFileAsBuffer(p)));
+// A block of text set over a page's art (see src/text.mjs); x, y and width are fractions of the panel
+export interface TextBlock {
+  role: "title" | "body" | "caption";
+  text: string;
+  font: string; // mono, sans, serif or a CSS font-family list
+  size: number; // points
+  weight: "normal" | "bold";
+  color: string; // #rrggbb
+  background?: string; // #rrggbb label box behind the text
+  x: number; // left edge, centre or right edge, by align
+  y: number; // top of the block
+  width: number; // wrapping width
+  align: "left" | "center" | "right";
+  lineHeight: number; // multiple of the size
+}
 
-  // Import the layout module
-  const layoutModule = await importMycroZine();
+export interface TextLayer {
+  blocks: TextBlock[];
+}
 
-  // Create the print layout using the existing library
-  // The library expects either file paths or buffers
-  const outputBuffer = await layoutModule.createPrintLayout({
-    pages: pageBuffers,
-    zineName,
-    background,
-    returnBuffer: true, // We'll need to add this option to the library
+interface TextModule {
+  normalizeTextLayer(layer?: { blocks: Partial<TextBlock>[] } | null): TextLayer;
+  isEmptyTextLayer(layer?: TextLayer | null): boolean;
+  createTextLayer(
+    outline: { title: string; subtitle?: string; keyPoints?: string[]; hashtags?: string[] },
+    options?: { style?: string; panel?: { width: number; height: number } }
+  ): TextLayer;
+  createTextSvg(layer: TextLayer, options: { width: number; height: number; dpi?: number }): Buffer | null;
+}
+
+interface TemplatesModule {
+  assignPageTemplates(outline: PageOutline[], structure: ZineStructure): PageOutline[];
+  createTemplateTextLayer(
+    page: PageOutline,
+    options?: { template?: string; style?: string; panel?: { width: number; height: number } }
+  ): TextLayer;
+  renderTemplatePage(
+    page: PageOutline,
+    options: { width: number; height: number; dpi?: number; template?: string; style?: string; withText?: boolean }
+  ): Promise<Buffer>;
+}
+
+interface LayoutModule {
+  createReaderPdf(options: {
+    pages: Array<string | Buffer>;
+    paperFormat?: string;
+    scheme?: string;
+    transforms?: (PageTransform | null)[];
+    textLayers?: (TextLayer | null)[];
+  }): Promise<Buffer>;
+  createPrintLayout(options: {
+    pages: Array<string | Buffer>;
+    transforms?: (PageTransform | null)[];
+    textLayers?: (TextLayer | null)[];
+    output: "buffer";
+    zineName?: string;
+    format?: "png" | "pdf";
+    scheme?: string;
+    paperFormat?: string;
+    dpi?: number;
+    marks?: MarkOptions["marks"];
+    margin?: number;
+    bleed?: number;
+    separations?: boolean | string | string[];
+    style?: string;
+  }): Promise<Buffer | Buffer[]>;
+}
+
+export interface Paper {
+  name: string;
+  dpi: number;
+  widthIn: number;
+  heightIn: number;
+  width: number;
+  height: number;
+  margin: number;
+  trimWidth: number;
+  trimHeight: number;
+  panelWidth: number;
+  panelHeight: number;
+  panelCols: number;
+  panelRows: number;
+}
+
+interface PaperModule {
+  resolvePaper(
+    format?: string,
+    options?: { dpi?: number; cols?: number; rows?: number; margin?: number }
+  ): Paper;
+  isValidPaperFormat(format: unknown): boolean;
+}
+
+export interface ImpositionSlot {
+  page: number;
+  col: number;
+  row: number;
+  rotate: number;
+  spine?: "left" | "right";
+  creepStep?: number;
+}
+
+export interface ImpositionScheme {
+  name: string;
+  description: string;
+  pageCount: number;
+  grid: { cols: number; rows: number };
+  duplex: boolean;
+  flip?: string;
+  paperFormat?: string;
+  creep?: number;
+  cuts?: { from: [number, number]; to: [number, number] }[];
+  assembly?: string;
+  sheets: { front: ImpositionSlot[]; back?: ImpositionSlot[] }[];
+}
+
+export interface PrintSide {
+  sheet: number;
+  side: "front" | "back";
+  slots: ImpositionSlot[];
+}
+
+interface ImpositionModule {
+  PAGE_COUNTS: number[];
+  getImpositionScheme(name?: string): ImpositionScheme;
+  getDefaultScheme(pageCount?: number): ImpositionScheme;
+  listImpositionSchemes(pageCount?: number): ImpositionScheme[];
+  getSchemeSides(scheme: ImpositionScheme): PrintSide[];
+}
+
+interface MarksModule {
+  parseMarks(value?: MarkOptions["marks"]): string[];
+  resolveMarkMargins(marks: string[], options?: { margin?: number; bleed?: number }): { margin: number; bleed: number };
+  createMarksSvg(options: {
+    scheme: ImpositionScheme;
+    paper: Paper;
+    side: { sheet: number; side: string };
+    marks: string[];
+    bleed?: number;
+  }): Buffer | null;
+}
+
+export type ExportFormat = "png" | "pdf" | "tiff";
+
+export interface ExportProfile {
+  name: string;
+  description: string;
+  colorspace: "srgb" | "cmyk" | "b-w";
+  bitDepth: number;
+  dither: "none" | "floyd-steinberg";
+  icc?: string;
+  compression: Partial<Record<ExportFormat, string>>;
+}
+
+interface ProfilesModule {
+  EXPORT_PROFILES: Record<string, ExportProfile>;
+  DEFAULT_PROFILE: string;
+  getExportProfile(name?: string): ExportProfile;
+  getProfileFormats(profile: string | ExportProfile): ExportFormat[];
+  exportImage(
+    input: string | Buffer,
+    options: { profile: ExportProfile; format: ExportFormat; dpi?: number }
+  ): Promise<Buffer>;
+}
+
+export interface RisoInk {
+  name: string;
+  color: string;
+}
+
+interface SeparationsModule {
+  RISO_INKS: Record<string, string>;
+  parseInks(value: boolean | string | string[], options?: { style?: string }): RisoInk[];
+}
+
+interface ZipModule {
+  createZip(entries: { name: string; data: Buffer | string; modified?: Date }[]): Buffer;
+}
+
+export type ArtworkFit = "contain" | "cover";
+
+interface ArtworkModule {
+  normalizeArtwork(
+    data: Buffer,
+    options: { width: number; height: number; fit?: ArtworkFit; background?: string; page?: number }
+  ): Promise<Buffer>;
+}
+
+// A visual style from the registry (src/styles.mjs); builtIn ones can't be changed
+export interface ZineStyle {
+  name: string;
+  label: string;
+  description: string;
+  prompt: string; // Fragment for image model prompts
+  palette: { background: string; foreground: string; accent: string; inks?: string[] };
+  fonts: { title: string; body: string }; // Library fonts (src/fonts.mjs)
+  texture: string; // Paper texture of template pages: none, dots, halftone, paper or grid
+  qr: { dark: string; light: string };
+  references: string[]; // Reference image file names
+  default?: boolean; // The house style new zines get
+  builtIn?: boolean;
+}
+
+export interface ZineTone {
+  name: string;
+  label: string;
+  description: string;
+  prompt: string;
+  builtIn?: boolean;
+}
+
+interface StylesModule {
+  loadStyles(dir?: string): Promise<{ styles: string[]; tones: string[]; errors: string[] }>;
+  getStyle(name: string): ZineStyle | null;
+  resolveStyle(name?: string): ZineStyle;
+  getTone(name: string): ZineTone | null;
+  resolveTone(name?: string): ZineTone;
+  listStyles(): ZineStyle[];
+  listTones(): ZineTone[];
+  getDefaultStyle(): string;
+  saveStyle(style: Partial<ZineStyle>): Promise<ZineStyle>;
+  deleteStyle(name: string): Promise<void>;
+  saveTone(tone: Partial<ZineTone>): Promise<ZineTone>;
+  deleteTone(name: string): Promise<void>;
+  addStyleReference(name: string, image: Buffer): Promise<{ style: ZineStyle; file: string }>;
+  removeStyleReference(name: string, file: string): Promise<ZineStyle>;
+  getStyleReferencePaths(name: string): string[];
+}
+
+// A zine's palette, recurring characters and motifs (see src/consistency.mjs), which every page prompt gets
+export interface StyleBible {
+  palette: string[]; // #rrggbb
+  characters: string[];
+  motifs: string[];
+  notes?: string;
+  source: "cover" | "user"; // Derived from the cover (rebuilt when it changes), or set by the user (kept)
+  createdAt: string;
+}
+
+interface ConsistencyModule {
+  createZineSeed(): number;
+  getZineSeed(zine: { id: string; seed?: number }): number;
+  createStyleBible(cover: Buffer, details?: { characters?: string[]; motifs?: string[]; notes?: string }): Promise<StyleBible>;
+  parseStyleBible(bible: Partial<StyleBible>): StyleBible;
+  describeStyleBible(bible?: StyleBible | null): string;
+  selectReferencePages(pageNumber: number, available: number[], max?: number): number[];
+  createPageReference(image: Buffer, size?: number): Promise<Buffer>;
+}
+
+interface PromptsModule {
+  PAGE_TEMPLATES: Record<string, { type: string; description: string; elements: string[] }>;
+  getDefaultStructure(tone?: string): string;
+  getStructureTemplates(structure: ZineStructure, pageCount?: number): string[];
+}
+
+// A ZINE_STRUCTURES name (educational, manifesto, howto) or a custom list of page templates, one per page
+export type ZineStructure = string | string[];
+
+export interface PageTemplateInfo {
+  template: string;
+  type: string;
+  description: string;
+  elements: string[];
+}
+
+export interface PaperOptions {
+  paperFormat?: string;
+  dpi?: number;
+  scheme?: string;
+  margin?: number; // Trim box inset from the sheet edge, in inches
+}
+
+// Printer's marks on the print layout (see src/marks.mjs)
+export interface MarkOptions {
+  marks?: boolean | string | string[]; // true/"all", or any of fold, cut, crop, legend
+  margin?: number; // inches, default 0.25 with marks
+  bleed?: number; // inches, default 1/16 with a margin
+}
+
+export async function getImpositionScheme(name: string = "mini-8"): Promise<ImpositionScheme> {
+  const imposition = await importMycroZine<ImpositionModule>("imposition.mjs");
+  return imposition.getImpositionScheme(name);
+}
+
+// Scheme a zine prints with when none was picked (mini-8 for 8 pages, mini-16 for 16, ...)
+export async function getDefaultScheme(pageCount?: number): Promise<ImpositionScheme> {
+  const imposition = await importMycroZine<ImpositionModule>("imposition.mjs");
+  return imposition.getDefaultScheme(pageCount);
+}
+
+export async function isSupportedPageCount(pageCount: unknown): Promise<boolean> {
+  const imposition = await importMycroZine<ImpositionModule>("imposition.mjs");
+  return typeof pageCount === "number" && imposition.PAGE_COUNTS.includes(pageCount);
+}
+
+export async function listImpositionSchemes(pageCount?: number): Promise<ImpositionScheme[]> {
+  const imposition = await importMycroZine<ImpositionModule>("imposition.mjs");
+  return imposition.listImpositionSchemes(pageCount);
+}
+
+/**
+ * Resolve a zine's paper format (default: US Letter @ 300 DPI) into pixel geometry,
+ * with panels laid out on the imposition scheme's grid (default: mini-8, 4 x 2)
+ */
+export async function resolveZinePaper({ paperFormat, dpi, scheme, margin }: PaperOptions = {}): Promise<Paper> {
+  const { grid, paperFormat: schemePaper } = await getImpositionScheme(scheme);
+  const paper = await importMycroZine<PaperModule>("paper.mjs");
+  return paper.resolvePaper(paperFormat || schemePaper || "letter", { dpi, margin, ...grid });
+}
+
+// Normalize and validate a marks option (throws on unknown mark types)
+export async function parseMarks(value: MarkOptions["marks"]): Promise<string[]> {
+  const marks = await importMycroZine<MarksModule>("marks.mjs");
+  return marks.parseMarks(value);
+}
+
+// Export profile by name (throws on unknown profiles; default: home-print)
+export async function getExportProfile(name?: string): Promise<ExportProfile> {
+  const profiles = await importMycroZine<ProfilesModule>("profiles.mjs");
+  return profiles.getExportProfile(name);
+}
+
+export async function getProfileFormats(name?: string): Promise<ExportFormat[]> {
+  const profiles = await importMycroZine<ProfilesModule>("profiles.mjs");
+  return profiles.getProfileFormats(profiles.getExportProfile(name));
+}
+
+// Risograph inks for a separations option (throws on unknown inks; true: the style's inks)
+export async function parseInks(value: boolean | string | string[], style?: string): Promise<RisoInk[]> {
+  const separations = await importMycroZine<SeparationsModule>("separations.mjs");
+  return separations.parseInks(value, { style });
+}
+
+export async function isValidPaperFormat(paperFormat: unknown): Promise<boolean> {
+  const paper = await importMycroZine<PaperModule>("paper.mjs");
+  return paper.isValidPaperFormat(paperFormat);
+}
+
+/**
+ * Turn uploaded page artwork (PNG, JPEG, WebP, PDF or SVG) into a page image
+ * at the zine's panel size, padded with the style's paper colour for "contain"
+ */
+export async function normalizePageArtwork(
+  data: Buffer,
+  paperOptions: PaperOptions = {},
+  { fit, style, page }: { fit?: ArtworkFit; style?: string; page?: number } = {}
+): Promise<Buffer> {
+  const paper = await resolveZinePaper(paperOptions);
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  const artwork = await importMycroZine<ArtworkModule>("artwork.mjs");
+  return artwork.normalizeArtwork(data, {
+    width: paper.panelWidth,
+    height: paper.panelHeight,
+    fit,
+    background: (style && styles.getStyle(style)?.palette.background) || "#ffffff",
+    page,
   });
+}
 
-  // Save the print layout
-  const filepath = await savePrintLayout(zineId, outputBuffer);
+// Every style and tone, built-in ones first, and the style new zines get
+export async function listZineStyles(): Promise<{ styles: ZineStyle[]; tones: ZineTone[]; defaultStyle: string }> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return { styles: styles.listStyles(), tones: styles.listTones(), defaultStyle: styles.getDefaultStyle() };
+}
 
-  return { filepath, buffer: outputBuffer };
+export async function getZineStyle(name: string): Promise<ZineStyle | null> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return styles.getStyle(name);
 }
 
-// Alternative: Create print layout directly with Sharp if library doesn't support buffer return
-import sharp from "sharp";
+export async function getZineTone(name: string): Promise<ZineTone | null> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return styles.getTone(name);
+}
 
-export async function createPrintLayoutDirect(
-  zineId: string,
-  zineName: string = "mycrozine"
-): Promise<{ filepath: string; buffer: Buffer }> {
-  const pagePaths = await getAllPagePaths(zineId);
+// Prompt fragments for a style and tone (unknown names get punk-zine's and rebellious')
+export async function describeZineStyle(style?: string, tone?: string): Promise<{ style: string; tone: string }> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return { style: styles.resolveStyle(style).prompt, tone: styles.resolveTone(tone).prompt };
+}
+
+// A style's reference images as base64 PNGs, for image models that take them
+export async function readStyleReferences(style?: string): Promise<string[]> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return Promise.all(styles.getStyleReferencePaths(style || "").map(readFileAsBase64));
+}
+
+// A new zine's image seed
+export async function createZineSeed(): Promise<number> {
+  const consistency = await importMycroZine<ConsistencyModule>("consistency.mjs");
+  return consistency.createZineSeed();
+}
 
-  if (pagePaths.length !== 8) {
-    throw new Error(`Expected 8 pages, got ${pagePaths.length}`);
+// A zine's image seed: its own, or one derived from its id for zines saved without one
+export async function getZineSeed(zine: { id: string; seed?: number }): Promise<number> {
+  const consistency = await importMycroZine<ConsistencyModule>("consistency.mjs");
+  return consistency.getZineSeed(zine);
+}
+
+// Derive a style bible from a cover image: its palette, and what was seen on it
+export async function createStyleBible(
+  cover: Buffer,
+  details?: { characters?: string[]; motifs?: string[]; notes?: string }
+): Promise<StyleBible> {
+  const consistency = await importMycroZine<ConsistencyModule>("consistency.mjs");
+  return consistency.createStyleBible(cover, details);
+}
+
+// Validate a style bible and fill in defaults (throws on invalid ones)
+export async function parseStyleBible(bible: Partial<StyleBible>): Promise<StyleBible> {
+  const consistency = await importMycroZine<ConsistencyModule>("consistency.mjs");
+  return consistency.parseStyleBible(bible);
+}
+
+// The style bible as a prompt section, or "" when it has nothing to say
+export async function describeStyleBible(bible?: StyleBible | null): Promise<string> {
+  const consistency = await importMycroZine<ConsistencyModule>("consistency.mjs");
+  return consistency.describeStyleBible(bible);
+}
+
+// Other pages of the zine to send along with a page (the cover, then the nearest), as small base64 PNGs
+export async function readPageReferences(zineId: string, pageNumber: number, pageCount: number): Promise<string[]> {
+  const consistency = await importMycroZine<ConsistencyModule>("consistency.mjs");
+  const pages: { pageNumber: number; file: string }[] = [];
+  for (let i = 1; i <= pageCount; i++) {
+    const file = await getPageImagePath(zineId, i);
+    if (file) {
+      pages.push({ pageNumber: i, file });
+    }
   }
+  const selected = consistency.selectReferencePages(pageNumber, pages.map((page) => page.pageNumber));
+  return Promise.all(
+    selected.map(async (number) => {
+      const { file } = pages.find((page) => page.pageNumber === number)!;
+      return (await consistency.createPageReference(await readFileAsBuffer(file))).toString("base64");
+    })
+  );
+}
 
-  // Print layout dimensions (300 DPI, 11" x 8.5")
-  const PRINT_WIDTH = 3300;
-  const PRINT_HEIGHT = 2550;
-  const PANEL_WIDTH = 825;
-  const PANEL_HEIGHT = 1275;
-
-  // Page arrangement for proper folding:
-  // Top row (rotated 180°): P1, P8, P7, P6
-  // Bottom row (normal):    P2, P3, P4, P5
-  const pageArrangement = [
-    // Top row
-    { page: 1, col: 0, row: 0, rotate: 180 },
-    { page: 8, col: 1, row: 0, rotate: 180 },
-    { page: 7, col: 2, row: 0, rotate: 180 },
-    { page: 6, col: 3, row: 0, rotate: 180 },
-    // Bottom row
-    { page: 2, col: 0, row: 1, rotate: 0 },
-    { page: 3, col: 1, row: 1, rotate: 0 },
-    { page: 4, col: 2, row: 1, rotate: 0 },
-    { page: 5, col: 3, row: 1, rotate: 0 },
-  ];
+// Add or replace a user-defined style or tone (throws on invalid ones and built-in names)
+export async function saveZineStyle(style: Partial<ZineStyle>): Promise<ZineStyle> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return styles.saveStyle(style);
+}
+
+export async function saveZineTone(tone: Partial<ZineTone>): Promise<ZineTone> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return styles.saveTone(tone);
+}
+
+export async function deleteZineStyle(name: string): Promise<void> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  await styles.deleteStyle(name);
+}
+
+export async function deleteZineTone(name: string): Promise<void> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  await styles.deleteTone(name);
+}
+
+export async function addStyleReference(name: string, image: Buffer): Promise<{ style: ZineStyle; file: string }> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return styles.addStyleReference(name, image);
+}
+
+export async function removeStyleReference(name: string, file: string): Promise<ZineStyle> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return styles.removeStyleReference(name, file);
+}
+
+// Path of one of a style's reference images, or null if it has no such image
+export async function getStyleReferencePath(name: string, file: string): Promise<string | null> {
+  const styles = await importMycroZine<StylesModule>("styles.mjs");
+  return styles.getStyleReferencePaths(name).find((ref) => path.basename(ref) === file) ?? null;
+}
+
+// Validate a page transform and fill in defaults; null when it's the default (whole page, centred)
+export async function normalizePageTransform(
+  transform?: Partial<PageTransform> | null
+): Promise<PageTransform | null> {
+  const transforms = await importMycroZine<TransformModule>("transform.mjs");
+  const normalized = transforms.normalizeTransform(transform);
+  return transforms.isDefaultTransform(normalized) ? null : normalized;
+}
+
+// Validate a page's text layer and fill in defaults; null when it prints nothing
+export async function normalizePageTextLayer(
+  layer?: { blocks: Partial<TextBlock>[] } | null
+): Promise<TextLayer | null> {
+  const text = await importMycroZine<TextModule>("text.mjs");
+  const normalized = text.normalizeTextLayer(layer);
+  return text.isEmptyTextLayer(normalized) ? null : normalized;
+}
+
+// Structure an outline follows when none is picked (see ZINE_STRUCTURES in src/prompts.mjs)
+export async function getDefaultZineStructure(tone?: string): Promise<string> {
+  const prompts = await importMycroZine<PromptsModule>("prompts.mjs");
+  return prompts.getDefaultStructure(tone);
+}
 
-  // Create base canvas
-  const canvas = sharp({
-    create: {
-      width: PRINT_WIDTH,
-      height: PRINT_HEIGHT,
-      channels: 4,
-      background: { r: 255, g: 255, b: 255, alpha: 1 },
-    },
+// Check a structure picked for a zine: a known name, or a known template for every page (throws if not)
+export async function validateZineStructure(structure: unknown, pageCount: number): Promise<ZineStructure> {
+  const prompts = await importMycroZine<PromptsModule>("prompts.mjs");
+  if (!(typeof structure === "string" || (Array.isArray(structure) && structure.every((name) => typeof name === "string")))) {
+    throw new Error("Structure must be a structure name or a list of page templates");
+  }
+  prompts.getStructureTemplates(structure, pageCount);
+  return structure;
+}
+
+// Template of each page for a structure and page count, with what goes on it (for outline prompts)
+export async function describeZineStructure(structure: ZineStructure, pageCount: number): Promise<PageTemplateInfo[]> {
+  const prompts = await importMycroZine<PromptsModule>("prompts.mjs");
+  return prompts.getStructureTemplates(structure, pageCount).map((template) => ({
+    template,
+    type: prompts.PAGE_TEMPLATES[template].type,
+    description: prompts.PAGE_TEMPLATES[template].description,
+    elements: prompts.PAGE_TEMPLATES[template].elements,
+  }));
+}
+
+// Give outline pages the template (and page type) their structure has for them
+export async function assignOutlineTemplates(pages: PageOutline[], structure: ZineStructure): Promise<PageOutline[]> {
+  const templates = await importMycroZine<TemplatesModule>("templates.mjs");
+  return templates.assignPageTemplates(pages, structure);
+}
+
+// Draw a page from its outline template (src/templates.mjs), without an image model
+export async function renderPageFromTemplate(
+  outline: PageOutline,
+  options: { width: number; height: number; dpi?: number; style?: string; withText?: boolean }
+): Promise<Buffer> {
+  const templates = await importMycroZine<TemplatesModule>("templates.mjs");
+  return templates.renderTemplatePage(outline, options);
+}
+
+// Default text layer for a page: its outline's title, key points and hashtags, stacked for the zine's panel.
+// Pages drawn from their template (fromTemplate) get the words in the template's text slots instead.
+export async function createPageTextLayer(
+  outline: PageOutline,
+  paperOptions: PaperOptions = {},
+  style?: string,
+  fromTemplate: boolean = false
+): Promise<TextLayer> {
+  const paper = await resolveZinePaper(paperOptions);
+  const panel = { width: paper.panelWidth / paper.dpi, height: paper.panelHeight / paper.dpi };
+  if (fromTemplate) {
+    const templates = await importMycroZine<TemplatesModule>("templates.mjs");
+    return templates.createTemplateTextLayer(outline, { style, panel });
+  }
+  const text = await importMycroZine<TextModule>("text.mjs");
+  return text.createTextLayer(outline, { style, panel });
+}
+
+// A page's text layer as a panel-sized SVG, for previews over the page image (null when it prints nothing)
+export async function renderPageTextSvg(layer: TextLayer, paperOptions: PaperOptions = {}): Promise<Buffer | null> {
+  const paper = await resolveZinePaper(paperOptions);
+  const text = await importMycroZine<TextModule>("text.mjs");
+  return text.createTextSvg(layer, { width: paper.panelWidth, height: paper.panelHeight, dpi: paper.dpi });
+}
+
+export type PdfOrder = "print" | "reader";
+
+/**
+ * Impose a zine's pages with the library's createPrintLayout and store each
+ * printed side (print.png, print-2.png, ...) as the sRGB master for downloads
+ */
+export async function createPrintLayoutForZine(
+  zineId: string,
+  zineName: string = "mycrozine",
+  paperOptions: PaperOptions = {},
+  markOptions: MarkOptions = {},
+  transforms: (PageTransform | null)[] = [],
+  textLayers: (TextLayer | null)[] = []
+): Promise<{ filepath: string; buffer: Buffer; filepaths: string[]; scheme: ImpositionScheme; marks: string[] }> {
+  const scheme = await getImpositionScheme(paperOptions.scheme);
+  const pagePaths = await getAllPagePaths(zineId, scheme.pageCount);
+
+  if (pagePaths.length !== scheme.pageCount) {
+    throw new Error(`Expected ${scheme.pageCount} pages for ${scheme.name}, got ${pagePaths.length}`);
+  }
+
+  const marks = await parseMarks(markOptions.marks);
+  const layout = await importMycroZine<LayoutModule>("layout.mjs");
+  const result = await layout.createPrintLayout({
+    pages: pagePaths,
+    transforms,
+    textLayers,
+    output: "buffer",
+    zineName,
+    scheme: scheme.name,
+    paperFormat: paperOptions.paperFormat,
+    dpi: paperOptions.dpi,
+    marks,
+    margin: markOptions.margin,
+    bleed: markOptions.bleed,
   });
 
-  // Prepare composites
-  const composites: sharp.OverlayOptions[] = [];
+  // One buffer per printed side (duplex/multi-sheet schemes have several)
+  const buffers = ([] as Buffer[]).concat(result);
+  const filepaths: string[] = [];
+  for (const [sideIndex, buffer] of buffers.entries()) {
+    filepaths.push(await savePrintLayout(zineId, buffer, sideIndex + 1));
+  }
 
-  for (const { page, col, row, rotate } of pageArrangement) {
-    const pageBuffer = await readFileAsBuffer(pagePaths[page - 1]);
+  return { filepath: filepaths[0], buffer: buffers[0], filepaths, scheme, marks };
+}
+
+/**
+ * Render a zine as PDF at true print size
+ * - "print": the imposed sheet at its paper size (e.g. 11" x 8.5")
+ * - "reader": one page per zine page, in reading order
+ */
+export async function createZinePdf(
+  zineId: string,
+  order: PdfOrder = "print",
+  paperOptions: PaperOptions = {},
+  sideCount: number = 1,
+  profile?: string,
+  transforms: (PageTransform | null)[] = [],
+  textLayers: (TextLayer | null)[] = []
+): Promise<Buffer> {
+  if (order === "reader") {
+    const scheme = await getImpositionScheme(paperOptions.scheme);
+    const pagePaths = await getAllPagePaths(zineId, scheme.pageCount);
+    if (pagePaths.length !== scheme.pageCount) {
+      throw new Error(`Expected ${scheme.pageCount} pages, got ${pagePaths.length}`);
+    }
 
-    // Resize page to panel size, maintaining aspect ratio
-    let processedPage = sharp(pageBuffer).resize(PANEL_WIDTH, PANEL_HEIGHT, {
-      fit: "cover",
-      position: "center",
+    const layout = await importMycroZine<LayoutModule>("layout.mjs");
+    return layout.createReaderPdf({
+      pages: pagePaths,
+      paperFormat: paperOptions.paperFormat,
+      scheme: scheme.name,
+      transforms,
+      textLayers,
     });
+  }
 
-    // Rotate if needed
-    if (rotate !== 0) {
-      processedPage = processedPage.rotate(rotate);
+  // One PDF page per printed side (duplex/multi-sheet schemes have several)
+  const printPaths: string[] = [];
+  for (let side = 1; side <= sideCount; side++) {
+    const printPath = await getPrintLayoutPath(zineId, side);
+    if (!printPath) {
+      throw new Error("Print layout not found. Generate it first.");
     }
+    printPaths.push(printPath);
+  }
+
+  const paper = await resolveZinePaper(paperOptions);
+  const pdf = await importMycroZine<PdfModule>("pdf.mjs");
+  return pdf.createPdf({
+    pages: printPaths.map((image) => ({ image, widthIn: paper.widthIn, heightIn: paper.heightIn })),
+    profile,
+  });
+}
 
-    const pageData = await processedPage.toBuffer();
+/**
+ * Encode one printed side with an export profile (CMYK TIFF, 1-bit PNG, ...)
+ * The stored print layout stays sRGB; profiles that can't be written as PNG
+ * (offset-cmyk) get the stored layout back for PNG, as a preview.
+ */
+export async function exportZinePrintSide(
+  zineId: string,
+  side: number = 1,
+  format: Exclude<ExportFormat, "pdf"> = "png",
+  profile?: string,
+  dpi?: number
+): Promise<Buffer> {
+  const printPath = await getPrintLayoutPath(zineId, side);
+  if (!printPath) {
+    throw new Error("Print layout not found. Generate it first.");
+  }
 
-    composites.push({
-      input: pageData,
-      left: col * PANEL_WIDTH,
-      top: row * PANEL_HEIGHT,
-    });
+  const profiles = await importMycroZine<ProfilesModule>("profiles.mjs");
+  const exportProfile = profiles.getExportProfile(profile);
+  const master = await readFileAsBuffer(printPath);
+  if (format === "png" && (!profile || !exportProfile.compression.png)) {
+    return master;
+  }
+
+  return profiles.exportImage(master, { profile: exportProfile, format, dpi });
+}
+
+/**
+ * Split a zine's print layout into risograph separations and bundle them as a ZIP:
+ * one grayscale layer per ink and printed side (PNG), plus one PDF per ink
+ * with every side, all with registration marks. Re-rendered from the pages so
+ * the printer's marks only land on the first layer.
+ */
+export async function createZineSeparationsZip(
+  zineId: string,
+  paperOptions: PaperOptions = {},
+  {
+    inks,
+    style,
+    marks,
+    transforms,
+    textLayers,
+  }: {
+    inks?: string;
+    style?: string;
+    marks?: MarkOptions["marks"];
+    transforms?: (PageTransform | null)[];
+    textLayers?: (TextLayer | null)[];
+  } = {}
+): Promise<Buffer> {
+  const scheme = await getImpositionScheme(paperOptions.scheme);
+  const pagePaths = await getAllPagePaths(zineId, scheme.pageCount);
+  if (pagePaths.length !== scheme.pageCount) {
+    throw new Error(`Expected ${scheme.pageCount} pages for ${scheme.name}, got ${pagePaths.length}`);
   }
 
-  // Composite all pages
-  const outputBuffer = await canvas.composite(composites).png().toBuffer();
+  const inkList = await parseInks(inks || true, style);
+  const imposition = await importMycroZine<ImpositionModule>("imposition.mjs");
+  const sides = imposition.getSchemeSides(scheme);
+  const layout = await importMycroZine<LayoutModule>("layout.mjs");
+  const separate = async (format: "png" | "pdf") =>
+    ([] as Buffer[]).concat(
+      await layout.createPrintLayout({
+        pages: pagePaths,
+        transforms,
+        textLayers,
+        output: "buffer",
+        format,
+        scheme: scheme.name,
+        paperFormat: paperOptions.paperFormat,
+        dpi: paperOptions.dpi,
+        marks,
+        separations: inks || true,
+        style,
+      })
+    );
 
-  // Save the print layout
-  const filepath = await savePrintLayout(zineId, outputBuffer);
+  // PNG layers come side by side, each side's inks in order; PDFs one per ink
+  const pngs = await separate("png");
+  const pdfs = await separate("pdf");
+  const sideSuffix = (i: number) =>
+    sides.length > 1 ? `_sheet${sides[i].sheet}_${sides[i].side}` : "";
+  const entries = [
+    ...pngs.map((data, i) => ({
+      name: `${zineId}_riso${sideSuffix(Math.floor(i / inkList.length))}_${inkList[i % inkList.length].name}.png`,
+      data,
+    })),
+    ...pdfs.map((data, i) => ({ name: `${zineId}_riso_${inkList[i].name}.pdf`, data })),
+  ];
 
-  return { filepath, buffer: outputBuffer };
+  const zip = await importMycroZine<ZipModule>("zip.mjs");
+  return zip.createZip(entries);
 }
 
-export { createPrintLayoutDirect as createZinePrintLayout };
+export { createPrintLayoutForZine as createZinePrintLayout };